@@ -318,6 +318,44 @@ describe('Ability Parser - Destroy', () => {
   })
 })
 
+// ================================
+// GRAVEYARD TESTS
+// ================================
+
+describe('Ability Parser - Graveyard', () => {
+  it('should parse "return a unit from your graveyard to hand"', () => {
+    const result = parseAbilityDescription('Return a unit from your graveyard to hand')
+    expect(result.actions).toHaveLength(1)
+    expectAction(result.actions[0], 'returnFromGraveyard')
+    expect(result.actions[0].amount).toBe(1)
+  })
+
+  it('should parse a count of units returned to hand', () => {
+    const result = parseAbilityDescription('Return two units from your graveyard to your hand')
+    expectAction(result.actions[0], 'returnFromGraveyard')
+    expect(result.actions[0].amount).toBe(2)
+  })
+
+  it('should parse "resurrect"', () => {
+    const result = parseAbilityDescription('When this dies, resurrect a unit')
+    expectTrigger(result, 'on_death')
+    expectAction(result.actions[0], 'resurrectUnit')
+    expect(result.actions[0].amount).toBe(1)
+    expectTarget(result.actions[0], 'player')
+  })
+
+  it('should parse Judgement returning every dead unit to both sides', () => {
+    const result = parseAbilityDescription(
+      "Return all units that died this game to the battlefield under their owner's control with 1 health",
+    )
+    expect(result.actions).toHaveLength(1)
+    expectAction(result.actions[0], 'resurrectUnit')
+    expect(result.actions[0].amount).toBe(-1)
+    expectTarget(result.actions[0], 'all_units')
+    expect(result.actions[0].statModifiers).toEqual({ health: 1 })
+  })
+})
+
 // ================================
 // SUMMON TESTS
 // ================================
@@ -808,6 +846,8 @@ describe('Ability Parser - Action types map to executor names', () => {
     'buffAllUnits',
     'destroyAllUnits',
     'addKeyword',
+    'returnFromGraveyard',
+    'resurrectUnit',
   ]
 
   it('all parsed action types should be valid executor names', () => {
@@ -825,6 +865,8 @@ describe('Ability Parser - Action types map to executor names', () => {
       'Give all friendly units +1/+1',
       'Destroy all units',
       'Gain Lifesteal',
+      'Return a unit from your graveyard to hand',
+      'Resurrect a unit',
     ]
 
     for (const desc of testDescriptions) {
@@ -210,21 +210,15 @@ describe('Card Interaction Flow - Integration Tests', () => {
             mockInteraction.targetingMode = 'attack'
             mockInteraction.validAttackTargets = new Set(['p2-unit-1', 'p2-unit-2'])
 
-            const { declareAttack } = await import('@/services/combat_service')
-            vi.mocked(declareAttack).mockResolvedValue(mockGameState)
-
             const { result } = renderHook(() => useCombatActions())
 
             await act(async () => {
                 await result.current.handleTargetClick('p2-unit-1', 'unit')
             })
 
-            // Should execute the attack
-            expect(declareAttack).toHaveBeenCalledWith(mockGameState, {
-                attackerId: 'p1-unit-1',
-                targetType: 'unit',
-                targetId: 'p2-unit-1',
-            })
+            // The store resolves the attack, so the hook doesn't declare it a second time
+            const { declareAttack } = await import('@/services/combat_service')
+            expect(declareAttack).not.toHaveBeenCalled()
             expect(mockExecuteAttack).toHaveBeenCalledWith('p2-unit-1', 'unit')
         })
 
@@ -243,9 +237,6 @@ describe('Card Interaction Flow - Integration Tests', () => {
         it('should clear attack state after successful attack', async () => {
             mockInteraction.attackSource = 'p1-unit-1'
 
-            const { declareAttack } = await import('@/services/combat_service')
-            vi.mocked(declareAttack).mockResolvedValue(mockGameState)
-
             const { result } = renderHook(() => useCombatActions())
 
             await act(async () => {
@@ -256,20 +247,17 @@ describe('Card Interaction Flow - Integration Tests', () => {
             expect(mockExecuteAttack).toHaveBeenCalled()
         })
 
-        it('should cancel attack on error', async () => {
+        it('should leave the state alone when the attack fails', async () => {
             mockInteraction.attackSource = 'p1-unit-1'
 
-            const { declareAttack } = await import('@/services/combat_service')
-            vi.mocked(declareAttack).mockRejectedValue(new Error('Attack failed'))
-
             const { result } = renderHook(() => useCombatActions())
 
             await act(async () => {
                 await result.current.handleTargetClick('p2-unit-1', 'unit')
             })
 
-            // Should cancel attack on failure
-            expect(mockCancelAttack).toHaveBeenCalled()
+            // The store reports the failure and clears the attack itself
+            expect(mockExecuteAttack).toHaveBeenCalledWith('p2-unit-1', 'unit')
             expect(mockSetGameState).not.toHaveBeenCalled()
         })
     })
@@ -87,8 +87,8 @@ describe('Tarot Mechanics', () => {
 
     describe('Zodiac Buff System', () => {
         it('should apply zodiac buff when card zodiac matches current season', async () => {
-            // Mock current date to March (Aries season)
-            const mockDate = new Date(2024, 2, 15) // March 15th
+            // Mock current date to Aries season (March 21 - April 19)
+            const mockDate = new Date(2024, 2, 25) // March 25th
             vi.setSystemTime(mockDate)
 
             const ariesCard = createTestCard({
@@ -107,14 +107,14 @@ describe('Tarot Mechanics', () => {
 
             const placedUnit = newState.battlefield.playerUnits[0]
             expect(placedUnit).toBeTruthy()
-            expect(placedUnit?.attack).toBe(4) // 3 + 1 zodiac buff
-            expect(placedUnit?.health).toBe(3) // 2 + 1 zodiac buff
-            expect(placedUnit?.astrologyBonus).toBe(1)
+            expect(placedUnit?.attack).toBe(4) // 3 + 1 Aries season buff
+            expect(placedUnit?.health).toBe(2) // Aries grants no health
+            expect(placedUnit?.seasonalBuff).toEqual({ attack: 1, health: 0 })
         })
 
         it('should not apply zodiac buff when card zodiac does not match season', async () => {
-            // Mock current date to March (Aries season)
-            const mockDate = new Date(2024, 2, 15) // March 15th
+            // Mock current date to Aries season (March 21 - April 19)
+            const mockDate = new Date(2024, 2, 25) // March 25th
             vi.setSystemTime(mockDate)
 
             const leoCard = createTestCard({
@@ -135,7 +135,7 @@ describe('Tarot Mechanics', () => {
             expect(placedUnit).toBeTruthy()
             expect(placedUnit?.attack).toBe(4) // No buff applied
             expect(placedUnit?.health).toBe(3) // No buff applied
-            expect(placedUnit?.astrologyBonus).toBe(0)
+            expect(placedUnit?.seasonalBuff).toBeUndefined()
         })
     })
 
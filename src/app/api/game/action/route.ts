@@ -2,6 +2,9 @@ import { GameLogger } from '@/lib/game_logger'
 export const runtime = 'edge' // Vercel Edge Runtime for low latency
 
 import { type NextRequest, NextResponse } from 'next/server'
+import { applyGameAction, validateGameAction } from '@/lib/game_actions'
+import { projectStateForSeat } from '@/lib/state_projection'
+import { GameActionSchema } from '@/schemas/multiplayer_schema'
 import type { Card, GameState, PlayerId } from '@/schemas/schema'
 
 // In-memory storage (would use Redis/KV in production)
@@ -10,9 +13,9 @@ const gameLocks = new Map<string, boolean>()
 
 export async function POST(request: NextRequest) {
   try {
-    const { gameId, playerId, action } = await request.json()
+    const { gameId, playerId, action: rawAction } = await request.json()
 
-    if (!gameId || !playerId || !action) {
+    if (!gameId || !playerId || !rawAction) {
       return NextResponse.json(
         {
           error: 'Missing required parameters',
@@ -21,6 +24,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const parsedAction = GameActionSchema.safeParse(rawAction)
+    if (!parsedAction.success) {
+      return NextResponse.json(
+        {
+          error: `Unknown or malformed action: ${rawAction.type}`,
+        },
+        { status: 400 },
+      )
+    }
+    const action = parsedAction.data
+
     // Acquire lock for game to prevent race conditions
     const lock = await acquireLock(`game:${gameId}`)
 
@@ -37,7 +51,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Validate action
-      const validation = validateAction(currentState, playerId, action)
+      const validation = validateGameAction(currentState, playerId, action)
       if (!validation.valid) {
         return NextResponse.json(
           {
@@ -48,16 +62,15 @@ export async function POST(request: NextRequest) {
       }
 
       // Apply action server-side
-      const newState = await applyAction(currentState, action, playerId)
+      const newState = await applyGameAction(currentState, playerId, action)
 
-      // Handle server-side randomness for consistency
+      // Orientation was rolled by the seeded generator in the server-held state when the
+      // card was drawn, so the server is already the only source of randomness
       if (action.type === 'play_card') {
-        // Ensure orientation is determined server-side for consistency
         const placedUnit = findLastPlacedUnit(newState, playerId)
         if (placedUnit) {
-          placedUnit.isReversed = Math.random() < 0.5 // 50% chance
           GameLogger.system(
-            `Server determined ${placedUnit.name} orientation: ${placedUnit.isReversed ? 'Reversed' : 'Upright'}`,
+            `Server orientation for ${placedUnit.name}: ${placedUnit.isReversed ? 'Reversed' : 'Upright'}`,
           )
         }
       }
@@ -65,10 +78,10 @@ export async function POST(request: NextRequest) {
       // Save state
       gameStates.set(gameId, newState)
 
-      // Response with success
+      // Response with success - the caller only sees its own seat's view
       const response = {
         success: true,
-        state: newState,
+        state: projectStateForSeat(newState, playerId),
         actionId: action.actionId,
         timestamp: Date.now(),
         serverOrientation:
@@ -83,7 +96,7 @@ export async function POST(request: NextRequest) {
         {
           type: 'opponent_action',
           action,
-          newState,
+          state: projectStateForSeat(newState, opponentOf(playerId)),
           timestamp: Date.now(),
         },
         playerId,
@@ -104,171 +117,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Action validation
-interface ActionValidation {
-  valid: boolean
-  error?: string
-}
-
-function validateAction(gameState: GameState, playerId: PlayerId, action: any): ActionValidation {
-  // Basic validation
-  if (gameState.activePlayer !== playerId) {
-    return { valid: false, error: 'Not your turn' }
-  }
-
-  switch (action.type) {
-    case 'play_card':
-      return validatePlayCard(gameState, playerId, action)
-    case 'declare_attack':
-      return validateAttack(gameState, playerId, action)
-    case 'end_turn':
-      return validateEndTurn(gameState, playerId, action)
-    default:
-      return { valid: false, error: `Unknown action type: ${action.type}` }
-  }
-}
-
-function validatePlayCard(gameState: GameState, playerId: PlayerId, action: any): ActionValidation {
-  const player = gameState[playerId]
-
-  // Find card in hand
-  const card = player.hand.find(c => c.id === action.cardId)
-  if (!card) {
-    return { valid: false, error: 'Card not found in hand' }
-  }
-
-  // Check mana
-  const totalMana = player.mana + player.spellMana
-  if (card.cost > totalMana) {
-    return { valid: false, error: 'Insufficient mana' }
-  }
-
-  // Check battlefield space for units
-  if (card.type === 'unit') {
-    const units =
-      playerId === 'player1' ? gameState.battlefield.playerUnits : gameState.battlefield.enemyUnits
-
-    const targetSlot = action.targetSlot
-    if (targetSlot !== undefined) {
-      if (targetSlot < 0 || targetSlot >= 7 || units[targetSlot] !== null) {
-        return { valid: false, error: 'Invalid battlefield slot' }
-      }
-    } else {
-      // Check if there's any empty slot
-      const hasEmptySlot = units.some(u => u === null)
-      if (!hasEmptySlot) {
-        return { valid: false, error: 'Battlefield is full' }
-      }
-    }
-  }
-
-  return { valid: true }
-}
-
-function validateAttack(gameState: GameState, playerId: PlayerId, action: any): ActionValidation {
-  // Find attacker
-  const units =
-    playerId === 'player1' ? gameState.battlefield.playerUnits : gameState.battlefield.enemyUnits
-
-  const attacker = units.find(u => u?.id === action.attackerId)
-  if (!attacker) {
-    return { valid: false, error: 'Attacker not found' }
-  }
-
-  // Check if can attack
-  if (attacker.hasSummoningSickness) {
-    return { valid: false, error: 'Unit has summoning sickness' }
-  }
-
-  if (attacker.hasAttackedThisTurn) {
-    return { valid: false, error: 'Unit already attacked this turn' }
-  }
-
-  // Validate target
-  if (action.targetType === 'unit' && action.targetId) {
-    const opponent = playerId === 'player1' ? 'player2' : 'player1'
-    const enemyUnits =
-      opponent === 'player1' ? gameState.battlefield.playerUnits : gameState.battlefield.enemyUnits
-
-    const target = enemyUnits.find(u => u?.id === action.targetId)
-    if (!target) {
-      return { valid: false, error: 'Target not found' }
-    }
-  }
-
-  return { valid: true }
-}
-
-function validateEndTurn(
-  gameState: GameState,
-  _playerId: PlayerId,
-  _action: any,
-): ActionValidation {
-  if (gameState.phase !== 'action') {
-    return { valid: false, error: 'Cannot end turn in current phase' }
-  }
-
-  return { valid: true }
-}
-
-// Action application
-async function applyAction(
-  gameState: GameState,
-  action: any,
-  playerId: PlayerId,
-): Promise<GameState> {
-  let newState = { ...gameState }
-
-  switch (action.type) {
-    case 'play_card':
-      newState = await applyPlayCard(newState, action, playerId)
-      break
-    case 'declare_attack':
-      newState = await applyAttack(newState, action, playerId)
-      break
-    case 'end_turn':
-      newState = await applyEndTurn(newState, playerId)
-      break
-  }
-
-  return newState
-}
-
-async function applyPlayCard(
-  gameState: GameState,
-  action: any,
-  playerId: PlayerId,
-): Promise<GameState> {
-  // Import game logic dynamically
-  const { playCard } = await import('@/lib/game_logic')
-
-  const player = gameState[playerId]
-  const card = player.hand.find(c => c.id === action.cardId)
-
-  if (!card) throw new Error('Card not found')
-
-  return await playCard(gameState, card, action.targetSlot)
-}
-
-async function applyAttack(
-  gameState: GameState,
-  action: any,
-  _playerId: PlayerId,
-): Promise<GameState> {
-  const { declareAttack } = await import('@/services/combat_service')
-
-  return await declareAttack(gameState, {
-    attackerId: action.attackerId,
-    targetType: action.targetType,
-    targetId: action.targetId,
-  })
-}
-
-async function applyEndTurn(gameState: GameState, _playerId: PlayerId): Promise<GameState> {
-  const { endTurn } = await import('@/lib/game_logic')
-  return await endTurn(gameState)
-}
-
 // Utility functions
 async function acquireLock(lockKey: string): Promise<string> {
   // Simple in-memory locking (would use Redis in production)
@@ -292,6 +140,10 @@ async function releaseLock(lockKey: string): Promise<void> {
   gameLocks.delete(lockKey)
 }
 
+function opponentOf(playerId: PlayerId): PlayerId {
+  return playerId === 'player1' ? 'player2' : 'player1'
+}
+
 function findLastPlacedUnit(gameState: GameState, playerId: PlayerId): Card | null {
   const units =
     playerId === 'player1' ? gameState.battlefield.playerUnits : gameState.battlefield.enemyUnits
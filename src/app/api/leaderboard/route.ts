@@ -0,0 +1,33 @@
+import { GameLogger } from '@/lib/game_logger'
+import { getPublicProfileId } from '@/lib/profile_id'
+export const runtime = 'edge' // Vercel Edge Runtime
+
+import { type NextRequest, NextResponse } from 'next/server'
+import { PLACEMENT_GAMES } from '@/lib/ranked_season'
+import { ratingService } from '@/services/rating_service'
+
+// This season's ranked ladder, plus the asking player's own standing and public id (to find
+// themselves on the ladder) when ?playerId is given
+
+export async function GET(request: NextRequest) {
+  try {
+    const playerId = new URL(request.url).searchParams.get('playerId')
+
+    const leaderboard = await ratingService.getLeaderboard()
+    if (!leaderboard) {
+      return NextResponse.json({ error: 'Ranked play is not configured' }, { status: 503 })
+    }
+
+    const standing = playerId ? await ratingService.getStanding(playerId) : null
+    const publicId = playerId ? await getPublicProfileId(playerId) : null
+    return NextResponse.json({
+      ...leaderboard,
+      placementGames: PLACEMENT_GAMES,
+      standing,
+      publicId,
+    })
+  } catch (error) {
+    GameLogger.error('Leaderboard error:', error)
+    return NextResponse.json({ error: 'Failed to load leaderboard' }, { status: 500 })
+  }
+}
@@ -0,0 +1,99 @@
+import { GameLogger } from '@/lib/game_logger'
+export const runtime = 'edge' // Vercel Edge Runtime
+
+import { type NextRequest, NextResponse } from 'next/server'
+import type { GameRules } from '@/schemas/multiplayer_schema'
+import { lobbyService } from '@/services/lobby_service'
+
+// Private lobbies: create a room, join it by invite code, set house rules and ready up.
+// Creating or joining returns the seat's secret, which every later request for the seat sends.
+// Clients poll GET with it until their seat has a match, then connect to the game server with
+// their seat's ticket. Without a secret GET shows only names, readiness and rules.
+
+type LobbyAction = 'create' | 'join' | 'rules' | 'ready'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { action, code, secret, playerName, rules, ready, deckCode } = (await request.json()) as {
+      action: LobbyAction
+      code?: string
+      secret?: string
+      playerName?: string
+      rules?: Partial<GameRules>
+      ready?: boolean
+      deckCode?: string
+    }
+
+    const name = playerName || 'Player'
+    if (action !== 'create' && !(code && lobbyService.getLobby(code))) {
+      return NextResponse.json({ error: 'Lobby not found' }, { status: 404 })
+    }
+
+    // The service throws on anything the player got wrong: full lobby, bad rules, illegal deck,
+    // a secret that isn't for any seat
+    try {
+      switch (action) {
+        case 'create':
+          return NextResponse.json(lobbyService.createLobby(name, rules))
+        case 'join':
+          return NextResponse.json(lobbyService.joinLobby(code as string, name))
+        case 'rules':
+          return NextResponse.json(
+            lobbyService.updateRules(code as string, secret ?? '', rules ?? {}),
+          )
+        case 'ready':
+          return NextResponse.json(
+            await lobbyService.setReady(code as string, secret ?? '', ready ?? true, deckCode),
+          )
+        default:
+          return NextResponse.json({ error: `Unknown action "${action}"` }, { status: 400 })
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid lobby request'
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+  } catch (error) {
+    GameLogger.error('Lobby error:', error)
+    return NextResponse.json({ error: 'Lobby request failed' }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const code = searchParams.get('code')
+    const secret = searchParams.get('secret')
+    const lobby = code ? lobbyService.getLobby(code) : undefined
+    if (!code || !lobby) {
+      return NextResponse.json({ error: 'Lobby not found' }, { status: 404 })
+    }
+    if (!secret) return NextResponse.json({ lobby })
+
+    try {
+      return NextResponse.json(lobbyService.getSeat(code, secret))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid lobby request'
+      return NextResponse.json({ error: message }, { status: 403 })
+    }
+  } catch (error) {
+    GameLogger.error('Lobby lookup error:', error)
+    return NextResponse.json({ error: 'Failed to load lobby' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const code = searchParams.get('code')
+    const secret = searchParams.get('secret')
+    if (!code || !secret) {
+      return NextResponse.json({ error: 'Lobby code and secret required' }, { status: 400 })
+    }
+
+    lobbyService.leaveLobby(code, secret)
+    return NextResponse.json({ status: 'left' })
+  } catch (error) {
+    GameLogger.error('Lobby leave error:', error)
+    return NextResponse.json({ error: 'Failed to leave lobby' }, { status: 500 })
+  }
+}
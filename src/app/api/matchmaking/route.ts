@@ -1,12 +1,21 @@
+import { getCardById } from '@/lib/card_loader'
+import { decodeDeckCode } from '@/lib/deck_code'
+import { DEFAULT_FORMAT, getFormat, validateDeck } from '@/lib/deck_format'
 import { GameLogger } from '@/lib/game_logger'
+import { DEFAULT_RATING } from '@/lib/glicko2'
+import { getPublicProfileId } from '@/lib/profile_id'
+import { getSeatTicketSecret, signSeatTicket } from '@/lib/seat_ticket'
 export const runtime = 'edge' // Vercel Edge Runtime
 
 import { type NextRequest, NextResponse } from 'next/server'
-import type { ZodiacClass } from '@/schemas/schema'
+import type { Card, PlayerId, ZodiacClass } from '@/schemas/schema'
+import { ratingService } from '@/services/rating_service'
 
-// Player profile interface
+// Player profile interface. `id` is the player's sync secret and stays on the server;
+// opponents only ever see `publicId`
 interface PlayerProfile {
   id: string
+  publicId: string
   name: string
   rating: number
   favoriteZodiac: ZodiacClass
@@ -17,25 +26,73 @@ interface PlayerProfile {
 }
 
 // Matchmaking pool
-const matchmakingPools = new Map<string, Set<string>>() // gameMode -> Set of playerIds
+const matchmakingPools = new Map<string, Set<string>>() // gameMode:format -> Set of playerIds
 const playerProfiles = new Map<string, PlayerProfile>()
-const activeMatches = new Map<string, { player1: string; player2: string; startTime: number }>()
+// The waiting player learns about their match on their next poll, collecting their seat ticket
+interface ActiveMatch {
+  player1: string
+  player2: string
+  startTime: number
+  gameMode: string
+  format: string
+  player2Ticket: string | null
+}
+const activeMatches = new Map<string, ActiveMatch>()
 
 export async function POST(request: NextRequest) {
   try {
-    const { playerId, deckId, gameMode = 'standard', playerInfo } = await request.json()
+    const {
+      playerId,
+      deckCode,
+      gameMode = 'standard',
+      format: formatId = DEFAULT_FORMAT.id,
+      playerInfo,
+    } = await request.json()
 
     if (!playerId) {
       return NextResponse.json({ error: 'Player ID required' }, { status: 400 })
     }
 
+    const format = getFormat(formatId)
+    if (!format) {
+      return NextResponse.json({ error: `Unknown format "${formatId}"` }, { status: 400 })
+    }
+
+    // Queue only with a deck that's legal in the format being matched
+    if (deckCode) {
+      let cards: Card[]
+      try {
+        const ids = decodeDeckCode(deckCode).cards
+        const missing = ids.filter(id => !getCardById(id))
+        if (missing.length > 0) {
+          throw new Error(`Unknown cards: ${[...new Set(missing)].join(', ')}`)
+        }
+        cards = ids.map(id => getCardById(id) as Card)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Invalid deck code'
+        return NextResponse.json({ error: message }, { status: 400 })
+      }
+
+      const violations = validateDeck(cards, format)
+      if (violations.length > 0) {
+        return NextResponse.json(
+          { error: `Deck is not legal in ${format.name}`, violations },
+          { status: 400 },
+        )
+      }
+    }
+
     // Get or create player profile
     let playerProfile = playerProfiles.get(playerId)
     if (!playerProfile) {
+      // Match on the ladder rating when there is one
+      const standing = await ratingService.getStanding(playerId).catch(() => null)
+      const publicId = await getPublicProfileId(playerId)
       playerProfile = {
         id: playerId,
-        name: playerInfo?.name || `Player ${playerId.slice(-4)}`,
-        rating: 1200, // Starting rating
+        publicId,
+        name: playerInfo?.name || `Player ${publicId.slice(-4)}`,
+        rating: Math.round(standing?.rating ?? DEFAULT_RATING.rating),
         favoriteZodiac: playerInfo?.favoriteZodiac || 'aries',
         gamesPlayed: 0,
         gamesWon: 0,
@@ -48,11 +105,23 @@ export async function POST(request: NextRequest) {
       playerProfile.lastActive = Date.now()
     }
 
-    // Get matchmaking pool for this game mode
-    let pool = matchmakingPools.get(gameMode)
+    // Someone else found this player while they were waiting
+    for (const [matchId, match] of activeMatches) {
+      const opponent = playerProfiles.get(match.player1)
+      if (match.player2 !== playerId || !match.player2Ticket || !opponent) continue
+      const seatTicket = match.player2Ticket
+      match.player2Ticket = null
+      return NextResponse.json(
+        matchedResponse(matchId, 'player2', seatTicket, playerProfile, opponent, match),
+      )
+    }
+
+    // Get matchmaking pool for this game mode and format
+    const poolKey = `${gameMode}:${format.id}`
+    let pool = matchmakingPools.get(poolKey)
     if (!pool) {
       pool = new Set()
-      matchmakingPools.set(gameMode, pool)
+      matchmakingPools.set(poolKey, pool)
     }
 
     // Find suitable opponent
@@ -62,11 +131,24 @@ export async function POST(request: NextRequest) {
       // Create match
       const matchId = `match_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`
 
-      activeMatches.set(matchId, {
+      // Bind each seat to its profile now; the game server rates only seats claimed with these.
+      // Each player proved it owns its profile by queueing with the secret, and each ticket
+      // goes back only to the player who sent it
+      const secret = getSeatTicketSecret()
+      if (!secret) throw new Error('SEAT_TICKET_SECRET is not set')
+      const [seatTicket, player2Ticket] = await Promise.all([
+        signSeatTicket({ matchId, seat: 'player1', profileId: playerId }, secret),
+        signSeatTicket({ matchId, seat: 'player2', profileId: suitableOpponent.id }, secret),
+      ])
+      const match: ActiveMatch = {
         player1: playerId,
         player2: suitableOpponent.id,
         startTime: Date.now(),
-      })
+        gameMode,
+        format: format.id,
+        player2Ticket,
+      }
+      activeMatches.set(matchId, match)
 
       // Remove both players from pool
       pool.delete(playerId)
@@ -74,23 +156,9 @@ export async function POST(request: NextRequest) {
 
       GameLogger.system(`🎮 Match created: ${playerProfile.name} vs ${suitableOpponent.name}`)
 
-      return NextResponse.json({
-        status: 'matched',
-        matchId,
-        opponent: {
-          id: suitableOpponent.id,
-          name: suitableOpponent.name,
-          rating: suitableOpponent.rating,
-          zodiac: suitableOpponent.favoriteZodiac,
-        },
-        yourSide: 'player1',
-        gameMode,
-        zodiacCompatibility: getZodiacCompatibility(
-          playerProfile.favoriteZodiac,
-          suitableOpponent.favoriteZodiac,
-        ),
-        cosmicBlessings: getCosmicBlessings(playerProfile, suitableOpponent),
-      })
+      return NextResponse.json(
+        matchedResponse(matchId, 'player1', seatTicket, playerProfile, suitableOpponent, match),
+      )
     } else {
       // Add to matchmaking pool
       pool.add(playerId)
@@ -98,7 +166,9 @@ export async function POST(request: NextRequest) {
       // Clean up old entries
       cleanupMatchmakingPool(pool)
 
-      GameLogger.system(`🎲 ${playerProfile.name} added to ${gameMode} matchmaking pool`)
+      GameLogger.system(
+        `🎲 ${playerProfile.name} added to ${gameMode} (${format.name}) matchmaking pool`,
+      )
 
       return NextResponse.json({
         status: 'searching',
@@ -138,6 +208,32 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
+function matchedResponse(
+  matchId: string,
+  yourSide: PlayerId,
+  seatTicket: string,
+  player: PlayerProfile,
+  opponent: PlayerProfile,
+  match: ActiveMatch,
+) {
+  return {
+    status: 'matched',
+    matchId,
+    seatTicket,
+    opponent: {
+      id: opponent.publicId,
+      name: opponent.name,
+      rating: opponent.rating,
+      zodiac: opponent.favoriteZodiac,
+    },
+    yourSide,
+    gameMode: match.gameMode,
+    format: match.format,
+    zodiacCompatibility: getZodiacCompatibility(player.favoriteZodiac, opponent.favoriteZodiac),
+    cosmicBlessings: getCosmicBlessings(player, opponent),
+  }
+}
+
 // Find a suitable match
 async function findMatch(
   player: PlayerProfile,
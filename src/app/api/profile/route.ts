@@ -0,0 +1,70 @@
+import { GameLogger } from '@/lib/game_logger'
+export const runtime = 'edge' // Vercel Edge Runtime
+
+import { type NextRequest, NextResponse } from 'next/server'
+import { mergeProfileSnapshots } from '@/lib/profile_sync'
+import { ProfileSyncRequestSchema } from '@/schemas/profile_schema'
+
+// Profile sync: devices send their versioned progress and get back the merged profile.
+// Without a database every request answers 503 and clients keep playing from localStorage.
+
+async function getPersistence() {
+  if (!process.env.DATABASE_URL) return null
+  // Imported lazily: the database module throws at load time when it isn't configured
+  const { persistenceService } = await import('@/services/persistence_service')
+  return persistenceService
+}
+
+const SAVE_ATTEMPTS = 3
+
+const notConfigured = () =>
+  NextResponse.json({ error: 'Profile sync is not configured' }, { status: 503 })
+
+// Fetch a player's synced profile
+export async function GET(request: NextRequest) {
+  try {
+    const playerId = new URL(request.url).searchParams.get('playerId')
+    if (!playerId) {
+      return NextResponse.json({ error: 'Player ID required' }, { status: 400 })
+    }
+
+    const persistence = await getPersistence()
+    if (!persistence) return notConfigured()
+
+    const stored = await persistence.loadProfileSnapshot(playerId)
+    if (!stored) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+    }
+    return NextResponse.json({ playerId, sections: stored.sections })
+  } catch (error) {
+    GameLogger.error('Profile load error:', error)
+    return NextResponse.json({ error: 'Failed to load profile' }, { status: 500 })
+  }
+}
+
+// Merge a device's progress into the stored profile and return the result
+export async function PUT(request: NextRequest) {
+  try {
+    const parsed = ProfileSyncRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Malformed profile' }, { status: 400 })
+    }
+    const { playerId, name = 'Player', sections } = parsed.data
+
+    const persistence = await getPersistence()
+    if (!persistence) return notConfigured()
+
+    // Another device may save between our load and save; then merge again onto what it wrote
+    for (let attempt = 0; attempt < SAVE_ATTEMPTS; attempt++) {
+      const stored = await persistence.loadProfileSnapshot(playerId)
+      const merged = mergeProfileSnapshots(stored?.sections ?? {}, sections)
+      if (await persistence.saveProfileSnapshot(playerId, name, merged, stored?.version ?? 0)) {
+        return NextResponse.json({ playerId, sections: merged })
+      }
+    }
+    return NextResponse.json({ error: 'Profile is busy, try again' }, { status: 409 })
+  } catch (error) {
+    GameLogger.error('Profile sync error:', error)
+    return NextResponse.json({ error: 'Profile sync failed' }, { status: 500 })
+  }
+}
@@ -1,68 +1,27 @@
 /**
- * API endpoint to validate all content using the Zod schemas
+ * API endpoint reporting which card abilities the engine actually executes
  * Useful for CI/CD pipelines or development checks
  */
 
 import { NextResponse } from 'next/server'
+import { buildCoverageReport } from '@/lib/ability_coverage'
+import { getAllCards } from '@/lib/card_loader'
 
 export async function GET() {
   try {
-    // In production, this would use the actual generated content
-    // const { allCards } = await import('contentlayer/generated')
+    const coverage = buildCoverageReport(getAllCards())
+    const { abilities, scripted, full } = coverage.totals
+    const incomplete = abilities - scripted - full
 
-    // For demonstration, we'll create a mock response
-    const mockValidationSummary = {
-      total: 78,
-      valid: 76,
-      invalid: 2,
-      invalidDetails: [
-        {
-          cardName: 'The Fool',
-          cardId: 'the-fool',
-          errors: [
-            {
-              code: 'invalid_type',
-              expected: 'number',
-              received: 'string',
-              path: ['cost'],
-              message: 'Expected number, received string',
-            },
-          ],
-        },
-        {
-          cardName: 'Three of Cups',
-          cardId: 'three-of-cups',
-          errors: [
-            {
-              code: 'invalid_enum_value',
-              options: ['fire', 'earth', 'air', 'water'],
-              received: 'spirit',
-              path: ['element'],
-              message:
-                "Invalid enum value. Expected 'fire' | 'earth' | 'air' | 'water', received 'spirit'",
-            },
-          ],
-        },
-      ],
-    }
-
-    // In production:
-    // const summary = getCardValidationSummary(allCards)
-
-    const isValid = mockValidationSummary.invalid === 0
-
-    return NextResponse.json(
-      {
-        success: isValid,
-        summary: mockValidationSummary,
-        message: isValid
-          ? 'All content is valid!'
-          : `Found ${mockValidationSummary.invalid} invalid cards`,
-      },
-      {
-        status: isValid ? 200 : 400,
-      },
-    )
+    return NextResponse.json({
+      success: incomplete === 0,
+      summary: coverage.totals,
+      coverage,
+      message:
+        incomplete === 0
+          ? 'Every ability executes in full!'
+          : `${incomplete} of ${abilities} abilities only partly execute or not at all`,
+    })
   } catch (error) {
     return NextResponse.json(
       {
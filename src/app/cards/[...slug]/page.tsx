@@ -1,6 +1,7 @@
 import { allCards } from 'contentlayer/generated'
 import { notFound } from 'next/navigation'
 import { getMDXComponent } from 'next-contentlayer2/hooks'
+import { CardPlayStats } from '@/components/stats/card_play_stats'
 import { Badge } from '@/components/ui/badge'
 import { Breadcrumb } from '@/components/ui/breadcrumb'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -162,6 +163,16 @@ export default async function CardPage({ params }: PageProps) {
             </Card>
           )}
 
+          {/* Your Record */}
+          <Card className="mb-6 rounded-sm bg-white dark:bg-gray-900 transition-colors border-gray-300">
+            <CardHeader>
+              <CardTitle>Your Record</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CardPlayStats cardId={card.id} />
+            </CardContent>
+          </Card>
+
           {/* Effects (for spells) */}
           {card.effects && (
             <Card className="mb-6 rounded-sm bg-white dark:bg-gray-900 transition-colors border-gray-300">
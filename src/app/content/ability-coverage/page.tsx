@@ -0,0 +1,174 @@
+import Link from 'next/link'
+import { ContentNavigation } from '@/components/content_navigation'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  type AbilityCoverage,
+  buildCoverageReport,
+  type CoverageStatus,
+} from '@/lib/ability_coverage'
+import { getAllCards } from '@/lib/card_loader'
+
+const STATUS_LABELS: Record<CoverageStatus, string> = {
+  scripted: 'Scripted',
+  full: 'Executes',
+  partial: 'Partial',
+  none: 'No effect',
+}
+
+const STATUS_STYLES: Record<CoverageStatus, string> = {
+  scripted: 'bg-blue-100 text-blue-900 dark:bg-blue-900 dark:text-blue-100',
+  full: 'bg-green-100 text-green-900 dark:bg-green-900 dark:text-green-100',
+  partial: 'bg-yellow-100 text-yellow-900 dark:bg-yellow-900 dark:text-yellow-100',
+  none: 'bg-red-100 text-red-900 dark:bg-red-900 dark:text-red-100',
+}
+
+function StatusBadge({ status }: { status: CoverageStatus }) {
+  return (
+    <Badge variant="outline" className={`border-transparent ${STATUS_STYLES[status]}`}>
+      {STATUS_LABELS[status]}
+    </Badge>
+  )
+}
+
+function CountList({ title, counts }: { title: string; counts: Record<string, number> }) {
+  const entries = Object.entries(counts)
+  return (
+    <Card className="bg-white dark:bg-gray-900 transition-colors border-gray-300 rounded-sm">
+      <CardHeader>
+        <CardTitle className="text-lg text-black dark:text-white transition-colors">
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-800 dark:text-gray-200">None</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {entries.map(([name, count]) => (
+              <span key={name} className="px-2 py-1 text-xs bg-gray-100 dark:bg-gray-800 rounded">
+                {name} × {count}
+              </span>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function AbilityRow({ ability }: { ability: AbilityCoverage }) {
+  const gaps = [
+    ...ability.unparsedClauses.map(clause => `Unparsed: “${clause}”`),
+    ...ability.unsupportedTriggers.map(trigger => `Trigger never fires: ${trigger}`),
+    ...ability.unexecutedActions.map(action => `No executor: ${action}`),
+  ]
+
+  return (
+    <li className="border-t border-gray-200 dark:border-gray-700 pt-2">
+      <div className="flex justify-between items-center gap-2">
+        <span className="font-medium">
+          {ability.name}{' '}
+          <span className="text-xs text-gray-600 dark:text-gray-400">({ability.orientation})</span>
+        </span>
+        <StatusBadge status={ability.status} />
+      </div>
+      <p className="text-sm text-gray-800 dark:text-gray-200">{ability.description}</p>
+      {ability.actions.length > 0 && (
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          Runs: {ability.actions.join(', ')}
+        </p>
+      )}
+      {gaps.length > 0 && (
+        <ul className="mt-1 text-xs text-red-800 dark:text-red-300 list-disc list-inside">
+          {gaps.map(gap => (
+            <li key={gap}>{gap}</li>
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+export default function AbilityCoveragePage() {
+  const report = buildCoverageReport(getAllCards())
+  const { totals } = report
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900 transition-colors text-black dark:text-white">
+      <ContentNavigation />
+      <div className="container mx-auto py-8">
+        <h1 className="text-4xl font-bold mb-2 text-black dark:text-white transition-colors">
+          Ability Coverage
+        </h1>
+        <p className="mb-8 text-gray-800 dark:text-gray-200">
+          {totals.abilities} abilities across {totals.cards} cards, checked against the ability
+          parser and effect executors. The same report is served as JSON from{' '}
+          <Link href="/api/validate-content" className="underline">
+            /api/validate-content
+          </Link>
+          .
+        </p>
+
+        <section className="mb-12 grid gap-4 md:grid-cols-4">
+          {(Object.keys(STATUS_LABELS) as CoverageStatus[]).map(status => (
+            <Card
+              key={status}
+              className="bg-white dark:bg-gray-900 transition-colors border-gray-300 rounded-sm"
+            >
+              <CardHeader>
+                <CardDescription className="text-gray-800 dark:text-gray-200">
+                  {STATUS_LABELS[status]}
+                </CardDescription>
+                <CardTitle className="text-3xl text-black dark:text-white transition-colors">
+                  {totals[status]}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </section>
+
+        <section className="mb-12 grid gap-4 md:grid-cols-2">
+          <CountList title="Unknown verbs" counts={report.unknownVerbs} />
+          <CountList title="Unsupported triggers" counts={report.unsupportedTriggers} />
+        </section>
+
+        <section>
+          <h2 className="text-2xl font-semibold mb-6 text-black dark:text-white transition-colors">
+            Cards
+          </h2>
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            {report.cards.map(card => (
+              <Card
+                key={card.id}
+                className="bg-white dark:bg-gray-900 transition-colors border-gray-300 rounded-sm"
+              >
+                <CardHeader>
+                  <div className="flex justify-between items-start">
+                    <CardTitle className="text-lg text-black dark:text-white transition-colors">
+                      {card.name}
+                    </CardTitle>
+                    <StatusBadge status={card.status} />
+                  </div>
+                  <CardDescription className="text-gray-800 dark:text-gray-200 capitalize">
+                    {card.type}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2">
+                    {card.abilities.map(ability => (
+                      <AbilityRow
+                        key={`${ability.orientation}-${ability.name}`}
+                        ability={ability}
+                      />
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -5,11 +5,13 @@ import {
   ArrowUpDown,
   Check,
   ChevronRight,
+  Copy,
   Download,
   Droplets,
   Filter,
   Flame,
   Leaf,
+  Link2,
   Save,
   Search,
   Shuffle,
@@ -21,14 +23,18 @@ import {
   X,
 } from 'lucide-react'
 import Link from 'next/link'
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import DeckAnalyticsPanel from '@/components/deck_analytics_panel'
 import { Navigation } from '@/components/layout/navigation'
 import TarotCard from '@/components/tarot_card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Separator } from '@/components/ui/separator'
-import { getAllCards, isValidDeck } from '@/lib/card_loader'
+import { getAllCards } from '@/lib/card_loader'
+import { decodeDeckCode, encodeDeckCode, type SavedDeck } from '@/lib/deck_code'
+import { DECK_FORMATS, DEFAULT_FORMAT, getFormat, validateDeck } from '@/lib/deck_format'
 import type { Card as GameCard } from '@/schemas/schema'
 
 type FilterState = {
@@ -118,14 +124,13 @@ const MANA_CURVE_COLORS = [
   'bg-rose-500',
 ]
 
-const MIN_DECK_SIZE = 30
-const MAX_DECK_SIZE = 40
-const MAX_COPIES = 3
-
-export default function DeckBuilder() {
+function DeckBuilderContent() {
+  const searchParams = useSearchParams()
+  const sharedCode = searchParams.get('code')
   const [allCards, setAllCards] = useState<GameCard[]>([])
   const [deck, setDeck] = useState<GameCard[]>([])
   const [deckName, setDeckName] = useState('My Deck')
+  const [format, setFormat] = useState(DEFAULT_FORMAT)
   const [filters, setFilters] = useState<FilterState>({
     search: '',
     zodiac: '',
@@ -135,10 +140,12 @@ export default function DeckBuilder() {
     costRange: '',
   })
   const [sortBy, setSortBy] = useState<SortOption>('cost-asc')
-  const [savedDecks, setSavedDecks] = useState<{ name: string; cards: string[] }[]>([])
+  const [savedDecks, setSavedDecks] = useState<SavedDeck[]>([])
   const [showFilters, setShowFilters] = useState(true)
   const [showSortMenu, setShowSortMenu] = useState(false)
   const importRef = useRef<HTMLInputElement>(null)
+  const [codeInput, setCodeInput] = useState('')
+  const [codeMessage, setCodeMessage] = useState<{ text: string; isError: boolean } | null>(null)
 
   useEffect(() => {
     const cards = getAllCards()
@@ -197,7 +204,10 @@ export default function DeckBuilder() {
     return counts
   }, [deck])
 
-  const validation = useMemo(() => isValidDeck(deck), [deck])
+  const violations = useMemo(() => validateDeck(deck, format), [deck, format])
+  // Size is tracked by the progress bar; these are the rules a card breaks
+  const cardViolations = violations.filter(v => v.rule !== 'min_size' && v.rule !== 'max_size')
+  const flaggedCardIds = new Set(cardViolations.flatMap(v => v.cardIds))
 
   const manaCurve = useMemo(() => {
     const curve: Record<number, number> = {}
@@ -219,22 +229,30 @@ export default function DeckBuilder() {
   }, [deck])
 
   const deckValidationRules = useMemo(() => {
-    const cardOverLimit = [...deckCardCounts.entries()].some(([, count]) => count > MAX_COPIES)
-    return [
-      {
-        label: `Min ${MIN_DECK_SIZE} cards`,
-        passed: deck.length >= MIN_DECK_SIZE,
-      },
+    const passes = (rule: string) => !violations.some(v => v.rule === rule)
+    const rules = [
+      { label: `Min ${format.minSize} cards`, passed: passes('min_size') },
+      { label: `Max ${format.maxSize} cards`, passed: passes('max_size') },
       {
-        label: `Max ${MAX_DECK_SIZE} cards`,
-        passed: deck.length <= MAX_DECK_SIZE,
-      },
-      {
-        label: `Max ${MAX_COPIES} copies per card`,
-        passed: !cardOverLimit,
+        label: `Max ${format.maxCopies} ${format.maxCopies === 1 ? 'copy' : 'copies'} per card`,
+        passed: passes('copies'),
       },
     ]
-  }, [deck.length, deckCardCounts])
+    const rarityLimits = Object.entries(format.rarityLimits)
+    if (rarityLimits.length > 0) {
+      rules.push({
+        label: rarityLimits.map(([rarity, limit]) => `${limit} ${rarity}`).join(', '),
+        passed: passes('rarity'),
+      })
+    }
+    if (format.allowedSuits) {
+      rules.push({ label: `Only ${format.allowedSuits.join(', ')}`, passed: passes('suit') })
+    }
+    if (format.singleElement) {
+      rules.push({ label: 'One element', passed: passes('element') })
+    }
+    return rules
+  }, [format, violations])
 
   const activeFilterCount = useMemo(() => {
     let count = 0
@@ -246,18 +264,21 @@ export default function DeckBuilder() {
     return count
   }, [filters])
 
-  const addCard = useCallback((card: GameCard) => {
-    setDeck(prev => {
-      const counts = new Map<string, number>()
-      for (const c of prev) {
-        counts.set(c.id, (counts.get(c.id) || 0) + 1)
-      }
-      const currentCount = counts.get(card.id) || 0
-      if (currentCount >= MAX_COPIES) return prev
-      if (prev.length >= MAX_DECK_SIZE) return prev
-      return [...prev, { ...card }]
-    })
-  }, [])
+  const addCard = useCallback(
+    (card: GameCard) => {
+      setDeck(prev => {
+        const counts = new Map<string, number>()
+        for (const c of prev) {
+          counts.set(c.id, (counts.get(c.id) || 0) + 1)
+        }
+        const currentCount = counts.get(card.id) || 0
+        if (currentCount >= format.maxCopies) return prev
+        if (prev.length >= format.maxSize) return prev
+        return [...prev, { ...card }]
+      })
+    },
+    [format],
+  )
 
   const removeCard = useCallback((cardId: string) => {
     setDeck(prev => {
@@ -273,51 +294,44 @@ export default function DeckBuilder() {
 
   const randomFill = useCallback(() => {
     setDeck(prev => {
-      const remaining = MIN_DECK_SIZE - prev.length
+      const remaining = format.minSize - prev.length
       if (remaining <= 0) return prev
 
-      const currentCounts = new Map<string, number>()
-      for (const c of prev) {
-        currentCounts.set(c.id, (currentCounts.get(c.id) || 0) + 1)
-      }
+      // Only take cards that keep the deck legal in the format, short of its size
+      const breaksFormat = (cards: GameCard[]) =>
+        validateDeck(cards, format).some(v => v.rule !== 'min_size')
 
-      const available = allCards.filter(card => {
-        const count = currentCounts.get(card.id) || 0
-        return count < MAX_COPIES
-      })
-
-      const shuffled = [...available].sort(() => Math.random() - 0.5)
+      const shuffled = [...allCards].sort(() => Math.random() - 0.5)
       const newCards: GameCard[] = []
-      const tempCounts = new Map(currentCounts)
 
       for (const card of shuffled) {
         if (newCards.length >= remaining) break
-        const count = tempCounts.get(card.id) || 0
-        if (count < MAX_COPIES) {
+        if (!breaksFormat([...prev, ...newCards, card])) {
           newCards.push({ ...card })
-          tempCounts.set(card.id, count + 1)
         }
       }
 
       return [...prev, ...newCards]
     })
-  }, [allCards])
+  }, [allCards, format])
 
   const saveDeck = useCallback(() => {
-    const deckData = { name: deckName, cards: deck.map(c => c.id) }
+    const deckData = { name: deckName, cards: deck.map(c => c.id), format: format.id }
     const existing = savedDecks.filter(d => d.name !== deckName)
     const updated = [...existing, deckData]
     setSavedDecks(updated)
     localStorage.setItem('tarot-tcg-decks', JSON.stringify(updated))
-  }, [deck, deckName, savedDecks])
+  }, [deck, deckName, format, savedDecks])
 
   const loadDeck = useCallback(
-    (savedDeck: { name: string; cards: string[] }) => {
+    (savedDeck: SavedDeck) => {
       setDeckName(savedDeck.name)
+      setFormat(getFormat(savedDeck.format ?? DEFAULT_FORMAT.id) ?? DEFAULT_FORMAT)
       const loaded = savedDeck.cards
         .map(id => allCards.find(c => c.id === id))
         .filter(Boolean) as GameCard[]
       setDeck(loaded)
+      return savedDeck.cards.length - loaded.length
     },
     [allCards],
   )
@@ -331,7 +345,7 @@ export default function DeckBuilder() {
   }, [])
 
   const exportDeck = useCallback(() => {
-    const data = JSON.stringify({ name: deckName, cards: deck.map(c => c.id) })
+    const data = JSON.stringify({ name: deckName, cards: deck.map(c => c.id), format: format.id })
     const blob = new Blob([data], { type: 'application/json' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
@@ -339,7 +353,7 @@ export default function DeckBuilder() {
     a.download = `${deckName.replace(/\s+/g, '-').toLowerCase()}.json`
     a.click()
     URL.revokeObjectURL(url)
-  }, [deck, deckName])
+  }, [deck, deckName, format])
 
   const importDeck = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -349,13 +363,7 @@ export default function DeckBuilder() {
       reader.onload = event => {
         try {
           const data = JSON.parse(event.target?.result as string)
-          if (data.name && Array.isArray(data.cards)) {
-            setDeckName(data.name)
-            const loaded = data.cards
-              .map((id: string) => allCards.find(c => c.id === id))
-              .filter(Boolean) as GameCard[]
-            setDeck(loaded)
-          }
+          if (data.name && Array.isArray(data.cards)) loadDeck(data)
         } catch {
           // Invalid file format
         }
@@ -364,7 +372,49 @@ export default function DeckBuilder() {
       // Reset input so the same file can be imported again
       if (importRef.current) importRef.current.value = ''
     },
-    [allCards],
+    [loadDeck],
+  )
+
+  const importDeckCode = useCallback(
+    (code: string) => {
+      try {
+        const missing = loadDeck(decodeDeckCode(code))
+        setCodeMessage(
+          missing > 0
+            ? { text: `${missing} unknown card(s) in that code were skipped`, isError: true }
+            : { text: 'Deck loaded from code', isError: false },
+        )
+        setCodeInput('')
+      } catch (error) {
+        setCodeMessage({
+          text: error instanceof Error ? error.message : 'Could not read deck code',
+          isError: true,
+        })
+      }
+    },
+    [loadDeck],
+  )
+
+  // Open a deck shared as /deck-builder?code=…
+  useEffect(() => {
+    if (sharedCode && allCards.length > 0) importDeckCode(sharedCode)
+  }, [sharedCode, allCards, importDeckCode])
+
+  const copyDeckCode = useCallback(
+    async (asLink: boolean) => {
+      const code = encodeDeckCode({ name: deckName, cards: deck.map(c => c.id), format: format.id })
+      const text = asLink
+        ? `${window.location.origin}/deck-builder?code=${encodeURIComponent(code)}`
+        : code
+      try {
+        await navigator.clipboard.writeText(text)
+        setCodeMessage({ text: asLink ? 'Deck link copied' : 'Deck code copied', isError: false })
+      } catch {
+        // Clipboard blocked; show it so it can be copied by hand
+        setCodeInput(text)
+      }
+    },
+    [deck, deckName, format],
   )
 
   const clearFilters = useCallback(() => {
@@ -377,17 +427,16 @@ export default function DeckBuilder() {
   const spellCount = deck.filter(c => c.type === 'spell').length
 
   // Progress bar color
-  const progressPercent = Math.min((deck.length / MAX_DECK_SIZE) * 100, 100)
+  const progressPercent = Math.min((deck.length / format.maxSize) * 100, 100)
   const progressColor =
     deck.length < 20
       ? 'bg-red-500'
       : deck.length < 36
         ? 'bg-amber-500'
-        : deck.length <= MAX_DECK_SIZE
+        : deck.length <= format.maxSize
           ? 'bg-emerald-500'
           : 'bg-red-500'
-  const isComplete =
-    deck.length >= MIN_DECK_SIZE && deck.length <= MAX_DECK_SIZE && validation.valid
+  const isComplete = violations.length === 0
 
   return (
     <>
@@ -398,11 +447,21 @@ export default function DeckBuilder() {
           <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-6 gap-3">
             <div>
               <h1 className="text-3xl font-bold">Deck Builder</h1>
-              <p className="text-muted-foreground text-sm">
-                Build your {MIN_DECK_SIZE}-{MAX_DECK_SIZE} card deck (max {MAX_COPIES} copies each)
-              </p>
+              <p className="text-muted-foreground text-sm">{format.description}</p>
             </div>
             <div className="flex gap-2">
+              <select
+                className="px-3 py-2 rounded-md border border-border bg-background text-sm"
+                value={format.id}
+                onChange={e => setFormat(getFormat(e.target.value) ?? DEFAULT_FORMAT)}
+                title="Deck format"
+              >
+                {DECK_FORMATS.map(f => (
+                  <option key={f.id} value={f.id}>
+                    {f.name}
+                  </option>
+                ))}
+              </select>
               {isComplete && (
                 <Link href={`/play?deck=${encodeURIComponent(deckName)}`}>
                   <Button className="bg-emerald-600 hover:bg-emerald-700">
@@ -639,8 +698,8 @@ export default function DeckBuilder() {
               <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 gap-3">
                 {filteredCards.map(card => {
                   const count = deckCardCounts.get(card.id) || 0
-                  const isMaxed = count >= MAX_COPIES
-                  const isDeckFull = deck.length >= MAX_DECK_SIZE
+                  const isMaxed = count >= format.maxCopies
+                  const isDeckFull = deck.length >= format.maxSize
 
                   return (
                     <button
@@ -698,14 +757,14 @@ export default function DeckBuilder() {
                       className={`text-lg font-bold ${
                         isComplete
                           ? 'text-emerald-400'
-                          : deck.length < MIN_DECK_SIZE
+                          : deck.length < format.minSize
                             ? 'text-amber-400'
-                            : deck.length > MAX_DECK_SIZE
+                            : deck.length > format.maxSize
                               ? 'text-red-400'
                               : 'text-emerald-400'
                       }`}
                     >
-                      {deck.length}/{MAX_DECK_SIZE} cards
+                      {deck.length}/{format.maxSize} cards
                     </span>
                     {isComplete && (
                       <span className="text-xs font-semibold text-emerald-400 bg-emerald-500/15 px-2 py-0.5 rounded-full">
@@ -718,22 +777,22 @@ export default function DeckBuilder() {
                       className={`h-full rounded-full transition-all duration-500 ease-out ${progressColor}`}
                       style={{ width: `${progressPercent}%` }}
                     />
-                    {/* Min deck marker at 30/40 = 75% */}
+                    {/* Min deck marker, e.g. 30/40 = 75% */}
                     <div
                       className="absolute top-0 h-full w-px bg-foreground/30"
-                      style={{ left: `${(MIN_DECK_SIZE / MAX_DECK_SIZE) * 100}%` }}
-                      title={`Min ${MIN_DECK_SIZE} cards`}
+                      style={{ left: `${(format.minSize / format.maxSize) * 100}%` }}
+                      title={`Min ${format.minSize} cards`}
                     />
                   </div>
                   <div className="flex justify-between mt-1">
                     <span className="text-[10px] text-muted-foreground">0</span>
                     <span
                       className="text-[10px] text-muted-foreground"
-                      style={{ marginLeft: `${(MIN_DECK_SIZE / MAX_DECK_SIZE) * 100 - 8}%` }}
+                      style={{ marginLeft: `${(format.minSize / format.maxSize) * 100 - 8}%` }}
                     >
-                      {MIN_DECK_SIZE} min
+                      {format.minSize} min
                     </span>
-                    <span className="text-[10px] text-muted-foreground">{MAX_DECK_SIZE}</span>
+                    <span className="text-[10px] text-muted-foreground">{format.maxSize}</span>
                   </div>
                 </div>
 
@@ -743,8 +802,8 @@ export default function DeckBuilder() {
                     size="sm"
                     variant="outline"
                     onClick={randomFill}
-                    title="Auto-fill to 30"
-                    disabled={deck.length >= MIN_DECK_SIZE}
+                    title={`Auto-fill to ${format.minSize}`}
+                    disabled={deck.length >= format.minSize}
                   >
                     <Shuffle className="w-4 h-4" />
                     <span className="hidden sm:inline ml-1">Fill</span>
@@ -771,6 +830,24 @@ export default function DeckBuilder() {
                     onChange={importDeck}
                     className="hidden"
                   />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => copyDeckCode(false)}
+                    title="Copy deck code"
+                    disabled={deck.length === 0}
+                  >
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => copyDeckCode(true)}
+                    title="Copy deck link"
+                    disabled={deck.length === 0}
+                  >
+                    <Link2 className="w-4 h-4" />
+                  </Button>
                   <Button
                     size="sm"
                     variant="outline"
@@ -781,6 +858,32 @@ export default function DeckBuilder() {
                     <Trash2 className="w-4 h-4" />
                   </Button>
                 </div>
+
+                {/* Deck Code */}
+                <form
+                  className="flex gap-2"
+                  onSubmit={e => {
+                    e.preventDefault()
+                    if (codeInput.trim()) importDeckCode(codeInput)
+                  }}
+                >
+                  <Input
+                    value={codeInput}
+                    onChange={e => setCodeInput(e.target.value)}
+                    placeholder="Paste a deck code..."
+                    className="h-8 text-xs font-mono"
+                  />
+                  <Button type="submit" size="sm" variant="outline" disabled={!codeInput.trim()}>
+                    Load
+                  </Button>
+                </form>
+                {codeMessage && (
+                  <p
+                    className={`text-xs ${codeMessage.isError ? 'text-red-400' : 'text-emerald-400'}`}
+                  >
+                    {codeMessage.text}
+                  </p>
+                )}
               </div>
 
               {/* Mana Curve & Stats */}
@@ -856,6 +959,8 @@ export default function DeckBuilder() {
                 </div>
               </div>
 
+              <DeckAnalyticsPanel deck={deck} maxCopies={format.maxCopies} />
+
               {/* Deck Card List */}
               <div className="p-4 border border-border rounded-lg bg-card">
                 <div className="flex items-center justify-between mb-2">
@@ -899,7 +1004,11 @@ export default function DeckBuilder() {
                               <span className="text-xs font-mono font-bold bg-blue-600/80 text-white w-5 h-5 rounded flex items-center justify-center shrink-0">
                                 {card.cost}
                               </span>
-                              <span className="text-sm truncate">{card.name}</span>
+                              <span
+                                className={`text-sm truncate ${flaggedCardIds.has(cardId) ? 'text-red-400' : ''}`}
+                              >
+                                {card.name}
+                              </span>
                               {card.type === 'spell' && (
                                 <Sparkles className="w-3 h-3 text-violet-400 shrink-0" />
                               )}
@@ -943,12 +1052,12 @@ export default function DeckBuilder() {
                     </div>
                   ))}
                 </div>
-                {!validation.valid && validation.errors.length > 0 && (
+                {cardViolations.length > 0 && (
                   <>
                     <Separator />
                     <div className="text-xs text-red-400 space-y-0.5">
-                      {validation.errors.map(err => (
-                        <div key={err}>{err}</div>
+                      {cardViolations.map(v => (
+                        <div key={v.message}>{v.message}</div>
                       ))}
                     </div>
                   </>
@@ -992,3 +1101,17 @@ export default function DeckBuilder() {
     </>
   )
 }
+
+export default function DeckBuilder() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-background flex items-center justify-center">
+          <div className="text-muted-foreground">Loading...</div>
+        </div>
+      }
+    >
+      <DeckBuilderContent />
+    </Suspense>
+  )
+}
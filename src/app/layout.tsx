@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from 'next/font/google'
 import './globals.css'
 import '../styles/drag-drop.css'
 import { GameErrorBoundary } from '@/components/error_boundary'
+import { ProfileSync } from '@/components/profile_sync'
 import { ThemeProvider } from '@/contexts/theme_context'
 
 const geistSans = Geist({
@@ -46,7 +47,10 @@ export default function RootLayout({
     <html lang="en">
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
         <GameErrorBoundary showDetails={process.env.NODE_ENV === 'development'}>
-          <ThemeProvider>{children}</ThemeProvider>
+          <ThemeProvider>
+            <ProfileSync />
+            {children}
+          </ThemeProvider>
         </GameErrorBoundary>
       </body>
     </html>
@@ -0,0 +1,172 @@
+'use client'
+
+import { ArrowLeft, Crown, Trophy } from 'lucide-react'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { cn } from '@/lib/utils'
+import { profileSyncService } from '@/services/profile_sync_service'
+import type { LeaderboardEntry, PlayerStanding } from '@/services/rating_service'
+
+interface LeaderboardData {
+  season: string
+  entries: LeaderboardEntry[]
+  placementGames: number
+  standing: PlayerStanding | null
+  /** The asking player's id as it appears on the ladder */
+  publicId: string | null
+}
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'unavailable' }
+  | { status: 'error'; message: string }
+  | { status: 'loaded'; data: LeaderboardData }
+
+export default function LeaderboardPage() {
+  const [state, setState] = useState<LoadState>({ status: 'loading' })
+
+  useEffect(() => {
+    const id = profileSyncService.getPlayerId()
+
+    fetch(`/api/leaderboard?playerId=${encodeURIComponent(id)}`)
+      .then(async response => {
+        if (response.status === 503) return setState({ status: 'unavailable' })
+        if (!response.ok) throw new Error('Could not load the leaderboard')
+        setState({ status: 'loaded', data: await response.json() })
+      })
+      .catch(error => {
+        setState({
+          status: 'error',
+          message: error instanceof Error ? error.message : 'Could not load the leaderboard',
+        })
+      })
+  }, [])
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Ranked Ladder</h1>
+            <p className="text-muted-foreground">
+              {state.status === 'loaded'
+                ? `Season ${state.data.season}`
+                : 'Glicko-2 ratings from online games'}
+            </p>
+          </div>
+          <Link href="/stats">
+            <Button variant="outline">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Stats
+            </Button>
+          </Link>
+        </div>
+
+        {state.status === 'loading' && (
+          <div className="text-muted-foreground">Loading leaderboard...</div>
+        )}
+        {state.status === 'unavailable' && (
+          <div className="p-6 border border-border rounded-lg bg-card text-muted-foreground text-sm">
+            Ranked play needs the online server. Games played offline are not rated.
+          </div>
+        )}
+        {state.status === 'error' && (
+          <div className="p-6 border border-border rounded-lg bg-card text-red-400 text-sm">
+            {state.message}
+          </div>
+        )}
+
+        {state.status === 'loaded' && (
+          <>
+            <StandingCard data={state.data} />
+
+            <div className="p-6 border border-border rounded-lg bg-card">
+              <h2 className="text-lg font-semibold mb-4">Top Players</h2>
+              {state.data.entries.length === 0 ? (
+                <p className="text-muted-foreground text-sm">
+                  Nobody has finished their {state.data.placementGames} placement games this season
+                  yet.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border text-muted-foreground">
+                        <th className="text-left py-2 font-medium">Rank</th>
+                        <th className="text-left py-2 font-medium">Player</th>
+                        <th className="text-right py-2 font-medium">Rating</th>
+                        <th className="text-right py-2 font-medium">Games</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {state.data.entries.map(entry => (
+                        <tr
+                          key={entry.id}
+                          className={cn(
+                            'border-b border-border/50',
+                            entry.id === state.data.publicId && 'bg-primary/10 font-medium',
+                          )}
+                        >
+                          <td className="py-2">
+                            {entry.rank === 1 ? (
+                              <Crown className="w-4 h-4 text-yellow-400" />
+                            ) : (
+                              entry.rank
+                            )}
+                          </td>
+                          <td className="py-2">{entry.name}</td>
+                          <td className="py-2 text-right">
+                            {Math.round(entry.rating)}
+                            <span className="text-muted-foreground">
+                              {' '}
+                              ± {Math.round(entry.deviation)}
+                            </span>
+                          </td>
+                          <td className="py-2 text-right">{entry.rankedGames}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function StandingCard({ data }: { data: LeaderboardData }) {
+  const { standing, placementGames } = data
+  if (!standing) return null
+
+  return (
+    <div className="p-6 border border-border rounded-lg bg-card">
+      <div className="flex items-center gap-2 mb-3">
+        <Trophy className="w-5 h-5 text-yellow-400" />
+        <h2 className="text-lg font-semibold">Your Standing</h2>
+      </div>
+      {standing.placed ? (
+        <div className="flex items-baseline gap-3">
+          <span className="text-3xl font-bold">{Math.round(standing.rating)}</span>
+          <span className="text-muted-foreground text-sm">
+            ± {Math.round(standing.deviation)} after {standing.rankedGames} games this season
+          </span>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Placement: {standing.rankedGames} / {placementGames} games. Finish{' '}
+            {standing.placementGamesLeft} more online{' '}
+            {standing.placementGamesLeft === 1 ? 'game' : 'games'} to join the ladder.
+          </p>
+          <Progress value={(standing.rankedGames / placementGames) * 100} className="h-2" />
+        </div>
+      )}
+    </div>
+  )
+}
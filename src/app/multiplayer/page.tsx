@@ -1,12 +1,16 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Suspense, useEffect, useState } from 'react'
 import GameBoard from '@/components/game_board'
 import { MatchmakingInterface } from '@/components/multiplayer/matchmaking'
+import { SpectatorView } from '@/components/multiplayer/spectator_view'
 import { useMultiplayerActions } from '@/hooks/use_multiplayer_actions'
 import { GameLogger } from '@/lib/game_logger'
 import { createInitialGameState } from '@/lib/game_logic'
+import type { GameRules } from '@/schemas/multiplayer_schema'
 import type { GameState } from '@/schemas/schema'
+import { useGameStore } from '@/store/game_store'
 
 type MultiplayerState = 'setup' | 'matchmaking' | 'matched' | 'playing' | 'ended'
 
@@ -14,7 +18,7 @@ interface MatchData {
   matchId: string
   yourSide: 'player1' | 'player2'
   opponent: {
-    id: string
+    id?: string
     name: string
     rating: number
     zodiac: string
@@ -22,15 +26,88 @@ interface MatchData {
   gameMode: string
   zodiacCompatibility: number
   cosmicBlessings: string[]
+  rules?: GameRules
+  lobbyTicket?: string
+  seatTicket?: string
+}
+
+/** Link that opens a game read-only; casters see both hands on a delay */
+function spectateLink(gameId: string, casterKey?: string): string {
+  const params = new URLSearchParams({ spectate: gameId })
+  if (casterKey) params.set('caster', casterKey)
+  return `/multiplayer?${params.toString()}`
+}
+
+/** Counts down the seconds a dropped opponent has left to reconnect */
+function OpponentDroppedBanner({ until }: { until: number }) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const secondsLeft = Math.max(0, Math.ceil((until - now) / 1000))
+  return (
+    <div className="fixed top-10 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-lg bg-yellow-50 dark:bg-yellow-900/80 border border-yellow-300 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 text-sm shadow-md">
+      ⏸️ Opponent disconnected. Your clock is paused; they forfeit in {secondsLeft}s unless they
+      reconnect.
+    </div>
+  )
 }
 
 export default function MultiplayerPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-background flex items-center justify-center">
+          <div className="text-muted-foreground">Loading...</div>
+        </div>
+      }
+    >
+      <MultiplayerContent />
+    </Suspense>
+  )
+}
+
+function MultiplayerContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const spectateGameId = searchParams.get('spectate')
+
+  if (spectateGameId) {
+    return (
+      <SpectatorView
+        gameId={spectateGameId}
+        casterKey={searchParams.get('caster') ?? undefined}
+        delayMs={Number(searchParams.get('delay')) || undefined}
+        onLeave={() => router.push('/multiplayer')}
+      />
+    )
+  }
+
+  return (
+    <MultiplayerGame
+      onSpectate={(gameId, casterKey) => router.push(spectateLink(gameId, casterKey))}
+    />
+  )
+}
+
+function MultiplayerGame({
+  onSpectate,
+}: {
+  onSpectate: (gameId: string, casterKey?: string) => void
+}) {
   const [state, setState] = useState<MultiplayerState>('setup')
   const [gameState, setGameState] = useState<GameState | null>(null)
   const [matchData, setMatchData] = useState<MatchData | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [watchGameId, setWatchGameId] = useState('')
+  const [casterKey, setCasterKey] = useState('')
+  const [linkCopied, setLinkCopied] = useState(false)
 
   const multiplayer = useMultiplayerActions()
+  const { opponentDisconnectedUntil, forfeitWinner } = useGameStore(state => state.multiplayer)
 
   // Initialize game when match is found
   useEffect(() => {
@@ -45,7 +122,9 @@ export default function MultiplayerPage() {
           const connected = await multiplayer.connectToGame(
             matchData.matchId,
             matchData.yourSide,
-            `token_${Date.now()}`, // TODO: Use proper authentication
+            // Matchmade seats are claimed with their ticket; lobby games only need a private token
+            matchData.seatTicket ?? `token_${crypto.randomUUID()}`,
+            matchData.lobbyTicket,
           )
 
           if (connected) {
@@ -98,6 +177,27 @@ export default function MultiplayerPage() {
     GameLogger.state('Multiplayer game ended')
   }
 
+  // A forfeit ends the game on the server; there is no final move to wait for
+  useEffect(() => {
+    if (state === 'playing' && forfeitWinner) {
+      setState('ended')
+      multiplayer.disconnectFromGame()
+      GameLogger.state(`Multiplayer game ended by forfeit, ${forfeitWinner} wins`)
+    }
+  }, [state, forfeitWinner, multiplayer])
+
+  const copySpectateLink = async () => {
+    if (!matchData) return
+    const link = `${window.location.origin}${spectateLink(matchData.matchId)}`
+    try {
+      await navigator.clipboard.writeText(link)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch (error) {
+      GameLogger.error('Failed to copy spectate link:', error)
+    }
+  }
+
   // Handle return to setup
   const handleReturnToSetup = () => {
     setState('setup')
@@ -136,6 +236,38 @@ export default function MultiplayerPage() {
               onMatchFound={handleMatchFound}
               onCancel={handleCancelMatchmaking}
             />
+
+            {/* Watch someone else's game */}
+            <form
+              className="mt-6 bg-white dark:bg-gray-800 rounded-xl border border-gray-300 dark:border-gray-600 p-4 space-y-3"
+              onSubmit={event => {
+                event.preventDefault()
+                if (watchGameId.trim())
+                  onSpectate(watchGameId.trim(), casterKey.trim() || undefined)
+              }}
+            >
+              <h2 className="text-sm font-bold text-black dark:text-white">👁️ Watch a Game</h2>
+              <input
+                value={watchGameId}
+                onChange={event => setWatchGameId(event.target.value)}
+                placeholder="Game ID"
+                className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-transparent text-sm text-black dark:text-white"
+              />
+              <input
+                type="password"
+                value={casterKey}
+                onChange={event => setCasterKey(event.target.value)}
+                placeholder="Caster key (optional): both hands face-up, on a broadcast delay"
+                className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-transparent text-xs text-black dark:text-white"
+              />
+              <button
+                type="submit"
+                disabled={!watchGameId.trim()}
+                className="w-full bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-100 disabled:opacity-50 font-bold py-2 rounded-lg text-sm transition-colors"
+              >
+                Spectate
+              </button>
+            </form>
           </div>
         </div>
       )}
@@ -161,16 +293,23 @@ export default function MultiplayerPage() {
               🌟 Worthy Opponent Found!
             </h2>
             <p className="text-xl text-black dark:text-white mb-4">{matchData.opponent.name}</p>
-            <div className="flex flex-col gap-2 mb-6">
-              <p className="text-sm text-gray-800 dark:text-gray-200">
-                {matchData.opponent.zodiac} ♦ Rating: {matchData.opponent.rating}
-              </p>
-              <p className="text-sm text-blue-600 dark:text-blue-400">
-                Compatibility: {Math.round(matchData.zodiacCompatibility * 100)}%
+            {matchData.rules ? (
+              <p className="text-sm text-gray-800 dark:text-gray-200 mb-6">
+                Friendly match ♦ {matchData.rules.startingHealth} health ♦{' '}
+                {matchData.rules.turnSeconds}s turns
               </p>
-            </div>
+            ) : (
+              <div className="flex flex-col gap-2 mb-6">
+                <p className="text-sm text-gray-800 dark:text-gray-200">
+                  {matchData.opponent.zodiac} ♦ Rating: {matchData.opponent.rating}
+                </p>
+                <p className="text-sm text-blue-600 dark:text-blue-400">
+                  Compatibility: {Math.round(matchData.zodiacCompatibility * 100)}%
+                </p>
+              </div>
+            )}
 
-            {matchData.cosmicBlessings && (
+            {matchData.cosmicBlessings.length > 0 && (
               <div className="bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-700 rounded-lg p-4 mb-6">
                 <h3 className="text-sm font-bold text-blue-800 dark:text-blue-200 mb-2">
                   🌟 Cosmic Blessings:
@@ -192,7 +331,19 @@ export default function MultiplayerPage() {
 
       {/* Playing Phase */}
       {state === 'playing' && gameState && (
-        <GameBoard gameState={gameState} onEndTurn={handleGameEnd} />
+        <>
+          <GameBoard gameState={gameState} onEndTurn={handleGameEnd} />
+          {opponentDisconnectedUntil && <OpponentDroppedBanner until={opponentDisconnectedUntil} />}
+          {matchData && (
+            <button
+              type="button"
+              onClick={copySpectateLink}
+              className="fixed top-2 left-1/2 -translate-x-1/2 z-50 px-3 py-1 rounded-full bg-card/90 border border-border text-xs shadow-md hover:bg-card transition-colors"
+            >
+              {linkCopied ? '✓ Link copied' : '👁️ Copy spectate link'}
+            </button>
+          )}
+        </>
       )}
 
       {/* Game Ended Phase */}
@@ -202,7 +353,11 @@ export default function MultiplayerPage() {
             <div className="text-6xl mb-4">🎴</div>
             <h2 className="text-2xl font-bold text-black dark:text-white mb-4">Game Complete</h2>
             <p className="text-gray-800 dark:text-gray-200 mb-6">
-              The cards have spoken their wisdom
+              {forfeitWinner
+                ? forfeitWinner === matchData?.yourSide
+                  ? 'Your opponent did not reconnect in time. Victory by forfeit.'
+                  : 'You were disconnected for too long and forfeited the game.'
+                : 'The cards have spoken their wisdom'}
             </p>
             <button
               onClick={handleReturnToSetup}
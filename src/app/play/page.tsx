@@ -4,7 +4,7 @@ import { produce } from 'immer'
 import { ArrowLeft, RotateCcw, Swords } from 'lucide-react'
 import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { Suspense, useEffect, useState } from 'react'
+import { Suspense, useEffect, useMemo, useState } from 'react'
 import { GameBoardErrorBoundary } from '@/components/error_boundary'
 import TarotGameBoard from '@/components/game_board'
 import { GameSummary } from '@/components/game_summary'
@@ -14,34 +14,77 @@ import { Button } from '@/components/ui/button'
 import { useAIController } from '@/hooks/use_ai_controller'
 import { useGameTracker } from '@/hooks/use_game_tracker'
 import { getAllCards } from '@/lib/card_loader'
+import type { SavedDeck } from '@/lib/deck_code'
+import { DEFAULT_FORMAT, getFormat, validateDeck } from '@/lib/deck_format'
 import { GameLogger } from '@/lib/game_logger'
 import {
   checkGameOutcome,
   completeMulligan,
-  createInitialGameState,
+  createConstructedGameState,
+  type DeckChoice,
   endTurn,
-  initializeCards,
   playCard,
 } from '@/lib/game_logic'
-import type { Card, GameState } from '@/schemas/schema'
+import type { ChallengeRules } from '@/schemas/challenge_schema'
+import type { DeckFormat } from '@/schemas/format_schema'
+import { type Card, type GameState, ZodiacClassSchema } from '@/schemas/schema'
 import type { AILevel } from '@/services/ai_service'
+import { challengeService } from '@/services/challenge_service'
 import { soundService } from '@/services/sound_service'
 
 type GameScreen = 'setup' | 'playing'
 
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1)
+
+/** Look up a saved deck's cards; ids no longer in the card pool are dropped */
+function resolveDeckCards(deck: SavedDeck): Card[] {
+  const allCards = getAllCards()
+  return deck.cards.map(id => allCards.find(c => c.id === id)).filter(Boolean) as Card[]
+}
+
+/** The format a saved deck is held to: the challenge's if there is one, else its own */
+function getDeckFormat(deck: SavedDeck, challengeFormat?: DeckFormat): DeckFormat {
+  return challengeFormat ?? getFormat(deck.format ?? DEFAULT_FORMAT.id) ?? DEFAULT_FORMAT
+}
+
+/** Why a saved deck can't be played in `format`; empty when it can */
+function getDeckProblems(deck: SavedDeck, format: DeckFormat): string[] {
+  const cards = resolveDeckCards(deck)
+  const problems = validateDeck(cards, format).map(v => v.message)
+  const missing = deck.cards.length - cards.length
+  if (missing > 0) problems.push(`${missing} card(s) no longer exist`)
+  return problems
+}
+
+function applyChallengeRules(state: GameState, rules: ChallengeRules): GameState {
+  return produce(state, draft => {
+    draft.player1.health = rules.startingHealth
+    draft.player1.mana = rules.startingMana
+    draft.player1.maxMana = rules.startingMana
+  })
+}
+
 function PlayContent() {
   const router = useRouter()
   const searchParams = useSearchParams()
   const deckParam = searchParams.get('deck')
+  const challengeParam = searchParams.get('challenge')
+  const challenge = useMemo(
+    () => (challengeParam ? challengeService.getChallenge(challengeParam) : null),
+    [challengeParam],
+  )
 
   const [screen, setScreen] = useState<GameScreen>('setup')
-  const [difficulty, setDifficulty] = useState<AILevel>('easy')
+  const [difficulty, setDifficulty] = useState<AILevel>(challenge?.rules.aiDifficulty ?? 'easy')
   const [selectedDeckName, setSelectedDeckName] = useState<string>(deckParam || '')
+  // 'random', 'archetype:<zodiac>' or 'saved:<deck name>'
+  const [opponentDeck, setOpponentDeck] = useState('random')
+  const [setupError, setSetupError] = useState<string | null>(null)
   const [gameState, setGameState] = useState<GameState | null>(null)
   const [gameOutcome, setGameOutcome] = useState<'player1_wins' | 'player2_wins' | 'ongoing'>(
     'ongoing',
   )
-  const [savedDecks, setSavedDecks] = useState<{ name: string; cards: string[] }[]>([])
+  const [savedDecks, setSavedDecks] = useState<SavedDeck[]>([])
 
   const { executeAI } = useAIController({
     enabled: screen === 'playing',
@@ -68,6 +111,18 @@ function PlayContent() {
     }
   }, [])
 
+  const challengeFormat = challenge ? getFormat(challenge.rules.format) : undefined
+  const deckProblems = useMemo(
+    () =>
+      new Map(savedDecks.map(d => [d.name, getDeckProblems(d, getDeckFormat(d, challengeFormat))])),
+    [savedDecks, challengeFormat],
+  )
+  // The AI isn't bound by the challenge, only by its own deck's format
+  const opponentDecks = useMemo(
+    () => savedDecks.filter(d => getDeckProblems(d, getDeckFormat(d)).length === 0),
+    [savedDecks],
+  )
+
   // Check for game outcome
   useEffect(() => {
     if (gameState) {
@@ -98,43 +153,52 @@ function PlayContent() {
     executeAI,
   ])
 
+  const toDeckChoice = (key: string, format?: DeckFormat): DeckChoice => {
+    if (key.startsWith('archetype:')) {
+      return { type: 'archetype', zodiacClass: key.slice('archetype:'.length) }
+    }
+    const saved = key.startsWith('saved:')
+      ? savedDecks.find(d => d.name === key.slice('saved:'.length))
+      : undefined
+    if (!saved) return { type: 'random' }
+    return {
+      type: 'constructed',
+      cards: resolveDeckCards(saved),
+      format: getDeckFormat(saved, format),
+    }
+  }
+
   const startGame = () => {
-    initializeCards()
+    const problems = deckProblems.get(selectedDeckName)
+    if (problems && problems.length > 0) {
+      setSetupError(`${selectedDeckName} can't be played: ${problems.join('; ')}`)
+      return
+    }
 
     let initialState: GameState
-
-    // Check if using a custom deck
-    if (selectedDeckName) {
-      const savedDeck = savedDecks.find(d => d.name === selectedDeckName)
-      if (savedDeck) {
-        const allCards = getAllCards()
-        const deckCards = savedDeck.cards
-          .map(id => allCards.find(c => c.id === id))
-          .filter(Boolean) as Card[]
-
-        if (deckCards.length >= 30) {
-          // Create game state with custom deck
-          initialState = createInitialGameState()
-          initialState = produce(initialState, draft => {
-            // Shuffle the custom deck
-            const shuffled = [...deckCards].sort(() => Math.random() - 0.5)
-            draft.player1.deck = shuffled.slice(5) // Rest goes to deck
-            draft.player1.hand = shuffled.slice(0, 5) // Draw 5 cards
-          })
-        } else {
-          initialState = createInitialGameState()
-        }
-      } else {
-        initialState = createInitialGameState()
-      }
-    } else {
-      initialState = createInitialGameState()
+    try {
+      initialState = createConstructedGameState(
+        selectedDeckName
+          ? toDeckChoice(`saved:${selectedDeckName}`, challengeFormat)
+          : { type: 'random' },
+        toDeckChoice(opponentDeck),
+      )
+    } catch (error) {
+      setSetupError(error instanceof Error ? error.message : 'Could not start the game')
+      return
     }
+    if (challenge) initialState = applyChallengeRules(initialState, challenge.rules)
 
+    setSetupError(null)
     setGameState(initialState)
     setGameOutcome('ongoing')
     setScreen('playing')
-    GameLogger.state('Game started', { difficulty, deck: selectedDeckName || 'random' })
+    GameLogger.state('Game started', {
+      difficulty,
+      deck: selectedDeckName || 'random',
+      opponentDeck,
+      challenge: challenge?.id,
+    })
   }
 
   const handleCardPlay = async (card: Card) => {
@@ -214,8 +278,12 @@ function PlayContent() {
       <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-4">
         <div className="max-w-2xl w-full space-y-8">
           <div className="text-center space-y-2">
-            <h1 className="text-4xl font-bold">New Game</h1>
-            <p className="text-muted-foreground">Choose your difficulty and deck</p>
+            <h1 className="text-4xl font-bold">
+              {challenge ? `${challenge.icon} ${challenge.name}` : 'New Game'}
+            </h1>
+            <p className="text-muted-foreground">
+              {challenge ? challenge.description : 'Choose your difficulty and deck'}
+            </p>
           </div>
 
           {/* Difficulty Selection */}
@@ -259,28 +327,34 @@ function PlayContent() {
                 </div>
               </button>
 
-              {savedDecks.map(d => (
-                <button
-                  key={d.name}
-                  onClick={() => setSelectedDeckName(d.name)}
-                  className={`w-full p-3 rounded-lg border-2 transition-all text-left flex items-center justify-between ${
-                    selectedDeckName === d.name
-                      ? 'border-primary bg-primary/10'
-                      : 'border-border hover:border-primary/50'
-                  }`}
-                >
-                  <div className="flex items-center gap-3">
-                    <span className="text-2xl">📋</span>
-                    <div>
-                      <div className="font-semibold">{d.name}</div>
-                      <div className="text-xs text-muted-foreground">{d.cards.length} cards</div>
+              {savedDecks.map(d => {
+                const problems = deckProblems.get(d.name) ?? []
+                return (
+                  <button
+                    key={d.name}
+                    onClick={() => setSelectedDeckName(d.name)}
+                    disabled={problems.length > 0}
+                    className={`w-full p-3 rounded-lg border-2 transition-all text-left flex items-center justify-between disabled:opacity-50 disabled:cursor-not-allowed ${
+                      selectedDeckName === d.name
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border hover:border-primary/50'
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <span className="text-2xl">📋</span>
+                      <div>
+                        <div className="font-semibold">{d.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {problems.length > 0 ? problems.join('; ') : `${d.cards.length} cards`}
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                  {selectedDeckName === d.name && (
-                    <Badge className="bg-primary text-primary-foreground">Selected</Badge>
-                  )}
-                </button>
-              ))}
+                    {selectedDeckName === d.name && (
+                      <Badge className="bg-primary text-primary-foreground">Selected</Badge>
+                    )}
+                  </button>
+                )
+              })}
 
               {savedDecks.length === 0 && (
                 <Link href="/deck-builder">
@@ -292,6 +366,36 @@ function PlayContent() {
             </div>
           </div>
 
+          {/* Opponent Deck */}
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold">Opponent Deck</h2>
+            <select
+              className="w-full px-3 py-2 rounded-md border border-border bg-background text-sm"
+              value={opponentDeck}
+              onChange={e => setOpponentDeck(e.target.value)}
+            >
+              <option value="random">Random deck</option>
+              <optgroup label="Zodiac archetypes">
+                {ZodiacClassSchema.options.map(z => (
+                  <option key={z} value={`archetype:${z}`}>
+                    {capitalize(z)}
+                  </option>
+                ))}
+              </optgroup>
+              {opponentDecks.length > 0 && (
+                <optgroup label="Your decks">
+                  {opponentDecks.map(d => (
+                    <option key={d.name} value={`saved:${d.name}`}>
+                      {d.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+
+          {setupError && <p className="text-sm text-destructive text-center">{setupError}</p>}
+
           {/* Actions */}
           <div className="flex gap-3 justify-center">
             <Link href="/">
@@ -0,0 +1,210 @@
+'use client'
+
+import { ArrowLeft, Download, PlayCircle, Trash2, Upload } from 'lucide-react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Suspense, useEffect, useRef, useState } from 'react'
+import { GameBoardErrorBoundary } from '@/components/error_boundary'
+import TarotGameBoard from '@/components/game_board'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import type { GameReplay } from '@/schemas/replay_schema'
+import type { GameState } from '@/schemas/schema'
+import { createReplayInitialState, replayService } from '@/services/replay_service'
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function downloadReplay(replay: GameReplay) {
+  const blob = new Blob([replayService.exportReplay(replay)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${replay.id}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function ReplayViewer({ replay }: { replay: GameReplay }) {
+  const router = useRouter()
+  const [initialState, setInitialState] = useState<GameState | null>(null)
+
+  useEffect(() => {
+    createReplayInitialState(replay).then(setInitialState)
+  }, [replay])
+
+  return (
+    <div className="h-screen w-screen bg-background text-foreground overflow-hidden relative transition-colors">
+      <div className="fixed top-2 left-2 md:top-4 md:left-4 z-50">
+        <Button
+          onClick={() => router.push('/replay')}
+          variant="outline"
+          className="rounded-full w-8 h-8 md:w-10 md:h-10 p-0 shadow-lg"
+          title="Back to replays"
+        >
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {initialState && (
+        <GameBoardErrorBoundary onReset={() => router.push('/replay')}>
+          <TarotGameBoard gameState={initialState} replay={replay} />
+        </GameBoardErrorBoundary>
+      )}
+    </div>
+  )
+}
+
+function ReplayContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const replayId = searchParams.get('id')
+
+  const [replays, setReplays] = useState<GameReplay[]>([])
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    setReplays(replayService.getReplays())
+  }, [])
+
+  const selected = replayId ? replays.find(r => r.id === replayId) : null
+  if (selected) {
+    return <ReplayViewer replay={selected} />
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      const replay = replayService.importReplay(await file.text())
+      setReplays(replayService.getReplays())
+      setImportError(null)
+      router.push(`/replay?id=${replay.id}`)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not read replay file')
+    }
+  }
+
+  const handleDelete = (id: string) => {
+    replayService.deleteReplay(id)
+    setReplays(replayService.getReplays())
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Replays</h1>
+            <p className="text-muted-foreground">Step back through your recent games</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Link href="/play">
+              <Button variant="outline">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Game
+              </Button>
+            </Link>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0]
+              if (file) handleImport(file)
+              e.target.value = ''
+            }}
+          />
+        </div>
+
+        {importError && <p className="text-sm text-destructive">{importError}</p>}
+        {replayId && !selected && (
+          <p className="text-sm text-muted-foreground">That replay is no longer saved.</p>
+        )}
+
+        {replays.length === 0 ? (
+          <div className="p-8 rounded-lg border-2 border-dashed border-border text-center text-sm text-muted-foreground">
+            No replays yet. Finished games against the AI are saved here automatically.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {replays.map(replay => (
+              <div
+                key={replay.id}
+                className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border bg-card"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    {replay.result && (
+                      <Badge
+                        className={
+                          replay.result === 'player1_wins'
+                            ? 'bg-green-600 text-white'
+                            : 'bg-red-600 text-white'
+                        }
+                      >
+                        {replay.result === 'player1_wins' ? 'Win' : 'Loss'}
+                      </Badge>
+                    )}
+                    <span className="font-semibold">{formatDate(replay.startedAt)}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {replay.actions.length} moves · seed {replay.seed}
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button size="sm" onClick={() => router.push(`/replay?id=${replay.id}`)}>
+                    <PlayCircle className="w-4 h-4" />
+                    Watch
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => downloadReplay(replay)}
+                    aria-label="Download replay"
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(replay.id)}
+                    aria-label="Delete replay"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function ReplayPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-background flex items-center justify-center">
+          <div className="text-muted-foreground">Loading...</div>
+        </div>
+      }
+    >
+      <ReplayContent />
+    </Suspense>
+  )
+}
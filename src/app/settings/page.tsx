@@ -3,6 +3,7 @@
 import {
   ArrowLeft,
   BarChart3,
+  Cloud,
   Gauge,
   Home,
   Info,
@@ -16,6 +17,7 @@ import {
 import Link from 'next/link'
 import { useCallback, useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import {
   Select,
   SelectContent,
@@ -25,18 +27,55 @@ import {
 } from '@/components/ui/select'
 import { Separator } from '@/components/ui/separator'
 import { useTheme } from '@/contexts/theme_context'
+import { profileSyncService, type SyncStatus } from '@/services/profile_sync_service'
 import type { GameSettings } from '@/services/settings_service'
 import { settingsService } from '@/services/settings_service'
 import { soundService } from '@/services/sound_service'
 
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  idle: 'Not synced yet',
+  syncing: 'Syncing...',
+  synced: 'Up to date',
+  offline: 'Offline - progress is saved on this device',
+  error: 'Sync failed - progress is saved on this device',
+}
+
 export default function SettingsPage() {
   const [settings, setSettings] = useState<GameSettings | null>(null)
   const { theme, setTheme } = useTheme()
+  const [syncCode, setSyncCode] = useState('')
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle')
+  const [linkCode, setLinkCode] = useState('')
+  const [syncMessage, setSyncMessage] = useState<string | null>(null)
 
   useEffect(() => {
     setSettings(settingsService.getAll())
+    setSyncCode(profileSyncService.getPlayerId())
+    setSyncStatus(profileSyncService.getStatus())
+    return profileSyncService.onStatusChange(setSyncStatus)
+  }, [])
+
+  const handleSync = useCallback(async () => {
+    setSyncMessage(null)
+    await profileSyncService.sync()
+    setSettings(settingsService.getAll())
   }, [])
 
+  const handleLink = useCallback(async () => {
+    if (!window.confirm("Replace this device's progress with the profile for that sync code?")) {
+      return
+    }
+    try {
+      await profileSyncService.link(linkCode)
+      setSyncCode(profileSyncService.getPlayerId())
+      setSettings(settingsService.getAll())
+      setLinkCode('')
+      setSyncMessage('Profile loaded')
+    } catch (error) {
+      setSyncMessage(error instanceof Error ? error.message : 'Could not load that profile')
+    }
+  }, [linkCode])
+
   const updateSetting = useCallback(
     <K extends keyof GameSettings>(key: K, value: GameSettings[K]) => {
       settingsService.set(key, value)
@@ -226,6 +265,42 @@ export default function SettingsPage() {
 
         <Separator />
 
+        {/* Cloud Save */}
+        <SettingsSection icon={<Cloud className="w-5 h-5" />} title="Cloud Save">
+          <SettingRow
+            label="Sync Code"
+            description="Enter this code on another device to carry your progress over"
+          >
+            <span className="text-xs font-mono text-muted-foreground select-all">{syncCode}</span>
+          </SettingRow>
+
+          <SettingRow label="Status" description={SYNC_STATUS_LABELS[syncStatus]}>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSync}
+              disabled={syncStatus === 'syncing'}
+            >
+              Sync Now
+            </Button>
+          </SettingRow>
+
+          <div className="flex gap-2">
+            <Input
+              value={linkCode}
+              onChange={e => setLinkCode(e.target.value)}
+              placeholder="Sync code from another device"
+              className="font-mono text-xs"
+            />
+            <Button variant="outline" size="sm" onClick={handleLink} disabled={!linkCode.trim()}>
+              Load Profile
+            </Button>
+          </div>
+          {syncMessage && <p className="text-xs text-muted-foreground">{syncMessage}</p>}
+        </SettingsSection>
+
+        <Separator />
+
         {/* About */}
         <SettingsSection icon={<Info className="w-5 h-5" />} title="About">
           <SettingRow label="Version" description="Current game version">
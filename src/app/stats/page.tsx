@@ -3,12 +3,14 @@
 import { ArrowLeft, Clock, Flame, Skull, Swords, Target, Trophy, Zap } from 'lucide-react'
 import Link from 'next/link'
 import { useEffect, useState } from 'react'
+import { formatWinRate } from '@/components/stats/card_play_stats'
 import { QuestPanel } from '@/components/stats/quest_panel'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
-import type { GameRecord, PlayerStats } from '@/schemas/stats_schema'
+import { getCardById } from '@/lib/card_loader'
+import type { CardStats, DeckStats, GameRecord, PlayerStats } from '@/schemas/stats_schema'
 import { achievementService } from '@/services/achievement_service'
-import { statsService } from '@/services/stats_service'
+import { averagePlayRound, statsService } from '@/services/stats_service'
 
 const MAJOR_ARCANA = [
   { id: 'major-00-fool', name: 'The Fool', number: 0 },
@@ -66,11 +68,15 @@ export default function StatsPage() {
   const [stats, setStats] = useState<PlayerStats | null>(null)
   const [recentGames, setRecentGames] = useState<GameRecord[]>([])
   const [showAllGames, setShowAllGames] = useState(false)
+  const [deckStats, setDeckStats] = useState<DeckStats[]>([])
+  const [cardStats, setCardStats] = useState<CardStats[]>([])
   const [achievements, setAchievements] = useState<ReturnType<typeof achievementService.getAll>>([])
 
   useEffect(() => {
     setStats(statsService.getStats())
     setRecentGames(statsService.getRecentGames(50))
+    setDeckStats(statsService.getDeckStats())
+    setCardStats(statsService.getAllCardStats())
     setAchievements(achievementService.getAll())
   }, [])
 
@@ -95,12 +101,20 @@ export default function StatsPage() {
             <h1 className="text-3xl font-bold">Game Statistics</h1>
             <p className="text-muted-foreground">Track your progress and achievements</p>
           </div>
-          <Link href="/play">
-            <Button variant="outline">
-              <ArrowLeft className="w-4 h-4 mr-2" />
-              Back to Game
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            <Link href="/leaderboard">
+              <Button variant="outline">
+                <Trophy className="w-4 h-4 mr-2" />
+                Leaderboard
+              </Button>
+            </Link>
+            <Link href="/play">
+              <Button variant="outline">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Game
+              </Button>
+            </Link>
+          </div>
         </div>
 
         {/* Daily & Weekly Quests */}
@@ -238,7 +252,105 @@ export default function StatsPage() {
           )}
         </div>
 
-        {/* Section 4: Achievements */}
+        {/* Section 4: Decks */}
+        <div className="p-6 border border-border rounded-lg bg-card">
+          <h2 className="text-lg font-semibold mb-4">Decks</h2>
+          {deckStats.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              Play with a saved deck to track how it performs.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left py-2 font-medium">Deck</th>
+                    <th className="text-right py-2 font-medium">Record</th>
+                    <th className="text-right py-2 font-medium">Win Rate</th>
+                    <th className="text-right py-2 font-medium">Avg Rounds</th>
+                    <th className="text-right py-2 font-medium">Last Played</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deckStats.map(deck => (
+                    <tr key={deck.deckCode} className="border-b border-border/50">
+                      <td className="py-2 font-medium">
+                        <Link
+                          href={`/deck-builder?code=${encodeURIComponent(deck.deckCode)}`}
+                          className="hover:underline"
+                        >
+                          {deck.name}
+                        </Link>
+                      </td>
+                      <td className="py-2 text-right">
+                        {deck.wins}W - {deck.games - deck.wins}L
+                      </td>
+                      <td className="py-2 text-right">{formatWinRate(deck.wins, deck.games)}</td>
+                      <td className="py-2 text-right">
+                        {(deck.totalRounds / deck.games).toFixed(1)}
+                      </td>
+                      <td className="py-2 text-right text-muted-foreground">
+                        {formatDate(deck.lastPlayed)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Section 5: Cards */}
+        <div className="p-6 border border-border rounded-lg bg-card">
+          <h2 className="text-lg font-semibold mb-4">Cards</h2>
+          {cardStats.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No cards tracked yet.</p>
+          ) : (
+            <div className="overflow-x-auto max-h-[480px] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left py-2 font-medium">Card</th>
+                    <th className="text-right py-2 font-medium">Games</th>
+                    <th className="text-right py-2 font-medium">Won Drawn</th>
+                    <th className="text-right py-2 font-medium">Won Played</th>
+                    <th className="text-right py-2 font-medium">Avg Round</th>
+                    <th className="text-right py-2 font-medium">Upright</th>
+                    <th className="text-right py-2 font-medium">Reversed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {cardStats.map(card => {
+                    const average = averagePlayRound(card)
+                    return (
+                      <tr key={card.cardId} className="border-b border-border/50">
+                        <td className="py-2">{getCardById(card.cardId)?.name ?? card.cardId}</td>
+                        <td className="py-2 text-right">{card.games}</td>
+                        <td className="py-2 text-right">
+                          {formatWinRate(card.winsDrawn, card.gamesDrawn)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatWinRate(card.winsPlayed, card.gamesPlayed)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {average === null ? '-' : average.toFixed(1)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatWinRate(card.upright.wins, card.upright.plays)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatWinRate(card.reversed.wins, card.reversed.plays)}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Section 6: Achievements */}
         <div className="p-6 border border-border rounded-lg bg-card">
           <h2 className="text-lg font-semibold mb-1">Achievements</h2>
           <p className="text-sm text-muted-foreground mb-4">
@@ -280,7 +392,7 @@ export default function StatsPage() {
           </div>
         </div>
 
-        {/* Section 5: Major Arcana Progress */}
+        {/* Section 7: Major Arcana Progress */}
         <div className="p-6 border border-border rounded-lg bg-card">
           <h2 className="text-lg font-semibold mb-1">The Fool's Journey</h2>
           <p className="text-sm text-muted-foreground mb-4">
@@ -320,6 +432,8 @@ export default function StatsPage() {
                 statsService.resetStats()
                 setStats(statsService.getStats())
                 setRecentGames([])
+                setDeckStats([])
+                setCardStats([])
                 setAchievements(achievementService.getAll())
               }
             }}
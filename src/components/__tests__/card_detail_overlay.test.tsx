@@ -185,6 +185,24 @@ describe('CardDetailOverlay', () => {
             expect(screen.getByText('trample')).toBeInTheDocument()
         })
 
+        it('should explain esoteric keywords in a tooltip', () => {
+            const card = createTestCardWithDetails({
+                keywords: ['Chakra Flow', 'mystical_ward', 'flying']
+            })
+
+            render(
+                <CardDetailOverlay
+                    card={card}
+                    isOpen={true}
+                    onClose={mockOnClose}
+                />
+            )
+
+            expect(screen.getByText('Chakra Flow')).toHaveAttribute('title', expect.stringContaining('arcane charge'))
+            expect(screen.getByText('mystical_ward')).toHaveAttribute('title', expect.stringContaining('cannot be targeted by spells'))
+            expect(screen.getByText('flying')).not.toHaveAttribute('title')
+        })
+
         it('should not display keywords section when no keywords', () => {
             const card = createTestCardWithDetails({ keywords: [] })
 
@@ -8,7 +8,7 @@ export function Battlefield() {
   const { gameState, interaction } = useGameStore()
   const battlefield = gameState.battlefield
   const isPlayerTurn = gameState.activePlayer === 'player1'
-  const isInTargetingMode = interaction.targetingMode === 'attack'
+  const isInTargetingMode = interaction.targetingMode !== 'none'
 
   // Phase-specific color styles
   const getPhaseStyles = () => {
@@ -116,7 +116,7 @@ export function BattlefieldSlot({
   )
 
   const handleSlotClick = useCallback(async () => {
-    if (isEmpty && interaction.selectedCard) {
+    if (isEmpty && interaction.selectedCard && !isInTargetingMode()) {
       // Playing a card from hand via click-then-click (Hearthstone-style)
       GameLogger.debug('🎮 [Click-to-Play] Playing card to slot:', position)
       try {
@@ -262,7 +262,9 @@ export function BattlefieldSlot({
           {isInTargetingMode() && isValidTarget(card.id) && (
             <div
               className="w-2 h-2 bg-yellow-500 rounded-full animate-bounce"
-              title="Valid attack target"
+              title={
+                interaction.targetingMode === 'spell' ? 'Valid spell target' : 'Valid attack target'
+              }
             />
           )}
           {card.divineShield && (
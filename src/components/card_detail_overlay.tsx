@@ -7,6 +7,26 @@ import TarotCard from '@/components/tarot_card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import type { Card as GameCard } from '@/schemas/schema'
+import { type CardKeyword, normalizeKeyword } from '@/services/combat_service'
+
+// Rules reminder shown when hovering a keyword badge
+const KEYWORD_TOOLTIPS: Partial<Record<CardKeyword, string>> = {
+  tarot_mastery: 'Tarot Mastery: suffers no attack penalty while reversed.',
+  chakra_flow:
+    'Chakra Flow: gains 1 arcane charge at the start of your turn (up to 3). +1 attack per charge.',
+  sacred_geometry:
+    'Sacred Geometry: gains attack in golden or center slots, mirrored by an ally of its sign, or beside Fibonacci-cost allies.',
+  lunar_blessing:
+    'Lunar Blessing: +1 attack while the moon waxes or wanes, +2 under a full moon. The moon turns each round.',
+  spell_damage: 'Spell Damage: your spells deal 1 extra damage.',
+  mystical_ward: 'Mystical Ward: cannot be targeted by spells.',
+  deathrattle: 'Deathrattle: its abilities resolve when it dies.',
+  battlecry: 'Battlecry: its abilities resolve when it is played.',
+}
+
+function getKeywordTooltip(keyword: string): string | undefined {
+  return KEYWORD_TOOLTIPS[normalizeKeyword(keyword) as CardKeyword]
+}
 
 interface CardDetailOverlayProps {
   card: GameCard
@@ -118,7 +138,12 @@ export default function CardDetailOverlay({
                   <h4 className="text-sm font-semibold text-foreground">Keywords</h4>
                   <div className="flex flex-wrap gap-2">
                     {card.keywords.map(keyword => (
-                      <Badge key={keyword} variant="secondary" className="text-xs">
+                      <Badge
+                        key={keyword}
+                        variant="secondary"
+                        className="text-xs"
+                        title={getKeywordTooltip(keyword)}
+                      >
                         {keyword}
                       </Badge>
                     ))}
@@ -14,6 +14,9 @@ export function ContentNavigation() {
         <Button variant="link" asChild>
           <Link href="/content#classes">Classes</Link>
         </Button>
+        <Button variant="link" asChild>
+          <Link href="/content/ability-coverage">Ability Coverage</Link>
+        </Button>
         <Button variant="link" asChild>
           <Link href="/">Game</Link>
         </Button>
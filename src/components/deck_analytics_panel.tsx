@@ -0,0 +1,199 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Separator } from '@/components/ui/separator'
+import {
+  ANALYTICS_TURNS,
+  analyzeDeck,
+  cardsSeenByTurn,
+  drawChanceByTurn,
+} from '@/lib/deck_analytics'
+import { cn } from '@/lib/utils'
+import type { Card } from '@/schemas/schema'
+import { SYNERGY_THRESHOLDS, type SynergyTier } from '@/services/zodiac_synergy_service'
+
+interface DeckAnalyticsPanelProps {
+  deck: Card[]
+  maxCopies: number
+  className?: string
+}
+
+const ELEMENT_COLORS = {
+  fire: 'text-red-400',
+  water: 'text-blue-400',
+  earth: 'text-green-400',
+  air: 'text-sky-400',
+} as const
+
+const TIERS = Object.keys(SYNERGY_THRESHOLDS) as SynergyTier[]
+
+const percent = (chance: number) => `${Math.round(chance * 100)}%`
+
+// Green when it's likely, amber when it's a coin flip, red when you can't count on it
+function chanceColor(chance: number): string {
+  if (chance >= 0.75) return 'text-green-400'
+  if (chance >= 0.4) return 'text-amber-400'
+  return 'text-red-400'
+}
+
+export default function DeckAnalyticsPanel({
+  deck,
+  maxCopies,
+  className = '',
+}: DeckAnalyticsPanelProps) {
+  const [turn, setTurn] = useState(3)
+  const analytics = useMemo(() => analyzeDeck(deck), [deck])
+
+  if (deck.length === 0) return null
+
+  const copies = Array.from({ length: maxCopies }, (_, i) => i + 1)
+  const zodiacs = Object.entries(analytics.zodiacs).sort(([, a], [, b]) => b - a)
+
+  return (
+    <div className={cn('p-4 border border-border rounded-lg bg-card space-y-3', className)}>
+      <h3 className="font-semibold text-sm">Analytics</h3>
+
+      {/* Draw Odds */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs text-muted-foreground font-medium">Draw odds by turn</span>
+          <select
+            className="px-2 py-0.5 rounded-md border border-border bg-background text-xs"
+            value={turn}
+            onChange={e => setTurn(Number(e.target.value))}
+            title={`Cards seen by turn ${turn}: ${cardsSeenByTurn(turn)}`}
+          >
+            {Array.from({ length: ANALYTICS_TURNS }, (_, i) => i + 1).map(t => (
+              <option key={t} value={t}>
+                Turn {t}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-3 gap-2 text-center">
+          {copies.map(n => {
+            const chance = drawChanceByTurn(deck.length, n, turn)
+            return (
+              <div key={n} className="rounded-md border border-border py-1">
+                <div className={cn('text-sm font-bold', chanceColor(chance))}>
+                  {percent(chance)}
+                </div>
+                <div className="text-[10px] text-muted-foreground">
+                  {n} {n === 1 ? 'copy' : 'copies'}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <Separator />
+
+      {/* On-Curve Odds */}
+      <div>
+        <div className="text-xs text-muted-foreground mb-2 font-medium">
+          Chance to hold a card on curve
+        </div>
+        <div className="grid grid-cols-8 gap-1 text-center">
+          {analytics.onCurve.map(({ cost, cards, chance }) => (
+            <div key={cost} title={`${cards} cards costing ${cost === 7 ? '7+' : cost}`}>
+              <div
+                className={cn(
+                  'text-[10px] font-medium',
+                  cards > 0 ? chanceColor(chance) : 'text-muted-foreground',
+                )}
+              >
+                {cards > 0 ? percent(chance) : '-'}
+              </div>
+              <div className="text-[10px] text-muted-foreground font-mono">
+                {cost === 7 ? '7+' : cost}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Separator />
+
+      {/* Unit / Spell Ratio */}
+      <div>
+        <div className="flex justify-between text-xs mb-1">
+          <span className="text-muted-foreground font-medium">Units / spells</span>
+          <span>
+            {percent(analytics.unitRatio)} / {percent(1 - analytics.unitRatio)}
+          </span>
+        </div>
+        <div className="h-1.5 rounded-full bg-violet-500/40 overflow-hidden">
+          <div
+            className="h-full bg-amber-400/80"
+            style={{ width: `${analytics.unitRatio * 100}%` }}
+          />
+        </div>
+      </div>
+
+      <Separator />
+
+      {/* Synergy Uptime */}
+      <div>
+        <div className="text-xs text-muted-foreground mb-2 font-medium">
+          Synergy uptime (turns 1-{ANALYTICS_TURNS})
+        </div>
+        <div className="space-y-1 text-xs">
+          {analytics.elements
+            .filter(e => e.cards > 0)
+            .map(e => (
+              <div key={e.element} className="flex items-center gap-2">
+                <span className={cn('w-12 capitalize font-medium', ELEMENT_COLORS[e.element])}>
+                  {e.element}
+                </span>
+                <span className="w-14 text-muted-foreground">{e.units} units</span>
+                {TIERS.map(tier => (
+                  <span
+                    key={tier}
+                    className={cn(
+                      'flex-1 text-center',
+                      e.units >= SYNERGY_THRESHOLDS[tier]
+                        ? chanceColor(e.uptime[tier])
+                        : 'text-muted-foreground/50',
+                    )}
+                    title={`${tier}: ${SYNERGY_THRESHOLDS[tier]} ${e.element} units drawn`}
+                  >
+                    {tier[0]} {percent(e.uptime[tier])}
+                  </span>
+                ))}
+              </div>
+            ))}
+        </div>
+      </div>
+
+      {/* Zodiac Distribution */}
+      <div className="flex flex-wrap gap-1">
+        {zodiacs.map(([zodiac, count]) => (
+          <span
+            key={zodiac}
+            className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground capitalize"
+          >
+            {zodiac} {count}
+          </span>
+        ))}
+      </div>
+
+      <Separator />
+
+      {/* Reversed Exposure */}
+      <div className="text-xs space-y-0.5">
+        <div className="text-muted-foreground font-medium">Reversed exposure</div>
+        <div>
+          {analytics.reversed.exposedCards} cards change when reversed; expect{' '}
+          {analytics.reversed.expectedInOpeningHand.toFixed(1)} reversed in the opening hand
+        </div>
+        <div className="text-muted-foreground">
+          At least one reversed by turn {turn}:{' '}
+          <span className="text-foreground">
+            {percent(analytics.reversed.byTurn[turn - 1] ?? 0)}
+          </span>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -14,7 +14,9 @@ import MulliganOverlay from '@/components/mulligan_overlay'
 import { useEmotes } from '@/components/multiplayer/emotes'
 import ElementSynergyIndicator from '@/components/element_synergy_indicator'
 import PlayerInfoPanel from '@/components/player/player_info_panel'
+import ReplayControls from '@/components/replay/replay_controls'
 import TurnIndicator from '@/components/turn_indicator'
+import ZodiacSeasonIndicator from '@/components/zodiac_season_indicator'
 // UI Components
 import ActionBar from '@/components/ui/action_bar'
 import { useGameActions } from '@/hooks/use_game_actions'
@@ -22,12 +24,14 @@ import { useGameClock } from '@/hooks/use_game_clock'
 import { useGameEffects } from '@/hooks/use_game_effects'
 import { useKeyboardShortcuts } from '@/hooks/use_keyboard_shortcuts'
 import { GameLogger } from '@/lib/game_logger'
-import { endTurn as endTurnGameLogic } from '@/lib/game_logic'
+import { checkGameOutcome, endTurn as endTurnGameLogic } from '@/lib/game_logic'
 // Types
-import type { Card as GameCard, GameState } from '@/schemas/schema'
+import type { GameReplay } from '@/schemas/replay_schema'
+import type { Card as GameCard, GameState, PlayTarget } from '@/schemas/schema'
 import { getPlayer, getPlayerHand, isMulliganComplete, isMulliganPhase } from '@/schemas/schema'
 import type { BattlefieldPosition } from '@/services/battlefield_service'
 import { interactionService } from '@/services/interaction_service'
+import { buildReplayTimeline, replayService } from '@/services/replay_service'
 import { soundService } from '@/services/sound_service'
 import { useGameStore } from '@/store/game_store'
 
@@ -37,14 +41,26 @@ interface GameBoardProps {
   onAttack?: (attackerIds: string[]) => void
   onEndTurn?: () => void
   onMulligan?: (selectedCards: string[]) => void
+  // When set, the board plays back this recorded game instead of accepting input
+  replay?: GameReplay
+  // Watching someone else's game: the board follows the server and accepts no input
+  spectating?: boolean
+  // Shown beside the board while spectating, e.g. the live event feed
+  spectatorPanel?: React.ReactNode
 }
 
+// Delay between moves while a replay is auto-playing
+const REPLAY_STEP_MS = 1200
+
 export default function GameBoard({
   gameState: initialGameState,
   onCardPlay: _onCardPlay,
   onAttack,
   onEndTurn,
   onMulligan,
+  replay,
+  spectating = false,
+  spectatorPanel,
 }: GameBoardProps) {
   const ui = useGameStore(state => state.ui)
   const _interaction = useGameStore(state => state.interaction)
@@ -57,8 +73,11 @@ export default function GameBoard({
   const clearValidDropZones = useGameStore(state => state.clearValidDropZones)
   const startCardDrag = useGameStore(state => state.startCardDrag)
   const endCardDrag = useGameStore(state => state.endCardDrag)
+  const startSpellTargeting = useGameStore(state => state.startSpellTargeting)
+  const endSpellTargeting = useGameStore(state => state.endSpellTargeting)
 
-  const { playCard, declareAttack: _declareAttack, attackTarget, completeMulligan, reverseCard: _reverseCard } = useGameActions()
+  const { playCard, declareAttack: _declareAttack, attackTarget, completeMulligan, reverseCard: _reverseCard, isMultiplayer } = useGameActions()
+  const isReadOnly = !!replay || spectating
 
   // Use centralized game effects
   const { gameState } = useGameEffects()
@@ -67,7 +86,8 @@ export default function GameBoard({
   const { isTimerExpired } = useGameClock({
     turnTimeLimit: 90,
     warningTime: 15,
-    autoEndTurn: true,
+    // Online games are passed by the server's clock
+    autoEndTurn: !isReadOnly && !isMultiplayer,
   })
 
   // Use emote system
@@ -79,12 +99,68 @@ export default function GameBoard({
     if (initialGameState && !initializedRef.current) {
       setGameState(initialGameState)
       soundService.init()
+      // Record local games so they can be replayed; multiplayer moves arrive from the server
+      if (!isReadOnly && !isMultiplayer) {
+        replayService.startRecording(initialGameState)
+      }
       initializedRef.current = true
     }
     return () => {
       soundService.destroy()
     }
-  }, [initialGameState, setGameState])
+  }, [initialGameState, setGameState, isReadOnly, isMultiplayer])
+
+  // Save the recording once the game is decided
+  React.useEffect(() => {
+    if (isReadOnly || !gameState) return
+    const outcome = checkGameOutcome(gameState)
+    if (outcome !== 'ongoing') {
+      replayService.finishRecording(outcome)
+    }
+  }, [gameState, isReadOnly])
+
+  // Replay playback: precompute every state, then drive the store from the scrubber
+  const [replayTimeline, setReplayTimeline] = React.useState<GameState[] | null>(null)
+  const [replayPosition, setReplayPosition] = React.useState(0)
+  const [isReplayPlaying, setIsReplayPlaying] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!replay) return
+    let cancelled = false
+    setReplayTimeline(null)
+    setReplayPosition(0)
+    setIsReplayPlaying(false)
+    buildReplayTimeline(replay).then(timeline => {
+      if (!cancelled) setReplayTimeline(timeline)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [replay])
+
+  React.useEffect(() => {
+    const state = replayTimeline?.[replayPosition]
+    if (state) setGameState(state)
+  }, [replayTimeline, replayPosition, setGameState])
+
+  React.useEffect(() => {
+    if (!isReplayPlaying || !replayTimeline) return
+    if (replayPosition >= replayTimeline.length - 1) {
+      setIsReplayPlaying(false)
+      return
+    }
+    const timeoutId = setTimeout(() => setReplayPosition(p => p + 1), REPLAY_STEP_MS)
+    return () => clearTimeout(timeoutId)
+  }, [isReplayPlaying, replayPosition, replayTimeline])
+
+  const seekReplay = React.useCallback(
+    (position: number) => {
+      if (!replayTimeline) return
+      setIsReplayPlaying(false)
+      setReplayPosition(Math.max(0, Math.min(position, replayTimeline.length - 1)))
+    },
+    [replayTimeline],
+  )
 
   // Set up interaction service callbacks
   React.useEffect(() => {
@@ -92,7 +168,7 @@ export default function GameBoard({
       canDragCard: (card: GameCard, from: BattlefieldPosition | 'hand'): boolean => {
         // Get fresh state to avoid stale closures
         const currentState = useGameStore.getState().gameState
-        if (!currentState) return false
+        if (!currentState || isReadOnly) return false
         if (currentState.activePlayer !== 'player1') return false
         if (currentState.phase !== 'action') return false
 
@@ -163,6 +239,12 @@ export default function GameBoard({
       onDragEnd: () => {
         endCardDrag()
       },
+      onTargetingStart: (_card: GameCard, validTargets: PlayTarget[]) => {
+        startSpellTargeting(validTargets.map(target => target.id))
+      },
+      onTargetingEnd: () => {
+        endSpellTargeting()
+      },
     }
 
     interactionService.setCallbacks(callbacks)
@@ -184,7 +266,7 @@ export default function GameBoard({
       document.removeEventListener('pointerup', handlePointerUp)
     }
     // Only stable store actions in deps - callbacks use getState() for fresh state
-  }, [playCard, clearHighlights, clearValidDropZones, highlightSlots, setValidDropZones, startCardDrag, endCardDrag])
+  }, [isReadOnly, playCard, clearHighlights, clearValidDropZones, highlightSlots, setValidDropZones, startCardDrag, endCardDrag, startSpellTargeting, endSpellTargeting])
 
   // Handle action bar events (simplified for direct attack system)
   const handleAttack = async () => {
@@ -199,17 +281,18 @@ export default function GameBoard({
   }
 
   const handleEndTurn = React.useCallback(async () => {
-    if (!gameState) return
+    if (!gameState || isReadOnly) return
 
     try {
       soundService.play('turn_end')
       const newState = await endTurnGameLogic(gameState)
       setGameState(newState)
+      replayService.recordAction({ type: 'end_turn', playerId: gameState.activePlayer })
       onEndTurn?.()
     } catch (error) {
       GameLogger.error('Error ending turn:', error)
     }
-  }, [gameState, setGameState, onEndTurn])
+  }, [gameState, isReadOnly, setGameState, onEndTurn])
 
   const handlePass = async () => {
     await handleEndTurn()
@@ -217,12 +300,13 @@ export default function GameBoard({
 
   // Auto-end turn when timer expires
   React.useEffect(() => {
-    if (isTimerExpired && gameState?.activePlayer === 'player1') {
+    if (isTimerExpired && !isReadOnly && !isMultiplayer && gameState?.activePlayer === 'player1') {
       handleEndTurn()
     }
-  }, [isTimerExpired, gameState?.activePlayer, handleEndTurn])
+  }, [isTimerExpired, isReadOnly, isMultiplayer, gameState?.activePlayer, handleEndTurn])
 
   const handleCardPlay = async (card: GameCard) => {
+    if (isReadOnly) return
     if (card.type === 'unit') {
       // Find first empty slot for unit cards
       const battlefield = gameState?.battlefield
@@ -260,7 +344,11 @@ export default function GameBoard({
     onEndTurn: handleEndTurn,
     onCardPlay: handleCardPlay,
     onShowHelp: () => setShowHelp(true),
-    enabled: !!gameState && gameState.phase === 'action' && gameState.activePlayer === 'player1',
+    enabled:
+      !isReadOnly &&
+      !!gameState &&
+      gameState.phase === 'action' &&
+      gameState.activePlayer === 'player1',
   })
 
   // Keyboard shortcuts help overlay
@@ -283,6 +371,12 @@ export default function GameBoard({
       {/* Turn Indicator Banner */}
       <TurnIndicator />
 
+      {/* Active zodiac season */}
+      <ZodiacSeasonIndicator
+        gameState={gameState}
+        className="fixed top-2 right-2 md:top-4 md:right-4 z-[60]"
+      />
+
       {/* Attack Arrow for Direct Combat */}
       <AttackArrow />
 
@@ -322,15 +416,41 @@ export default function GameBoard({
       })()}
 
       {/* Action Bar - Positioned on the right side */}
-      <ActionBar
-        onAttack={handleAttack}
-        onPass={handlePass}
-        onEndTurn={handleEndTurn}
-        className="fixed bottom-1/2 translate-y-1/2 right-1 md:right-4 z-40"
-      />
+      {!isReadOnly && (
+        <ActionBar
+          onAttack={handleAttack}
+          onPass={handlePass}
+          onEndTurn={handleEndTurn}
+          className="fixed bottom-1/2 translate-y-1/2 right-1 md:right-4 z-40"
+        />
+      )}
+
+      {/* Replay Controls */}
+      {replay && (
+        <div className="fixed top-20 left-1/2 -translate-x-1/2 z-50">
+          {replayTimeline ? (
+            <ReplayControls
+              timeline={replayTimeline}
+              actions={replay.actions}
+              position={replayPosition}
+              isPlaying={isReplayPlaying}
+              onSeek={seekReplay}
+              onTogglePlay={() => setIsReplayPlaying(playing => !playing)}
+            />
+          ) : (
+            <div className="bg-card/95 border border-border rounded-xl px-4 py-3 text-sm text-muted-foreground">
+              Rebuilding replay...
+            </div>
+          )}
+        </div>
+      )}
+
+      {spectating && spectatorPanel}
 
       {/* Main Game Area */}
-      <div className="h-full w-full flex items-center justify-center relative p-1 md:p-4">
+      <div
+        className={`h-full w-full flex items-center justify-center relative p-1 md:p-4 ${isReadOnly ? 'pointer-events-none' : ''}`}
+      >
         <div className="flex flex-col items-center justify-center w-full max-w-6xl">
           <Battlefield />
         </div>
@@ -341,12 +461,14 @@ export default function GameBoard({
         cards={getPlayerHand(gameState, 'player2')}
         position="top-right"
         isCurrentPlayer={false}
+        faceUp={spectating}
       />
 
       <HandFan
         cards={getPlayerHand(gameState, 'player1')}
         position="bottom-left"
-        isCurrentPlayer={true}
+        isCurrentPlayer={!spectating}
+        faceUp
         onCardPlay={handleCardPlay}
         onCardDetail={card => {
           // Show card detail overlay
@@ -357,7 +479,9 @@ export default function GameBoard({
       {/* Overlays */}
       <MulliganOverlay
         hand={getPlayerHand(gameState, 'player1')}
-        isOpen={isMulliganPhase(gameState) && !isMulliganComplete(gameState, 'player1')}
+        isOpen={
+          !isReadOnly && isMulliganPhase(gameState) && !isMulliganComplete(gameState, 'player1')
+        }
         onClose={() => {
           // Close mulligan overlay by keeping all cards (no changes)
           handleMulligan([])
@@ -371,7 +495,7 @@ export default function GameBoard({
         onClose={hideCardDetail}
         onPlay={() => ui.cardDetailOverlay && handleCardPlay(ui.cardDetailOverlay)}
         canPlay={
-          ui.cardDetailOverlay
+          ui.cardDetailOverlay && !isReadOnly
             ? totalPlayerMana >= ui.cardDetailOverlay.cost && isPlayerTurn
             : false
         }
@@ -7,6 +7,7 @@ import {
   Heart,
   Home,
   Layers,
+  PlayCircle,
   RotateCcw,
   Sparkles,
   Swords,
@@ -234,6 +235,14 @@ export function GameSummary({
                 View Stats
               </Button>
             </Link>
+            {gameRecord?.replayId && (
+              <Link href={`/replay?id=${gameRecord.replayId}`} className="flex-1">
+                <Button variant="ghost" className="w-full" size="lg">
+                  <PlayCircle className="w-4 h-4" />
+                  Watch Replay
+                </Button>
+              </Link>
+            )}
           </div>
         </div>
       </div>
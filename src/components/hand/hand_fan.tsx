@@ -14,6 +14,8 @@ interface HandFanProps {
   cards: GameCard[]
   position: 'bottom-left' | 'top-right'
   isCurrentPlayer?: boolean
+  /** Show card faces; defaults to the current player's hand. Hidden cards always show backs */
+  faceUp?: boolean
   onCardPlay?: (card: GameCard) => void
   onCardDetail?: (card: GameCard) => void
   className?: string
@@ -23,6 +25,7 @@ export default function HandFan({
   cards,
   position,
   isCurrentPlayer = false,
+  faceUp = isCurrentPlayer,
   onCardPlay: _onCardPlay,
   onCardDetail,
   className = '',
@@ -289,7 +292,7 @@ export default function HandFan({
         )}
 
         {/* Card Content */}
-        {isCurrentPlayer ? (
+        {faceUp && !card.isHidden ? (
           <TarotCard
             card={card}
             size="small"
@@ -301,7 +304,7 @@ export default function HandFan({
             )}
           />
         ) : (
-          /* Enemy card back */
+          /* Card back */
           <div className="w-16 h-24 relative shadow-lg">
             <Image
               src="/default/back/2x.png"
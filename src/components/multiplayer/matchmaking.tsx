@@ -2,18 +2,22 @@
 
 import { GameLogger } from '@/lib/game_logger'
 import { useEffect, useState } from 'react'
+import { PrivateLobby } from '@/components/multiplayer/private_lobby'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Select } from '@/components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { cn } from '@/lib/utils'
+import type { GameRules } from '@/schemas/multiplayer_schema'
 import type { ZodiacClass } from '@/schemas/schema'
+import { profileSyncService } from '@/services/profile_sync_service'
 
-interface MatchmakingMatchData {
+export interface MatchmakingMatchData {
   matchId: string
   yourSide: 'player1' | 'player2'
   opponent: {
-    id: string
+    id?: string // Public profile id, never the opponent's sync secret; lobby opponents have none
     name: string
     rating: number
     zodiac: string
@@ -21,6 +25,12 @@ interface MatchmakingMatchData {
   gameMode: string
   zodiacCompatibility: number
   cosmicBlessings: string[]
+  /** House rules of a private lobby game; unset for ranked matchmaking */
+  rules?: GameRules
+  /** The lobby's sealed rules and decks, passed on to the game server */
+  lobbyTicket?: string
+  /** Matchmaking's signed claim on the seat; joining with it is what makes the game ranked */
+  seatTicket?: string
 }
 
 interface MatchmakingProps {
@@ -55,7 +65,7 @@ export function MatchmakingInterface({ onMatchFound, onCancel, className }: Matc
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            playerId: `player_${Date.now()}`, // TODO: Use proper player ID
+            playerId: profileSyncService.getPlayerId(),
             gameMode,
             playerInfo: {
               name: playerName,
@@ -100,7 +110,7 @@ export function MatchmakingInterface({ onMatchFound, onCancel, className }: Matc
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          playerId: `player_${Date.now()}`,
+          playerId: profileSyncService.getPlayerId(),
           gameMode,
           playerInfo: {
             name: playerName,
@@ -130,7 +140,8 @@ export function MatchmakingInterface({ onMatchFound, onCancel, className }: Matc
 
   const handleCancelMatchmaking = async () => {
     try {
-      await fetch(`/api/matchmaking?playerId=player_${Date.now()}&gameMode=${gameMode}`, {
+      const playerId = encodeURIComponent(profileSyncService.getPlayerId())
+      await fetch(`/api/matchmaking?playerId=${playerId}&gameMode=${gameMode}`, {
         method: 'DELETE',
       })
     } catch (error) {
@@ -166,65 +177,78 @@ export function MatchmakingInterface({ onMatchFound, onCancel, className }: Matc
 
       {matchStatus.status === 'idle' && (
         <>
-          {/* Player Setup */}
-          <div className="flex flex-col gap-4">
-            <div className="flex flex-col gap-2">
-              <label className="text-sm font-medium text-gray-800 dark:text-gray-200">
-                Your Name
-              </label>
-              <Input
-                value={playerName}
-                onChange={e => setPlayerName(e.target.value)}
-                placeholder="Enter your mystical name..."
-                className="bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-black dark:text-white"
-              />
-            </div>
-
-            <div className="flex flex-col gap-2">
-              <label className="text-sm font-medium text-gray-800 dark:text-gray-200">
-                Zodiac Sign
-              </label>
-              <Select
-                value={favoriteZodiac}
-                onValueChange={value => setFavoriteZodiac(value as ZodiacClass)}
-              >
-                <option value="aries">♈ Aries - The Ram</option>
-                <option value="taurus">♉ Taurus - The Bull</option>
-                <option value="gemini">♊ Gemini - The Twins</option>
-                <option value="cancer">♋ Cancer - The Crab</option>
-                <option value="leo">♌ Leo - The Lion</option>
-                <option value="virgo">♍ Virgo - The Maiden</option>
-                <option value="libra">♎ Libra - The Scales</option>
-                <option value="scorpio">♏ Scorpio - The Scorpion</option>
-                <option value="sagittarius">♐ Sagittarius - The Archer</option>
-                <option value="capricorn">♑ Capricorn - The Goat</option>
-                <option value="aquarius">♒ Aquarius - The Water Bearer</option>
-                <option value="pisces">♓ Pisces - The Fish</option>
-              </Select>
-            </div>
-
-            <div className="flex flex-col gap-2">
-              <label className="text-sm font-medium text-gray-800 dark:text-gray-200">
-                Game Mode
-              </label>
-              <Select value={gameMode} onValueChange={setGameMode}>
-                <option value="standard">🎴 Standard - Classic gameplay</option>
-                <option value="arcana_master">🃏 Arcana Master - Complete Major Arcana</option>
-                <option value="zodiac_mystic">♈ Zodiac Mystic - Align all signs</option>
-                <option value="elemental_sage">🌊 Elemental Sage - Master all elements</option>
-                <option value="chaos">⚡ Chaos Mode - Multiple win conditions</option>
-              </Select>
-            </div>
+          <div className="flex flex-col gap-2">
+            <label className="text-sm font-medium text-gray-800 dark:text-gray-200">
+              Your Name
+            </label>
+            <Input
+              value={playerName}
+              onChange={e => setPlayerName(e.target.value)}
+              placeholder="Enter your mystical name..."
+              className="bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-black dark:text-white"
+            />
           </div>
 
-          {/* Start Matchmaking Button */}
-          <Button
-            onClick={handleStartMatchmaking}
-            disabled={!playerName.trim()}
-            className="w-full bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-100 font-bold py-3"
-          >
-            ✨ Seek Opponent in the Cosmic Realm
-          </Button>
+          <Tabs defaultValue="ranked" className="w-full">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="ranked">Ranked</TabsTrigger>
+              <TabsTrigger value="friend">Play a friend</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="ranked" className="flex flex-col gap-4">
+              {/* Player Setup */}
+              <div className="flex flex-col gap-4">
+                <div className="flex flex-col gap-2">
+                  <label className="text-sm font-medium text-gray-800 dark:text-gray-200">
+                    Zodiac Sign
+                  </label>
+                  <Select
+                    value={favoriteZodiac}
+                    onValueChange={value => setFavoriteZodiac(value as ZodiacClass)}
+                  >
+                    <option value="aries">♈ Aries - The Ram</option>
+                    <option value="taurus">♉ Taurus - The Bull</option>
+                    <option value="gemini">♊ Gemini - The Twins</option>
+                    <option value="cancer">♋ Cancer - The Crab</option>
+                    <option value="leo">♌ Leo - The Lion</option>
+                    <option value="virgo">♍ Virgo - The Maiden</option>
+                    <option value="libra">♎ Libra - The Scales</option>
+                    <option value="scorpio">♏ Scorpio - The Scorpion</option>
+                    <option value="sagittarius">♐ Sagittarius - The Archer</option>
+                    <option value="capricorn">♑ Capricorn - The Goat</option>
+                    <option value="aquarius">♒ Aquarius - The Water Bearer</option>
+                    <option value="pisces">♓ Pisces - The Fish</option>
+                  </Select>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                  <label className="text-sm font-medium text-gray-800 dark:text-gray-200">
+                    Game Mode
+                  </label>
+                  <Select value={gameMode} onValueChange={setGameMode}>
+                    <option value="standard">🎴 Standard - Classic gameplay</option>
+                    <option value="arcana_master">🃏 Arcana Master - Complete Major Arcana</option>
+                    <option value="zodiac_mystic">♈ Zodiac Mystic - Align all signs</option>
+                    <option value="elemental_sage">🌊 Elemental Sage - Master all elements</option>
+                    <option value="chaos">⚡ Chaos Mode - Multiple win conditions</option>
+                  </Select>
+                </div>
+              </div>
+
+              {/* Start Matchmaking Button */}
+              <Button
+                onClick={handleStartMatchmaking}
+                disabled={!playerName.trim()}
+                className="w-full bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-100 font-bold py-3"
+              >
+                ✨ Seek Opponent in the Cosmic Realm
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="friend">
+              <PrivateLobby playerName={playerName} onMatchFound={onMatchFound} />
+            </TabsContent>
+          </Tabs>
         </>
       )}
 
@@ -0,0 +1,302 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { MatchmakingMatchData } from '@/components/multiplayer/matchmaking'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { DECK_FORMATS } from '@/lib/deck_format'
+import { GameLogger } from '@/lib/game_logger'
+import type { GameRules } from '@/schemas/multiplayer_schema'
+import { GAME_MODES } from '@/schemas/schema'
+import type { JoinedLobby, LobbySeatView } from '@/services/lobby_service'
+
+interface PrivateLobbyProps {
+  playerName: string
+  onMatchFound: (matchData: MatchmakingMatchData) => void
+}
+
+// Turn and bank seconds the host can pick from
+const TIMER_PRESETS: [number, number][] = [
+  [45, 15],
+  [75, 30],
+  [120, 60],
+  [300, 300],
+]
+
+const selectClass =
+  'px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 text-sm text-black dark:text-white'
+
+async function lobbyRequest(body: Record<string, unknown>): Promise<LobbySeatView | JoinedLobby> {
+  const response = await fetch('/api/lobby', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  const result = await response.json()
+  if (!response.ok) throw new Error(result.error ?? 'Lobby request failed')
+  return result
+}
+
+/** Play a friend: host a lobby with house rules, or join one with its invite code */
+export function PrivateLobby({ playerName, onMatchFound }: PrivateLobbyProps) {
+  const [view, setView] = useState<LobbySeatView | null>(null)
+  // Our seat's secret, from creating or joining; every later request needs it
+  const [secret, setSecret] = useState<string | null>(null)
+  const [joinCode, setJoinCode] = useState('')
+  const [deckCode, setDeckCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const startedRef = useRef(false)
+
+  const lobby = view?.lobby
+  const isHost = view?.seat === 'player1'
+  const me = isHost ? lobby?.host : lobby?.guest
+  const opponent = isHost ? lobby?.guest : lobby?.host
+
+  const code = lobby?.code
+  const started = !!view?.match
+
+  // Poll until both players are ready and the lobby hands our seat its match
+  useEffect(() => {
+    if (!code || !secret || started) return
+
+    const interval = setInterval(async () => {
+      try {
+        const params = new URLSearchParams({ code, secret })
+        const response = await fetch(`/api/lobby?${params.toString()}`)
+        if (response.status === 404 || response.status === 403) {
+          setView(null)
+          setError('The host closed the lobby')
+          return
+        }
+        const result = await response.json()
+        if (result.lobby) setView(result)
+      } catch (error) {
+        GameLogger.error('Lobby poll error:', error)
+      }
+    }, 2000) // Poll every 2 seconds
+
+    return () => clearInterval(interval)
+  }, [code, secret, started])
+
+  useEffect(() => {
+    if (!view?.match || !opponent || startedRef.current) return
+    startedRef.current = true
+
+    onMatchFound({
+      matchId: view.match.matchId,
+      yourSide: view.seat,
+      opponent: { name: opponent.name, rating: 0, zodiac: '' },
+      gameMode: view.lobby.rules.gameMode,
+      zodiacCompatibility: 1,
+      cosmicBlessings: [],
+      rules: view.lobby.rules,
+      lobbyTicket: view.match.ticket,
+    })
+  }, [view, opponent, onMatchFound])
+
+  const run = async (body: Record<string, unknown>) => {
+    try {
+      const result = await lobbyRequest({ playerName, secret, ...body })
+      if ('secret' in result) setSecret(result.secret)
+      setView(result)
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Lobby request failed')
+    }
+  }
+
+  const updateRules = (rules: Partial<GameRules>) => {
+    if (lobby) run({ action: 'rules', code: lobby.code, rules })
+  }
+
+  const handleLeave = async () => {
+    if (!lobby || !secret) return
+    try {
+      const params = new URLSearchParams({ code: lobby.code, secret })
+      await fetch(`/api/lobby?${params.toString()}`, { method: 'DELETE' })
+    } catch (error) {
+      GameLogger.error('Leave lobby error:', error)
+    }
+    setView(null)
+    setSecret(null)
+  }
+
+  if (!lobby) {
+    return (
+      <div className="flex flex-col gap-4">
+        <Button
+          onClick={() => run({ action: 'create' })}
+          disabled={!playerName.trim()}
+          className="w-full bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-100 font-bold"
+        >
+          🚪 Create a Private Lobby
+        </Button>
+
+        <div className="flex gap-2">
+          <Input
+            value={joinCode}
+            onChange={e => setJoinCode(e.target.value.toUpperCase())}
+            placeholder="Invite code"
+            maxLength={6}
+            className="bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-black dark:text-white font-mono tracking-widest"
+          />
+          <Button
+            onClick={() => run({ action: 'join', code: joinCode })}
+            disabled={!playerName.trim() || joinCode.trim().length === 0}
+            variant="outline"
+          >
+            Join
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    )
+  }
+
+  const { rules } = lobby
+  const timerOptions = TIMER_PRESETS.some(
+    ([turn, bank]) => turn === rules.turnSeconds && bank === rules.bankSeconds,
+  )
+    ? TIMER_PRESETS
+    : [...TIMER_PRESETS, [rules.turnSeconds, rules.bankSeconds]]
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="text-center">
+        <p className="text-sm text-gray-800 dark:text-gray-200">Invite code</p>
+        <p className="text-3xl font-mono font-bold tracking-widest text-black dark:text-white">
+          {lobby.code}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <label htmlFor="lobby-mode" className="flex items-center text-gray-800 dark:text-gray-200">
+          Game Mode
+        </label>
+        <select
+          id="lobby-mode"
+          className={selectClass}
+          value={rules.gameMode}
+          disabled={!isHost}
+          onChange={e => updateRules({ gameMode: e.target.value })}
+        >
+          {Object.entries(GAME_MODES).map(([id, mode]) => (
+            <option key={id} value={id}>
+              {mode.name}
+            </option>
+          ))}
+        </select>
+
+        <label
+          htmlFor="lobby-format"
+          className="flex items-center text-gray-800 dark:text-gray-200"
+        >
+          Deck Format
+        </label>
+        <select
+          id="lobby-format"
+          className={selectClass}
+          value={rules.format}
+          disabled={!isHost}
+          onChange={e => updateRules({ format: e.target.value })}
+        >
+          {DECK_FORMATS.map(format => (
+            <option key={format.id} value={format.id}>
+              {format.name}
+            </option>
+          ))}
+        </select>
+
+        <label
+          htmlFor="lobby-health"
+          className="flex items-center text-gray-800 dark:text-gray-200"
+        >
+          Starting Health
+        </label>
+        <select
+          id="lobby-health"
+          className={selectClass}
+          value={rules.startingHealth}
+          disabled={!isHost}
+          onChange={e => updateRules({ startingHealth: Number(e.target.value) })}
+        >
+          {[10, 15, 20, 25, 30, 40].map(health => (
+            <option key={health} value={health}>
+              {health}
+            </option>
+          ))}
+        </select>
+
+        <label htmlFor="lobby-timer" className="flex items-center text-gray-800 dark:text-gray-200">
+          Turn Timer
+        </label>
+        <select
+          id="lobby-timer"
+          className={selectClass}
+          value={`${rules.turnSeconds}/${rules.bankSeconds}`}
+          disabled={!isHost}
+          onChange={e => {
+            const [turnSeconds, bankSeconds] = e.target.value.split('/').map(Number)
+            updateRules({ turnSeconds, bankSeconds })
+          }}
+        >
+          {timerOptions.map(([turn, bank]) => (
+            <option key={`${turn}/${bank}`} value={`${turn}/${bank}`}>
+              {turn}s + {bank}s bank
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <Input
+        value={deckCode}
+        onChange={e => setDeckCode(e.target.value)}
+        placeholder="Deck code (you play this deck; checked against the format when you ready up)"
+        className="bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-black dark:text-white"
+      />
+
+      <div className="flex flex-col gap-2">
+        {[lobby.host, lobby.guest].map((player, index) => (
+          <div
+            key={index === 0 ? 'host' : 'guest'}
+            className="flex items-center justify-between rounded-lg border border-gray-300 dark:border-gray-600 px-3 py-2"
+          >
+            <span className="text-black dark:text-white">
+              {player ? player.name : 'Waiting for a friend...'}
+              {index === 0 && ' 👑'}
+            </span>
+            {player && (
+              <Badge variant={player.ready ? 'default' : 'outline'}>
+                {player.ready ? 'Ready' : 'Not ready'}
+              </Badge>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <Button
+          onClick={() =>
+            run({
+              action: 'ready',
+              code: lobby.code,
+              ready: !me?.ready,
+              deckCode: deckCode.trim() || undefined,
+            })
+          }
+          disabled={!lobby.guest || lobby.started || (!me?.ready && !deckCode.trim())}
+          className="flex-1 bg-black dark:bg-white text-white dark:text-black hover:bg-gray-800 dark:hover:bg-gray-100 font-bold"
+        >
+          {me?.ready ? 'Not Ready' : '✨ Ready'}
+        </Button>
+        <Button onClick={handleLeave} variant="outline">
+          Leave
+        </Button>
+      </div>
+    </div>
+  )
+}
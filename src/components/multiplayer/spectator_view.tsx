@@ -0,0 +1,118 @@
+'use client'
+
+import { ArrowLeft, Eye, Radio } from 'lucide-react'
+import React from 'react'
+import GameBoard from '@/components/game_board'
+import { Button } from '@/components/ui/button'
+import { type FeedEntry, toFeedEntries } from '@/lib/event_feed'
+import { GameLogger } from '@/lib/game_logger'
+import { webSocketService } from '@/services/websocket_service'
+import { useGameStore } from '@/store/game_store'
+
+interface SpectatorViewProps {
+  gameId: string
+  /** Asks for the caster view: both hands face-up, on the server's broadcast delay */
+  casterKey?: string
+  delayMs?: number
+  onLeave: () => void
+}
+
+// Older lines drop off so a long game doesn't grow the feed forever
+const MAX_FEED_ENTRIES = 100
+
+/** Watch an online game on a read-only board with a live event feed */
+export function SpectatorView({ gameId, casterKey, delayMs, onLeave }: SpectatorViewProps) {
+  const gameState = useGameStore(state => state.gameState)
+  // The board mounts once the server's first state replaces whatever the store held
+  const initialStateRef = React.useRef(gameState)
+  const [failed, setFailed] = React.useState(false)
+  const [feed, setFeed] = React.useState<FeedEntry[]>([])
+
+  React.useEffect(() => {
+    const unsubscribe = webSocketService.onGameEvents(events => {
+      const { player1, player2 } = useGameStore.getState().gameState
+      const entries = toFeedEntries(events, { player1: player1.name, player2: player2.name })
+      setFeed(current => [...current, ...entries].slice(-MAX_FEED_ENTRIES))
+    })
+
+    webSocketService.spectate(gameId, { casterKey, delayMs }).then(connected => {
+      if (!connected) setFailed(true)
+    })
+    GameLogger.state(`Spectating game ${gameId}${casterKey ? ' as caster' : ''}`)
+
+    return () => {
+      unsubscribe()
+      webSocketService.disconnect()
+    }
+  }, [gameId, casterKey, delayMs])
+
+  const hasServerState = gameState !== initialStateRef.current
+  // The server decides: a key it doesn't accept gets the face-down view
+  const revealHands = hasServerState && webSocketService.isCasterView
+
+  return (
+    <div className="h-screen w-screen bg-background text-foreground overflow-hidden relative">
+      <div className="fixed top-2 left-2 md:top-4 md:left-4 z-50">
+        <Button
+          onClick={onLeave}
+          variant="outline"
+          className="rounded-full w-8 h-8 md:w-10 md:h-10 p-0 shadow-lg"
+          title="Stop watching"
+        >
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {hasServerState ? (
+        <GameBoard
+          gameState={gameState}
+          spectating
+          spectatorPanel={<SpectatorFeed entries={feed} revealHands={revealHands} />}
+        />
+      ) : (
+        <div className="flex items-center justify-center h-full text-muted-foreground">
+          {failed
+            ? 'Could not reach the game server.'
+            : casterKey
+              ? 'Joining as caster... the broadcast runs on a delay.'
+              : 'Joining game...'}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SpectatorFeed({ entries, revealHands }: { entries: FeedEntry[]; revealHands: boolean }) {
+  const listRef = React.useRef<HTMLOListElement>(null)
+
+  // Keep the newest line in view
+  React.useEffect(() => {
+    const list = listRef.current
+    if (list && entries.length > 0) list.scrollTop = list.scrollHeight
+  }, [entries.length])
+
+  return (
+    <div className="fixed top-1/2 -translate-y-1/2 left-2 md:left-4 z-40 w-56 bg-card/95 border border-border rounded-xl shadow-lg">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border text-sm font-semibold">
+        {revealHands ? (
+          <Radio className="w-4 h-4 text-red-400" />
+        ) : (
+          <Eye className="w-4 h-4 text-muted-foreground" />
+        )}
+        {revealHands ? 'Caster view · delayed' : 'Spectating'}
+      </div>
+      <ol ref={listRef} className="max-h-64 overflow-y-auto px-3 py-2 space-y-1 text-xs">
+        {entries.length === 0 ? (
+          <li className="text-muted-foreground">Waiting for the next move...</li>
+        ) : (
+          entries.map(entry => (
+            <li key={entry.id}>
+              <span className="text-muted-foreground mr-1">R{entry.round}</span>
+              {entry.text}
+            </li>
+          ))
+        )}
+      </ol>
+    </div>
+  )
+}
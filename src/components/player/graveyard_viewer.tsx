@@ -0,0 +1,82 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { useEffect, useRef } from 'react'
+import TarotCard from '@/components/tarot_card'
+import { Button } from '@/components/ui/button'
+import type { Card as GameCard } from '@/schemas/schema'
+
+interface GraveyardViewerProps {
+  cards: GameCard[]
+  title: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+/**
+ * Browse a player's graveyard, most recent card first
+ */
+export default function GraveyardViewer({ cards, title, isOpen, onClose }: GraveyardViewerProps) {
+  const closeButtonRef = useRef<HTMLButtonElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    closeButtonRef.current?.focus()
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onClose])
+
+  if (!isOpen) return null
+
+  const newestFirst = [...cards].reverse()
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="graveyard-title"
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[70] flex items-center justify-center p-4"
+    >
+      <div className="bg-card rounded-xl border border-border max-w-3xl w-full max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 id="graveyard-title" className="text-xl font-bold text-foreground">
+            {title}
+            <span className="ml-2 text-sm font-normal text-muted-foreground">
+              {cards.length} card{cards.length === 1 ? '' : 's'}
+            </span>
+          </h2>
+          <Button
+            ref={closeButtonRef}
+            variant="ghost"
+            size="icon"
+            onClick={onClose}
+            aria-label="Close graveyard"
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <X className="w-5 h-5" aria-hidden="true" />
+          </Button>
+        </div>
+
+        <div className="p-6">
+          {newestFirst.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground">
+              Nothing has gone to the graveyard yet.
+            </p>
+          ) : (
+            <ul className="flex flex-wrap justify-center gap-3">
+              {newestFirst.map((card, index) => (
+                <li key={`${card.id}-${index}`} title={card.name}>
+                  <TarotCard card={card} size="small" isSelected={false} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,11 @@
 'use client'
 
-import { Heart, Layers, Moon, Sun, Sword, Zap } from 'lucide-react'
+import { Heart, Layers, Moon, Skull, Sun, Sword, Zap } from 'lucide-react'
+import { useState } from 'react'
+import GraveyardViewer from '@/components/player/graveyard_viewer'
 import { cn } from '@/lib/utils'
 import type { Player } from '@/schemas/schema'
+import { interactionService } from '@/services/interaction_service'
 import { useGameStore } from '@/store/game_store'
 
 interface PlayerInfoPanelProps {
@@ -25,10 +28,14 @@ export default function PlayerInfoPanel({
   className = '',
 }: PlayerInfoPanelProps) {
   const { gameState, interaction } = useGameStore()
+  const [showGraveyard, setShowGraveyard] = useState(false)
 
   const isActive = gameState?.activePlayer === player?.id
   const isInAttackMode = interaction.targetingMode === 'attack'
   const _hasValidTargets = interaction.validAttackTargets.size > 0
+  // "Any target" spells can be aimed at either player
+  const isSpellTarget =
+    interaction.targetingMode === 'spell' && interaction.validAttackTargets.has(player.id)
 
   // Position-specific styles - responsive: compact on mobile, expanded on desktop
   const positionStyles = {
@@ -101,6 +108,8 @@ export default function PlayerInfoPanel({
       : gameState.battlefield.enemyUnits.filter(u => u !== null).length
     : 0
 
+  const graveyard = player.graveyard ?? []
+
   return (
     <div className={cn(positionStyles[position], 'z-[60]', className)} data-player-panel={player.id}>
       <div
@@ -114,8 +123,18 @@ export default function PlayerInfoPanel({
             : isActive
               ? 'border-amber-400 shadow-amber-200/50 dark:shadow-amber-900/30'
               : 'border-border',
+          isSpellTarget && 'ring-2 ring-red-400/60 animate-pulse',
         )}
       >
+        {isSpellTarget && (
+          <button
+            type="button"
+            className="absolute inset-0 z-10 rounded-2xl cursor-pointer"
+            aria-label={`Target ${isCurrentPlayer ? 'yourself' : 'your opponent'}`}
+            onClick={() => interactionService.selectTarget({ type: 'player', id: player.id })}
+          />
+        )}
+
         {/* Active Turn Indicator */}
         {isActive && (
           <div
@@ -207,8 +226,28 @@ export default function PlayerInfoPanel({
             <span className="font-bold text-foreground/70">{unitCount}</span>
             <span className="text-muted-foreground">units</span>
           </div>
+
+          {/* Graveyard */}
+          <button
+            type="button"
+            onClick={() => setShowGraveyard(true)}
+            className="col-span-2 flex items-center gap-1.5 px-2 py-1.5 rounded-lg bg-muted hover:bg-muted/70 transition-colors"
+            aria-label={`View ${isCurrentPlayer ? 'your' : "opponent's"} graveyard`}
+            data-graveyard={player.id}
+          >
+            <Skull className="w-4 h-4 text-muted-foreground" />
+            <span className="font-bold text-foreground/70">{graveyard.length}</span>
+            <span className="text-muted-foreground">in graveyard</span>
+          </button>
         </div>
       </div>
+
+      <GraveyardViewer
+        cards={graveyard}
+        title={isCurrentPlayer ? 'Your Graveyard' : "Opponent's Graveyard"}
+        isOpen={showGraveyard}
+        onClose={() => setShowGraveyard(false)}
+      />
     </div>
   )
 }
@@ -0,0 +1,9 @@
+'use client'
+
+import { useProfileSync } from '@/hooks/use_profile_sync'
+
+/** Mounted once in the root layout so every page keeps the profile synced */
+export function ProfileSync() {
+  useProfileSync()
+  return null
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { ChevronFirst, ChevronLast, Pause, Play, StepBack, StepForward } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { ReplayAction } from '@/schemas/replay_schema'
+import type { GameState } from '@/schemas/schema'
+
+interface ReplayControlsProps {
+  // States before the first action and after each action (see buildReplayTimeline)
+  timeline: GameState[]
+  actions: ReplayAction[]
+  position: number
+  isPlaying: boolean
+  onSeek: (position: number) => void
+  onTogglePlay: () => void
+  className?: string
+}
+
+/** Describe an action using the state it was applied to */
+function describeAction(action: ReplayAction, before: GameState): string {
+  const isPlayer = action.playerId === 'player1'
+  const actor = isPlayer ? 'You' : 'Opponent'
+  // Every verb used here is regular, so the third person just adds an "s"
+  const verb = (base: string) => (isPlayer ? base : `${base}s`)
+
+  switch (action.type) {
+    case 'mulligan':
+      return action.cardIds.length > 0
+        ? `${actor} ${verb('mulligan')} ${action.cardIds.length} card${action.cardIds.length === 1 ? '' : 's'}`
+        : `${actor} ${verb('keep')} the opening hand`
+    case 'play_card': {
+      const card = before[action.playerId].hand.find(c => c.id === action.cardId)
+      const played = `${actor} ${verb('play')} ${card?.name ?? 'a card'}${card?.isReversed ? ' (reversed)' : ''}`
+      if (!action.target) return played
+      const target =
+        action.target.type === 'player'
+          ? action.target.id === action.playerId
+            ? isPlayer
+              ? 'yourself'
+              : 'themselves'
+            : 'the opposing nexus'
+          : ([...before.battlefield.playerUnits, ...before.battlefield.enemyUnits].find(
+              u => u?.id === action.target?.id,
+            )?.name ?? 'a unit')
+      return `${played} on ${target}`
+    }
+    case 'declare_attack': {
+      const units = [...before.battlefield.playerUnits, ...before.battlefield.enemyUnits]
+      const attacker = units.find(u => u?.id === action.attackerId)
+      const target =
+        action.targetType === 'player'
+          ? 'the nexus'
+          : (units.find(u => u?.id === action.targetId)?.name ?? 'a unit')
+      return `${actor} ${verb('attack')} ${target} with ${attacker?.name ?? 'a unit'}`
+    }
+    case 'end_turn':
+      return `${actor} ${verb('end')} the turn`
+  }
+}
+
+/**
+ * Transport bar for stepping through a recorded game
+ */
+export default function ReplayControls({
+  timeline,
+  actions,
+  position,
+  isPlaying,
+  onSeek,
+  onTogglePlay,
+  className = '',
+}: ReplayControlsProps) {
+  const lastPosition = timeline.length - 1
+  const diverged = lastPosition < actions.length
+  const state = timeline[position]
+  const description =
+    position === 0 ? 'Opening hands' : describeAction(actions[position - 1], timeline[position - 1])
+
+  return (
+    <div
+      className={cn(
+        'bg-card/95 border border-border rounded-xl shadow-lg backdrop-blur-md px-4 py-3 space-y-2 w-[min(90vw,36rem)]',
+        className,
+      )}
+    >
+      <div className="flex items-center justify-between gap-3 text-sm">
+        <span className="font-semibold text-foreground truncate">{description}</span>
+        <span className="text-muted-foreground whitespace-nowrap">
+          Round {state?.round ?? 1} · Move {position}/{lastPosition}
+        </span>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={lastPosition}
+        value={position}
+        onChange={e => onSeek(Number(e.target.value))}
+        className="w-full accent-primary"
+        aria-label="Replay position"
+      />
+
+      <div className="flex items-center justify-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onSeek(0)}
+          disabled={position === 0}
+          aria-label="Jump to start"
+        >
+          <ChevronFirst />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onSeek(position - 1)}
+          disabled={position === 0}
+          aria-label="Step back"
+        >
+          <StepBack />
+        </Button>
+        <Button
+          size="icon"
+          onClick={onTogglePlay}
+          disabled={position === lastPosition && !isPlaying}
+          aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+        >
+          {isPlaying ? <Pause /> : <Play />}
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onSeek(position + 1)}
+          disabled={position === lastPosition}
+          aria-label="Step forward"
+        >
+          <StepForward />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onSeek(lastPosition)}
+          disabled={position === lastPosition}
+          aria-label="Jump to end"
+        >
+          <ChevronLast />
+        </Button>
+      </div>
+
+      {diverged && (
+        <p className="text-xs text-destructive text-center">
+          This replay could not be reproduced past move {lastPosition} of {actions.length}.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { CardStats } from '@/schemas/stats_schema'
+import { averagePlayRound, statsService, winRate } from '@/services/stats_service'
+
+interface CardPlayStatsProps {
+  cardId: string
+}
+
+/** A win rate as a whole percentage, or a dash before there are games */
+export function formatWinRate(wins: number, games: number): string {
+  const rate = winRate(wins, games)
+  return rate === null ? '-' : `${Math.round(rate * 100)}%`
+}
+
+/** The player's own record with one card, read from their local stats */
+export function CardPlayStats({ cardId }: CardPlayStatsProps) {
+  const [card, setCard] = useState<CardStats | null>(null)
+  const [loaded, setLoaded] = useState(false)
+
+  useEffect(() => {
+    setCard(statsService.getCardStats(cardId))
+    setLoaded(true)
+  }, [cardId])
+
+  if (!loaded) return null
+  if (!card) {
+    return (
+      <p className="text-sm text-muted-foreground">You haven't played a game with this card yet.</p>
+    )
+  }
+
+  const average = averagePlayRound(card)
+  const rows = [
+    { label: 'In deck', value: `${card.games} games`, rate: formatWinRate(card.wins, card.games) },
+    {
+      label: 'Drawn',
+      value: `${card.gamesDrawn} games`,
+      rate: formatWinRate(card.winsDrawn, card.gamesDrawn),
+    },
+    {
+      label: 'Played',
+      value: `${card.gamesPlayed} games`,
+      rate: formatWinRate(card.winsPlayed, card.gamesPlayed),
+    },
+    {
+      label: 'Upright',
+      value: `${card.upright.plays} plays`,
+      rate: formatWinRate(card.upright.wins, card.upright.plays),
+    },
+    {
+      label: 'Reversed',
+      value: `${card.reversed.plays} plays`,
+      rate: formatWinRate(card.reversed.wins, card.reversed.plays),
+    },
+  ]
+
+  return (
+    <div className="space-y-2 text-sm">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-border text-muted-foreground">
+            <th className="text-left py-1 font-medium" />
+            <th className="text-right py-1 font-medium">Record</th>
+            <th className="text-right py-1 font-medium">Win rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label} className="border-b border-border/50">
+              <td className="py-1 font-medium">{row.label}</td>
+              <td className="py-1 text-right">{row.value}</td>
+              <td className="py-1 text-right">{row.rate}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {average !== null && (
+        <p className="text-muted-foreground">Played on round {average.toFixed(1)} on average</p>
+      )}
+    </div>
+  )
+}
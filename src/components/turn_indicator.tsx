@@ -1,15 +1,60 @@
 'use client'
 
 import React from 'react'
+import { countDownTimer, type TurnTimer } from '@/lib/turn_clock'
 import { cn } from '@/lib/utils'
 import { useGameStore } from '@/store/game_store'
 
+function formatClock(ms: number): string {
+  const seconds = Math.ceil(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/** Counts down the server's turn clock: turn time, then the bank, with the rope burning at the end */
+function TurnTimerDisplay({ timer }: { timer: TurnTimer & { receivedAt: number } }) {
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [])
+
+  const left = countDownTimer(timer, now - timer.receivedAt)
+  const inBank = left.turnMs === 0 && left.bankMs > 0
+
+  return (
+    <div className="flex flex-col items-center gap-1 w-full">
+      <span
+        className={cn(
+          'text-xs md:text-sm font-mono tabular-nums',
+          left.roping ? 'text-red-400 font-bold' : inBank ? 'text-amber-300' : 'text-slate-300',
+        )}
+      >
+        {timer.paused
+          ? `⏸ ${formatClock(left.totalMs)}`
+          : inBank
+            ? `Time bank ${formatClock(left.bankMs)}`
+            : `${formatClock(left.turnMs)} + ${formatClock(left.bankMs)}`}
+      </span>
+      {left.roping && (
+        <div className="h-1 w-full rounded-full bg-red-950 overflow-hidden" aria-hidden>
+          <div
+            className="h-full bg-gradient-to-r from-orange-500 to-red-500 transition-[width] duration-200"
+            style={{ width: `${(left.totalMs / timer.ropeMs) * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
 /**
  * A prominent banner showing whose turn it is and the current phase.
  * Displayed at the top center of the game board for clear turn visibility.
  */
 export default function TurnIndicator() {
   const gameState = useGameStore(state => state.gameState)
+  const turnTimer = useGameStore(state => state.multiplayer.turnTimer)
   const [animating, setAnimating] = React.useState(false)
   const prevActivePlayer = React.useRef(gameState?.activePlayer)
 
@@ -74,6 +119,7 @@ export default function TurnIndicator() {
         <span className="text-xs text-slate-500">|</span>
         <span className="text-xs md:text-sm text-slate-400 font-medium">Round {round}</span>
       </div>
+      {turnTimer && <TurnTimerDisplay timer={turnTimer} />}
     </output>
   )
 }
@@ -0,0 +1,43 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+import type { GameState } from '@/schemas/schema'
+import { seasonalBuffService } from '@/services/seasonal_buff_service'
+
+interface ZodiacSeasonIndicatorProps {
+  gameState: GameState
+  className?: string
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+const formatDay = ([month, day]: [number, number]) => `${MONTHS[month - 1]} ${day}`
+
+/**
+ * Badge naming the zodiac season this game is played in and the buff it grants.
+ */
+export default function ZodiacSeasonIndicator({
+  gameState,
+  className = '',
+}: ZodiacSeasonIndicatorProps) {
+  const season = seasonalBuffService.getActiveSeason(gameState)
+  const name = season.sign.charAt(0).toUpperCase() + season.sign.slice(1)
+  const period = `${formatDay(season.start)} – ${formatDay(season.end)}`
+
+  return (
+    <output
+      className={cn(
+        'flex items-center gap-1.5 px-2 py-1 rounded-md border text-xs',
+        'bg-indigo-950/70 border-indigo-500/40 text-indigo-200 backdrop-blur-sm',
+        className,
+      )}
+      aria-label={`${name} season: ${season.description}`}
+      title={`${season.title} (${period}): ${season.description}`}
+      data-season={season.sign}
+    >
+      <span className="text-base leading-none">{season.symbol}</span>
+      <span className="font-semibold">{name} Season</span>
+      <span className="hidden md:inline text-indigo-300/80">{season.description}</span>
+    </output>
+  )
+}
@@ -1,11 +1,12 @@
 import { GameLogger } from '@/lib/game_logger'
 // WebSocket configuration for Tarot TCG multiplayer
 export const WEBSOCKET_CONFIG = {
-  // Connection URLs
+  // Connection URLs - the game server runs as its own process (bun run game-server)
   WS_URL:
-    process.env.NODE_ENV === 'production'
-      ? 'wss://tarot-tcg.com'
-      : 'ws://localhost:3000',
+    process.env.NEXT_PUBLIC_GAME_SERVER_URL ??
+    (process.env.NODE_ENV === 'production' ? 'wss://tarot-tcg.com' : 'ws://localhost:3001'),
+  WS_PATH: '/api/game/ws',
+  SERVER_PORT: Number(process.env.GAME_SERVER_PORT ?? 3001),
 
   // Connection settings
   HEARTBEAT_INTERVAL: 30000, // 30 seconds
@@ -21,16 +22,35 @@ export const WEBSOCKET_CONFIG = {
   CLEANUP_INTERVAL: 30000, // 30 seconds
 
   // Game settings
-  TURN_TIME_LIMIT: 90000, // 90 seconds per turn
+  TURN_TIME_LIMIT: Number(process.env.TURN_TIME_MS ?? 75000), // each turn's own allowance
+  TIME_BANK: Number(process.env.TIME_BANK_MS ?? 30000), // per-game reserve once a turn runs over
+  ROPE_TIME: 15000, // the rope burns for the last 15 seconds
+  MULLIGAN_TIME: Number(process.env.MULLIGAN_TIME_MS ?? 45000), // both players decide at once; undecided hands are kept
   GRACE_PERIOD: 15000, // 15 seconds grace period for disconnections
+  RESUME_HISTORY: 50, // state updates kept for replaying to reconnecting players
+
+  // Spectating - casters who see both hands are always at least this far behind the game
+  CASTER_DELAY: Number(process.env.CASTER_DELAY_MS ?? 30000),
 
   // Development settings
   ENABLE_LOGGING: process.env.NODE_ENV === 'development',
   ENABLE_DEBUG_MESSAGES: process.env.NODE_ENV === 'development',
 } as const
 
+export interface SeatOptions {
+  /** Resumes a dropped session, replaying the updates the client missed */
+  reconnectToken?: string
+  /** A private lobby's sealed match: its house rules and both decks */
+  lobbyTicket?: string
+}
+
 // Helper to get WebSocket URL with query parameters
-export function buildWebSocketUrl(gameId: string, playerId: string, token: string): string {
+export function buildWebSocketUrl(
+  gameId: string,
+  playerId: string,
+  token: string,
+  { reconnectToken, lobbyTicket }: SeatOptions = {},
+): string {
   const params = new URLSearchParams({
     gameId,
     playerId,
@@ -38,8 +58,26 @@ export function buildWebSocketUrl(gameId: string, playerId: string, token: strin
     version: '1.0',
     protocol: 'tarot-tcg',
   })
+  if (reconnectToken) params.set('resume', reconnectToken)
+  if (lobbyTicket) params.set('lobby', lobbyTicket)
+
+  return `${WEBSOCKET_CONFIG.WS_URL}${WEBSOCKET_CONFIG.WS_PATH}?${params.toString()}`
+}
+
+export interface SpectateOptions {
+  /** A caster key the server accepts shows both hands, with the feed delayed by at least CASTER_DELAY */
+  casterKey?: string
+  /** Requested delay in milliseconds; casters can't go below CASTER_DELAY */
+  delayMs?: number
+}
+
+// URL for watching a game instead of playing in it
+export function buildSpectatorUrl(gameId: string, options: SpectateOptions = {}): string {
+  const params = new URLSearchParams({ gameId, spectate: 'true', protocol: 'tarot-tcg' })
+  if (options.casterKey) params.set('caster', options.casterKey)
+  if (options.delayMs) params.set('delay', String(options.delayMs))
 
-  return `${WEBSOCKET_CONFIG.WS_URL}/api/game/ws?${params.toString()}`
+  return `${WEBSOCKET_CONFIG.WS_URL}${WEBSOCKET_CONFIG.WS_PATH}?${params.toString()}`
 }
 
 // Validate WebSocket configuration
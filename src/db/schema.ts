@@ -1,4 +1,4 @@
-import { pgTable, serial, text, timestamp, jsonb, varchar, integer, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, timestamp, jsonb, varchar, integer, boolean, doublePrecision } from 'drizzle-orm/pg-core';
 
 /**
  * Database schema for Tarot TCG
@@ -47,9 +47,21 @@ export const playerProfiles = pgTable('player_profiles', {
     gamesWon: integer('games_won').notNull().default(0),
     gamesLost: integer('games_lost').notNull().default(0),
 
+    // Ranked ladder (Glicko-2), reset softly each season
+    rating: doublePrecision('rating').notNull().default(1500),
+    ratingDeviation: doublePrecision('rating_deviation').notNull().default(350),
+    ratingVolatility: doublePrecision('rating_volatility').notNull().default(0.06),
+    rankedGames: integer('ranked_games').notNull().default(0),
+    rankedSeason: varchar('ranked_season', { length: 10 }),
+
     // Preferences
     favoriteZodiacClass: varchar('favorite_zodiac_class', { length: 20 }),
     settings: jsonb('settings').default({}), // User preferences like theme, sound, etc.
+
+    // Synced local progress: ProfileSnapshot, one versioned entry per section
+    profileData: jsonb('profile_data').notNull().default({}),
+    // Bumped by every sync that writes profileData, so two syncs can't overwrite each other
+    profileVersion: integer('profile_version').notNull().default(0),
 });
 
 // Type inference for TypeScript
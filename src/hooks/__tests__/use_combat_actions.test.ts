@@ -60,9 +60,23 @@ describe('useCombatActions', () => {
             setGameState: mockSetGameState,
         } as any)
 
+        // The store's executeAttack resolves the attack; the hook reads the result back for animations
         const combatLogic = await import('@/services/combat_service')
         mockCanAttack = vi.mocked(combatLogic.canAttack)
         mockDeclareAttack = vi.mocked(combatLogic.declareAttack)
+        let storedState = mockGameState
+        vi.mocked(useGameStore).getState = vi.fn(() => ({ gameState: storedState })) as any
+        mockExecuteAttack.mockImplementation(async (targetId: string, targetType: 'unit' | 'player') => {
+            try {
+                storedState = await mockDeclareAttack(storedState, {
+                    attackerId: mockInteraction.attackSource,
+                    targetType,
+                    targetId: targetType === 'unit' ? targetId : undefined,
+                })
+            } catch {
+                // The store shows the error and leaves the state as it was
+            }
+        })
     })
 
     describe('handleUnitClick', () => {
@@ -169,7 +183,7 @@ describe('useCombatActions', () => {
                 targetType: 'unit',
                 targetId: 'target-1',
             })
-            expect(mockSetGameState).toHaveBeenCalledWith(mockGameState)
+            expect(mockDeclareAttack).toHaveBeenCalledTimes(1)
             expect(mockExecuteAttack).toHaveBeenCalledWith('target-1', 'unit')
         })
 
@@ -203,7 +217,7 @@ describe('useCombatActions', () => {
             expect(mockDeclareAttack).not.toHaveBeenCalled()
         })
 
-        it('should handle attack failure and cancel', async () => {
+        it('should leave a failed attack to the store', async () => {
             mockInteraction.attackSource = 'attacker-1'
             mockDeclareAttack.mockRejectedValue(new Error('Attack failed'))
 
@@ -213,11 +227,11 @@ describe('useCombatActions', () => {
                 await result.current.handleTargetClick('target-1', 'unit')
             })
 
-            expect(mockCancelAttack).toHaveBeenCalled()
+            expect(mockExecuteAttack).toHaveBeenCalledWith('target-1', 'unit')
             expect(mockSetGameState).not.toHaveBeenCalled()
         })
 
-        it('should update game state after successful attack', async () => {
+        it('should resolve the attack only through the store', async () => {
             const newGameState = createTestGameState()
             mockInteraction.attackSource = 'attacker-1'
             mockDeclareAttack.mockResolvedValue(newGameState)
@@ -228,7 +242,8 @@ describe('useCombatActions', () => {
                 await result.current.handleTargetClick('target-1', 'unit')
             })
 
-            expect(mockSetGameState).toHaveBeenCalledWith(newGameState)
+            expect(mockDeclareAttack).toHaveBeenCalledTimes(1)
+            expect(mockSetGameState).not.toHaveBeenCalled()
         })
     })
 
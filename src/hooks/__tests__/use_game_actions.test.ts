@@ -119,7 +119,7 @@ describe('useGameActions Hook', () => {
             })
 
             // Should call multiplayer action
-            expect(mockMultiplayer.playCard).toHaveBeenCalledWith(card, 0)
+            expect(mockMultiplayer.playCard).toHaveBeenCalledWith(card, 0, undefined)
 
             // Should not update local state in multiplayer
             expect(mockSetGameState).not.toHaveBeenCalled()
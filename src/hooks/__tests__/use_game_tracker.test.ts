@@ -1,5 +1,6 @@
 import { renderHook, act } from '@testing-library/react'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { encodeDeckCode } from '@/lib/deck_code'
 import { useGameTracker } from '@/hooks/use_game_tracker'
 import { createTestCard, createTestGameState } from '@/test_utils'
 
@@ -258,6 +259,37 @@ describe('useGameTracker', () => {
       )
     })
 
+    it('records the deck list, cards drawn and each play with its round and orientation', () => {
+      const card = createTestCard({ id: 'play-me', isReversed: true })
+      const initialState = createTestGameState()
+      initialState.player1.hand = [card]
+      initialState.player1.deck = [createTestCard({ id: 'still-in-deck' })]
+      initialState.round = 3
+
+      const { rerender } = renderTracker(initialState, 'ongoing')
+
+      const nextState = createTestGameState()
+      nextState.player1.hand = []
+      nextState.round = 3
+
+      act(() => {
+        rerender({ gs: nextState, out: 'ongoing', diff: 'normal', deck: 'Deck' })
+      })
+      act(() => {
+        rerender({ gs: nextState, out: 'player1_wins', diff: 'normal', deck: 'Deck' })
+      })
+
+      expect(statsService.recordGame).toHaveBeenCalledWith(
+        expect.objectContaining({
+          deckCode: encodeDeckCode({ name: '', cards: ['play-me', 'still-in-deck'] }),
+          deckName: 'Deck',
+          cardsInDeck: ['play-me', 'still-in-deck'],
+          cardsDrawn: ['play-me'],
+          cardPlays: [{ cardId: 'play-me', round: 3, reversed: true }],
+        }),
+      )
+    })
+
     it('counts units destroyed when enemy battlefield shrinks', () => {
       const unit = createTestCard({ id: 'enemy-unit', type: 'unit' })
       const initialState = createTestGameState()
@@ -198,7 +198,7 @@ describe('useMultiplayerActions', () => {
       const connected = await result.current.connectToGame('game-123', 'player1', 'token-456')
 
       expect(connected).toBe(true)
-      expect(webSocketService.connect).toHaveBeenCalledWith('game-123', 'player1', 'token-456')
+      expect(webSocketService.connect).toHaveBeenCalledWith('game-123', 'player1', 'token-456', undefined)
       expect(GameLogger.state).toHaveBeenCalledWith('Connected to multiplayer game game-123 as player1')
     })
 
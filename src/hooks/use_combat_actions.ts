@@ -2,7 +2,8 @@ import { useCallback } from 'react'
 import { GameLogger } from '@/lib/game_logger'
 import type { Card } from '@/schemas/schema'
 import { combatAnimationService } from '@/services/combat_animation_service'
-import { canAttack, declareAttack } from '@/services/combat_service'
+import { canAttack } from '@/services/combat_service'
+import { interactionService } from '@/services/interaction_service'
 import { useGameStore } from '@/store/game_store'
 
 /**
@@ -10,8 +11,7 @@ import { useGameStore } from '@/store/game_store'
  * Provides Hearthstone-style combat actions
  */
 export function useCombatActions() {
-  const { gameState, interaction, startAttack, executeAttack, cancelAttack, setGameState } =
-    useGameStore()
+  const { gameState, interaction, startAttack, executeAttack, cancelAttack } = useGameStore()
 
   const handleUnitClick = useCallback(
     (unit: Card) => {
@@ -40,90 +40,82 @@ export function useCombatActions() {
 
   const handleTargetClick = useCallback(
     async (targetId: string, targetType: 'unit' | 'player') => {
+      // A spell or battlecry is waiting for its target rather than an attacker
+      if (interaction.targetingMode === 'spell') {
+        interactionService.selectTarget({ type: targetType === 'unit' ? 'card' : 'player', id: targetId })
+        return
+      }
+
       if (!interaction.attackSource) {
         GameLogger.action('No attack source selected')
         return
       }
 
-      try {
-        // Trigger attack animation before state update
-        const attackerSlot = gameState.battlefield.playerUnits.findIndex(
-          u => u?.id === interaction.attackSource,
-        )
-        if (targetType === 'unit') {
-          const targetSlot = gameState.battlefield.enemyUnits.findIndex(u => u?.id === targetId)
-          if (attackerSlot >= 0 && targetSlot >= 0) {
-            combatAnimationService.triggerAttack(attackerSlot, 'player2', targetSlot)
-          }
+      // Trigger attack animation before state update
+      const attackerSlot = gameState.battlefield.playerUnits.findIndex(
+        u => u?.id === interaction.attackSource,
+      )
+      if (targetType === 'unit') {
+        const targetSlot = gameState.battlefield.enemyUnits.findIndex(u => u?.id === targetId)
+        if (attackerSlot >= 0 && targetSlot >= 0) {
+          combatAnimationService.triggerAttack(attackerSlot, 'player2', targetSlot)
         }
+      }
 
-        // Execute the attack using the combat system
-        const newState = await declareAttack(gameState, {
-          attackerId: interaction.attackSource,
-          targetType,
-          targetId: targetType === 'unit' ? targetId : undefined,
-        })
-
-        // Trigger damage/death animations by diffing states
-        if (targetType === 'unit') {
-          const targetSlot = gameState.battlefield.enemyUnits.findIndex(u => u?.id === targetId)
-          if (targetSlot >= 0) {
-            const prevUnit = gameState.battlefield.enemyUnits[targetSlot]
-            const currUnit = newState.battlefield.enemyUnits[targetSlot]
-            const prevHp = prevUnit?.currentHealth ?? prevUnit?.health ?? 0
-            const currHp = currUnit?.currentHealth ?? currUnit?.health ?? 0
-            if (currUnit && currHp < prevHp) {
-              setTimeout(
-                () => combatAnimationService.triggerDamage('player2', targetSlot, prevHp - currHp),
-                300,
-              )
-            }
-            if (!currUnit && prevUnit) {
-              setTimeout(() => combatAnimationService.triggerDeath('player2', targetSlot), 300)
-            }
+      // The store resolves, records and clears the attack; a failed attack leaves the state as it was
+      await executeAttack(targetId, targetType)
+      const newState = useGameStore.getState().gameState
+      if (newState === gameState) return
+
+      // Trigger damage/death animations by diffing states
+      if (targetType === 'unit') {
+        const targetSlot = gameState.battlefield.enemyUnits.findIndex(u => u?.id === targetId)
+        if (targetSlot >= 0) {
+          const prevUnit = gameState.battlefield.enemyUnits[targetSlot]
+          const currUnit = newState.battlefield.enemyUnits[targetSlot]
+          const prevHp = prevUnit?.currentHealth ?? prevUnit?.health ?? 0
+          const currHp = currUnit?.currentHealth ?? currUnit?.health ?? 0
+          if (currUnit && currHp < prevHp) {
+            setTimeout(
+              () => combatAnimationService.triggerDamage('player2', targetSlot, prevHp - currHp),
+              300,
+            )
           }
-          // Check if attacker took damage (from retaliation)
-          if (attackerSlot >= 0) {
-            const prevAtk = gameState.battlefield.playerUnits[attackerSlot]
-            const currAtk = newState.battlefield.playerUnits[attackerSlot]
-            const prevHp = prevAtk?.currentHealth ?? prevAtk?.health ?? 0
-            const currHp = currAtk?.currentHealth ?? currAtk?.health ?? 0
-            if (currAtk && currHp < prevHp) {
-              setTimeout(
-                () =>
-                  combatAnimationService.triggerDamage('player1', attackerSlot, prevHp - currHp),
-                300,
-              )
-            }
-            if (!currAtk && prevAtk) {
-              setTimeout(() => combatAnimationService.triggerDeath('player1', attackerSlot), 300)
-            }
+          if (!currUnit && prevUnit) {
+            setTimeout(() => combatAnimationService.triggerDeath('player2', targetSlot), 300)
           }
-        } else {
-          // Nexus damage
-          const prevHealth = gameState.player2.health
-          const currHealth = newState.player2.health
-          if (currHealth < prevHealth) {
+        }
+        // Check if attacker took damage (from retaliation)
+        if (attackerSlot >= 0) {
+          const prevAtk = gameState.battlefield.playerUnits[attackerSlot]
+          const currAtk = newState.battlefield.playerUnits[attackerSlot]
+          const prevHp = prevAtk?.currentHealth ?? prevAtk?.health ?? 0
+          const currHp = currAtk?.currentHealth ?? currAtk?.health ?? 0
+          if (currAtk && currHp < prevHp) {
             setTimeout(
-              () => combatAnimationService.triggerNexusDamage('player2', prevHealth - currHealth),
+              () => combatAnimationService.triggerDamage('player1', attackerSlot, prevHp - currHp),
               300,
             )
           }
+          if (!currAtk && prevAtk) {
+            setTimeout(() => combatAnimationService.triggerDeath('player1', attackerSlot), 300)
+          }
+        }
+      } else {
+        // Nexus damage
+        const prevHealth = gameState.player2.health
+        const currHealth = newState.player2.health
+        if (currHealth < prevHealth) {
+          setTimeout(
+            () => combatAnimationService.triggerNexusDamage('player2', prevHealth - currHealth),
+            300,
+          )
         }
-
-        // Update game state
-        setGameState(newState)
-
-        // Clear attack state
-        executeAttack(targetId, targetType)
-
-        GameLogger.action(`Attack executed against ${targetType === 'player' ? targetId : 'unit'}`)
-      } catch (error) {
-        GameLogger.action(`Attack failed: ${error}`)
-        cancelAttack()
       }
+
+      GameLogger.action(`Attack executed against ${targetType === 'player' ? targetId : 'unit'}`)
     },
-    [interaction.attackSource, gameState, setGameState, executeAttack, cancelAttack],
+    [interaction.targetingMode, interaction.attackSource, gameState, executeAttack],
   )
 
   const handleCancelAttack = useCallback(() => {
@@ -148,7 +140,7 @@ export function useCombatActions() {
   )
 
   const isInTargetingMode = useCallback((): boolean => {
-    return interaction.targetingMode === 'attack'
+    return interaction.targetingMode === 'attack' || interaction.targetingMode === 'spell'
   }, [interaction.targetingMode])
 
   return {
@@ -2,8 +2,11 @@ import { produce } from 'immer'
 import { useCallback } from 'react'
 import { useMultiplayerActions } from '@/hooks/use_multiplayer_actions'
 import { GameLogger } from '@/lib/game_logger'
-import type { Card as GameCard } from '@/schemas/schema'
+import { getLegalTargets, requiresTarget } from '@/lib/targeting'
+import type { Card as GameCard, PlayTarget } from '@/schemas/schema'
 import type { BattlefieldPosition } from '@/services/battlefield_service'
+import { interactionService } from '@/services/interaction_service'
+import { replayService } from '@/services/replay_service'
 import { useGameStore } from '@/store/game_store'
 
 /**
@@ -17,18 +20,18 @@ export const useGameActions = () => {
   const multiplayer = useMultiplayerActions()
 
   /**
-   * Play a card to the battlefield or cast a spell
+   * Play a card once any target it needs has been chosen
    * Supports both local and multiplayer modes
    */
-  const playCard = useCallback(
-    async (card: GameCard, targetPosition?: BattlefieldPosition) => {
+  const resolvePlay = useCallback(
+    async (card: GameCard, targetPosition?: BattlefieldPosition, target?: PlayTarget) => {
       // Get the latest state directly from the store to avoid stale closure issues
       const currentState = useGameStore.getState().gameState
       if (!currentState) return
 
       // Use multiplayer action if connected
       if (multiplayer.isMultiplayer) {
-        await multiplayer.playCard(card, targetPosition?.slot)
+        await multiplayer.playCard(card, targetPosition?.slot, target)
         clearSelection() // Clear selection after successful play
         return
       }
@@ -39,11 +42,23 @@ export const useGameActions = () => {
 
         // Import game logic dynamically to avoid circular deps
         const { playCard: localPlayCard } = await import('@/lib/game_logic')
-        const newGameState = await localPlayCard(currentState, card, targetPosition?.slot)
+        const newGameState = await localPlayCard(
+          currentState,
+          card,
+          targetPosition?.slot,
+          target,
+        )
 
         // Only update state and clear selection if successful
         setGameState(newGameState)
         clearSelection()
+        replayService.recordAction({
+          type: 'play_card',
+          playerId: currentState.activePlayer,
+          cardId: card.id,
+          targetSlot: targetPosition?.slot,
+          target,
+        })
 
         GameLogger.action(`Played ${card.name}`)
       } catch (error) {
@@ -60,6 +75,29 @@ export const useGameActions = () => {
     [setGameState, clearSelection, setAnimationState, multiplayer],
   )
 
+  /**
+   * Play a card to the battlefield or cast a spell
+   * Cards that say "target" wait for the player to pick one through the interaction service
+   */
+  const playCard = useCallback(
+    async (card: GameCard, targetPosition?: BattlefieldPosition) => {
+      const currentState = useGameStore.getState().gameState
+      if (!currentState) return
+
+      const validTargets = requiresTarget(card) ? getLegalTargets(currentState, card) : []
+      if (validTargets.length > 0) {
+        GameLogger.action(`Choose a target for ${card.name}`)
+        interactionService.requestTarget(card, validTargets, target => {
+          void resolvePlay(card, targetPosition, target)
+        })
+        return
+      }
+
+      await resolvePlay(card, targetPosition)
+    },
+    [resolvePlay],
+  )
+
   /**
    * Declare attack using direct attack system (Hearthstone-style)
    */
@@ -88,6 +126,13 @@ export const useGameActions = () => {
 
         setGameState(newGameState)
         clearSelection()
+        replayService.recordAction({
+          type: 'declare_attack',
+          playerId: currentState.activePlayer,
+          attackerId,
+          targetType,
+          targetId,
+        })
 
         GameLogger.combat(`Attack executed: ${attackerId} -> ${targetType}`)
       } catch (error) {
@@ -159,6 +204,15 @@ export const useGameActions = () => {
         const newGameState = localCompleteMulligan(preparedState)
         setGameState(newGameState)
 
+        if (!currentState.player2.mulliganComplete) {
+          replayService.recordAction({ type: 'mulligan', playerId: 'player2', cardIds: [] })
+        }
+        replayService.recordAction({
+          type: 'mulligan',
+          playerId: 'player1',
+          cardIds: selectedCardIds,
+        })
+
         GameLogger.action(`Mulligan completed: ${selectedCardIds.length} cards replaced`)
       } catch (error) {
         GameLogger.error('Error completing mulligan:', error)
@@ -188,6 +242,7 @@ export const useGameActions = () => {
       const { endTurn: localEndTurn } = await import('@/lib/game_logic')
       const newGameState = await localEndTurn(currentState)
       setGameState(newGameState)
+      replayService.recordAction({ type: 'end_turn', playerId: currentState.activePlayer })
 
       GameLogger.action('Turn ended')
     } catch (error) {
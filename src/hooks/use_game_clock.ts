@@ -15,7 +15,7 @@ const DEFAULT_CONFIG: GameClockConfig = {
 }
 
 export const useGameClock = (config: Partial<GameClockConfig> = {}) => {
-  const { gameState } = useGameStore()
+  const { gameState, multiplayer } = useGameStore()
   const [timeRemaining, setTimeRemaining] = useState(
     config.turnTimeLimit || DEFAULT_CONFIG.turnTimeLimit,
   )
@@ -26,6 +26,10 @@ export const useGameClock = (config: Partial<GameClockConfig> = {}) => {
   const matchIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const turnStartTimeRef = useRef<number>(Date.now())
   const matchStartTimeRef = useRef<number>(Date.now())
+  // The clock stops while an online opponent is dropped, so their disconnect can't run it down
+  const pausedAtRef = useRef<number | null>(null)
+  const isPausedRef = useRef(false)
+  isPausedRef.current = !!multiplayer?.opponentDisconnectedUntil
 
   const mergedConfig = useMemo(() => ({ ...DEFAULT_CONFIG, ...config }), [config])
 
@@ -49,6 +53,7 @@ export const useGameClock = (config: Partial<GameClockConfig> = {}) => {
 
     // Reset turn timer when turn changes
     turnStartTimeRef.current = Date.now()
+    pausedAtRef.current = null
     setTimeRemaining(mergedConfig.turnTimeLimit)
     setIsWarning(false)
 
@@ -60,6 +65,15 @@ export const useGameClock = (config: Partial<GameClockConfig> = {}) => {
     // Only run timer for player1's turn
     if (gameState.activePlayer === 'player1' && gameState.phase === 'action') {
       intervalRef.current = setInterval(() => {
+        if (isPausedRef.current) {
+          pausedAtRef.current ??= Date.now()
+          return
+        }
+        if (pausedAtRef.current !== null) {
+          turnStartTimeRef.current += Date.now() - pausedAtRef.current
+          pausedAtRef.current = null
+        }
+
         const elapsed = Math.floor((Date.now() - turnStartTimeRef.current) / 1000)
         const remaining = Math.max(0, mergedConfig.turnTimeLimit - elapsed)
 
@@ -1,8 +1,10 @@
 import { useCallback, useEffect, useRef } from 'react'
+import { encodeDeckCode } from '@/lib/deck_code'
 import type { GameState } from '@/schemas/schema'
-import type { AchievementProgress, GameRecord } from '@/schemas/stats_schema'
+import type { AchievementProgress, CardPlay, GameRecord } from '@/schemas/stats_schema'
 import { achievementService } from '@/services/achievement_service'
 import { questService } from '@/services/quest_service'
+import { replayService } from '@/services/replay_service'
 import { extractBaseCardId, statsService } from '@/services/stats_service'
 
 interface GameTrackerResult {
@@ -22,6 +24,10 @@ interface TrackerCounters {
   uniqueCardsPlayed: Set<string>
   majorArcanaPlayed: Set<string>
   zodiacClassesUsed: Set<string>
+  // Base ids of the player's starting deck and hand, one per copy
+  deckList: string[]
+  cardsDrawn: Set<string>
+  cardPlays: CardPlay[]
 }
 
 function createCounters(): TrackerCounters {
@@ -36,6 +42,20 @@ function createCounters(): TrackerCounters {
     uniqueCardsPlayed: new Set(),
     majorArcanaPlayed: new Set(),
     zodiacClassesUsed: new Set(),
+    deckList: [],
+    cardsDrawn: new Set(),
+    cardPlays: [],
+  }
+}
+
+/** Note the player's deck list the first time we see it, and every card that reaches their hand */
+function trackCardsSeen(state: GameState, counters: TrackerCounters): void {
+  const { hand, deck } = state.player1
+  if (counters.deckList.length === 0) {
+    counters.deckList = [...hand, ...deck].map(c => extractBaseCardId(c.id))
+  }
+  for (const card of hand) {
+    counters.cardsDrawn.add(extractBaseCardId(card.id))
   }
 }
 
@@ -71,6 +91,7 @@ export function useGameTracker(
 
   // Diff game state between renders to detect changes
   useEffect(() => {
+    if (gameState) trackCardsSeen(gameState, countersRef.current)
     if (!gameState || !prevStateRef.current) {
       prevStateRef.current = gameState
       return
@@ -88,6 +109,11 @@ export function useGameTracker(
           counters.cardsPlayed++
           const baseId = extractBaseCardId(card.id)
           counters.uniqueCardsPlayed.add(baseId)
+          counters.cardPlays.push({
+            cardId: baseId,
+            round: curr.round,
+            reversed: !!card.isReversed,
+          })
 
           if (baseId.startsWith('major-')) {
             counters.majorArcanaPlayed.add(baseId)
@@ -163,6 +189,15 @@ export function useGameTracker(
       playerHealthRemaining: gameState.player1.health,
       opponentHealthRemaining: gameState.player2.health,
       timestamp: Date.now(),
+      replayId: replayService.getCurrentRecording()?.id,
+      // The cards alone, so renaming a deck or saving the list under another name keeps one record
+      deckCode:
+        deckName && counters.deckList.length > 0
+          ? encodeDeckCode({ name: '', cards: counters.deckList })
+          : undefined,
+      cardsInDeck: [...new Set(counters.deckList)],
+      cardsDrawn: Array.from(counters.cardsDrawn),
+      cardPlays: counters.cardPlays,
     }
 
     gameRecordRef.current = record
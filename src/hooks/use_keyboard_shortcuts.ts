@@ -1,5 +1,6 @@
 import { useCallback, useEffect } from 'react'
 import type { Card, GameState } from '@/schemas/schema'
+import { interactionService } from '@/services/interaction_service'
 import { useGameStore } from '@/store/game_store'
 
 interface KeyboardShortcutOptions {
@@ -67,6 +68,8 @@ export function useKeyboardShortcuts({
         case 'Escape': {
           if (interaction.targetingMode === 'attack') {
             cancelAttack()
+          } else if (interaction.targetingMode === 'spell') {
+            interactionService.cancelTargeting()
           } else if (interaction.selectedCard) {
             clearSelection()
           }
@@ -1,7 +1,7 @@
 import { useCallback, useEffect, useRef } from 'react'
 import { FEATURE_FLAGS } from '@/config/feature_flags'
 import { GameLogger } from '@/lib/game_logger'
-import type { Card, PlayerId } from '@/schemas/schema'
+import type { Card, PlayerId, PlayTarget } from '@/schemas/schema'
 import {
   createOptimisticAttack,
   createOptimisticPlayCard,
@@ -33,14 +33,19 @@ export function useMultiplayerActions() {
 
   // Connect to game session
   const connectToGame = useCallback(
-    async (gameId: string, playerId: PlayerId, token: string): Promise<boolean> => {
+    async (
+      gameId: string,
+      playerId: PlayerId,
+      token: string,
+      lobbyTicket?: string,
+    ): Promise<boolean> => {
       if (!FEATURE_FLAGS.ENABLE_WEBSOCKETS) {
         GameLogger.state('WebSocket disabled, using local mode')
         return false
       }
 
       try {
-        const connected = await webSocketService.connect(gameId, playerId, token)
+        const connected = await webSocketService.connect(gameId, playerId, token, lobbyTicket)
         if (connected) {
           GameLogger.state(`Connected to multiplayer game ${gameId} as ${playerId}`)
         }
@@ -69,13 +74,13 @@ export function useMultiplayerActions() {
 
   // Play card with enhanced optimistic updates
   const playCard = useCallback(
-    async (card: Card, targetSlot?: number) => {
+    async (card: Card, targetSlot?: number, target?: PlayTarget) => {
       const actionId = generateActionId()
 
       if (!FEATURE_FLAGS.ENABLE_MULTIPLAYER_SYNC || !webSocketService.isConnected) {
         // Fallback to local game logic
         const { playCard: localPlayCard } = await import('@/lib/game_logic')
-        const newState = await localPlayCard(gameState, card, targetSlot)
+        const newState = await localPlayCard(gameState, card, targetSlot, target)
         setGameState(newState)
         return
       }
@@ -107,6 +112,7 @@ export function useMultiplayerActions() {
               type: 'play_card',
               cardId: card.id,
               targetSlot,
+              target,
               actionId,
             },
           }),
@@ -0,0 +1,25 @@
+import { useEffect } from 'react'
+import { profileSyncService } from '@/services/profile_sync_service'
+
+/**
+ * Keep local progress synced with the server: on load, when the connection comes back, and
+ * when the player leaves the page. Offline, progress keeps saving locally as it always has.
+ */
+export function useProfileSync(): void {
+  useEffect(() => {
+    const sync = () => {
+      void profileSyncService.sync()
+    }
+    const syncOnHide = () => {
+      if (document.visibilityState === 'hidden') sync()
+    }
+
+    sync()
+    window.addEventListener('online', sync)
+    document.addEventListener('visibilitychange', syncOnHide)
+    return () => {
+      window.removeEventListener('online', sync)
+      document.removeEventListener('visibilitychange', syncOnHide)
+    }
+  }, [])
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeCardCoverage, buildCoverageReport } from '@/lib/ability_coverage'
+import { findUnparsedClauses } from '@/services/ability_parser'
+import { createTestCard } from '@/test_utils'
+
+const unit = (upright: string, reversed = upright) =>
+    createTestCard({
+        id: 'subject',
+        uprightAbilities: [{ name: 'Upright', description: upright }],
+        reversedAbilities: [{ name: 'Reversed', description: reversed }],
+    })
+
+describe('ability coverage', () => {
+    it('lists the clauses the parser drops', () => {
+        expect(findUnparsedClauses('Deal 2 damage to the opponent. Look at the top 3 cards of your deck')).toEqual([
+            'Look at the top 3 cards of your deck',
+        ])
+        expect(findUnparsedClauses('When played, draw a card')).toEqual([])
+    })
+
+    it('grades each orientation on what would actually run', () => {
+        const coverage = analyzeCardCoverage(
+            unit('When played, draw a card', 'When played, draw a card. Your spells cost 1 more'),
+        )
+
+        expect(coverage.abilities.map(a => [a.orientation, a.status])).toEqual([
+            ['upright', 'full'],
+            ['reversed', 'partial'],
+        ])
+        expect(coverage.abilities[1].unknownVerbs).toEqual(['cost'])
+        expect(coverage.status).toBe('partial')
+    })
+
+    it('flags triggers the engine never fires', () => {
+        const [ability] = analyzeCardCoverage(unit('At the start of your turn, draw a card')).abilities
+
+        expect(ability.status).toBe('none')
+        expect(ability.actions).toEqual(['drawCards'])
+        expect(ability.unsupportedTriggers).toEqual(['start_of_turn'])
+    })
+
+    it('reports trigger phrases the parser does not recognize', () => {
+        const [ability] = analyzeCardCoverage(unit('When you play a spell, steal a card')).abilities
+
+        expect(ability.status).toBe('none')
+        expect(ability.unsupportedTriggers).toEqual(['When you play a spell'])
+        expect(ability.unknownVerbs).toEqual(['steal'])
+    })
+
+    it('counts scripted abilities as covered', () => {
+        const card = createTestCard({
+            uprightAbilities: [{ name: 'Leap of Faith', description: 'Pay any amount of mana' }],
+            scriptedEffects: [
+                {
+                    name: 'Leap of Faith',
+                    trigger: 'on_play',
+                    actions: [{ type: 'payMana', amount: 'X' }, { type: 'drawCards', amount: 1 }],
+                },
+            ],
+        })
+
+        const [ability] = analyzeCardCoverage(card).abilities
+        expect(ability.status).toBe('scripted')
+        expect(ability.actions).toEqual(['payMana', 'drawCards'])
+    })
+
+    it('totals statuses and tallies unknown verbs across cards', () => {
+        const report = buildCoverageReport([
+            unit('Your spells cost 1 more'),
+            unit('When played, draw a card', 'Spells cost 2 less'),
+        ])
+
+        expect(report.totals).toEqual({ cards: 2, abilities: 4, scripted: 0, full: 1, partial: 0, none: 3 })
+        expect(report.unknownVerbs).toEqual({ cost: 3 })
+    })
+})
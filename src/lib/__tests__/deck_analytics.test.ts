@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { analyzeDeck, cardsSeenByTurn, drawChance, drawChanceByTurn } from '@/lib/deck_analytics'
+import { createTestCard } from '../../test_utils'
+
+const cards = (count: number, prefix: string, overrides = {}) =>
+    Array.from({ length: count }, (_, i) => createTestCard({ id: `${prefix}-${i}`, ...overrides }))
+
+describe('deck analytics', () => {
+    it('counts the starting hand of 4 and one draw a turn after', () => {
+        expect(cardsSeenByTurn(1)).toBe(4)
+        expect(cardsSeenByTurn(5)).toBe(8)
+    })
+
+    it('matches the hypergeometric odds of drawing a card', () => {
+        // 1 - C(27,4)/C(30,4): three copies in 30 cards, four seen
+        expect(drawChanceByTurn(30, 3, 1)).toBeCloseTo(1 - 17550 / 27405, 10)
+        expect(drawChance(30, 1, 30)).toBe(1)
+        expect(drawChance(30, 0, 10)).toBe(0)
+        expect(drawChance(30, 3, 10, 4)).toBe(0)
+    })
+
+    it('gives better odds with more copies and later turns', () => {
+        expect(drawChanceByTurn(30, 2, 3)).toBeGreaterThan(drawChanceByTurn(30, 1, 3))
+        expect(drawChanceByTurn(30, 1, 6)).toBeGreaterThan(drawChanceByTurn(30, 1, 3))
+    })
+
+    it('reads the unit/spell ratio and on-curve odds', () => {
+        const deck = [...cards(20, 'unit', { cost: 2 }), ...cards(10, 'spell', { type: 'spell', cost: 1 })]
+
+        const analytics = analyzeDeck(deck)
+
+        expect(analytics.unitRatio).toBeCloseTo(2 / 3)
+        expect(analytics.spells).toBe(10)
+        expect(analytics.onCurve[2]).toMatchObject({ cards: 20, chance: drawChanceByTurn(30, 20, 2) })
+        expect(analytics.onCurve[5]).toMatchObject({ cards: 0, chance: 0 })
+    })
+
+    it('scores synergy tiers only from units of the element', () => {
+        const deck = [
+            ...cards(3, 'fire', { element: 'fire' }),
+            ...cards(10, 'fire-spell', { element: 'fire', type: 'spell' }),
+            ...cards(17, 'water', { element: 'water' }),
+        ]
+
+        const fire = analyzeDeck(deck).elements.find(e => e.element === 'fire')!
+
+        expect(fire).toMatchObject({ cards: 13, units: 3, reachableTier: 'Strong' })
+        expect(fire.uptime.Dominant).toBe(0)
+        expect(fire.uptime.Minor).toBeGreaterThan(fire.uptime.Strong)
+    })
+
+    it('estimates how often reversed sides show up', () => {
+        const deck = [
+            ...cards(15, 'plain'),
+            ...cards(15, 'two-faced', { reversedDescription: 'Deals damage to you instead' }),
+        ]
+
+        const { reversed } = analyzeDeck(deck)
+
+        expect(reversed.exposedCards).toBe(15)
+        expect(reversed.expectedInOpeningHand).toBeCloseTo(1)
+        expect(reversed.byTurn[0]).toBeLessThan(reversed.byTurn[9])
+        expect(analyzeDeck(cards(30, 'plain')).reversed.byTurn[9]).toBe(0)
+    })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { decodeDeckCode, encodeDeckCode } from '@/lib/deck_code'
+
+const deck = {
+    name: 'Swords & Cups',
+    cards: ['swords-08', 'cups-01', 'swords-08', 'major-00', 'cups-01', 'cups-01'],
+}
+
+describe('deck codes', () => {
+    it('round-trips the name and every copy', () => {
+        const decoded = decodeDeckCode(encodeDeckCode(deck))
+
+        expect(decoded.name).toBe('Swords & Cups')
+        expect([...decoded.cards].sort()).toEqual([...deck.cards].sort())
+    })
+
+    it('gives the same code whatever order the cards are in', () => {
+        const shuffled = { ...deck, cards: [...deck.cards].reverse() }
+
+        expect(encodeDeckCode(shuffled)).toBe(encodeDeckCode(deck))
+        expect(encodeDeckCode(deck)).toMatch(/^TT2\.[\w-]+\.[0-9a-z]{7}$/)
+    })
+
+    it('carries the format the deck was built for', () => {
+        expect(decodeDeckCode(encodeDeckCode({ ...deck, format: 'singleton' })).format).toBe('singleton')
+        expect(decodeDeckCode(encodeDeckCode(deck)).format).toBe('standard')
+    })
+
+    it('still reads version 1 codes, which had no format', () => {
+        expect(decodeDeckCode('TT1.T2xkIERlY2sKY3Vwcy0wMSoyLG1ham9yLTAw.04nrptl')).toEqual({
+            name: 'Old Deck',
+            cards: ['cups-01', 'cups-01', 'major-00'],
+        })
+    })
+
+    it('keeps non-ASCII deck names', () => {
+        expect(decodeDeckCode(encodeDeckCode({ name: 'Étoile ☆', cards: ['major-17'] })).name).toBe('Étoile ☆')
+    })
+
+    it('ignores whitespace a chat client wrapped into the code', () => {
+        const code = encodeDeckCode(deck)
+        const wrapped = `  ${code.slice(0, 10)}\n${code.slice(10)} `
+
+        expect(decodeDeckCode(wrapped)).toEqual(decodeDeckCode(code))
+    })
+
+    it('rejects a code whose body was altered', () => {
+        const code = encodeDeckCode(deck)
+        const [prefix, body, check] = code.split('.')
+        const altered = `${prefix}.${body.slice(0, -1)}${body.endsWith('A') ? 'B' : 'A'}.${check}`
+
+        expect(() => decodeDeckCode(altered)).toThrow('damaged')
+    })
+
+    it('rejects codes from a newer version and strings that are not codes', () => {
+        const [, body, check] = encodeDeckCode(deck).split('.')
+
+        expect(() => decodeDeckCode(`TT3.${body}.${check}`)).toThrow('newer version')
+        expect(() => decodeDeckCode('hello world')).toThrow('Not a deck code')
+    })
+})
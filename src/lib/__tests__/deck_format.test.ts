@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { getFormat, validateDeck } from '@/lib/deck_format'
+import { createTestCard } from '../../test_utils'
+
+// `count` distinct cards, each legal everywhere unless overridden
+const cards = (count: number, prefix = 'major', overrides = {}) =>
+    Array.from({ length: count }, (_, i) =>
+        createTestCard({ id: `${prefix}-${String(i).padStart(2, '0')}`, name: `${prefix} ${i}`, ...overrides }),
+    )
+
+const format = (id: string) => {
+    const found = getFormat(id)
+    if (!found) throw new Error(`Missing format ${id}`)
+    return found
+}
+
+describe('validateDeck()', () => {
+    it('accepts a legal Standard deck', () => {
+        expect(validateDeck(cards(30))).toEqual([])
+    })
+
+    it('reports deck size against the format', () => {
+        expect(validateDeck(cards(29)).map(v => v.rule)).toEqual(['min_size'])
+        expect(validateDeck(cards(41)).map(v => v.rule)).toEqual(['max_size'])
+    })
+
+    it('flags the card that has too many copies', () => {
+        const [extra] = cards(1, 'swords')
+        const deck = [...cards(28), extra, extra]
+
+        expect(validateDeck(deck)).toEqual([])
+        const violations = validateDeck(deck, format('singleton'))
+        expect(violations).toHaveLength(1)
+        expect(violations[0]).toMatchObject({ rule: 'copies', cardIds: ['swords-00'] })
+    })
+
+    it('flags every card outside the Major Arcana', () => {
+        const deck = [...cards(28), ...cards(2, 'cups')]
+
+        const violations = validateDeck(deck, format('major-arcana-only'))
+
+        expect(violations).toHaveLength(1)
+        expect(violations[0]).toMatchObject({ rule: 'suit', cardIds: ['cups-00', 'cups-01'] })
+    })
+
+    it('flags the cards that break from the deck\'s main element', () => {
+        const deck = [...cards(27), ...cards(3, 'wands', { element: 'water' })]
+
+        const violations = validateDeck(deck, format('elemental-pure'))
+
+        expect(violations).toHaveLength(1)
+        expect(violations[0]).toMatchObject({ rule: 'element', cardIds: ['wands-00', 'wands-01', 'wands-02'] })
+    })
+
+    it('caps each rarity separately', () => {
+        const deck = [
+            ...cards(26),
+            ...cards(2, 'cups', { rarity: 'mythic' }),
+            ...cards(2, 'wands', { rarity: 'legendary' }),
+        ]
+
+        const violations = validateDeck(deck, format('rarity-capped'))
+
+        expect(violations).toHaveLength(1)
+        expect(violations[0]).toMatchObject({ rule: 'rarity', cardIds: ['cups-00', 'cups-01'] })
+    })
+
+    it('reports every broken rule at once', () => {
+        const deck = [...cards(3, 'cups'), ...cards(3, 'cups')]
+
+        expect(validateDeck(deck, format('major-arcana-only')).map(v => v.rule)).toEqual([
+            'min_size',
+            'suit',
+        ])
+        expect(validateDeck(deck, format('singleton')).map(v => v.rule)).toEqual([
+            'min_size',
+            'copies',
+            'copies',
+            'copies',
+        ])
+    })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { describeGameEvent, toFeedEntries } from '@/lib/event_feed'
+import type { GameEvent } from '@/schemas/schema'
+
+const names = { player1: 'Ada', player2: 'Grace' }
+
+const event = (type: GameEvent['type'], data: GameEvent['data'], activePlayer: 'player1' | 'player2' = 'player1'): GameEvent => ({
+    id: `evt_${type}`,
+    type,
+    timestamp: 0,
+    gameStateId: '2_3',
+    data,
+    phase: 'action',
+    activePlayer,
+    turn: 3,
+    round: 2,
+})
+
+describe('spectator event feed', () => {
+    it('describes plays, draws and damage with player names', () => {
+        expect(describeGameEvent(event('card_played', { cardId: 'major-00', cardName: 'The Fool' }), names)).toBe('Ada plays The Fool')
+        expect(describeGameEvent(event('card_drawn', {}, 'player2'), names)).toBe('Grace draws a card')
+        expect(describeGameEvent(event('card_drawn', { cardId: 'major-01', cardName: 'The Magician' }, 'player2'), names)).toBe('Grace draws The Magician')
+        expect(describeGameEvent(event('player_loses_health', { playerId: 'player2', amount: 4 }), names)).toBe('Grace takes 4 damage')
+    })
+
+    it('announces each turn once', () => {
+        const entries = toFeedEntries(
+            [
+                event('turn_start', { playerId: 'player1' }),
+                event('turn_start', { playerId: 'player2', turn: 3, round: 2 }),
+                event('player_gains_mana', { playerId: 'player2', amount: 3 }),
+            ],
+            names,
+        )
+
+        expect(entries).toEqual([{ id: 'evt_turn_start', text: "Grace's turn", round: 2 }])
+    })
+})
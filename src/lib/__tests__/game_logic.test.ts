@@ -203,6 +203,23 @@ describe('Game Logic - Card Playing Validation', () => {
         await expect(playCard(gameState, card, 0)).rejects.toThrow(/Cannot play cards during mulligan phase/)
     })
 
+    it('should hold deathrattle abilities until the unit dies', async () => {
+        const card = createTestCard({
+            id: 'martyr',
+            cost: 2,
+            abilities: [
+                { name: 'Greeting', description: 'Gain 2 health' },
+                { name: 'Last Rites', description: 'Deathrattle: Gain 5 health' },
+            ],
+        })
+        gameState.player1.hand = [card]
+        gameState.player1.health = 10
+
+        const newState = await playCard(gameState, card, 0)
+
+        expect(newState.player1.health).toBe(12)
+    })
+
     it('should allow card play during action phase', async () => {
         // Should succeed in action phase
         gameState.phase = 'action'
@@ -241,6 +258,84 @@ describe('Game Logic - Card Playing Validation', () => {
     })
 })
 
+describe('Game Logic - Targeted Spells and Battlecries', () => {
+    let gameState: GameState
+    let playCard: typeof import('../../lib/game_logic').playCard
+
+    const bolt = createTestCard({
+        id: 'bolt',
+        name: 'Bolt',
+        type: 'spell',
+        cost: 1,
+        uprightAbilities: [{ name: 'Bolt', description: 'Deal 3 damage to any target' }],
+    })
+
+    beforeEach(async () => {
+        const gameLogic = await import('../../lib/game_logic')
+        playCard = gameLogic.playCard
+
+        gameState = createTestGameState({
+            phase: 'action',
+            activePlayer: 'player1',
+            player1: createTestPlayer('player1', { mana: 10, hand: [bolt], mulliganComplete: true }),
+            player2: createTestPlayer('player2', { health: 20 }),
+        })
+        gameState.battlefield.enemyUnits[0] = createTestCard({ id: 'foe', health: 5, currentHealth: 5, owner: 'player2' })
+    })
+
+    it('should hit the chosen unit instead of the opponent', async () => {
+        const newState = await playCard(gameState, bolt, undefined, { type: 'card', id: 'foe' })
+
+        expect(newState.battlefield.enemyUnits[0]?.currentHealth).toBe(2)
+        expect(newState.player2.health).toBe(20)
+    })
+
+    it('should hit the chosen player for any-target damage', async () => {
+        const newState = await playCard(gameState, bolt, undefined, { type: 'player', id: 'player1' })
+
+        expect(newState.player1.health).toBe(17)
+        expect(newState.player2.health).toBe(20)
+    })
+
+    it('should require a target when one is available', async () => {
+        await expect(playCard(gameState, bolt)).rejects.toThrow(/needs a target/)
+    })
+
+    it('should reject targets the card cannot reach', async () => {
+        gameState.battlefield.enemyUnits[0]!.keywords = ['mystical_ward']
+
+        await expect(
+            playCard(gameState, bolt, undefined, { type: 'card', id: 'foe' }),
+        ).rejects.toThrow(/Invalid target/)
+    })
+
+    it('should refuse a targeted spell with nothing to aim at', async () => {
+        const smite = createTestCard({
+            id: 'smite',
+            type: 'spell',
+            uprightAbilities: [{ name: 'Smite', description: 'Deal 4 damage to target enemy unit' }],
+        })
+        gameState.player1.hand = [smite]
+        gameState.battlefield.enemyUnits[0] = null
+
+        await expect(playCard(gameState, smite)).rejects.toThrow(/no legal targets/)
+    })
+
+    it('should let a battlecry fizzle when there is nothing to target', async () => {
+        const archer = createTestCard({
+            id: 'archer',
+            abilities: [{ name: 'Volley', description: 'Deal 2 damage to target enemy unit' }],
+        })
+        gameState.player1.hand = [archer]
+        gameState.battlefield.enemyUnits[0] = null
+
+        const newState = await playCard(gameState, archer, 0)
+
+        expect(newState.battlefield.playerUnits[0]?.id).toBe('archer')
+        expect(newState.player2.health).toBe(20)
+    })
+})
+
 describe('Game Logic - Mulligan to Action Phase Transition', () => {
     let gameState: GameState
     let completeMulligan: (state: GameState) => GameState
@@ -542,6 +637,18 @@ describe('Game Logic - endTurn()', () => {
         // Summoning sickness is cleared when a player's turn STARTS, not when it ends
         expect(newState.battlefield.playerUnits[0]?.hasSummoningSickness).toBe(true)
     })
+
+    it('should store arcane charge on chakra flow units as their owner\'s turn starts', async () => {
+        const { endTurn } = await import('../../lib/game_logic')
+
+        gameState.battlefield.enemyUnits[0] = createTestCard({ id: 'monk', keywords: ['chakra_flow'], owner: 'player2' })
+        gameState.battlefield.playerUnits[0] = createTestCard({ id: 'ally', keywords: ['chakra_flow'], owner: 'player1' })
+
+        const newState = await endTurn(gameState)
+
+        expect(newState.battlefield.enemyUnits[0]?.arcaneCharge).toBe(1)
+        expect(newState.battlefield.playerUnits[0]?.arcaneCharge).toBeUndefined()
+    })
 })
 
 describe('Game Logic - checkGameOutcome()', () => {
@@ -1311,3 +1418,41 @@ describe('Game Logic - State Immutability', () => {
         expect(newState.battlefield.playerUnits[0]).not.toBeNull()
     })
 })
+
+describe('Game Logic - createConstructedGameState()', () => {
+    const constructed = Array.from({ length: 30 }, (_, i) => createTestCard({ id: `mine-${i % 10}`, name: `Mine ${i % 10}` }))
+
+    it('deals player 1 their own deck and the AI an archetype deck', async () => {
+        const { createConstructedGameState } = await import('../../lib/game_logic')
+
+        const state = createConstructedGameState(
+            { type: 'constructed', cards: constructed },
+            { type: 'archetype', zodiacClass: 'leo' },
+            { seed: 7 },
+        )
+
+        const p1Cards = [...state.player1.hand, ...state.player1.deck]
+        expect(p1Cards).toHaveLength(30)
+        expect(p1Cards.every(c => /^p1_mine-\d_\d+$/.test(c.id))).toBe(true)
+        expect([...state.player2.hand, ...state.player2.deck].every(c => c.id.startsWith('p2_leo-card'))).toBe(true)
+    })
+
+    it('shuffles the same deck the same way for the same seed', async () => {
+        const { createConstructedGameState } = await import('../../lib/game_logic')
+        const deal = (seed: number) =>
+            createConstructedGameState({ type: 'constructed', cards: constructed }, { type: 'random' }, { seed })
+                .player1.deck.map(c => c.id)
+
+        expect(deal(11)).toEqual(deal(11))
+        expect(deal(11)).not.toEqual(deal(12))
+    })
+
+    it('refuses a deck that breaks the deckbuilding rules', async () => {
+        const { createConstructedGameState } = await import('../../lib/game_logic')
+        const fourCopies = [...constructed.slice(0, 26), ...Array(4).fill(createTestCard({ id: 'greedy' }))]
+
+        expect(() =>
+            createConstructedGameState({ type: 'constructed', cards: fourCopies }, { type: 'random' }),
+        ).toThrow('Invalid deck')
+    })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_RATING, updateRating } from '@/lib/glicko2'
+import { applyRankedResult, getSeasonId, isPlaced, PLACEMENT_GAMES, recordForSeason } from '@/lib/ranked_season'
+
+describe('Glicko-2', () => {
+    it('matches the worked example from the Glicko-2 paper', () => {
+        const player = { rating: 1500, deviation: 200, volatility: 0.06 }
+        const updated = updateRating(player, [
+            { opponent: { rating: 1400, deviation: 30, volatility: 0.06 }, score: 1 },
+            { opponent: { rating: 1550, deviation: 100, volatility: 0.06 }, score: 0 },
+            { opponent: { rating: 1700, deviation: 300, volatility: 0.06 }, score: 0 },
+        ])
+
+        expect(updated.rating).toBeCloseTo(1464.06, 1)
+        expect(updated.deviation).toBeCloseTo(151.52, 1)
+        expect(updated.volatility).toBeCloseTo(0.05999, 4)
+    })
+
+    it('grows the deviation of a player with no games, up to the starting deviation', () => {
+        const idle = updateRating({ rating: 1600, deviation: 100, volatility: 0.06 }, [])
+        expect(idle.rating).toBe(1600)
+        expect(idle.deviation).toBeGreaterThan(100)
+
+        expect(updateRating(DEFAULT_RATING, []).deviation).toBe(DEFAULT_RATING.deviation)
+    })
+
+    it('moves a new player further than a settled one for the same win', () => {
+        const opponent = { rating: 1500, deviation: 50, volatility: 0.06 }
+        const fresh = updateRating(DEFAULT_RATING, [{ opponent, score: 1 }])
+        const settled = updateRating({ ...DEFAULT_RATING, deviation: 50 }, [{ opponent, score: 1 }])
+
+        expect(fresh.rating - 1500).toBeGreaterThan(settled.rating - 1500)
+        expect(settled.rating).toBeGreaterThan(1500)
+    })
+})
+
+describe('ranked seasons', () => {
+    it('names seasons by UTC quarter', () => {
+        expect(getSeasonId(new Date('2026-01-01T00:00:00Z'))).toBe('2026-Q1')
+        expect(getSeasonId(new Date('2026-10-19T12:00:00Z'))).toBe('2026-Q4')
+    })
+
+    it('soft-resets a record carried into a new season', () => {
+        const record = { rating: 1900, deviation: 60, volatility: 0.05, rankedGames: 40, season: '2026-Q3' }
+
+        expect(recordForSeason(record, '2026-Q3')).toBe(record)
+        expect(recordForSeason(record, '2026-Q4')).toEqual({
+            rating: 1700,
+            deviation: 250,
+            volatility: 0.05,
+            rankedGames: 0,
+            season: '2026-Q4',
+        })
+        expect(recordForSeason(null, '2026-Q4')).toEqual({ ...DEFAULT_RATING, rankedGames: 0, season: '2026-Q4' })
+    })
+
+    it('rates both players against the other and counts toward placement', () => {
+        let winner = recordForSeason(null, '2026-Q4')
+        let loser = recordForSeason(null, '2026-Q4')
+
+        for (let game = 0; game < PLACEMENT_GAMES; game++) {
+            expect(isPlaced(winner)).toBe(false)
+            ;({ winner, loser } = applyRankedResult(winner, loser))
+        }
+
+        expect(isPlaced(winner)).toBe(true)
+        expect(winner.rating).toBeGreaterThan(1500)
+        expect(loser.rating).toBeLessThan(1500)
+        expect(winner.rating - 1500).toBeCloseTo(1500 - loser.rating, 6)
+    })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { getLegalActions, getLegalAttacks, getLegalPlays, isLegalAction } from '@/lib/legal_actions'
+import { createTestCard, createTestGameState } from '@/test_utils'
+
+const fullRow = (owner: 'player1' | 'player2') =>
+    Array.from({ length: 7 }, (_, i) => createTestCard({ id: `${owner}_filler_${i}`, owner, hasSummoningSickness: true }))
+
+describe('legal actions', () => {
+    it('offers a unit once per empty slot', () => {
+        const state = createTestGameState()
+        state.player1.hand = [createTestCard({ id: 'squire', cost: 1 })]
+        state.battlefield.playerUnits = fullRow('player1')
+        state.battlefield.playerUnits[2] = null
+        state.battlefield.playerUnits[5] = null
+
+        expect(getLegalPlays(state, 'player1')).toEqual([
+            { type: 'play_card', cardId: 'squire', targetSlot: 2 },
+            { type: 'play_card', cardId: 'squire', targetSlot: 5 },
+        ])
+    })
+
+    it('leaves out cards that cost too much or have nowhere to go', () => {
+        const state = createTestGameState()
+        state.player1.mana = 2
+        state.player1.spellMana = 0
+        state.player1.hand = [
+            createTestCard({ id: 'giant', cost: 5 }),
+            createTestCard({ id: 'squire', cost: 1 }),
+        ]
+        state.battlefield.playerUnits = fullRow('player1')
+
+        expect(getLegalPlays(state, 'player1')).toEqual([])
+    })
+
+    it('offers a targeted spell once per legal target', () => {
+        const state = createTestGameState()
+        state.player1.hand = [
+            createTestCard({
+                id: 'smite',
+                type: 'spell',
+                cost: 1,
+                uprightAbilities: [{ name: 'Smite', description: 'Deal 2 damage to target enemy unit' }],
+            }),
+        ]
+        state.battlefield.enemyUnits[0] = createTestCard({ id: 'foe', owner: 'player2' })
+        state.battlefield.enemyUnits[1] = createTestCard({ id: 'shade', owner: 'player2', keywords: ['stealth'] })
+
+        expect(getLegalPlays(state, 'player1')).toEqual([
+            { type: 'play_card', cardId: 'smite', target: { type: 'card', id: 'foe' } },
+        ])
+    })
+
+    it('holds back a targeted spell with nothing to hit', () => {
+        const state = createTestGameState()
+        state.player1.hand = [
+            createTestCard({
+                id: 'smite',
+                type: 'spell',
+                cost: 1,
+                uprightAbilities: [{ name: 'Smite', description: 'Deal 2 damage to target enemy unit' }],
+            }),
+        ]
+
+        expect(getLegalPlays(state, 'player1')).toEqual([])
+    })
+
+    it('pairs ready attackers with every enemy and the player when unguarded', () => {
+        const state = createTestGameState()
+        state.battlefield.playerUnits[0] = createTestCard({ id: 'knight', owner: 'player1' })
+        state.battlefield.enemyUnits[3] = createTestCard({ id: 'foe', owner: 'player2' })
+
+        expect(getLegalAttacks(state, 'player1')).toEqual([
+            { type: 'declare_attack', attackerId: 'knight', targetType: 'unit', targetId: 'foe' },
+            { type: 'declare_attack', attackerId: 'knight', targetType: 'player' },
+        ])
+    })
+
+    it('forces attacks into taunt and skips stealthed units', () => {
+        const state = createTestGameState()
+        state.battlefield.playerUnits[0] = createTestCard({ id: 'knight', owner: 'player1' })
+        state.battlefield.enemyUnits[0] = createTestCard({ id: 'wall', owner: 'player2', keywords: ['taunt'] })
+        state.battlefield.enemyUnits[1] = createTestCard({ id: 'foe', owner: 'player2' })
+
+        expect(getLegalAttacks(state, 'player1')).toEqual([
+            { type: 'declare_attack', attackerId: 'knight', targetType: 'unit', targetId: 'wall' },
+        ])
+
+        state.battlefield.enemyUnits[0] = createTestCard({ id: 'shade', owner: 'player2', keywords: ['stealth'] })
+        expect(getLegalAttacks(state, 'player1').map(a => a.targetId ?? a.targetType)).toEqual(['foe', 'player'])
+    })
+
+    it('lets only rested units or chargers attack, and only with the attack token', () => {
+        const state = createTestGameState()
+        state.battlefield.playerUnits[0] = createTestCard({ id: 'fresh', owner: 'player1', hasSummoningSickness: true })
+        state.battlefield.playerUnits[1] = createTestCard({
+            id: 'rider',
+            owner: 'player1',
+            hasSummoningSickness: true,
+            keywords: ['charge'],
+        })
+        state.battlefield.playerUnits[2] = createTestCard({ id: 'tired', owner: 'player1', hasAttackedThisTurn: true })
+
+        expect(getLegalAttacks(state, 'player1').map(a => a.attackerId)).toEqual(['rider'])
+
+        state.player1.hasAttackToken = false
+        expect(getLegalAttacks(state, 'player1')).toEqual([])
+    })
+
+    it('always ends with ending the turn, and offers nothing out of turn', () => {
+        const state = createTestGameState()
+        state.player1.hand = []
+
+        expect(getLegalActions(state, 'player1')).toEqual([{ type: 'end_turn' }])
+        expect(getLegalActions(state, 'player2')).toEqual([])
+        expect(getLegalActions({ ...state, phase: 'mulligan' }, 'player1')).toEqual([])
+    })
+
+    it('matches a play without a slot against any open slot', () => {
+        const state = createTestGameState()
+        state.player1.hand = [createTestCard({ id: 'squire', cost: 1 })]
+        state.battlefield.playerUnits = fullRow('player1')
+        state.battlefield.playerUnits[4] = null
+
+        expect(isLegalAction(state, 'player1', { type: 'play_card', cardId: 'squire' })).toBe(true)
+        expect(isLegalAction(state, 'player1', { type: 'play_card', cardId: 'squire', targetSlot: 4 })).toBe(true)
+        expect(isLegalAction(state, 'player1', { type: 'play_card', cardId: 'squire', targetSlot: 0 })).toBe(false)
+    })
+})
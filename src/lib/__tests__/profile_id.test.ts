@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest'
+import { getPublicProfileId } from '@/lib/profile_id'
+
+describe('Public profile ids', () => {
+    it('names the same profile the same way every time', async () => {
+        expect(await getPublicProfileId('device-a')).toBe(await getPublicProfileId('device-a'))
+        expect(await getPublicProfileId('device-a')).not.toBe(await getPublicProfileId('device-b'))
+    })
+
+    it('gives nothing of the player id away', async () => {
+        const playerId = '6f1c2a9e-0b7d-4c3e-9a51-2d8f7e6b4c10'
+        const publicId = await getPublicProfileId(playerId)
+
+        expect(publicId).toMatch(/^[0-9a-f]{24}$/)
+        expect(publicId).not.toContain(playerId.slice(-4))
+    })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { isNewerEntry, mergeProfileSnapshots } from '@/lib/profile_sync'
+import type { StatsStorage } from '@/schemas/stats_schema'
+
+const entry = (version: number, updatedAt: number, data: unknown = {}) => ({ version, updatedAt, data })
+
+describe('profile merging', () => {
+    it('prefers the higher version whatever the clock says', () => {
+        expect(isNewerEntry(entry(3, 100), entry(2, 900))).toBe(true)
+        expect(isNewerEntry(entry(2, 900), entry(3, 100))).toBe(false)
+    })
+
+    it('breaks a version tie with the later edit', () => {
+        expect(isNewerEntry(entry(2, 200), entry(2, 100))).toBe(true)
+        expect(isNewerEntry(entry(2, 100), entry(2, 100))).toBe(false)
+    })
+
+    it('merges section by section', () => {
+        const server = { stats: entry(5, 100, 'server stats'), quests: entry(1, 100, 'server quests') }
+        const device = { stats: entry(4, 500, 'device stats'), quests: entry(2, 50, 'device quests'), decks: entry(1, 10, []) }
+
+        expect(mergeProfileSnapshots(server, device)).toEqual({
+            stats: server.stats,
+            quests: device.quests,
+            decks: device.decks,
+        })
+    })
+
+    describe('stats from two devices', () => {
+        const game = (id: string, timestamp: number) => ({
+            id, result: 'win' as const, difficulty: 'normal' as const, deckName: 'Deck', rounds: 5,
+            durationSeconds: 60, cardsPlayed: 3, unitsPlayed: 2, spellsPlayed: 1, damageDealt: 10,
+            unitsDestroyed: 1, unitsLost: 0, manaSpent: 9, uniqueCardsPlayed: [id],
+            majorArcanaPlayed: [], zodiacClassesUsed: [], playerHealthRemaining: 20,
+            opponentHealthRemaining: 0, timestamp,
+        })
+        const storage = (games: ReturnType<typeof game>[], unlocked: string[] = []): StatsStorage => ({
+            version: 1,
+            stats: {
+                totalGames: games.length, wins: games.length, losses: 0, currentStreak: games.length,
+                bestStreak: games.length, totalDamageDealt: 10 * games.length, totalUnitsDestroyed: games.length,
+                totalUnitsLost: 0, totalCardsPlayed: 3 * games.length, totalManaSpent: 9 * games.length,
+                totalPlayTimeSeconds: 60 * games.length,
+                uniqueCardsEverPlayed: games.map(g => g.id), majorArcanaEverPlayed: [],
+                zodiacClassWins: {}, difficultyRecord: { normal: { wins: games.length, losses: 0 } },
+            },
+            recentGames: [...games].reverse(),
+            achievements: unlocked.map(id => ({
+                id, unlocked: true, unlockedAt: 1, currentValue: 1, targetValue: 1, notified: true,
+            })),
+            cardStats: {},
+            deckStats: {},
+        })
+        const synced = storage([game('a', 1)])
+        const deviceA = storage([game('a', 1), game('b', 2)], ['first_win'])
+        const deviceB = storage([game('a', 1), game('c', 3)], ['streak'])
+
+        it('adds up the games both devices played since they last synced', () => {
+            const server = { stats: entry(2, 200, deviceA) }
+            const merged = mergeProfileSnapshots(server, {
+                stats: { ...entry(2, 300, deviceB), base: synced },
+            })
+
+            const data = merged.stats?.data as StatsStorage
+            expect(merged.stats?.version).toBe(3)
+            expect(merged.stats).not.toHaveProperty('base')
+            expect(data.stats).toMatchObject({ totalGames: 3, wins: 3, totalDamageDealt: 30 })
+            expect(data.stats.difficultyRecord.normal).toEqual({ wins: 3, losses: 0 })
+            expect(data.stats.uniqueCardsEverPlayed.sort()).toEqual(['a', 'b', 'c'])
+            expect(data.recentGames.map(g => g.id)).toEqual(['c', 'b', 'a'])
+            expect(data.achievements.map(a => a.id).sort()).toEqual(['first_win', 'streak'])
+        })
+
+        it('takes a change made on top of the latest version as it is', () => {
+            const server = { stats: entry(1, 100, synced) }
+            const merged = mergeProfileSnapshots(server, {
+                stats: { ...entry(2, 300, deviceB), base: synced },
+            })
+
+            expect(merged.stats).toEqual(entry(2, 300, deviceB))
+        })
+
+        it('does not count a resent sync twice', () => {
+            const server = { stats: entry(2, 300, deviceB) }
+            const merged = mergeProfileSnapshots(server, {
+                stats: { ...entry(2, 300, deviceB), base: synced },
+            })
+
+            expect(merged.stats).toEqual(server.stats)
+        })
+    })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { produce } from 'immer'
+import { createRandomFn, createRng, nextRandom, rollRandom, shuffleInPlace } from '@/lib/rng'
+import { completeMulligan, aiMulligan, createInitialGameState, endTurn } from '@/lib/game_logic'
+import type { GameState } from '@/schemas/schema'
+
+const orientations = (state: GameState) => ({
+    p1Hand: state.player1.hand.map(c => `${c.id}:${c.isReversed}`),
+    p2Hand: state.player2.hand.map(c => `${c.id}:${c.isReversed}`),
+    p1Deck: state.player1.deck.map(c => c.id),
+    p2Deck: state.player2.deck.map(c => c.id),
+})
+
+describe('Seeded RNG', () => {
+    describe('generator', () => {
+        it('produces the same sequence for the same seed', () => {
+            const a = createRng(12345)
+            const b = createRng(12345)
+            const seqA = Array.from({ length: 20 }, () => nextRandom(a))
+            const seqB = Array.from({ length: 20 }, () => nextRandom(b))
+            expect(seqA).toEqual(seqB)
+        })
+
+        it('produces different sequences for different seeds', () => {
+            const a = createRandomFn(createRng(1))
+            const b = createRandomFn(createRng(2))
+            expect(Array.from({ length: 5 }, a)).not.toEqual(Array.from({ length: 5 }, b))
+        })
+
+        it('returns floats in [0, 1)', () => {
+            const random = createRandomFn(createRng(99))
+            for (let i = 0; i < 1000; i++) {
+                const value = random()
+                expect(value).toBeGreaterThanOrEqual(0)
+                expect(value).toBeLessThan(1)
+            }
+        })
+
+        it('keeps the original seed while advancing state', () => {
+            const rng = createRng(42)
+            nextRandom(rng)
+            nextRandom(rng)
+            expect(rng.seed).toBe(42)
+            expect(rng.state).not.toBe(42)
+        })
+
+        it('is roughly uniform around the 50% orientation threshold', () => {
+            const random = createRandomFn(createRng(2024))
+            let reversed = 0
+            for (let i = 0; i < 10000; i++) {
+                if (random() < 0.5) reversed++
+            }
+            expect(reversed).toBeGreaterThan(4700)
+            expect(reversed).toBeLessThan(5300)
+        })
+
+        it('advances the generator held in an Immer draft', () => {
+            const state = { rng: createRng(7) }
+            const next = produce(state, draft => {
+                rollRandom(draft)
+            })
+            expect(next.rng.state).not.toBe(state.rng.state)
+            expect(state.rng.state).toBe(7)
+        })
+
+        it('shuffles deterministically and keeps every item', () => {
+            const items = Array.from({ length: 30 }, (_, i) => i)
+            const a = shuffleInPlace([...items], createRandomFn(createRng(5)))
+            const b = shuffleInPlace([...items], createRandomFn(createRng(5)))
+            expect(a).toEqual(b)
+            expect([...a].sort((x, y) => x - y)).toEqual(items)
+        })
+    })
+
+    describe('game engine determinism', () => {
+        it('stores the seed in the initial game state', () => {
+            const state = createInitialGameState(undefined, 'standard', 777)
+            expect(state.rng?.seed).toBe(777)
+        })
+
+        it('creates identical games from the same seed', () => {
+            const a = createInitialGameState(undefined, 'standard', 31337)
+            const b = createInitialGameState(undefined, 'standard', 31337)
+            expect(orientations(a)).toEqual(orientations(b))
+            expect(a.rng).toEqual(b.rng)
+        })
+
+        it('plays out identically through mulligans and turns', async () => {
+            const play = async (seed: number) => {
+                let state = createInitialGameState(undefined, 'standard', seed)
+                state = produce(state, draft => {
+                    draft.player1.selectedForMulligan = draft.player1.hand.slice(0, 2).map(c => c.id)
+                })
+                state = completeMulligan(state)
+                state = aiMulligan(state, 'easy')
+                for (let i = 0; i < 4; i++) {
+                    state = await endTurn(state)
+                }
+                return state
+            }
+
+            const a = await play(9001)
+            const b = await play(9001)
+            expect(orientations(a)).toEqual(orientations(b))
+            expect(a.rng).toEqual(b.rng)
+        })
+    })
+})
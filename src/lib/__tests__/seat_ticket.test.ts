@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { openLobbyTicket, sealLobbyTicket, signSeatTicket, verifySeatTicket } from '@/lib/seat_ticket'
+
+describe('Seat tickets', () => {
+    const secret = 'test-secret'
+    const claims = { matchId: 'match_1', seat: 'player2' as const, profileId: 'profile-b' }
+
+    it('round-trips the claims it was signed with', async () => {
+        const ticket = await signSeatTicket(claims, secret)
+
+        expect(await verifySeatTicket(ticket, secret)).toEqual(claims)
+    })
+
+    it('refuses tickets signed with another secret or with edited claims', async () => {
+        const ticket = await signSeatTicket(claims, secret)
+        expect(await verifySeatTicket(ticket, 'other-secret')).toBeNull()
+
+        const [, signature] = ticket.split('.')
+        const forged = btoa(JSON.stringify({ ...claims, profileId: 'someone-else' }))
+            .replace(/\+/g, '-')
+            .replace(/\//g, '_')
+            .replace(/=+$/, '')
+        expect(await verifySeatTicket(`${forged}.${signature}`, secret)).toBeNull()
+    })
+
+    it('treats plain seat tokens as no ticket', async () => {
+        expect(await verifySeatTicket('token_1234567890', secret)).toBeNull()
+        expect(await verifySeatTicket('not.a.ticket', secret)).toBeNull()
+        expect(await verifySeatTicket('!!!.???', secret)).toBeNull()
+    })
+
+    it('seals lobby seats so only the server secret opens them', async () => {
+        const seatTicket = {
+            seat: 'player2' as const,
+            match: {
+                matchId: 'lobby_ABC234_1',
+                rules: { gameMode: 'standard', startingHealth: 20, turnSeconds: 75, bankSeconds: 30, format: 'standard' },
+                decks: { player1: ['cups-01'], player2: ['swords-01'] },
+            },
+        }
+        const ticket = await sealLobbyTicket(seatTicket, secret)
+
+        expect(ticket).not.toContain('cups')
+        expect(await openLobbyTicket(ticket, secret)).toEqual(seatTicket)
+        expect(await openLobbyTicket(ticket, 'other-secret')).toBeNull()
+        expect(await openLobbyTicket('token_1234567890', secret)).toBeNull()
+    })
+})
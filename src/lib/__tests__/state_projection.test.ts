@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { createInitialGameState } from '@/lib/game_logic'
+import { projectEventForSpectator, projectStateForSeat, projectStateForSpectator } from '@/lib/state_projection'
+import { RedactedGameStateSchema } from '@/schemas/multiplayer_schema'
+import type { GameEvent } from '@/schemas/schema'
+
+describe('projectStateForSeat', () => {
+    const state = createInitialGameState(undefined, 'standard', 4242)
+
+    it('keeps the viewer hand and replaces the opponent hand with card backs', () => {
+        const view = projectStateForSeat(state, 'player1')
+
+        expect(view.player1.hand).toEqual(state.player1.hand)
+        expect(view.player2.hand).toHaveLength(state.player2.hand.length)
+        for (const card of view.player2.hand) {
+            expect(card.isHidden).toBe(true)
+            expect(card.owner).toBe('player2')
+            expect(card.isReversed).toBeUndefined()
+        }
+    })
+
+    it('leaks no real card ids from hidden zones', () => {
+        const view = projectStateForSeat(state, 'player1')
+        const json = JSON.stringify(view)
+
+        for (const card of [...state.player2.hand, ...state.player1.deck, ...state.player2.deck]) {
+            expect(json).not.toContain(`"${card.id}"`)
+        }
+    })
+
+    it('hides deck contents and order for both seats but keeps deck sizes', () => {
+        const view = projectStateForSeat(state, 'player2')
+
+        expect(view.player1.deck).toHaveLength(state.player1.deck.length)
+        expect(view.player2.deck).toHaveLength(state.player2.deck.length)
+        expect(view.player2.deck.every(c => c.isHidden && c.isReversed === undefined)).toBe(true)
+    })
+
+    it('drops the RNG so upcoming draws cannot be predicted', () => {
+        expect(state.rng).toBeDefined()
+        expect('rng' in projectStateForSeat(state, 'player1')).toBe(false)
+    })
+
+    it('hides both hands from spectators', () => {
+        const view = projectStateForSeat(state, null)
+
+        expect(view.viewer).toBeNull()
+        expect(view.player1.hand.every(c => c.isHidden)).toBe(true)
+        expect(view.player2.hand.every(c => c.isHidden)).toBe(true)
+    })
+
+    it('produces a valid redacted state without touching the original', () => {
+        const before = JSON.stringify(state)
+        const view = projectStateForSeat(state, 'player1')
+
+        expect(RedactedGameStateSchema.safeParse(view).success).toBe(true)
+        expect(JSON.stringify(state)).toBe(before)
+    })
+})
+
+describe('spectator projections', () => {
+    const state = createInitialGameState(undefined, 'standard', 4242)
+
+    const event = (type: GameEvent['type'], data: GameEvent['data']): GameEvent => ({
+        id: `evt_${type}`,
+        type,
+        timestamp: 0,
+        gameStateId: '1_1',
+        source: { type: 'card', id: 'major-00', name: 'The Fool' },
+        data,
+        phase: 'action',
+        activePlayer: 'player1',
+        turn: 1,
+        round: 1,
+    })
+
+    it('shows casters both hands but still hides decks and the RNG', () => {
+        const view = projectStateForSpectator(state, true)
+
+        expect(view.viewer).toBeNull()
+        expect(view.player1.hand).toEqual(state.player1.hand)
+        expect(view.player2.hand).toEqual(state.player2.hand)
+        expect(view.player1.deck.every(c => c.isHidden)).toBe(true)
+        expect('rng' in view).toBe(false)
+    })
+
+    it('matches the face-down spectator seat view when hands are hidden', () => {
+        expect(projectStateForSpectator(state, false)).toEqual(projectStateForSeat(state, null))
+    })
+
+    it('hides which card was drawn unless hands are shown', () => {
+        const drawn = event('card_drawn', { cardId: 'major-00', cardName: 'The Fool' })
+
+        const hidden = projectEventForSpectator(drawn, false)
+        expect(JSON.stringify(hidden)).not.toContain('The Fool')
+        expect(hidden?.type).toBe('card_drawn')
+        expect(projectEventForSpectator(drawn, true)).toBe(drawn)
+        expect(projectEventForSpectator(event('card_played', { cardId: 'major-00', cardName: 'The Fool' }), false)).toMatchObject({ data: { cardName: 'The Fool' } })
+    })
+
+    it('drops events outside the spectator feed', () => {
+        expect(projectEventForSpectator(event('player_gains_mana', { playerId: 'player1', amount: 3 }), true)).toBeNull()
+    })
+})
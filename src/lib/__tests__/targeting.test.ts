@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { chooseBestTarget, getLegalTargets, requiresTarget } from '@/lib/targeting'
+import { createTestCard, createTestGameState } from '@/test_utils'
+
+const spell = (description: string) =>
+    createTestCard({ id: 'spell', type: 'spell', uprightAbilities: [{ name: 'Spell', description }] })
+
+describe('targeting', () => {
+    it('only asks for a target when the text names one', () => {
+        expect(requiresTarget(spell('Deal 3 damage to target unit'))).toBe(true)
+        expect(requiresTarget(spell('Deal 2 damage to all enemy units'))).toBe(false)
+        expect(requiresTarget(spell('Draw a card'))).toBe(false)
+        expect(requiresTarget(createTestCard({ abilities: [{ name: 'Rites', description: 'Deathrattle: Destroy target unit' }] }))).toBe(false)
+    })
+
+    it('offers units on both sides and both players for any-target damage', () => {
+        const state = createTestGameState()
+        state.battlefield.playerUnits[0] = createTestCard({ id: 'ally', owner: 'player1' })
+        state.battlefield.enemyUnits[1] = createTestCard({ id: 'foe', owner: 'player2' })
+
+        expect(getLegalTargets(state, spell('Deal 3 damage to any target'))).toEqual([
+            { type: 'card', id: 'ally' },
+            { type: 'card', id: 'foe' },
+            { type: 'player', id: 'player2' },
+            { type: 'player', id: 'player1' },
+        ])
+    })
+
+    it('keeps enemy-only cards on the enemy side', () => {
+        const state = createTestGameState()
+        state.battlefield.playerUnits[0] = createTestCard({ id: 'ally', owner: 'player1' })
+        state.battlefield.enemyUnits[0] = createTestCard({ id: 'foe', owner: 'player2' })
+
+        expect(getLegalTargets(state, spell('Deal 2 damage to target enemy unit'))).toEqual([{ type: 'card', id: 'foe' }])
+    })
+
+    it('hides stealthed enemies until they attack', () => {
+        const state = createTestGameState()
+        state.battlefield.enemyUnits[0] = createTestCard({ id: 'shade', keywords: ['stealth'], owner: 'player2' })
+        state.battlefield.enemyUnits[1] = createTestCard({ id: 'veiled', keywords: ['Veil of Illusion'], owner: 'player2' })
+        state.battlefield.enemyUnits[2] = createTestCard({ id: 'revealed', keywords: ['stealth'], hasAttackedThisTurn: true, owner: 'player2' })
+
+        expect(getLegalTargets(state, spell('Destroy target unit'))).toEqual([{ type: 'card', id: 'revealed' }])
+    })
+
+    it('lets mystical ward turn away spells but not battlecries', () => {
+        const state = createTestGameState()
+        state.battlefield.enemyUnits[0] = createTestCard({ id: 'warded', keywords: ['mystical_ward'], owner: 'player2' })
+        const battlecry = createTestCard({ abilities: [{ name: 'Shot', description: 'Deal 1 damage to target unit' }] })
+
+        expect(getLegalTargets(state, spell('Deal 1 damage to target unit'))).toEqual([])
+        expect(getLegalTargets(state, battlecry)).toEqual([{ type: 'card', id: 'warded' }])
+    })
+
+    it('picks the biggest enemy it can kill, otherwise goes face', () => {
+        const state = createTestGameState()
+        state.battlefield.playerUnits[0] = createTestCard({ id: 'ally', owner: 'player1' })
+        state.battlefield.enemyUnits[0] = createTestCard({ id: 'small', attack: 1, health: 2, currentHealth: 2, owner: 'player2' })
+        state.battlefield.enemyUnits[1] = createTestCard({ id: 'big', attack: 4, health: 3, currentHealth: 3, owner: 'player2' })
+        state.battlefield.enemyUnits[2] = createTestCard({ id: 'huge', attack: 6, health: 8, currentHealth: 8, owner: 'player2' })
+
+        expect(chooseBestTarget(state, spell('Deal 3 damage to any target'))).toEqual({ type: 'card', id: 'big' })
+        expect(chooseBestTarget(state, spell('Deal 1 damage to any target'))).toEqual({ type: 'player', id: 'player2' })
+        expect(chooseBestTarget(state, spell('Give a unit +2/+2'))).toEqual({ type: 'card', id: 'ally' })
+    })
+})
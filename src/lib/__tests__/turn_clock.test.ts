@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import {
+    countDownTimer,
+    createTurnClock,
+    finishTurn,
+    getTimeLeft,
+    nextClockAlert,
+    pauseClock,
+    resumeClock,
+    startTurn,
+    toTurnTimer,
+} from '@/lib/turn_clock'
+
+const config = { turnMs: 75_000, bankMs: 30_000, ropeMs: 15_000 }
+
+describe('turn clock', () => {
+    it('charges only the time past the turn allowance to the bank', () => {
+        let clock = startTurn(createTurnClock(config), config, 'player1', 1, 0)
+        clock = startTurn(clock, config, 'player2', 2, 85_000)
+        clock = startTurn(clock, config, 'player1', 3, 85_000 + 60_000)
+
+        expect(clock.banks).toEqual({ player1: 20_000, player2: 30_000 })
+        expect(getTimeLeft(clock, config, 85_000 + 60_000)).toEqual({ turnMs: 75_000, bankMs: 20_000, totalMs: 95_000 })
+    })
+
+    it('does not count a pause against the active player', () => {
+        let clock = startTurn(createTurnClock(config), config, 'player1', 1, 0)
+        clock = pauseClock(clock, 10_000)
+        expect(getTimeLeft(clock, config, 50_000)?.turnMs).toBe(65_000)
+
+        clock = resumeClock(clock, 50_000)
+        expect(getTimeLeft(clock, config, 60_000)?.turnMs).toBe(55_000)
+        expect(nextClockAlert(pauseClock(clock, 60_000), config, 60_000)).toBeNull()
+    })
+
+    it('announces the bank, then the rope, then expiry', () => {
+        let clock = startTurn(createTurnClock(config), config, 'player1', 1, 0)
+
+        expect(nextClockAlert(clock, config, 0)).toEqual({ alert: 'bank', inMs: 75_000 })
+        expect(nextClockAlert(clock, config, 75_000)).toEqual({ alert: 'rope', inMs: 15_000 })
+        expect(nextClockAlert(clock, config, 90_000)).toEqual({ alert: 'expired', inMs: 15_000 })
+        expect(nextClockAlert(clock, config, 110_000)).toEqual({ alert: 'expired', inMs: 0 })
+
+        clock = finishTurn(clock, config, 110_000)
+        expect(clock.banks.player1).toBe(0)
+        expect(nextClockAlert(clock, config, 110_000)).toBeNull()
+    })
+
+    it('lets clients count a snapshot down into the bank and the rope', () => {
+        const clock = startTurn(createTurnClock(config), config, 'player2', 2, 0)
+        const timer = toTurnTimer(clock, config, 5_000)
+        if (!timer) throw new Error('no timer')
+
+        expect(timer).toMatchObject({ activePlayer: 'player2', turnRemainingMs: 70_000, paused: false })
+        expect(countDownTimer(timer, 80_000)).toEqual({ turnMs: 0, bankMs: 20_000, totalMs: 20_000, roping: false })
+        expect(countDownTimer(timer, 90_000).roping).toBe(true)
+        expect(countDownTimer({ ...timer, paused: true }, 90_000).totalMs).toBe(100_000)
+    })
+})
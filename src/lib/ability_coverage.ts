@@ -0,0 +1,263 @@
+import type { Card } from '@/schemas/schema'
+import {
+  findUnparsedClauses,
+  parseAbilityDescription,
+  type TriggerType,
+} from '@/services/ability_parser'
+import {
+  cardEffectSystem,
+  findScriptedEffect,
+  getOrientedAbilities,
+} from '@/services/card_effect_system'
+
+// ================================
+// ABILITY COVERAGE
+// ================================
+// Runs every card ability through the same parser and executor lookup the engine uses,
+// so content authors can see which rules text actually does something in play
+
+/**
+ * scripted: a frontmatter script runs instead of the prose
+ * full: every clause parses to an action with an executor, on a trigger the engine fires
+ * partial: some of it runs, the rest is dropped
+ * none: nothing the text says happens in play
+ */
+export type CoverageStatus = 'scripted' | 'full' | 'partial' | 'none'
+
+export interface AbilityCoverage {
+  orientation: 'upright' | 'reversed'
+  name: string
+  description: string
+  status: CoverageStatus
+  triggers: TriggerType[]
+  /** Action types that will execute */
+  actions: string[]
+  /** Parsed actions with no executor behind them */
+  unexecutedActions: string[]
+  unparsedClauses: string[]
+  unknownVerbs: string[]
+  /** Triggers the engine never fires, or trigger phrases the parser doesn't recognize */
+  unsupportedTriggers: string[]
+}
+
+export interface CardCoverage {
+  id: string
+  name: string
+  type: Card['type']
+  status: CoverageStatus
+  abilities: AbilityCoverage[]
+}
+
+export interface CoverageReport {
+  totals: Record<CoverageStatus, number> & { cards: number; abilities: number }
+  /** How often each verb the parser has no pattern for appears, most common first */
+  unknownVerbs: Record<string, number>
+  unsupportedTriggers: Record<string, number>
+  cards: CardCoverage[]
+}
+
+// Units resolve abilities when played and when they die; spells resolve everything on cast
+const FIRED_TRIGGERS = new Set<TriggerType>(['on_play', 'on_death'])
+
+// Verbs at the head of some ACTION_PATTERNS entry in the ability parser
+const KNOWN_VERBS = new Set([
+  'deal',
+  'take',
+  'heal',
+  'restore',
+  'gain',
+  'give',
+  'get',
+  'have',
+  'grant',
+  'lose',
+  'draw',
+  'discard',
+  'summon',
+  'create',
+  'destroy',
+  'return',
+  'resurrect',
+])
+
+// Subjects and determiners skipped to reach a clause's verb
+const SUBJECT_WORDS = new Set([
+  'a',
+  'adjacent',
+  'air',
+  'all',
+  'allied',
+  'an',
+  'another',
+  'both',
+  'card',
+  'cards',
+  'each',
+  'earth',
+  'enemy',
+  'every',
+  'fire',
+  'friendly',
+  'hero',
+  'it',
+  'its',
+  'opponent',
+  "opponent's",
+  'other',
+  'player',
+  'players',
+  'spell',
+  'spells',
+  'target',
+  'that',
+  'the',
+  'they',
+  'this',
+  'token',
+  'tokens',
+  'unit',
+  'units',
+  'water',
+  'you',
+  'your',
+])
+
+const TRIGGER_PHRASE =
+  /^(?:when|whenever|each time|after|at (?:the )?(?:start|end|beginning))\b[^,]*/i
+const LEADING_CONDITION = /^,?\s*(?:(?:if|unless|otherwise)\b[^,]*,\s*)?/i
+
+/** The verb a clause hinges on, in its base form ("costs" → "cost"), or null if there is none */
+function findVerb(clause: string): string | null {
+  const words = clause
+    .toLowerCase()
+    .replace(/[^a-z'\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+  const verb = words.find(word => !SUBJECT_WORDS.has(word))
+  if (!verb) return null
+  return verb.length > 3 && verb.endsWith('s') && !verb.endsWith('ss') ? verb.slice(0, -1) : verb
+}
+
+function analyzeAbility(
+  card: Card,
+  orientation: AbilityCoverage['orientation'],
+  ability: { name: string; description: string },
+): AbilityCoverage {
+  const oriented = { ...card, isReversed: orientation === 'reversed' }
+  const script = findScriptedEffect(oriented, ability.name)
+  const triggers =
+    card.type === 'spell' && !script
+      ? ['on_play' as const]
+      : cardEffectSystem.getAbilityTriggers(oriented, ability.description, ability.name)
+  const base = {
+    orientation,
+    name: ability.name,
+    description: ability.description,
+    triggers,
+    unsupportedTriggers: triggers.filter(trigger => !FIRED_TRIGGERS.has(trigger)),
+  }
+
+  if (script) {
+    const actions = script.actions.map(action => action.type)
+    return {
+      ...base,
+      status: base.unsupportedTriggers.length > 0 ? 'none' : 'scripted',
+      actions: actions.filter(type => cardEffectSystem.canExecute(type)),
+      unexecutedActions: actions.filter(type => !cardEffectSystem.canExecute(type)),
+      unparsedClauses: [],
+      unknownVerbs: [],
+    }
+  }
+
+  const parsed = parseAbilityDescription(ability.description).actions.map(action => action.type)
+  const actions = parsed.filter(type => cardEffectSystem.canExecute(type))
+  const unparsedClauses = findUnparsedClauses(ability.description)
+
+  const unknownVerbs = new Set<string>()
+  const unsupportedTriggers = new Set<string>(base.unsupportedTriggers)
+  for (const clause of unparsedClauses) {
+    // The parser only reads a trigger at the start of the whole description
+    const phrase = clause.match(TRIGGER_PHRASE)?.[0] ?? ''
+    if (phrase) unsupportedTriggers.add(phrase.trim())
+
+    const verb = findVerb(clause.slice(phrase.length).replace(LEADING_CONDITION, ''))
+    if (verb && !KNOWN_VERBS.has(verb)) unknownVerbs.add(verb)
+  }
+
+  const dropsSomething = unparsedClauses.length > 0 || actions.length < parsed.length
+  const status: CoverageStatus =
+    actions.length === 0 || base.unsupportedTriggers.length > 0
+      ? 'none'
+      : dropsSomething || unsupportedTriggers.size > 0
+        ? 'partial'
+        : 'full'
+
+  return {
+    ...base,
+    status,
+    actions,
+    unexecutedActions: parsed.filter(type => !cardEffectSystem.canExecute(type)),
+    unparsedClauses,
+    unknownVerbs: [...unknownVerbs],
+    unsupportedTriggers: [...unsupportedTriggers],
+  }
+}
+
+/** A card is only as covered as its least covered ability */
+function combineStatus(abilities: AbilityCoverage[]): CoverageStatus {
+  const statuses = new Set(abilities.map(ability => ability.status))
+  if (statuses.size === 0) return 'full'
+  if (statuses.has('partial') || (statuses.has('none') && statuses.size > 1)) return 'partial'
+  if (statuses.has('none')) return 'none'
+  return statuses.has('full') ? 'full' : 'scripted'
+}
+
+export function analyzeCardCoverage(card: Card): CardCoverage {
+  const abilities = (['upright', 'reversed'] as const).flatMap(orientation =>
+    getOrientedAbilities({ ...card, isReversed: orientation === 'reversed' })
+      .filter(ability => ability.description)
+      .map(ability => analyzeAbility(card, orientation, ability)),
+  )
+
+  return {
+    id: card.id,
+    name: card.name,
+    type: card.type,
+    status: combineStatus(abilities),
+    abilities,
+  }
+}
+
+const byCount = (counts: Map<string, number>) =>
+  Object.fromEntries([...counts].sort(([, a], [, b]) => b - a))
+
+export function buildCoverageReport(cards: Card[]): CoverageReport {
+  const coverage = cards.map(analyzeCardCoverage)
+  const abilities = coverage.flatMap(card => card.abilities)
+
+  const totals = {
+    cards: coverage.length,
+    abilities: abilities.length,
+    scripted: 0,
+    full: 0,
+    partial: 0,
+    none: 0,
+  }
+  const unknownVerbs = new Map<string, number>()
+  const unsupportedTriggers = new Map<string, number>()
+  for (const ability of abilities) {
+    totals[ability.status]++
+    for (const verb of ability.unknownVerbs)
+      unknownVerbs.set(verb, (unknownVerbs.get(verb) ?? 0) + 1)
+    for (const trigger of ability.unsupportedTriggers) {
+      unsupportedTriggers.set(trigger, (unsupportedTriggers.get(trigger) ?? 0) + 1)
+    }
+  }
+
+  return {
+    totals,
+    unknownVerbs: byCount(unknownVerbs),
+    unsupportedTriggers: byCount(unsupportedTriggers),
+    cards: coverage,
+  }
+}
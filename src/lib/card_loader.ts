@@ -1,13 +1,48 @@
 import type { Card as ContentlayerCard } from 'contentlayer/generated'
 import { allCards } from 'contentlayer/generated'
-import type { Card } from '@/schemas/schema'
+import type { Card, ScriptedEffect } from '@/schemas/schema'
 import { CardSchema } from '@/schemas/schema'
+import { partitionEffectsBlock } from './contentlayer-schema-bridge'
+import { validateDeck } from './deck_format'
 import { GameLogger } from './game_logger'
+import { shuffleInPlace } from './rng'
+
+type AbilityText = { name: string; description: string }
+
+/**
+ * Scripted effects without a prose ability of the same name get one, so they show on the card
+ * and run wherever abilities of their orientation run
+ */
+function addScriptedAbilities(
+  card: {
+    abilities: AbilityText[]
+    uprightAbilities: AbilityText[]
+    reversedAbilities: AbilityText[]
+    scriptedEffects: ScriptedEffect[]
+  },
+  hasFlatAbilities: boolean,
+): void {
+  const add = (list: AbilityText[], effect: ScriptedEffect) => {
+    if (!list.some(ability => ability.name === effect.name)) {
+      list.push({ name: effect.name, description: effect.description ?? effect.name })
+    }
+  }
+
+  for (const effect of card.scriptedEffects) {
+    add(card.abilities, effect)
+    // Oriented lists shadow the flat one, so leave them empty for flat-ability cards
+    if (hasFlatAbilities) continue
+    if (effect.orientation !== 'reversed') add(card.uprightAbilities, effect)
+    if (effect.orientation !== 'upright') add(card.reversedAbilities, effect)
+  }
+}
 
 /**
  * Convert a Contentlayer card to a game Card
  */
 export function contentlayerCardToGameCard(contentCard: ContentlayerCard): Card {
+  const { effects, scriptedEffects } = partitionEffectsBlock(contentCard.effects)
+
   // Clean and validate the data before creating the card
   const rawCard = {
     id: contentCard.id,
@@ -55,12 +90,14 @@ export function contentlayerCardToGameCard(contentCard: ContentlayerCard): Card
       ['instant', 'ritual', 'enchantment'].includes(contentCard.spellType)
         ? contentCard.spellType
         : undefined,
-    effects: Array.isArray(contentCard.effects) ? contentCard.effects : [],
+    effects,
+    scriptedEffects,
 
     // Runtime state (initialized empty)
     statusEffects: [],
     counters: {},
   }
+  addScriptedAbilities(rawCard, Array.isArray(contentCard.abilities))
 
   // Use Zod to validate and clean the data
   const result = CardSchema.safeParse(rawCard)
@@ -74,6 +111,7 @@ export function contentlayerCardToGameCard(contentCard: ContentlayerCard): Card
       abilities: [],
       keywords: [],
       effects: [],
+      scriptedEffects: [],
       spellType: undefined,
     })
   }
@@ -137,37 +175,18 @@ export function getFilteredCards(filters: {
 }
 
 /**
- * Validate deck follows deckbuilding rules
+ * Validate deck follows the Standard format's deckbuilding rules
  */
 export function isValidDeck(deck: Card[]): { valid: boolean; errors: string[] } {
-  const errors: string[] = []
-
-  // Check deck size (max 40 cards)
-  if (deck.length > 40) {
-    errors.push(`Deck has ${deck.length} cards, maximum is 40`)
-  }
-
-  // Check card count limits (max 3 of the same card)
-  const cardCounts = new Map<string, number>()
-  deck.forEach(card => {
-    const count = cardCounts.get(card.id) || 0
-    cardCounts.set(card.id, count + 1)
-  })
-
-  cardCounts.forEach((count, cardId) => {
-    if (count > 3) {
-      const card = deck.find(c => c.id === cardId)
-      errors.push(`Too many copies of "${card?.name || cardId}": ${count}/3`)
-    }
-  })
-
-  return { valid: errors.length === 0, errors }
+  const violations = validateDeck(deck)
+  return { valid: violations.length === 0, errors: violations.map(v => v.message) }
 }
 
 /**
- * Create a random deck of cards following deckbuilding rules
+ * Create a random deck of cards following deckbuilding rules.
+ * Pass a seeded `random` source to build the same deck every time.
  */
-export function createRandomDeck(size: number = 30): Card[] {
+export function createRandomDeck(size: number = 30, random: () => number = Math.random): Card[] {
   const allGameCards = getAllCards()
 
   // Validate card pool
@@ -192,7 +211,7 @@ export function createRandomDeck(size: number = 30): Card[] {
   const cardCounts = new Map<string, number>()
 
   // Shuffle cards
-  const shuffled = [...allGameCards].sort(() => Math.random() - 0.5)
+  const shuffled = shuffleInPlace([...allGameCards], random)
 
   for (const card of shuffled) {
     if (deck.length >= targetSize) break
@@ -206,7 +225,7 @@ export function createRandomDeck(size: number = 30): Card[] {
 
   // If we don't have enough unique cards, fill with duplicates
   while (deck.length < targetSize && allGameCards.length > 0) {
-    const randomCard = shuffled[Math.floor(Math.random() * shuffled.length)]
+    const randomCard = shuffled[Math.floor(random() * shuffled.length)]
     const currentCount = cardCounts.get(randomCard.id) || 0
     if (currentCount < 3) {
       deck.push(randomCard)
@@ -218,9 +237,14 @@ export function createRandomDeck(size: number = 30): Card[] {
 }
 
 /**
- * Create a deck focused on a specific zodiac class following deckbuilding rules
+ * Create a deck focused on a specific zodiac class following deckbuilding rules.
+ * Pass a seeded `random` source to build the same deck every time.
  */
-export function createZodiacDeck(zodiacClass: string, size: number = 30): Card[] {
+export function createZodiacDeck(
+  zodiacClass: string,
+  size: number = 30,
+  random: () => number = Math.random,
+): Card[] {
   const zodiacCards = getCardsByZodiacClass(zodiacClass)
 
   // Validate zodiac class exists
@@ -249,15 +273,15 @@ export function createZodiacDeck(zodiacClass: string, size: number = 30): Card[]
   }
 
   // Shuffle both pools
-  const shuffledZodiac = [...zodiacCards].sort(() => Math.random() - 0.5)
-  const shuffledOthers = [...allOtherCards].sort(() => Math.random() - 0.5)
+  const shuffledZodiac = shuffleInPlace([...zodiacCards], random)
+  const shuffledOthers = shuffleInPlace([...allOtherCards], random)
 
   // Combine pools, prioritizing zodiac cards (70% zodiac, 30% others)
   const zodiacWeight = Math.floor(maxSize * 0.7)
-  const combinedPool = [
-    ...shuffledZodiac.slice(0, zodiacWeight),
-    ...shuffledOthers.slice(0, maxSize - zodiacWeight),
-  ].sort(() => Math.random() - 0.5)
+  const combinedPool = shuffleInPlace(
+    [...shuffledZodiac.slice(0, zodiacWeight), ...shuffledOthers.slice(0, maxSize - zodiacWeight)],
+    random,
+  )
 
   // Build deck respecting card limits
   for (const card of combinedPool) {
@@ -272,7 +296,7 @@ export function createZodiacDeck(zodiacClass: string, size: number = 30): Card[]
 
   // Fill remaining slots with duplicates if needed
   while (deck.length < maxSize && combinedPool.length > 0) {
-    const randomCard = combinedPool[Math.floor(Math.random() * combinedPool.length)]
+    const randomCard = combinedPool[Math.floor(random() * combinedPool.length)]
     const currentCount = cardCounts.get(randomCard.id) || 0
     if (currentCount < 3) {
       deck.push(randomCard)
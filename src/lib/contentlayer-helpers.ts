@@ -36,6 +36,7 @@ export const contentlayerCardToGameCard = (contentCard: ContentlayerCard): Card
     abilities: metadata.abilities || [],
     spellType: metadata.spellType,
     effects: metadata.effects || [],
+    scriptedEffects: metadata.scriptedEffects || [],
     isReversed: false,
     statusEffects: [],
     counters: {},
@@ -1,10 +1,14 @@
 import type { FieldDef } from 'contentlayer2/source-files'
-import type { z } from 'zod'
+import { z } from 'zod'
 import {
   CardMetadataSchema,
   CardTypeSchema,
   ElementSchema,
   RaritySchema,
+  type ScriptedEffect,
+  ScriptedEffectSchema,
+  type SpellEffect,
+  SpellEffectSchema,
   SpellTypeSchema,
   ZodiacClassSchema,
 } from '../schemas/schema'
@@ -31,6 +35,25 @@ export const createValidatedField = <T>(
   }
 }
 
+/**
+ * The frontmatter `effects` block: prose spell effects, and scripted effects that list
+ * their `actions` (trigger, targets, conditions, durations) for the effect system to run
+ */
+export const CardEffectsBlockSchema = z.array(z.union([ScriptedEffectSchema, SpellEffectSchema]))
+
+/**
+ * Split a raw `effects` block into prose spell effects and scripted effects
+ */
+export const partitionEffectsBlock = (
+  effects: unknown,
+): { effects: SpellEffect[]; scriptedEffects: ScriptedEffect[] } => {
+  const entries = Array.isArray(effects) ? effects : []
+  return {
+    effects: entries.filter(entry => !entry?.actions),
+    scriptedEffects: entries.filter(entry => entry?.actions),
+  }
+}
+
 /**
  * Contentlayer field definitions that match our Zod schemas
  */
@@ -64,6 +87,8 @@ export const contentlayerFields = {
     options: zodEnumToContentlayerOptions(SpellTypeSchema),
     required: false,
   } as const,
+
+  effects: createValidatedField({ type: 'json', required: false }, CardEffectsBlockSchema),
 }
 
 /**
@@ -85,7 +110,7 @@ export const validateCardData = (card: any) => {
     keywords: card.keywords || [],
     abilities: card.abilities || [],
     spellType: card.spellType,
-    effects: card.effects || [],
+    ...partitionEffectsBlock(card.effects),
   }
 
   return CardMetadataSchema.safeParse(cardData)
@@ -0,0 +1,154 @@
+import { GAME_CONFIG } from '@/lib/game_logic'
+import type { Card, Element, ZodiacClass } from '@/schemas/schema'
+import { SYNERGY_THRESHOLDS, type SynergyTier } from '@/services/zodiac_synergy_service'
+
+// ================================
+// DECK ANALYTICS
+// ================================
+// Draw maths for the deck builder. A player sees their starting hand and then one card per
+// turn, so every question is "how likely is it to have seen these cards by turn N", which
+// is a hypergeometric draw from the deck without replacement.
+
+/** Turns the analytics look ahead; by then most games are decided */
+export const ANALYTICS_TURNS = 10
+
+const ELEMENTS: Element[] = ['fire', 'water', 'earth', 'air']
+const TIERS = Object.keys(SYNERGY_THRESHOLDS) as SynergyTier[]
+
+export interface ElementAnalytics {
+  element: Element
+  cards: number
+  units: number
+  /** Highest tier the deck holds enough units for */
+  reachableTier: SynergyTier | null
+  /** Per tier, the chance of having drawn enough units for it, averaged over the turns */
+  uptime: Record<SynergyTier, number>
+}
+
+export interface DeckAnalytics {
+  size: number
+  units: number
+  spells: number
+  /** Share of the deck that is units, 0 to 1 */
+  unitRatio: number
+  /** By cost, the chance of holding a card of that cost on the turn it becomes castable */
+  onCurve: { cost: number; cards: number; chance: number }[]
+  elements: ElementAnalytics[]
+  zodiacs: Partial<Record<ZodiacClass, number>>
+  reversed: {
+    /** Cards whose reversed side plays differently */
+    exposedCards: number
+    /** Expected exposed cards drawn reversed in the starting hand */
+    expectedInOpeningHand: number
+    /** Per turn, the chance at least one exposed card has been drawn reversed */
+    byTurn: number[]
+  }
+}
+
+/** Cards a player has seen by their `turn`th turn: the starting hand plus one draw a turn after */
+export function cardsSeenByTurn(turn: number): number {
+  return GAME_CONFIG.STARTING_HAND_SIZE + Math.max(0, turn - 1)
+}
+
+/** Probability of exactly `hits` successes in `draws` from `population` holding `successes` */
+function hypergeometric(population: number, successes: number, draws: number, hits: number) {
+  return (
+    (choose(successes, hits) * choose(population - successes, draws - hits)) /
+    choose(population, draws)
+  )
+}
+
+function choose(n: number, k: number): number {
+  if (k < 0 || k > n) return 0
+  let result = 1
+  for (let i = 1; i <= Math.min(k, n - k); i++) {
+    result = (result * (n - i + 1)) / i
+  }
+  return result
+}
+
+/** Chance of at least `atLeast` of `copies` cards among the first `draws` of a `deckSize` deck */
+export function drawChance(deckSize: number, copies: number, draws: number, atLeast = 1): number {
+  const seen = Math.min(draws, deckSize)
+  if (atLeast <= 0) return 1
+  if (copies < atLeast || seen < atLeast) return 0
+
+  let miss = 0
+  for (let hits = 0; hits < atLeast; hits++) {
+    miss += hypergeometric(deckSize, copies, seen, hits)
+  }
+  return Math.min(1, Math.max(0, 1 - miss))
+}
+
+/** Chance of having drawn at least one of `copies` cards by `turn` */
+export function drawChanceByTurn(deckSize: number, copies: number, turn: number): number {
+  return drawChance(deckSize, copies, cardsSeenByTurn(turn))
+}
+
+function hasReversedSide(card: Card): boolean {
+  return (card.reversedAbilities?.length ?? 0) > 0 || !!card.reversedDescription
+}
+
+export function analyzeDeck(deck: Card[], turns = ANALYTICS_TURNS): DeckAnalytics {
+  const size = deck.length
+  const units = deck.filter(c => c.type === 'unit')
+  const turnList = Array.from({ length: turns }, (_, i) => i + 1)
+
+  // Mana equals the turn number, so a card of cost N is on curve on turn N (0 on turn 1)
+  const onCurve = Array.from({ length: 8 }, (_, cost) => {
+    const cards = deck.filter(c => (cost === 7 ? c.cost >= 7 : c.cost === cost)).length
+    return { cost, cards, chance: drawChanceByTurn(size, cards, Math.max(1, cost)) }
+  })
+
+  const elements = ELEMENTS.map(element => {
+    const elementUnits = units.filter(c => c.element === element).length
+    const uptime = {} as Record<SynergyTier, number>
+    for (const tier of TIERS) {
+      const total = turnList.reduce(
+        (sum, turn) =>
+          sum + drawChance(size, elementUnits, cardsSeenByTurn(turn), SYNERGY_THRESHOLDS[tier]),
+        0,
+      )
+      uptime[tier] = turns > 0 ? total / turns : 0
+    }
+    return {
+      element,
+      cards: deck.filter(c => c.element === element).length,
+      units: elementUnits,
+      reachableTier: TIERS.filter(tier => elementUnits >= SYNERGY_THRESHOLDS[tier]).pop() ?? null,
+      uptime,
+    }
+  })
+
+  const zodiacs: Partial<Record<ZodiacClass, number>> = {}
+  for (const card of deck) zodiacs[card.zodiacClass] = (zodiacs[card.zodiacClass] ?? 0) + 1
+
+  // Each drawn card lands reversed independently, so with k exposed cards seen the chance
+  // none of them is reversed is (1 - p)^k
+  const exposedCards = deck.filter(hasReversedSide).length
+  const reversedChance = GAME_CONFIG.ORIENTATION_CHANCE
+  const byTurn = turnList.map(turn => {
+    const seen = Math.min(cardsSeenByTurn(turn), size)
+    let noneReversed = 0
+    for (let k = 0; k <= Math.min(seen, exposedCards); k++) {
+      noneReversed += hypergeometric(size, exposedCards, seen, k) * (1 - reversedChance) ** k
+    }
+    return size > 0 ? 1 - noneReversed : 0
+  })
+
+  const openingHand = Math.min(GAME_CONFIG.STARTING_HAND_SIZE, size)
+  return {
+    size,
+    units: units.length,
+    spells: size - units.length,
+    unitRatio: size > 0 ? units.length / size : 0,
+    onCurve,
+    elements,
+    zodiacs,
+    reversed: {
+      exposedCards,
+      expectedInOpeningHand: size > 0 ? (openingHand * exposedCards * reversedChance) / size : 0,
+      byTurn,
+    },
+  }
+}
@@ -0,0 +1,100 @@
+// ================================
+// DECK CODES
+// ================================
+// A deck as one short string that survives being pasted into chat: `TT2.<body>.<check>`.
+// The body is the deck name, its format and its card ids with counts, base64url encoded; the
+// check is a hash of the body so a mangled paste is caught instead of loading the wrong deck.
+// Version 1 codes had no format line and still decode, as Standard decks.
+
+import { DEFAULT_FORMAT } from '@/lib/deck_format'
+
+/** A deck as the deck builder saves it: one id per copy */
+export interface SavedDeck {
+  name: string
+  cards: string[]
+  /** Id of the format it was built for; Standard when missing */
+  format?: string
+}
+
+export const DECK_CODE_VERSION = 2
+const PREFIX = 'TT'
+// Far above any deck limit; stops a hand-edited code from expanding into millions of cards
+const MAX_COUNT = 99
+
+/** Encode a deck. Card order doesn't matter; the same cards always give the same code */
+export function encodeDeckCode(deck: SavedDeck): string {
+  const counts = new Map<string, number>()
+  for (const id of deck.cards) counts.set(id, (counts.get(id) ?? 0) + 1)
+
+  const entries = [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([id, count]) => (count === 1 ? id : `${id}*${count}`))
+  const name = deck.name.replace(/\s+/g, ' ').trim()
+  const format = deck.format ?? DEFAULT_FORMAT.id
+  const body = toBase64Url(`${name}\n${format}\n${entries.join(',')}`)
+
+  return `${PREFIX}${DECK_CODE_VERSION}.${body}.${checksum(body)}`
+}
+
+/** Decode a deck code, throwing with a readable reason if it can't be trusted */
+export function decodeDeckCode(code: string): SavedDeck {
+  // Chat clients like to wrap long strings
+  const parts = code.replace(/\s+/g, '').split('.')
+  const version = parts[0]?.startsWith(PREFIX) ? Number(parts[0].slice(PREFIX.length)) : Number.NaN
+  if (parts.length !== 3 || !Number.isInteger(version)) {
+    throw new Error('Not a deck code')
+  }
+  if (version > DECK_CODE_VERSION) {
+    throw new Error('This deck code was made by a newer version of the game')
+  }
+
+  const [, body, check] = parts
+  if (checksum(body) !== check) {
+    throw new Error('Deck code is damaged; copy it again')
+  }
+
+  let text: string
+  try {
+    text = fromBase64Url(body)
+  } catch {
+    throw new Error('Deck code is damaged; copy it again')
+  }
+
+  const lines = text.split('\n')
+  if (lines.length !== (version < 2 ? 2 : 3)) throw new Error('Not a deck code')
+  const name = lines[0]
+  const format = version < 2 ? undefined : lines[1]
+  const list = lines[lines.length - 1]
+  const cards: string[] = []
+  for (const entry of list ? list.split(',') : []) {
+    const [id, countText = '1'] = entry.split('*')
+    const count = Number(countText)
+    if (!id || !Number.isInteger(count) || count < 1 || count > MAX_COUNT) {
+      throw new Error(`Invalid deck code entry "${entry}"`)
+    }
+    for (let i = 0; i < count; i++) cards.push(id)
+  }
+
+  return format ? { name, cards, format } : { name, cards }
+}
+
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte))
+  return btoa(binary.join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(body: string): string {
+  const binary = atob(body.replace(/-/g, '+').replace(/_/g, '/'))
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0))
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+}
+
+// 32-bit FNV-1a, written as seven base36 digits
+function checksum(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36).padStart(7, '0')
+}
@@ -0,0 +1,142 @@
+import { type DeckFormat, type DeckViolation, type Suit, SuitSchema } from '@/schemas/format_schema'
+import type { Card, Rarity } from '@/schemas/schema'
+
+// ================================
+// DECK FORMATS
+// ================================
+// Named deckbuilding rule sets and the one validator that checks a deck against them.
+// The deck builder, matchmaking, the play screen and challenges all ask it, so a deck is
+// legal in exactly the same places everywhere.
+
+const STANDARD: DeckFormat = {
+  id: 'standard',
+  name: 'Standard',
+  description: '30 to 40 cards, up to 3 copies of each',
+  minSize: 30,
+  maxSize: 40,
+  maxCopies: 3,
+  rarityLimits: {},
+  allowedSuits: null,
+  singleElement: false,
+}
+
+export const DECK_FORMATS: DeckFormat[] = [
+  STANDARD,
+  {
+    ...STANDARD,
+    id: 'major-arcana-only',
+    name: 'Major Arcana Only',
+    description: 'Built entirely from the 22 Major Arcana',
+    allowedSuits: ['major'],
+  },
+  {
+    ...STANDARD,
+    id: 'singleton',
+    name: 'Singleton',
+    description: 'One copy of each card',
+    maxCopies: 1,
+  },
+  {
+    ...STANDARD,
+    id: 'elemental-pure',
+    name: 'Elemental Pure',
+    description: 'Every card shares a single element',
+    singleElement: true,
+  },
+  {
+    ...STANDARD,
+    id: 'rarity-capped',
+    name: 'Rarity Capped',
+    description: 'At most 1 mythic, 2 legendary and 6 rare cards',
+    rarityLimits: { mythic: 1, legendary: 2, rare: 6 },
+  },
+]
+
+export const DEFAULT_FORMAT = STANDARD
+
+export function getFormat(id: string): DeckFormat | undefined {
+  return DECK_FORMATS.find(f => f.id === id)
+}
+
+/** A card's suit, read from its base id ("major-00", "swords-08") */
+export function getCardSuit(card: Card): Suit | undefined {
+  const prefix = card.id.split('-')[0]
+  return SuitSchema.options.find(suit => suit === prefix)
+}
+
+const unique = (cards: Card[]) => [...new Set(cards.map(c => c.id))]
+
+/** Every way `deck` breaks `format`; empty when the deck is legal */
+export function validateDeck(deck: Card[], format: DeckFormat = DEFAULT_FORMAT): DeckViolation[] {
+  const violations: DeckViolation[] = []
+
+  if (deck.length < format.minSize) {
+    violations.push({
+      rule: 'min_size',
+      message: `Deck has ${deck.length} cards, minimum is ${format.minSize}`,
+      cardIds: [],
+    })
+  }
+  if (deck.length > format.maxSize) {
+    violations.push({
+      rule: 'max_size',
+      message: `Deck has ${deck.length} cards, maximum is ${format.maxSize}`,
+      cardIds: [],
+    })
+  }
+
+  const copies = new Map<string, Card[]>()
+  for (const card of deck) copies.set(card.id, [...(copies.get(card.id) ?? []), card])
+  for (const [id, cards] of copies) {
+    if (cards.length > format.maxCopies) {
+      violations.push({
+        rule: 'copies',
+        message: `Too many copies of "${cards[0].name}": ${cards.length}/${format.maxCopies}`,
+        cardIds: [id],
+      })
+    }
+  }
+
+  for (const [rarity, limit] of Object.entries(format.rarityLimits) as [Rarity, number][]) {
+    const cards = deck.filter(c => c.rarity === rarity)
+    if (cards.length > limit) {
+      violations.push({
+        rule: 'rarity',
+        message: `Too many ${rarity} cards: ${cards.length}/${limit}`,
+        cardIds: unique(cards),
+      })
+    }
+  }
+
+  if (format.allowedSuits) {
+    const allowed = format.allowedSuits
+    const offSuit = deck.filter(c => {
+      const suit = getCardSuit(c)
+      return !suit || !allowed.includes(suit)
+    })
+    if (offSuit.length > 0) {
+      violations.push({
+        rule: 'suit',
+        message: `${format.name} allows only ${allowed.join(', ')} cards`,
+        cardIds: unique(offSuit),
+      })
+    }
+  }
+
+  if (format.singleElement && deck.length > 0) {
+    // Measure against the deck's main element so the fewest cards are flagged
+    const counts = new Map<string, number>()
+    for (const card of deck) counts.set(card.element, (counts.get(card.element) ?? 0) + 1)
+    const [main] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]
+    const offElement = deck.filter(c => c.element !== main)
+    if (offElement.length > 0) {
+      violations.push({
+        rule: 'element',
+        message: `Every card must share one element; ${offElement.length} aren't ${main}`,
+        cardIds: unique(offElement),
+      })
+    }
+  }
+
+  return violations
+}
@@ -0,0 +1,52 @@
+import type { GameEvent, PlayerId } from '@/schemas/schema'
+
+// ================================
+// SPECTATOR EVENT FEED
+// ================================
+// Turns the game events streamed to spectators into one line of commentary each
+
+export interface FeedEntry {
+  id: string
+  text: string
+  round: number
+}
+
+/** A line describing `event`, or null for events the feed skips */
+export function describeGameEvent(
+  event: GameEvent,
+  names: Record<PlayerId, string>,
+): string | null {
+  const data = event.data as Record<string, unknown>
+  const cardName = typeof data.cardName === 'string' ? data.cardName : null
+  const player = (id: unknown) => names[id as PlayerId] ?? 'A player'
+
+  switch (event.type) {
+    case 'game_started':
+      return 'The game begins'
+    case 'round_start':
+      return `Round ${data.round} begins`
+    case 'turn_start':
+      // The engine announces each turn twice; only the full announcement carries the turn
+      return typeof data.turn === 'number' ? `${player(data.playerId)}'s turn` : null
+    case 'card_drawn':
+      return `${player(event.activePlayer)} draws ${cardName ?? 'a card'}`
+    case 'card_played':
+      return cardName ? `${player(event.activePlayer)} plays ${cardName}` : null
+    case 'unit_dies':
+      return cardName ? `${cardName} is destroyed` : null
+    case 'player_loses_health':
+      return `${player(data.playerId)} takes ${data.amount} damage`
+    case 'effect_triggered':
+      return typeof data.effectName === 'string' ? `${data.effectName} triggers` : null
+    default:
+      return null
+  }
+}
+
+/** Feed entries for a batch of events, skipping the ones that aren't described */
+export function toFeedEntries(events: GameEvent[], names: Record<PlayerId, string>): FeedEntry[] {
+  return events.flatMap(event => {
+    const text = describeGameEvent(event, names)
+    return text ? [{ id: event.id, text, round: event.round }] : []
+  })
+}
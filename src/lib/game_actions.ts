@@ -0,0 +1,156 @@
+import { produce } from 'immer'
+import { completeMulligan, endTurn, playCard } from '@/lib/game_logic'
+import { getUnitRow } from '@/lib/graveyard'
+import {
+  getLegalAttacks,
+  getLegalPlays,
+  isLegalAction,
+  type LegalAction,
+} from '@/lib/legal_actions'
+import { requiresTarget } from '@/lib/targeting'
+import type { GameAction } from '@/schemas/multiplayer_schema'
+import type { GameState, PlayerId } from '@/schemas/schema'
+import { declareAttack } from '@/services/combat_service'
+import { defaultEngineSystems, type EngineSystems } from '@/services/engine_systems'
+import { seasonalBuffService } from '@/services/seasonal_buff_service'
+
+// ================================
+// SERVER-SIDE ACTION RULES
+// ================================
+// Shared by the HTTP action route and the WebSocket game server so both accept the same moves
+
+export interface ActionValidation {
+  valid: boolean
+  error?: string
+}
+
+export function validateGameAction(
+  gameState: GameState,
+  playerId: PlayerId,
+  action: GameAction,
+  systems: EngineSystems = defaultEngineSystems,
+): ActionValidation {
+  // Both players mulligan at the same time, everything else waits for your turn
+  if (action.type === 'mulligan') {
+    return validateMulligan(gameState, playerId, action)
+  }
+
+  if (gameState.activePlayer !== playerId) {
+    return { valid: false, error: 'Not your turn' }
+  }
+
+  if (gameState.phase !== 'action') {
+    return { valid: false, error: `Cannot act during the ${gameState.phase} phase` }
+  }
+
+  if (isLegalAction(gameState, playerId, action, systems)) {
+    return { valid: true }
+  }
+  return { valid: false, error: explainIllegalAction(gameState, playerId, action, systems) }
+}
+
+function validateMulligan(
+  gameState: GameState,
+  playerId: PlayerId,
+  action: Extract<GameAction, { type: 'mulligan' }>,
+): ActionValidation {
+  const player = gameState[playerId]
+
+  if (gameState.phase !== 'mulligan' || player.mulliganComplete) {
+    return { valid: false, error: 'Mulligan already complete' }
+  }
+
+  if (!action.cardIds.every(id => player.hand.some(c => c.id === id))) {
+    return { valid: false, error: 'Card not found in hand' }
+  }
+
+  return { valid: true }
+}
+
+/** Why a move was turned down. Only the legal-move list decides; this just words the refusal */
+function explainIllegalAction(
+  gameState: GameState,
+  playerId: PlayerId,
+  action: LegalAction,
+  systems: EngineSystems,
+): string {
+  const player = gameState[playerId]
+
+  switch (action.type) {
+    case 'play_card': {
+      const card = player.hand.find(c => c.id === action.cardId)
+      if (!card) return 'Card not found in hand'
+
+      const plays = getLegalPlays(gameState, playerId, systems).filter(p => p.cardId === card.id)
+      if (plays.length === 0) {
+        const totalMana = player.mana + player.spellMana
+        if (seasonalBuffService.getEffectiveCost(gameState, card) > totalMana) {
+          return 'Insufficient mana'
+        }
+        if (card.type === 'unit' && !getUnitRow(gameState, playerId).includes(null)) {
+          return 'Battlefield is full'
+        }
+        if (requiresTarget(card, systems)) return 'No legal targets'
+        return `${card.name} cannot be played right now`
+      }
+      if (action.targetSlot !== undefined && !plays.some(p => p.targetSlot === action.targetSlot)) {
+        return 'Invalid battlefield slot'
+      }
+      return action.target ? 'Invalid target' : 'Target required'
+    }
+
+    case 'declare_attack': {
+      if (!player.hasAttackToken) return 'You do not have the attack token'
+
+      const attacks = getLegalAttacks(gameState, playerId, systems).filter(
+        a => a.attackerId === action.attackerId,
+      )
+      if (attacks.length === 0) {
+        const isOwnUnit = getUnitRow(gameState, playerId).some(u => u?.id === action.attackerId)
+        return isOwnUnit ? 'Unit cannot attack' : 'Attacker not found'
+      }
+      return action.targetType === 'player' ? 'Must attack taunt first' : 'Invalid attack target'
+    }
+
+    case 'end_turn':
+      return 'Cannot end turn now'
+  }
+}
+
+/** Apply a validated action through the same engine functions used in local play */
+export async function applyGameAction(
+  gameState: GameState,
+  playerId: PlayerId,
+  action: GameAction,
+  systems: EngineSystems = defaultEngineSystems,
+): Promise<GameState> {
+  switch (action.type) {
+    case 'mulligan': {
+      const prepared = produce(gameState, draft => {
+        draft[playerId].selectedForMulligan = action.cardIds
+      })
+      return completeMulligan(prepared, playerId, systems)
+    }
+
+    case 'play_card': {
+      const card = gameState[playerId].hand.find(c => c.id === action.cardId)
+      if (!card) throw new Error('Card not found')
+      // Orientation was already rolled server-side by the game's seeded generator when drawn
+      return playCard(gameState, card, action.targetSlot, action.target, systems)
+    }
+
+    case 'declare_attack':
+      return declareAttack(
+        gameState,
+        {
+          attackerId: action.attackerId,
+          targetType: action.targetType,
+          targetId: action.targetId,
+        },
+        systems,
+      )
+
+    case 'end_turn':
+      return endTurn(gameState, systems)
+  }
+}
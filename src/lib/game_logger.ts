@@ -35,7 +35,26 @@ const LOG_ICONS = {
 }
 
 export class GameLogger {
+  private static enabled = true
+
+  /** Silence all output, e.g. while simulating thousands of headless games */
+  static setEnabled(enabled: boolean) {
+    GameLogger.enabled = enabled
+  }
+
+  /** Run `fn` with output silenced, e.g. while an AI plays out hypothetical moves */
+  static muted<T>(fn: () => T): T {
+    const wasEnabled = GameLogger.enabled
+    GameLogger.enabled = false
+    try {
+      return fn()
+    } finally {
+      GameLogger.enabled = wasEnabled
+    }
+  }
+
   static log(level: LogLevel, message: string, data?: unknown) {
+    if (!GameLogger.enabled) return
     const timestamp = new Date().toLocaleTimeString('en-US', {
       hour12: false,
       hour: '2-digit',
@@ -90,6 +109,7 @@ export class GameLogger {
   }
 
   static gameStart(player1Name: string, player2Name: string) {
+    if (!GameLogger.enabled) return
     console.log(
       '%c🎯 === NEW GAME STARTED ===',
       'color: #a855f7; font-size: 14px; font-weight: bold;',
@@ -98,6 +118,7 @@ export class GameLogger {
   }
 
   static turnStart(player: string, turn: number, round: number, hasAttackToken: boolean) {
+    if (!GameLogger.enabled) return
     console.log('%c--- Turn Start ---', 'color: #6366f1; font-weight: bold;')
     console.log(
       `Turn ${turn} | Round ${round} | Active: ${player} | Attack Token: ${hasAttackToken ? '⚔️' : '🛡️'}`,
@@ -109,6 +130,7 @@ export class GameLogger {
     defenders: { name: string; attack: number; health: number }[],
     damage: number,
   ) {
+    if (!GameLogger.enabled) return
     console.group('%c💥 Combat Resolution', 'color: #ef4444; font-weight: bold;')
     console.log(
       'Attackers:',
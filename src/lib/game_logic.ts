@@ -1,7 +1,24 @@
 import { produce, enableMapSet } from 'immer'
 import { createRandomDeck, createZodiacDeck, getAllCards } from '@/lib/card_loader'
+import { DEFAULT_FORMAT, validateDeck } from '@/lib/deck_format'
 import { declareAttack } from '@/services/combat_service'
 import { GameLogger } from '@/lib/game_logger'
+import { destroyUnitAt, sendToGraveyard } from '@/lib/graveyard'
+import {
+  createRandomFn,
+  createRng,
+  createSeed,
+  deriveSeed,
+  rollRandom,
+  shuffleInPlace,
+} from '@/lib/rng'
+import {
+  chooseBestTarget,
+  getLegalTargets,
+  requiresTarget,
+  toEffectTargets,
+} from '@/lib/targeting'
+import type { DeckFormat } from '@/schemas/format_schema'
 import type {
   Battlefield,
   Card,
@@ -10,13 +27,14 @@ import type {
   EffectContext,
   GameState,
   Player,
+  PlayerId,
+  PlayTarget,
   TriggeredAbility,
 } from '@/schemas/schema'
-import { cardEffectSystem } from '@/services/card_effect_system'
-import { effectStackService } from '@/services/effect_stack_service'
-import { createEventHelpers, eventManager } from '@/services/event_manager'
-import { phaseManagerService } from '@/services/phase_manager_service'
-import { winConditionService } from '@/services/win_condition_service'
+import { getOrientedAbilities } from '@/services/card_effect_system'
+import { defaultEngineSystems, type EngineSystems } from '@/services/engine_systems'
+import { createEventHelpers } from '@/services/event_manager'
+import { type SeasonalModifiers, seasonalBuffService } from '@/services/seasonal_buff_service'
 
 // Enable Immer support for Map and Set
 enableMapSet()
@@ -63,13 +81,8 @@ function removeUnitFromBattlefield(
   const units =
     playerId === 'player1' ? gameState.battlefield.playerUnits : gameState.battlefield.enemyUnits
 
-  for (let i = 0; i < units.length; i++) {
-    if (units[i]?.id === unitId) {
-      units[i] = null
-      return true
-    }
-  }
-  return false
+  const slot = units.findIndex(u => u?.id === unitId)
+  return slot !== -1 && destroyUnitAt(gameState, playerId, slot) !== null
 }
 
 function getPlayerUnits(gameState: GameState, playerId: 'player1' | 'player2'): Card[] {
@@ -88,7 +101,7 @@ function _getUnitAt(
 }
 
 // Game Constants - Battlefield-only system
-const GAME_CONFIG = {
+export const GAME_CONFIG = {
   BATTLEFIELD_SLOTS: 7,
   MAX_UNITS_PER_PLAYER: 7,
   // Tarot-specific mechanics
@@ -96,7 +109,6 @@ const GAME_CONFIG = {
   ZODIAC_BUFF_MULTIPLIER: 1.2,
   ELEMENTAL_SYNERGY_BONUS: 1,
   // Core game rules
-  MAX_DECK_SIZE: 40,
   STARTING_DECK_SIZE: 40,
   MAX_SPELL_MANA: 3,
   MAX_MANA: 10,
@@ -104,17 +116,17 @@ const GAME_CONFIG = {
   STARTING_HAND_SIZE: 4,
 } as const
 
-// Get real cards from contentlayer
-let TAROT_CARDS: Card[] = []
+// Salt for the deck-building random stream derived from a game's seed
+const DECK_SEED_SALT = 0xdec4
 
-// Initialize cards - this will be called when contentlayer is ready
-export function initializeCards() {
+// Load the card pool from contentlayer - call once contentlayer is ready
+export function initializeCards(): Card[] {
   try {
-    TAROT_CARDS = getAllCards()
+    return getAllCards()
   } catch {
     GameLogger.warn('Contentlayer not ready, using default cards')
     // Fallback cards if contentlayer isn't ready
-    TAROT_CARDS = [
+    return [
       {
         id: 'default-1',
         name: 'The Fool',
@@ -130,37 +142,128 @@ export function initializeCards() {
       },
     ]
   }
-  return TAROT_CARDS
 }
 
 export function createInitialGameState(
   useZodiacDeck?: string,
   gameMode: string = 'standard',
+  seed: number = createSeed(),
+  systems: EngineSystems = defaultEngineSystems,
 ): GameState {
-  // Initialize cards if not already done
-  if (TAROT_CARDS.length === 0) {
-    initializeCards()
-  }
+  return createConstructedGameState(
+    useZodiacDeck ? { type: 'archetype', zodiacClass: useZodiacDeck } : { type: 'random' },
+    { type: 'random' },
+    { gameMode, seed, systems },
+  )
+}
+
+/** The deck a side brings to a game */
+export type DeckChoice =
+  /** A deck list from the deck builder, checked against its format (Standard if omitted) */
+  | { type: 'constructed'; cards: Card[]; format?: DeckFormat }
+  /** A generated deck built around one zodiac class */
+  | { type: 'archetype'; zodiacClass: string }
+  | { type: 'random' }
+
+/** Start a game with each side's deck built or shuffled from `player1` and `player2` */
+export function createConstructedGameState(
+  player1: DeckChoice,
+  player2: DeckChoice,
+  options: {
+    gameMode?: string
+    seed?: number
+    startingHealth?: number
+    systems?: EngineSystems
+  } = {},
+): GameState {
+  const {
+    gameMode = 'standard',
+    seed = createSeed(),
+    startingHealth,
+    systems = defaultEngineSystems,
+  } = options
 
-  // Create decks based on preference
-  const player1Deck = useZodiacDeck
-    ? createZodiacDeck(useZodiacDeck, GAME_CONFIG.STARTING_DECK_SIZE)
-    : createRandomDeck(GAME_CONFIG.STARTING_DECK_SIZE)
+  // Deck building draws from its own stream so a game can be rebuilt from the
+  // resulting deck lists and the seed alone (see createGameStateFromDecks)
+  const random = createRandomFn(createRng(deriveSeed(seed, DECK_SEED_SALT)))
 
-  const player2Deck = createRandomDeck(GAME_CONFIG.STARTING_DECK_SIZE)
+  const player1Deck = buildDeck(player1, random)
+  const player2Deck = buildDeck(player2, random)
 
   // Ensure each card has a unique ID for the game instance
   let cardCounter = 0
   const player1Cards = player1Deck.map(card => ({
     ...card,
     id: `p1_${card.id}_${++cardCounter}`,
+  }))
+
+  const player2Cards = player2Deck.map(card => ({
+    ...card,
+    id: `p2_${card.id}_${++cardCounter}`,
+  }))
+
+  return createGameStateFromDecks(player1Cards, player2Cards, {
+    seed,
+    gameMode,
+    startingHealth,
+    systems,
+  })
+}
+
+function buildDeck(choice: DeckChoice, random: () => number): Card[] {
+  switch (choice.type) {
+    case 'constructed': {
+      const violations = validateDeck(choice.cards, choice.format ?? DEFAULT_FORMAT)
+      if (violations.length > 0) {
+        throw new Error(`Invalid deck: ${violations.map(v => v.message).join('; ')}`)
+      }
+      return shuffleInPlace([...choice.cards], random)
+    }
+    case 'archetype':
+      return createZodiacDeck(choice.zodiacClass, GAME_CONFIG.STARTING_DECK_SIZE, random)
+    case 'random':
+      return createRandomDeck(GAME_CONFIG.STARTING_DECK_SIZE, random)
+  }
+}
+
+/**
+ * Start a game from prepared decks. Cards must already be in draw order and
+ * carry their per-game instance ids; only orientation is rolled here.
+ */
+export function createGameStateFromDecks(
+  player1Deck: Card[],
+  player2Deck: Card[],
+  options: {
+    seed?: number
+    gameMode?: string
+    seasonDate?: number
+    /** House rule for private games; STARTING_HEALTH if omitted */
+    startingHealth?: number
+    /** The match's engine subsystems; the app-wide singletons if omitted */
+    systems?: EngineSystems
+  } = {},
+): GameState {
+  const {
+    seed,
+    gameMode = 'standard',
+    seasonDate = seasonalBuffService.now().getTime(),
+    startingHealth = GAME_CONFIG.STARTING_HEALTH,
+    systems = defaultEngineSystems,
+  } = options
+  const { winConditions } = systems
+
+  // All in-game randomness flows from one seeded generator
+  const rng = createRng(seed)
+  const random = createRandomFn(rng)
+
+  const player1Cards = player1Deck.map(card => ({
+    ...card,
     currentHealth: card.health,
     isReversed: false, // Will be set when drawn
   }))
 
   const player2Cards = player2Deck.map(card => ({
     ...card,
-    id: `p2_${card.id}_${++cardCounter}`,
     currentHealth: card.health,
     isReversed: false, // Will be set when drawn
   }))
@@ -168,23 +271,24 @@ export function createInitialGameState(
   // Set orientation for starting hand cards
   const player1StartingHand = player1Cards.slice(0, GAME_CONFIG.STARTING_HAND_SIZE).map(card => ({
     ...card,
-    isReversed: Math.random() < GAME_CONFIG.ORIENTATION_CHANCE,
+    isReversed: random() < GAME_CONFIG.ORIENTATION_CHANCE,
   }))
 
   const player2StartingHand = player2Cards.slice(0, GAME_CONFIG.STARTING_HAND_SIZE).map(card => ({
     ...card,
-    isReversed: Math.random() < GAME_CONFIG.ORIENTATION_CHANCE,
+    isReversed: random() < GAME_CONFIG.ORIENTATION_CHANCE,
   }))
 
   const player1: Player = {
     id: 'player1',
     name: 'You',
-    health: GAME_CONFIG.STARTING_HEALTH,
+    health: startingHealth,
     mana: 1,
     maxMana: 1,
     spellMana: 0,
     hand: player1StartingHand,
     deck: player1Cards.slice(GAME_CONFIG.STARTING_HAND_SIZE),
+    graveyard: [],
     hasAttackToken: true, // Player 1 starts with attack token
     mulliganComplete: false,
     selectedForMulligan: [],
@@ -195,12 +299,13 @@ export function createInitialGameState(
   const player2: Player = {
     id: 'player2',
     name: 'Opponent',
-    health: GAME_CONFIG.STARTING_HEALTH,
+    health: startingHealth,
     mana: 1,
     maxMana: 1,
     spellMana: 0,
     hand: player2StartingHand,
     deck: player2Cards.slice(GAME_CONFIG.STARTING_HAND_SIZE),
+    graveyard: [],
     hasAttackToken: false,
     mulliganComplete: false,
     selectedForMulligan: [],
@@ -209,8 +314,8 @@ export function createInitialGameState(
   }
 
   // Initialize win condition system for this game
-  winConditionService.setGameMode(gameMode as 'standard')
-  winConditionService.resetState()
+  winConditions.setGameMode(gameMode as 'standard')
+  winConditions.resetState()
 
   const gameState: GameState = {
     round: 1,
@@ -232,23 +337,29 @@ export function createInitialGameState(
     passCount: 0,
     canRespond: false,
     actionStack: [],
+    rng,
+    seasonDate,
   }
 
   // Emit game start event for win condition tracking
-  eventManager.emitSystemEvent('game_started', gameState, {
+  systems.events.emitSystemEvent('game_started', gameState, {
     gameMode,
-    activeConditions: winConditionService.getActiveConditions().map(c => c.id),
+    activeConditions: winConditions.getActiveConditions().map(c => c.id),
   })
 
   return gameState
 }
 
-export function canPlayCard(state: GameState, card: Card): boolean {
+export function canPlayCard(
+  state: GameState,
+  card: Card,
+  systems: EngineSystems = defaultEngineSystems,
+): boolean {
   const player = state[state.activePlayer]
   const totalMana = player.mana + player.spellMana
 
-  // Check mana
-  if (card.cost > totalMana) return false
+  // Check mana, after any seasonal discount
+  if (seasonalBuffService.getEffectiveCost(state, card) > totalMana) return false
 
   // Check battlefield space for units
   if (card.type === 'unit') {
@@ -256,6 +367,15 @@ export function canPlayCard(state: GameState, card: Card): boolean {
     if (availableSlot === -1) return false
   }
 
+  // Targeted spells need something to aim at
+  if (
+    card.type === 'spell' &&
+    requiresTarget(card, systems) &&
+    getLegalTargets(state, card, state.activePlayer, systems).length === 0
+  ) {
+    return false
+  }
+
   return true
 }
 
@@ -263,7 +383,10 @@ export async function playCard(
   state: GameState,
   card: Card,
   targetSlot?: number,
+  target?: PlayTarget,
+  systems: EngineSystems = defaultEngineSystems,
 ): Promise<GameState> {
+  const { effects } = systems
   const player = state[state.activePlayer]
 
   // Comprehensive validation
@@ -278,8 +401,13 @@ export async function playCard(
     throw new Error(`Cannot play cards during ${state.phase} phase. Wait for action phase.`)
   }
 
-  // 3. Check mana and battlefield space
-  if (!canPlayCard(state, card)) {
+  // 3. Check mana, battlefield space and that a targeted spell has something to aim at
+  const targeted = requiresTarget(card, systems)
+  const legalTargets = targeted ? getLegalTargets(state, card, state.activePlayer, systems) : []
+  if (card.type === 'spell' && targeted && legalTargets.length === 0) {
+    throw new Error(`${card.name} has no legal targets`)
+  }
+  if (!canPlayCard(state, card, systems)) {
     throw new Error('Cannot play card - insufficient resources or battlefield full')
   }
 
@@ -290,19 +418,137 @@ export async function playCard(
     }
   }
 
+  // 5. Validate the chosen target; a battlecry with nothing to aim at simply fizzles
+  if (targeted) {
+    if (target && !legalTargets.some(t => t.type === target.type && t.id === target.id)) {
+      throw new Error(`Invalid target for ${card.name}`)
+    }
+    if (!target && legalTargets.length > 0) {
+      throw new Error(`${card.name} needs a target`)
+    }
+  }
+  const effectTargets = target ? toEffectTargets(state, target) : undefined
+
+  const placement = putCardIntoPlay(state, card, targetSlot)
+  const { unit, isReversed } = placement
+  let newState = placement.state
+
+  const eventHelpers = createEventHelpers(newState, systems.events)
+
+  GameLogger.action(`${state.activePlayer} plays ${card.name}`, {
+    cost: placement.cost,
+    manaUsed: placement.manaUsed,
+    spellManaUsed: placement.spellManaUsed,
+    isReversed,
+    hasZodiacBuff: placement.hasZodiacBuff,
+    remainingMana: newState[state.activePlayer].mana,
+    remainingSpellMana: newState[state.activePlayer].spellMana,
+  })
+
+  // Emit card played event
+  await eventHelpers.cardPlayed(card.id, card.name, card.cost)
+
+  if (unit) {
+    // Emit unit summoned event
+    await eventHelpers.unitSummoned(card.id, card.name, unit.attack, unit.health)
+  }
+
+  // Execute battlecries (on_play triggers) and spell abilities through the effect system
+  const playEffects = getPlayEffects(card, unit, systems)
+  for (const cardEffect of playEffects) {
+    const effectContext: EffectContext = {
+      gameState: newState,
+      source: { ...(unit ?? card), owner: state.activePlayer },
+      targets: effectTargets,
+    }
+    const result = await effects.executeEffect(cardEffect, effectContext)
+    if (result.success && result.newGameState) {
+      newState = result.newGameState
+    }
+  }
+
+  if (unit) {
+    // Register non-battlecry abilities (start_of_turn, on_attack, etc.) with the effect system
+    const orientedAbilities = getOrientedAbilities(unit)
+    if (orientedAbilities.length > 0) {
+      effects.registerCardAbilities(unit, convertAbilitiesToTriggeredAbilities(orientedAbilities))
+    }
+  } else if (card.type === 'spell' && playEffects.length === 0 && card.effects?.length) {
+    // Fallback to old effects array for cards without oriented abilities
+    await queueSpellEffectsOnStack(newState, card.effects, state.activePlayer, card, systems)
+  }
+
+  // Resolve the effect stack after playing a card, then the deathrattles of anything it killed
+  const stateAfterEffects = await effects.resolveDeathrattles(
+    state,
+    await resolveEffectStack(newState, systems),
+  )
+
+  // Spells go to the graveyard once they have resolved
+  if (card.type === 'spell') {
+    return produce(stateAfterEffects, draft => {
+      sendToGraveyard(draft, state.activePlayer, { ...card, isReversed })
+    })
+  }
+
+  return stateAfterEffects
+}
+
+/**
+ * playCard without events, the effect stack, deathrattles or ability registration, for
+ * playing out hypothetical moves. Assumes the play is legal, as canPlayCard reports.
+ */
+export function previewPlayCard(
+  state: GameState,
+  card: Card,
+  target?: PlayTarget,
+  systems: EngineSystems = defaultEngineSystems,
+): GameState {
+  const { state: placed, unit, isReversed } = putCardIntoPlay(state, card)
+  const source = { ...(unit ?? card), owner: state.activePlayer }
+  const targets = target ? toEffectTargets(state, target) : undefined
+
+  let newState = placed
+  for (const cardEffect of getPlayEffects(card, unit, systems)) {
+    newState = systems.effects.previewEffect(cardEffect, { gameState: newState, source, targets })
+  }
+
+  if (card.type === 'spell') {
+    return produce(newState, draft => {
+      sendToGraveyard(draft, state.activePlayer, { ...card, isReversed })
+    })
+  }
+  return newState
+}
+
+interface CardPlacement {
+  state: GameState
+  /** The unit as it entered the battlefield; null for spells */
+  unit: Card | null
+  isReversed: boolean
+  hasZodiacBuff: boolean
+  cost: number
+  manaUsed: number
+  spellManaUsed: number
+}
+
+/** Pay for a card, take it out of hand and put a unit onto the battlefield; no abilities yet */
+function putCardIntoPlay(state: GameState, card: Card, targetSlot?: number): CardPlacement {
+  const player = state[state.activePlayer]
+
   // Use the card's existing isReversed property (set when drawn)
   const isReversed = card.isReversed || false
 
-  // Check zodiac buff (simplified version)
-  const currentMonth = new Date().getMonth() + 1
-  const hasZodiacBuff = checkZodiacAlignment(card.zodiacClass, currentMonth)
+  // Zodiac season the game is played in (pinned at game start)
+  const seasonal = seasonalBuffService.getModifiers(state, card)
+  const cost = seasonalBuffService.getEffectiveCost(state, card)
 
   // Calculate mana usage
-  const manaCost = payManaCost(player, card.cost)
+  const manaCost = payManaCost(player, cost)
 
   if (!manaCost) {
     throw new Error(
-      `Not enough mana to play ${card.name}. Required: ${card.cost}, Available: ${player.mana + player.spellMana}`,
+      `Not enough mana to play ${card.name}. Required: ${cost}, Available: ${player.mana + player.spellMana}`,
     )
   }
 
@@ -316,21 +562,25 @@ export async function playCard(
   }
 
   // Create unit data before state mutation (for units)
+  const seasonalAttack = seasonal?.attackModifier ?? 0
+  const seasonalHealth = seasonal?.healthModifier ?? 0
   const unit: Card | null = card.type === 'unit' ? {
     ...card,
-    currentHealth: card.health,
+    currentHealth: card.health + seasonalHealth,
     isReversed,
     hasSummoningSickness: true,
     hasAttackedThisTurn: false,
     owner: state.activePlayer,
-    // Apply zodiac buff to stats
-    attack: card.attack + (hasZodiacBuff ? 1 : 0),
-    health: card.health + (hasZodiacBuff ? 1 : 0),
-    astrologyBonus: hasZodiacBuff ? 1 : 0,
+    // Apply zodiac season buff to stats
+    attack: card.attack + seasonalAttack,
+    health: card.health + seasonalHealth,
+    ...(seasonalAttack || seasonalHealth
+      ? { seasonalBuff: { attack: seasonalAttack, health: seasonalHealth } }
+      : {}),
   } : null
 
   // Use Immer for deep immutable state updates - do all mutations inside produce
-  let newState = produce(state, draft => {
+  const newState = produce(state, draft => {
     const draftPlayer = draft[state.activePlayer]
 
     // Pay mana and remove from hand
@@ -345,95 +595,63 @@ export async function playCard(
         : draft.battlefield.enemyUnits
       units[finalTargetSlot] = unit
     }
-  })
 
-  const eventHelpers = createEventHelpers(newState)
+    if (seasonal) {
+      const placed = unit && finalTargetSlot !== undefined ? { unit, slot: finalTargetSlot } : null
+      applySeasonalOnPlay(draft, state.activePlayer, seasonal, placed)
+    }
+  })
 
-  GameLogger.action(`${state.activePlayer} plays ${card.name}`, {
-    cost: card.cost,
+  return {
+    state: newState,
+    unit,
+    isReversed,
+    hasZodiacBuff: seasonal !== null,
+    cost,
     manaUsed,
     spellManaUsed,
-    isReversed,
-    hasZodiacBuff,
-    remainingMana: newState[state.activePlayer].mana,
-    remainingSpellMana: newState[state.activePlayer].spellMana,
-  })
-
-  // Emit card played event
-  await eventHelpers.cardPlayed(card.id, card.name, card.cost)
-
-  if (card.type === 'unit' && unit) {
-    // Emit unit summoned event
-    await eventHelpers.unitSummoned(card.id, card.name, unit.attack, unit.health)
+  }
+}
 
-    // Select abilities based on orientation
-    const orientedAbilities = isReversed
-      ? (card.reversedAbilities && card.reversedAbilities.length > 0 ? card.reversedAbilities : card.abilities)
-      : (card.uprightAbilities && card.uprightAbilities.length > 0 ? card.uprightAbilities : card.abilities)
-
-    // Execute battlecry abilities (on_play triggers) through the effect system
-    if (orientedAbilities && orientedAbilities.length > 0) {
-      for (const ability of orientedAbilities) {
-        if (ability.description) {
-          const cardEffect: CardEffect = {
-            id: `battlecry_${unit.id}_${ability.name || 'effect'}`,
-            name: ability.name || 'Battlecry',
-            description: ability.description,
-            type: 'instant',
-            execute: () => ({ success: false }),
-          }
-          const effectContext: EffectContext = {
-            gameState: newState,
-            source: { ...unit, owner: state.activePlayer },
-          }
-          const result = await cardEffectSystem.executeEffect(cardEffect, effectContext)
-          if (result.success && result.newGameState) {
-            newState = result.newGameState
-          }
-        }
-      }
+/** The effects that resolve the moment a card is played: a unit's battlecries or a spell's abilities */
+function getPlayEffects(card: Card, unit: Card | null, systems: EngineSystems): CardEffect[] {
+  const toEffect = (id: string, name: string, description: string): CardEffect => ({
+    id,
+    name,
+    description,
+    type: 'instant',
+    execute: () => ({ success: false }),
+  })
 
-      // Register non-battlecry abilities (start_of_turn, on_attack, etc.) with the effect system
-      const triggeredAbilities = convertAbilitiesToTriggeredAbilities(orientedAbilities)
-      cardEffectSystem.registerCardAbilities(unit, triggeredAbilities)
-    }
-  } else if (card.type === 'spell') {
-    // Select spell abilities based on orientation
-    const spellAbilities = isReversed
-      ? (card.reversedAbilities && card.reversedAbilities.length > 0 ? card.reversedAbilities : [])
-      : (card.uprightAbilities && card.uprightAbilities.length > 0 ? card.uprightAbilities : [])
-
-    // Execute spell abilities through the effect system
-    if (spellAbilities.length > 0) {
-      for (const ability of spellAbilities) {
-        if (ability.description) {
-          const cardEffect: CardEffect = {
-            id: `spell_${card.id}_${ability.name || 'effect'}`,
-            name: ability.name || card.name,
-            description: ability.description,
-            type: 'instant',
-            execute: () => ({ success: false }),
-          }
-          const effectContext: EffectContext = {
-            gameState: newState,
-            source: { ...card, owner: state.activePlayer },
-          }
-          const result = await cardEffectSystem.executeEffect(cardEffect, effectContext)
-          if (result.success && result.newGameState) {
-            newState = result.newGameState
-          }
-        }
-      }
-    } else if (card.effects && card.effects.length > 0) {
-      // Fallback to old effects array for cards without oriented abilities
-      await queueSpellEffectsOnStack(newState, card.effects, state.activePlayer, card)
-    }
+  if (unit) {
+    return getOrientedAbilities(unit)
+      .filter(
+        ability =>
+          ability.description &&
+          systems.effects
+            .getAbilityTriggers(unit, ability.description, ability.name)
+            .includes('on_play'),
+      )
+      .map(ability =>
+        toEffect(
+          `battlecry_${unit.id}_${ability.name || 'effect'}`,
+          ability.name || 'Battlecry',
+          ability.description,
+        ),
+      )
   }
 
-  // Resolve the effect stack after playing a card
-  const stateAfterEffects = await resolveEffectStack(newState)
-
-  return stateAfterEffects
+  // Select spell abilities based on orientation
+  const spellAbilities = (card.isReversed ? card.reversedAbilities : card.uprightAbilities) ?? []
+  return spellAbilities
+    .filter(ability => ability.description)
+    .map(ability =>
+      toEffect(
+        `spell_${card.id}_${ability.name || 'effect'}`,
+        ability.name || card.name,
+        ability.description,
+      ),
+    )
 }
 
 // Helper functions for new playCard system
@@ -454,25 +672,74 @@ function payManaCost(
   return { manaUsed: manaToUse, spellManaUsed: spellManaToUse }
 }
 
-function checkZodiacAlignment(zodiacClass: string, currentMonth: number): boolean {
-  // Simplified zodiac alignment check
-  const zodiacMonths: Record<string, number[]> = {
-    aries: [3, 4],
-    taurus: [4, 5],
-    gemini: [5, 6],
-    cancer: [6, 7],
-    leo: [7, 8],
-    virgo: [8, 9],
-    libra: [9, 10],
-    scorpio: [10, 11],
-    sagittarius: [11, 12],
-    capricorn: [12, 1],
-    aquarius: [1, 2],
-    pisces: [2, 3],
+/** One-time zodiac season effects of playing a card (unit stat buffs are already applied) */
+function applySeasonalOnPlay(
+  draft: GameState,
+  playerId: PlayerId,
+  seasonal: SeasonalModifiers,
+  placed: { unit: Card; slot: number } | null,
+): void {
+  const units = playerId === 'player1' ? draft.battlefield.playerUnits : draft.battlefield.enemyUnits
+
+  if (seasonal.healOnPlay) {
+    draft[playerId].health += seasonal.healOnPlay
   }
 
-  const months = zodiacMonths[zodiacClass]
-  return months ? months.includes(currentMonth) : false
+  if (seasonal.alliesHealthOnPlay) {
+    const bonus = seasonal.alliesHealthOnPlay
+    for (const ally of units) {
+      if (!ally || ally.id === placed?.unit.id) continue
+      ally.currentHealth = (ally.currentHealth ?? ally.health) + bonus
+      addSeasonalStats(ally, 0, bonus)
+    }
+  }
+
+  if (seasonal.equalizeOnPlay !== undefined) {
+    const size = seasonal.equalizeOnPlay
+    for (const unit of [...draft.battlefield.playerUnits, ...draft.battlefield.enemyUnits]) {
+      if (!unit) continue
+      addSeasonalStats(unit, size - unit.attack, size - unit.health)
+      unit.currentHealth = size
+    }
+  }
+
+  if (seasonal.twinOnPlay && placed) {
+    const { unit, slot } = placed
+    // Prefer the slots beside the original, then any free slot
+    const twinSlot = [slot + 1, slot - 1].find(s => s >= 0 && s < units.length && !units[s])
+      ?? units.indexOf(null)
+    if (twinSlot !== -1) {
+      const { seasonalBuff: _seasonalBuff, ...base } = unit
+      units[twinSlot] = {
+        ...base,
+        id: `token_twin_${unit.id}`,
+        name: `${unit.name} Twin`,
+        attack: 1,
+        health: 1,
+        currentHealth: 1,
+      }
+    }
+  }
+}
+
+/** Change a unit's stats as a seasonal buff, recorded so the graveyard can restore the printed ones */
+function addSeasonalStats(unit: Card, attack: number, health: number): void {
+  unit.attack += attack
+  unit.health += health
+  unit.seasonalBuff = {
+    attack: (unit.seasonalBuff?.attack ?? 0) + attack,
+    health: (unit.seasonalBuff?.health ?? 0) + health,
+  }
+}
+
+/** In-season units that grow each turn (Capricorn) do so as their owner's turn begins */
+function growSeasonalUnits(state: GameState, units: (Card | null)[]): void {
+  for (const unit of units) {
+    const growth = unit && seasonalBuffService.getModifiers(state, unit)?.growthPerTurn
+    if (!unit || !growth) continue
+    addSeasonalStats(unit, growth, growth)
+    unit.currentHealth = (unit.currentHealth ?? unit.health - growth) + growth
+  }
 }
 
 async function _applyReversedEffect(state: GameState, unit: Card): Promise<void> {
@@ -484,7 +751,7 @@ async function _applyReversedEffect(state: GameState, unit: Card): Promise<void>
       const drawnCard = player.deck.shift()!
       const cardWithOrientation = {
         ...drawnCard,
-        isReversed: Math.random() < GAME_CONFIG.ORIENTATION_CHANCE,
+        isReversed: rollRandom(state) < GAME_CONFIG.ORIENTATION_CHANCE,
       }
       player.hand.push(cardWithOrientation)
       GameLogger.action(`${unit.name} reversed effect: draw card${cardWithOrientation.isReversed ? ' (reversed)' : ''}`)
@@ -498,10 +765,10 @@ async function _applyReversedEffectImmutable(state: GameState, unit: Card): Prom
     const playerId = unit.owner!
     const player = state[playerId]
     if (player.deck.length > 0) {
-      const isReversed = Math.random() < GAME_CONFIG.ORIENTATION_CHANCE
       return produce(state, draft => {
         const draftPlayer = draft[playerId]
         const drawnCard = draftPlayer.deck.shift()!
+        const isReversed = rollRandom(draft) < GAME_CONFIG.ORIENTATION_CHANCE
         const cardWithOrientation = {
           ...drawnCard,
           isReversed,
@@ -574,6 +841,7 @@ async function queueSpellEffectsOnStack(
   effects: { name?: string; description?: string }[],
   castingPlayer: 'player1' | 'player2',
   card: Card,
+  systems: EngineSystems,
 ): Promise<void> {
   for (const effect of effects) {
     const cardEffect: CardEffect = {
@@ -593,7 +861,7 @@ async function queueSpellEffectsOnStack(
     }
 
     // Add to effect stack instead of executing immediately
-    effectStackService.addToStack(cardEffect, effectContext, {
+    systems.stack.addToStack(cardEffect, effectContext, {
       type: 'spell',
       sourcePlayerId: castingPlayer,
       sourceCardId: card.id,
@@ -609,6 +877,7 @@ async function _executeSpellEffectsThroughEventSystem(
   effects: { name?: string; description?: string }[],
   castingPlayer: 'player1' | 'player2',
   card: Card,
+  systems: EngineSystems = defaultEngineSystems,
 ): Promise<void> {
   for (const effect of effects) {
     const cardEffect: CardEffect = {
@@ -627,7 +896,7 @@ async function _executeSpellEffectsThroughEventSystem(
       source: card,
     }
 
-    await cardEffectSystem.executeEffect(cardEffect, effectContext)
+    await systems.effects.executeEffect(cardEffect, effectContext)
   }
 }
 
@@ -662,7 +931,7 @@ function executeSpellEffects(
         const drawnCard = player.deck.shift()!
         const cardWithOrientation = {
           ...drawnCard,
-          isReversed: Math.random() < GAME_CONFIG.ORIENTATION_CHANCE,
+          isReversed: rollRandom(state) < GAME_CONFIG.ORIENTATION_CHANCE,
         }
         player.hand.push(cardWithOrientation)
       }
@@ -715,9 +984,12 @@ function executeAbilities(
 // declareAttack is imported above - no duplicate implementation needed
 
 // Game outcome detection with win conditions
-export function checkGameOutcome(state: GameState): 'player1_wins' | 'player2_wins' | 'ongoing' {
+export function checkGameOutcome(
+  state: GameState,
+  systems: EngineSystems = defaultEngineSystems,
+): 'player1_wins' | 'player2_wins' | 'ongoing' {
   // Check alternative win conditions first
-  const winConditionResult = winConditionService.checkWinConditions(state)
+  const winConditionResult = systems.winConditions.checkWinConditions(state)
 
   if (winConditionResult?.achieved && winConditionResult.winner) {
     GameLogger.state(`Game won by ${winConditionResult.winner}`, {
@@ -741,10 +1013,14 @@ export function checkGameOutcome(state: GameState): 'player1_wins' | 'player2_wi
 }
 
 // Resolve the effect stack until empty
-async function resolveEffectStack(gameState: GameState): Promise<GameState> {
+async function resolveEffectStack(
+  gameState: GameState,
+  systems: EngineSystems,
+): Promise<GameState> {
+  const { stack } = systems
   try {
     // Get current stack state
-    const stackState = effectStackService.getStackState()
+    const stackState = stack.getStackState()
 
     if (stackState.items.length === 0) {
       return gameState
@@ -754,7 +1030,7 @@ async function resolveEffectStack(gameState: GameState): Promise<GameState> {
 
     // Resolve all items on the stack
     // Note: The service needs game state, so we pass it through context
-    const results = await effectStackService.resolveStack()
+    const results = await stack.resolveStack()
 
     if (results.resolved.length > 0) {
       GameLogger.state(`Resolved ${results.resolved.length} effects from stack`)
@@ -771,7 +1047,7 @@ async function resolveEffectStack(gameState: GameState): Promise<GameState> {
   } catch (error) {
     GameLogger.error('Error resolving effect stack:', error)
     // Fallback: clear the stack to prevent infinite loops
-    effectStackService.clearStack()
+    stack.clearStack()
     return gameState
   }
 }
@@ -792,7 +1068,9 @@ export async function respondToStackEffect(
   stackItemId: string,
   responseType: 'counter' | 'respond',
   responseCard?: Card,
+  systems: EngineSystems = defaultEngineSystems,
 ): Promise<GameState> {
+  const { stack } = systems
   try {
     if (responseType === 'counter' && responseCard) {
       // Add counter spell to stack
@@ -803,7 +1081,7 @@ export async function respondToStackEffect(
         type: 'instant',
         execute: (context: EffectContext) => {
           // Counter the targeted effect from stack
-          const success = effectStackService.counterEffect(stackItemId, 'player1')
+          const success = stack.counterEffect(stackItemId, 'player1')
           if (success) {
             GameLogger.action(`${responseCard.name} counters effect ${stackItemId}`)
           }
@@ -816,7 +1094,7 @@ export async function respondToStackEffect(
         source: responseCard,
       }
 
-      effectStackService.addToStack(counterEffect, effectContext, {
+      stack.addToStack(counterEffect, effectContext, {
         type: 'spell',
         sourcePlayerId: gameState.activePlayer,
         sourceCardId: responseCard.id,
@@ -833,9 +1111,12 @@ export async function respondToStackEffect(
 }
 
 // Pass priority on effect stack
-export function passStackPriority(gameState: GameState): GameState {
+export function passStackPriority(
+  gameState: GameState,
+  systems: EngineSystems = defaultEngineSystems,
+): GameState {
   try {
-    effectStackService.passPriority()
+    systems.stack.passPriority()
     GameLogger.action(`${gameState.activePlayer} passes priority`)
     return gameState
   } catch (error) {
@@ -845,15 +1126,22 @@ export function passStackPriority(gameState: GameState): GameState {
 }
 
 // Get win condition progress for UI display
-export function getWinConditionProgress(playerId: 'player1' | 'player2') {
+export function getWinConditionProgress(
+  playerId: 'player1' | 'player2',
+  systems: EngineSystems = defaultEngineSystems,
+) {
+  const { winConditions } = systems
   return {
-    progress: winConditionService.getPlayerProgress(playerId),
-    activeConditions: winConditionService.getActiveConditions(),
-    gameMode: winConditionService.getCurrentGameMode(),
+    progress: winConditions.getPlayerProgress(playerId),
+    activeConditions: winConditions.getActiveConditions(),
+    gameMode: winConditions.getCurrentGameMode(),
   }
 }
 
-export async function endTurn(state: GameState): Promise<GameState> {
+export async function endTurn(
+  state: GameState,
+  systems: EngineSystems = defaultEngineSystems,
+): Promise<GameState> {
   const activePlayer = state.activePlayer
   const nextPlayer = activePlayer === 'player1' ? 'player2' : 'player1'
   const unspentMana = state[activePlayer].mana
@@ -865,10 +1153,11 @@ export async function endTurn(state: GameState): Promise<GameState> {
   const nextPlayerDeck = state[nextPlayer].deck
   const willDrawCard = nextPlayerDeck.length > 0
   const cardToDraw = willDrawCard ? nextPlayerDeck[0] : null
-  const isReversed = willDrawCard ? Math.random() < GAME_CONFIG.ORIENTATION_CHANCE : false
+  // Orientation is rolled inside the draft so the seeded generator advances with the state
+  let isReversed = false
 
   // Update persistent effects at end of turn (may return same state or new state)
-  const updatedState = cardEffectSystem.updatePersistentEffects(state)
+  const updatedState = systems.effects.updatePersistentEffects(state)
 
   // Use Immer for all state mutations
   const newState = produce(updatedState, draft => {
@@ -895,6 +1184,10 @@ export async function endTurn(state: GameState): Promise<GameState> {
       }
     }
 
+    // Chakra flow units store energy as their owner's turn begins
+    systems.combat.channelChakraFlow(nextPlayerUnits)
+    growSeasonalUnits(state, nextPlayerUnits)
+
     // Store unspent mana as spell mana
     draft[activePlayer].spellMana = Math.min(
       GAME_CONFIG.MAX_SPELL_MANA,
@@ -921,6 +1214,7 @@ export async function endTurn(state: GameState): Promise<GameState> {
     if (willDrawCard && cardToDraw && draft[nextPlayer].deck.length > 0) {
       const drawnCard = draft[nextPlayer].deck.shift()
       if (drawnCard) {
+        isReversed = rollRandom(draft) < GAME_CONFIG.ORIENTATION_CHANCE
         const cardWithOrientation = {
           ...drawnCard,
           isReversed,
@@ -936,7 +1230,7 @@ export async function endTurn(state: GameState): Promise<GameState> {
   })
 
   // Create event helpers for the new state
-  const eventHelpers = createEventHelpers(newState)
+  const eventHelpers = createEventHelpers(newState, systems.events)
 
   // Log and emit events (these don't modify state)
   GameLogger.state(`${activePlayer} ends turn`, {
@@ -949,7 +1243,7 @@ export async function endTurn(state: GameState): Promise<GameState> {
 
   if (isNewRound) {
     // Emit round start event
-    await eventManager.emitSystemEvent('round_start', newState, {
+    await systems.events.emitSystemEvent('round_start', newState, {
       round: newRound,
     })
   }
@@ -964,7 +1258,7 @@ export async function endTurn(state: GameState): Promise<GameState> {
   }
 
   // Emit turn start event for new player
-  await eventManager.emitSystemEvent('turn_start', newState, {
+  await systems.events.emitSystemEvent('turn_start', newState, {
     playerId: nextPlayer,
     turn: currentTurn,
     round: newRound,
@@ -977,7 +1271,10 @@ export async function endTurn(state: GameState): Promise<GameState> {
 }
 
 // Enhanced AI Strategy
-export async function aiTurn(state: GameState): Promise<GameState> {
+export async function aiTurn(
+  state: GameState,
+  systems: EngineSystems = defaultEngineSystems,
+): Promise<GameState> {
   let newState = { ...state }
 
   if (newState.activePlayer !== 'player2') return newState
@@ -989,7 +1286,7 @@ export async function aiTurn(state: GameState): Promise<GameState> {
 
   // Phase 1: Play cards strategically
   const playableCards = ai.hand
-    .filter(card => canPlayCard(newState, card))
+    .filter(card => canPlayCard(newState, card, systems))
     .sort((a, b) => {
       // Prioritize by value (attack + health) / cost ratio
       const aValue = (a.attack + a.health) / Math.max(1, a.cost)
@@ -1002,8 +1299,9 @@ export async function aiTurn(state: GameState): Promise<GameState> {
   for (const card of playableCards) {
     const emptySlot = findFirstEmptySlot(newState.battlefield, 'player2')
     if (card.type === 'unit' && emptySlot === -1) break // Battlefield full
-    if (canPlayCard(newState, card)) {
-      newState = await playCard(newState, card)
+    if (canPlayCard(newState, card, systems)) {
+      const target = chooseBestTarget(newState, card, 'player2', systems)
+      newState = await playCard(newState, card, undefined, target, systems)
       cardsPlayed.push(card.name)
     }
   }
@@ -1026,7 +1324,7 @@ export async function aiTurn(state: GameState): Promise<GameState> {
             attackerId: unit.id,
             targetType: 'player',
           }
-          newState = await declareAttack(newState, attack)
+          newState = await declareAttack(newState, attack, systems)
           GameLogger.ai(`AI attacks player with ${unit.name}`)
         } catch (error) {
           // Attack failed (e.g., taunt units present), skip
@@ -1037,7 +1335,7 @@ export async function aiTurn(state: GameState): Promise<GameState> {
   }
 
   // End turn
-  return await endTurn(newState)
+  return await endTurn(newState, systems)
 }
 
 // Mulligan Functions
@@ -1057,11 +1355,15 @@ export function toggleMulliganCard(state: GameState, cardId: string): GameState
   })
 }
 
-export function completeMulligan(state: GameState): GameState {
+export function completeMulligan(
+  state: GameState,
+  playerId: 'player1' | 'player2' = state.activePlayer,
+  systems: EngineSystems = defaultEngineSystems,
+): GameState {
   if (state.phase !== 'mulligan') return state
 
   let newState = produce(state, draft => {
-    const player = draft[state.activePlayer]
+    const player = draft[playerId]
 
     if (player.selectedForMulligan.length > 0) {
       // Shuffle selected cards back into deck
@@ -1070,17 +1372,17 @@ export function completeMulligan(state: GameState): GameState {
 
       // Add discarded cards back to deck and shuffle
       player.deck.push(...cardsToShuffle)
-      shuffleDeck(player)
+      shuffleDeck(player, draft)
 
       // Draw replacement cards with orientation
       const cardsToDraw = cardsToShuffle.length
       const newCards = player.deck.splice(0, cardsToDraw).map(card => ({
         ...card,
-        isReversed: Math.random() < GAME_CONFIG.ORIENTATION_CHANCE,
+        isReversed: rollRandom(draft) < GAME_CONFIG.ORIENTATION_CHANCE,
       }))
       player.hand = [...keptCards, ...newCards]
 
-      GameLogger.action(`${state.activePlayer} mulliganed ${cardsToDraw} cards`)
+      GameLogger.action(`${playerId} mulliganed ${cardsToDraw} cards`)
     }
 
     player.mulliganComplete = true
@@ -1090,8 +1392,8 @@ export function completeMulligan(state: GameState): GameState {
   // Check if both players completed mulligan
   if (newState.player1.mulliganComplete && newState.player2.mulliganComplete) {
     // Use phase manager for proper state machine transitions
-    newState = phaseManagerService.tryTransition(newState, 'round_start')
-    newState = phaseManagerService.tryTransition(newState, 'action')
+    newState = systems.phases.tryTransition(newState, 'round_start')
+    newState = systems.phases.tryTransition(newState, 'action')
     GameLogger.state('Game phase: Mulligan complete, starting action phase')
   }
 
@@ -1101,36 +1403,82 @@ export function completeMulligan(state: GameState): GameState {
 export function aiMulligan(
   state: GameState,
   difficulty: 'easy' | 'medium' | 'hard' = 'medium',
+  systems: EngineSystems = defaultEngineSystems,
 ): GameState {
   if (state.phase !== 'mulligan') return state
 
-  // AI mulligan strategy based on difficulty
-  let cardsToMulligan: string[] = []
-  const aiHand = state.player2.hand
+  let newState = produce(state, draft => {
+    const ai = draft.player2
+
+    // AI choices draw from the game's generator so seeded games replay identically
+    const cardsToMulligan = selectAIMulliganCards(ai.hand, difficulty, () => rollRandom(draft))
+
+    GameLogger.ai(
+      `AI selected ${cardsToMulligan.length} cards for mulligan (${difficulty} difficulty)`,
+    )
+
+    // Process AI mulligan
+    if (cardsToMulligan.length > 0) {
+      // Shuffle selected cards back into deck
+      const cardsToShuffle = ai.hand.filter(card => cardsToMulligan.includes(card.id))
+      const keptCards = ai.hand.filter(card => !cardsToMulligan.includes(card.id))
 
+      // Add discarded cards back to deck and shuffle
+      ai.deck.push(...cardsToShuffle)
+      shuffleDeck(ai, draft)
+
+      // Draw replacement cards with orientation
+      const cardsToDraw = cardsToShuffle.length
+      const newCards = ai.deck.splice(0, cardsToDraw).map(card => ({
+        ...card,
+        isReversed: rollRandom(draft) < GAME_CONFIG.ORIENTATION_CHANCE,
+      }))
+      ai.hand = [...keptCards, ...newCards]
+
+      GameLogger.action(`player2 mulliganed ${cardsToDraw} cards`)
+    }
+
+    ai.mulliganComplete = true
+    ai.selectedForMulligan = []
+  })
+
+  // Check if both players completed mulligan
+  if (newState.player1.mulliganComplete && newState.player2.mulliganComplete) {
+    // Use phase manager for proper state machine transitions
+    newState = systems.phases.tryTransition(newState, 'round_start')
+    newState = systems.phases.tryTransition(newState, 'action')
+    GameLogger.state('Game phase: Mulligan complete, starting action phase')
+  }
+
+  return newState
+}
+
+// AI mulligan strategy based on difficulty
+function selectAIMulliganCards(
+  aiHand: Card[],
+  difficulty: 'easy' | 'medium' | 'hard',
+  random: () => number,
+): string[] {
   switch (difficulty) {
     case 'easy': {
       // Random mulligan - 0-2 cards
-      const randomCount = Math.floor(Math.random() * 3)
-      cardsToMulligan = [...aiHand]
-        .sort(() => Math.random() - 0.5)
+      const randomCount = Math.floor(random() * 3)
+      return shuffleInPlace([...aiHand], random)
         .slice(0, randomCount)
         .map(card => card.id)
-      break
     }
 
     case 'medium':
       // Strategic mulligan - remove high cost cards and duplicates
-      cardsToMulligan = aiHand
+      return aiHand
         .filter(card => {
           // Remove cards costing 4+ mana (too expensive for early game)
           if (card.cost >= 4) return true
           // Remove duplicate cards (keep diversity)
           const duplicateCount = aiHand.filter(c => c.name === card.name).length
-          return duplicateCount > 1 && Math.random() < 0.5
+          return duplicateCount > 1 && random() < 0.5
         })
         .map(card => card.id)
-      break
 
     case 'hard': {
       // Optimal mulligan - complex curve and synergy analysis
@@ -1139,68 +1487,22 @@ export function aiMulligan(
         if (card.cost <= 4) manaCurve[card.cost]++
       })
 
-      cardsToMulligan = aiHand
+      return aiHand
         .filter(card => {
           // Keep 1-2 cost cards for early game
           if (card.cost <= 2) return false
           // Remove expensive cards without good early game
           if (card.cost >= 4) return true
           // Remove cards that break curve
-          if (card.cost === 3 && manaCurve[3] > 1) return Math.random() < 0.6
+          if (card.cost === 3 && manaCurve[3] > 1) return random() < 0.6
           return false
         })
         .map(card => card.id)
-      break
-    }
-  }
-
-  GameLogger.ai(
-    `AI selected ${cardsToMulligan.length} cards for mulligan (${difficulty} difficulty)`,
-  )
-
-  let newState = produce(state, draft => {
-    const ai = draft.player2
-
-    // Process AI mulligan
-    if (cardsToMulligan.length > 0) {
-      // Shuffle selected cards back into deck
-      const cardsToShuffle = ai.hand.filter(card => cardsToMulligan.includes(card.id))
-      const keptCards = ai.hand.filter(card => !cardsToMulligan.includes(card.id))
-
-      // Add discarded cards back to deck and shuffle
-      ai.deck.push(...cardsToShuffle)
-      shuffleDeck(ai)
-
-      // Draw replacement cards with orientation
-      const cardsToDraw = cardsToShuffle.length
-      const newCards = ai.deck.splice(0, cardsToDraw).map(card => ({
-        ...card,
-        isReversed: Math.random() < GAME_CONFIG.ORIENTATION_CHANCE,
-      }))
-      ai.hand = [...keptCards, ...newCards]
-
-      GameLogger.action(`player2 mulliganed ${cardsToDraw} cards`)
     }
-
-    ai.mulliganComplete = true
-    ai.selectedForMulligan = []
-  })
-
-  // Check if both players completed mulligan
-  if (newState.player1.mulliganComplete && newState.player2.mulliganComplete) {
-    // Use phase manager for proper state machine transitions
-    newState = phaseManagerService.tryTransition(newState, 'round_start')
-    newState = phaseManagerService.tryTransition(newState, 'action')
-    GameLogger.state('Game phase: Mulligan complete, starting action phase')
   }
-
-  return newState
 }
 
-// Utility function to shuffle a player's deck
-function shuffleDeck(player: Player): void {
-  for (let i = player.deck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
-      ;[player.deck[i], player.deck[j]] = [player.deck[j], player.deck[i]]
-  }
+// Utility function to shuffle a player's deck using the game's seeded generator
+function shuffleDeck(player: Player, state: GameState): void {
+  shuffleInPlace(player.deck, () => rollRandom(state))
 }
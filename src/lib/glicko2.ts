@@ -0,0 +1,111 @@
+// ================================
+// GLICKO-2 RATINGS
+// ================================
+// Glickman's Glicko-2 system (http://www.glicko.net/glicko/glicko2.pdf). Each player has a
+// rating, a deviation (how unsure we are of that rating) and a volatility (how erratic their
+// results are). Ratings move a lot while the deviation is high and settle as it shrinks.
+
+export interface Glicko2Rating {
+  rating: number
+  deviation: number
+  volatility: number
+}
+
+export interface MatchResult {
+  opponent: Glicko2Rating
+  /** 1 for a win, 0.5 for a draw, 0 for a loss */
+  score: number
+}
+
+export const DEFAULT_RATING: Glicko2Rating = { rating: 1500, deviation: 350, volatility: 0.06 }
+
+// Constrains how fast volatility changes; Glickman suggests 0.3 to 1.2
+const TAU = 0.5
+const CONVERGENCE = 0.000001
+// Converts between the Glicko scale and the Glicko-2 internal scale
+const SCALE = 173.7178
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI))
+const expectedScore = (mu: number, muJ: number, phiJ: number) =>
+  1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)))
+
+/** The new volatility, found with the Illinois variant of regula falsi (step 5 of the paper) */
+function updateVolatility(phi: number, sigma: number, delta: number, v: number): number {
+  const a = Math.log(sigma * sigma)
+  const f = (x: number) => {
+    const ex = Math.exp(x)
+    const d = phi * phi + v + ex
+    return (ex * (delta * delta - d)) / (2 * d * d) - (x - a) / (TAU * TAU)
+  }
+
+  let A = a
+  let B: number
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v)
+  } else {
+    let k = 1
+    while (f(a - k * TAU) < 0) k++
+    B = a - k * TAU
+  }
+
+  let fA = f(A)
+  let fB = f(B)
+  while (Math.abs(B - A) > CONVERGENCE) {
+    const C = A + ((A - B) * fA) / (fB - fA)
+    const fC = f(C)
+    if (fC * fB <= 0) {
+      A = B
+      fA = fB
+    } else {
+      fA /= 2
+    }
+    B = C
+    fB = fC
+  }
+
+  return Math.exp(A / 2)
+}
+
+/**
+ * A player's rating after one rating period. With no results their deviation still grows,
+ * since time away makes their rating less certain.
+ */
+export function updateRating(player: Glicko2Rating, results: MatchResult[]): Glicko2Rating {
+  const mu = (player.rating - DEFAULT_RATING.rating) / SCALE
+  const phi = player.deviation / SCALE
+  const sigma = player.volatility
+
+  if (results.length === 0) {
+    const grown = Math.sqrt(phi * phi + sigma * sigma) * SCALE
+    return { ...player, deviation: Math.min(grown, DEFAULT_RATING.deviation) }
+  }
+
+  const opponents = results.map(({ opponent, score }) => ({
+    mu: (opponent.rating - DEFAULT_RATING.rating) / SCALE,
+    phi: opponent.deviation / SCALE,
+    score,
+  }))
+
+  // Estimated variance from game outcomes alone, and the rating change they point to
+  let vInverse = 0
+  let improvement = 0
+  for (const opponent of opponents) {
+    const gPhi = g(opponent.phi)
+    const E = expectedScore(mu, opponent.mu, opponent.phi)
+    vInverse += gPhi * gPhi * E * (1 - E)
+    improvement += gPhi * (opponent.score - E)
+  }
+  const v = 1 / vInverse
+  const delta = v * improvement
+
+  const newSigma = updateVolatility(phi, sigma, delta, v)
+  const phiStar = Math.sqrt(phi * phi + newSigma * newSigma)
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v)
+  const newMu = mu + newPhi * newPhi * improvement
+
+  return {
+    rating: newMu * SCALE + DEFAULT_RATING.rating,
+    deviation: Math.min(newPhi * SCALE, DEFAULT_RATING.deviation),
+    volatility: newSigma,
+  }
+}
@@ -0,0 +1,83 @@
+import type { Card, GameState, PlayerId } from '@/schemas/schema'
+
+// ================================
+// GRAVEYARD ZONE
+// ================================
+// Helpers take a mutable state (an Immer draft) like the battlefield helpers in game_logic
+
+/** Summoned tokens cease to exist instead of going to the graveyard */
+export function isToken(card: Card): boolean {
+  return card.id.startsWith('token_')
+}
+
+/** Which battlefield row a player's units live on */
+export function getUnitRow(state: GameState, playerId: PlayerId): (Card | null)[] {
+  return playerId === 'player1' ? state.battlefield.playerUnits : state.battlefield.enemyUnits
+}
+
+/** Put a card into its owner's graveyard, clearing anything it picked up in play */
+export function sendToGraveyard(state: GameState, playerId: PlayerId, card: Card): void {
+  if (isToken(card)) return
+
+  const bonus = card.astrologyBonus ?? 0
+  const seasonal = card.seasonalBuff ?? { attack: 0, health: 0 }
+  const {
+    currentHealth: _currentHealth,
+    hasSummoningSickness: _hasSummoningSickness,
+    hasAttackedThisTurn: _hasAttackedThisTurn,
+    statusEffects: _statusEffects,
+    counters: _counters,
+    astrologyBonus: _astrologyBonus,
+    seasonalBuff: _seasonalBuff,
+    arcaneCharge: _arcaneCharge,
+    ...rest
+  } = card
+
+  const player = state[playerId]
+  player.graveyard ??= []
+  player.graveyard.push({
+    ...rest,
+    attack: card.attack - bonus - seasonal.attack,
+    health: card.health - bonus - seasonal.health,
+    owner: playerId,
+  })
+}
+
+/** Remove the unit in a battlefield slot and send it to its owner's graveyard */
+export function destroyUnitAt(state: GameState, playerId: PlayerId, slot: number): Card | null {
+  const units = getUnitRow(state, playerId)
+  const unit = units[slot]
+  if (!unit) return null
+
+  units[slot] = null
+  sendToGraveyard(state, playerId, unit)
+  return unit
+}
+
+/** Destroy every unit in a player's row, oldest slot first */
+export function destroyAllUnitsOf(state: GameState, playerId: PlayerId): number {
+  const units = getUnitRow(state, playerId)
+  let destroyed = 0
+  for (let slot = 0; slot < units.length; slot++) {
+    if (destroyUnitAt(state, playerId, slot)) destroyed++
+  }
+  return destroyed
+}
+
+/** Take the most recent unit cards out of a player's graveyard */
+export function takeUnitsFromGraveyard(
+  state: GameState,
+  playerId: PlayerId,
+  count: number,
+): Card[] {
+  const graveyard = state[playerId].graveyard ?? []
+  const taken: Card[] = []
+
+  for (let i = graveyard.length - 1; i >= 0 && taken.length < count; i--) {
+    if (graveyard[i].type === 'unit') {
+      taken.push(...graveyard.splice(i, 1))
+    }
+  }
+
+  return taken
+}
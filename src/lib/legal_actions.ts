@@ -0,0 +1,137 @@
+import { canPlayCard } from '@/lib/game_logic'
+import { getUnitRow } from '@/lib/graveyard'
+import { getLegalTargets, requiresTarget } from '@/lib/targeting'
+import type { GameAction } from '@/schemas/multiplayer_schema'
+import type { GameState, PlayerId, PlayTarget } from '@/schemas/schema'
+import { defaultEngineSystems, type EngineSystems } from '@/services/engine_systems'
+
+// ================================
+// LEGAL MOVES
+// ================================
+// The one place that decides what a player may do right now. The server's validation, the
+// board's target highlighting and the computer players all read their moves from here.
+
+// Omit each member on its own so the union stays discriminated by `type`
+type WithoutActionId<T> = T extends unknown ? Omit<T, 'actionId'> : never
+
+/** A move in the action phase, shaped like the action a client sends to make it */
+export type LegalAction = WithoutActionId<Exclude<GameAction, { type: 'mulligan' }>>
+export type LegalPlay = Extract<LegalAction, { type: 'play_card' }>
+export type LegalAttack = Extract<LegalAction, { type: 'declare_attack' }>
+
+function canAct(state: GameState, playerId: PlayerId): boolean {
+  return state.phase === 'action' && state.activePlayer === playerId
+}
+
+/** Every move `playerId` could make right now; empty when it isn't their action phase */
+export function getLegalActions(
+  state: GameState,
+  playerId: PlayerId,
+  systems: EngineSystems = defaultEngineSystems,
+): LegalAction[] {
+  if (!canAct(state, playerId)) return []
+  return [
+    ...getLegalPlays(state, playerId, systems),
+    ...getLegalAttacks(state, playerId, systems),
+    { type: 'end_turn' },
+  ]
+}
+
+/** Each card that can be played, once per empty slot (for units) and legal target */
+export function getLegalPlays(
+  state: GameState,
+  playerId: PlayerId,
+  systems: EngineSystems = defaultEngineSystems,
+): LegalPlay[] {
+  if (!canAct(state, playerId)) return []
+
+  const emptySlots = getUnitRow(state, playerId).flatMap((unit, slot) =>
+    unit === null ? [slot] : [],
+  )
+  const plays: LegalPlay[] = []
+  for (const card of state[playerId].hand) {
+    if (!canPlayCard(state, card, systems)) continue
+    const targets: (PlayTarget | undefined)[] = requiresTarget(card, systems)
+      ? getLegalTargets(state, card, playerId, systems)
+      : []
+    if (targets.length === 0) {
+      // A targeted spell needs something to hit; a battlecry with nothing to aim at just fizzles
+      if (card.type === 'spell' && requiresTarget(card, systems)) continue
+      targets.push(undefined)
+    }
+    const slots = card.type === 'unit' ? emptySlots : [undefined]
+
+    for (const targetSlot of slots) {
+      for (const target of targets) {
+        const play: LegalPlay = { type: 'play_card', cardId: card.id }
+        if (targetSlot !== undefined) play.targetSlot = targetSlot
+        if (target) play.target = target
+        plays.push(play)
+      }
+    }
+  }
+  return plays
+}
+
+/** Each ready unit against each enemy it may attack, and the enemy player when unguarded */
+export function getLegalAttacks(
+  state: GameState,
+  playerId: PlayerId,
+  systems: EngineSystems = defaultEngineSystems,
+): LegalAttack[] {
+  if (!canAct(state, playerId) || !state[playerId].hasAttackToken) return []
+
+  const { combat } = systems
+  const attacks: LegalAttack[] = []
+  for (const attacker of getUnitRow(state, playerId)) {
+    if (!attacker || !combat.canAttack(attacker)) continue
+    const targets = combat.getAttackTargets(state, playerId, attacker)
+    for (const target of targets.units) {
+      attacks.push({
+        type: 'declare_attack',
+        attackerId: attacker.id,
+        targetType: 'unit',
+        targetId: target.id,
+      })
+    }
+    if (targets.canTargetPlayer) {
+      attacks.push({ type: 'declare_attack', attackerId: attacker.id, targetType: 'player' })
+    }
+  }
+  return attacks
+}
+
+/**
+ * Whether `action` is one of the legal moves. A play that leaves out its slot matches
+ * any slot, since the engine then fills the first empty one.
+ */
+export function isLegalAction(
+  state: GameState,
+  playerId: PlayerId,
+  action: LegalAction,
+  systems: EngineSystems = defaultEngineSystems,
+): boolean {
+  return getLegalActions(state, playerId, systems).some(legal => matchesAction(legal, action))
+}
+
+function matchesAction(legal: LegalAction, action: LegalAction): boolean {
+  switch (action.type) {
+    case 'play_card':
+      return (
+        legal.type === 'play_card' &&
+        legal.cardId === action.cardId &&
+        (action.targetSlot === undefined || legal.targetSlot === action.targetSlot) &&
+        legal.target?.type === action.target?.type &&
+        legal.target?.id === action.target?.id
+      )
+    case 'declare_attack':
+      return (
+        legal.type === 'declare_attack' &&
+        legal.attackerId === action.attackerId &&
+        legal.targetType === action.targetType &&
+        (action.targetType === 'player' || legal.targetId === action.targetId)
+      )
+    case 'end_turn':
+      return legal.type === 'end_turn'
+  }
+}
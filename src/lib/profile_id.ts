@@ -0,0 +1,16 @@
+// ================================
+// PUBLIC PROFILE IDS
+// ================================
+// A device's player id is the only credential for its synced profile, so it must never reach
+// another player. Anything other players see (opponents, the leaderboard) names the profile by
+// its public id instead: a hash of the player id that can't be turned back into it.
+
+export async function getPublicProfileId(playerId: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`profile:${playerId}`),
+  )
+  return Array.from(new Uint8Array(digest).slice(0, 12), byte =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('')
+}
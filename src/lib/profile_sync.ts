@@ -0,0 +1,69 @@
+import type { ProfileEntry, ProfileSection, ProfileSnapshot } from '@/schemas/profile_schema'
+import { StatsStorageSchema } from '@/schemas/stats_schema'
+import { mergeStatsStorage } from '@/services/stats_service'
+
+// ================================
+// PROFILE MERGING
+// ================================
+// Both the server and each device keep a version per section. Whoever changed a section
+// more recently than the other has seen bumps it, so the higher version wins. Two devices
+// that changed the same section offline tie; for most sections the later edit wins, but
+// progress that adds up (games, stats, achievements) is combined so neither device loses any.
+
+type Combine = (server: unknown, local: unknown, base: unknown) => unknown | null
+
+/** Sections combined instead of replaced; each returns null for data it can't read */
+const COMBINED_SECTIONS: Partial<Record<ProfileSection, Combine>> = {
+  stats: (server, local, base) => {
+    const current = StatsStorageSchema.safeParse(server)
+    const changed = StatsStorageSchema.safeParse(local)
+    const synced = base === null ? null : StatsStorageSchema.safeParse(base)
+    if (!current.success || !changed.success || (synced && !synced.success)) return null
+    return mergeStatsStorage(current.data, changed.data, synced?.data)
+  },
+}
+
+/** Whether a device should send the data it last synced along with its changes to `section` */
+export function isCombinedSection(section: ProfileSection): boolean {
+  return section in COMBINED_SECTIONS
+}
+
+/** Whether `incoming` should replace `current` */
+export function isNewerEntry(incoming: ProfileEntry, current: ProfileEntry | undefined): boolean {
+  if (!current) return true
+  if (incoming.version !== current.version) return incoming.version > current.version
+  return incoming.updatedAt > current.updatedAt
+}
+
+/** Section by section, the newer of the two snapshots, or both combined where they add up */
+export function mergeProfileSnapshots(
+  base: ProfileSnapshot,
+  incoming: ProfileSnapshot,
+): ProfileSnapshot {
+  const merged: ProfileSnapshot = { ...base }
+  for (const [section, { base: synced, ...entry }] of Object.entries(incoming) as [
+    ProfileSection,
+    ProfileEntry,
+  ][]) {
+    const current = merged[section]
+    const combine = COMBINED_SECTIONS[section]
+    // A change made from an older version than this one was made alongside another device's
+    const concurrent =
+      current &&
+      synced !== undefined &&
+      current.version >= entry.version &&
+      JSON.stringify(current.data) !== JSON.stringify(entry.data)
+    const data = concurrent && combine ? combine(current.data, entry.data, synced) : null
+
+    if (current && data !== null) {
+      merged[section] = {
+        version: current.version + 1,
+        updatedAt: Math.max(current.updatedAt, entry.updatedAt),
+        data,
+      }
+    } else if (isNewerEntry(entry, current)) {
+      merged[section] = entry
+    }
+  }
+  return merged
+}
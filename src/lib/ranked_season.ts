@@ -0,0 +1,62 @@
+import { DEFAULT_RATING, type Glicko2Rating, updateRating } from '@/lib/glicko2'
+
+// ================================
+// RANKED SEASONS
+// ================================
+// The ladder runs in quarterly seasons. A new season pulls everyone halfway back toward the
+// starting rating and widens their deviation, so they replay placements and find their level
+// again quickly without losing all their history.
+
+/** Games a player must finish in a season before they appear on the leaderboard */
+export const PLACEMENT_GAMES = 5
+
+/** Deviation everyone starts a new season with at least */
+const SEASON_RESET_DEVIATION = 250
+
+export interface RankedRecord extends Glicko2Rating {
+  /** Rated games finished this season */
+  rankedGames: number
+  season: string
+}
+
+/** Season id for a date, e.g. "2026-Q4" */
+export function getSeasonId(date: Date = new Date()): string {
+  return `${date.getUTCFullYear()}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`
+}
+
+export function isPlaced(record: RankedRecord): boolean {
+  return record.rankedGames >= PLACEMENT_GAMES
+}
+
+/** A player's record for `season`, soft-resetting one carried over from an earlier season */
+export function recordForSeason(record: RankedRecord | null, season: string): RankedRecord {
+  if (!record) return { ...DEFAULT_RATING, rankedGames: 0, season }
+  if (record.season === season) return record
+
+  return {
+    rating: (record.rating + DEFAULT_RATING.rating) / 2,
+    deviation: Math.max(record.deviation, SEASON_RESET_DEVIATION),
+    volatility: record.volatility,
+    rankedGames: 0,
+    season,
+  }
+}
+
+/** Both players' records after a decisive game, each rated against the other's old rating */
+export function applyRankedResult(
+  winner: RankedRecord,
+  loser: RankedRecord,
+): { winner: RankedRecord; loser: RankedRecord } {
+  return {
+    winner: {
+      ...winner,
+      ...updateRating(winner, [{ opponent: loser, score: 1 }]),
+      rankedGames: winner.rankedGames + 1,
+    },
+    loser: {
+      ...loser,
+      ...updateRating(loser, [{ opponent: winner, score: 0 }]),
+      rankedGames: loser.rankedGames + 1,
+    },
+  }
+}
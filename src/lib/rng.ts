@@ -0,0 +1,76 @@
+/**
+ * Seedable pseudo-random number generator for the game engine.
+ *
+ * The generator state lives inside GameState, so a game created from a given
+ * seed and fed the same actions always plays out identically. Every piece of
+ * rules randomness (deck shuffles, card orientation) must go through here
+ * instead of Math.random().
+ */
+
+import type { RngState } from '@/schemas/schema'
+
+/**
+ * Create a fresh seed. This is the only place the engine touches an
+ * unseeded source of randomness.
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0
+}
+
+/**
+ * Create a generator state from a seed
+ */
+export function createRng(seed: number = createSeed()): RngState {
+  const normalizedSeed = seed >>> 0
+  return { seed: normalizedSeed, state: normalizedSeed }
+}
+
+/**
+ * Derive an independent seed from a base seed, so one game seed can drive
+ * several separate random streams
+ */
+export function deriveSeed(seed: number, salt: number): number {
+  let t = (seed ^ Math.imul(salt, 0x9e3779b1)) >>> 0
+  t = Math.imul(t ^ (t >>> 16), 0x85ebca6b)
+  t = Math.imul(t ^ (t >>> 13), 0xc2b2ae35)
+  return (t ^ (t >>> 16)) >>> 0
+}
+
+/**
+ * Advance the generator and return a float in [0, 1).
+ * Mutates `rng` in place, so call it on a fresh object or an Immer draft.
+ * Uses mulberry32 - small, fast and good enough for card games.
+ */
+export function nextRandom(rng: RngState): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0
+  let t = rng.state
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+/**
+ * Bind a generator state to a `() => number` function with the same contract as Math.random
+ */
+export function createRandomFn(rng: RngState): () => number {
+  return () => nextRandom(rng)
+}
+
+/**
+ * Draw a random number from a game state's generator.
+ * Falls back to Math.random() for states created before seeding existed.
+ */
+export function rollRandom(state: { rng?: RngState }): number {
+  return state.rng ? nextRandom(state.rng) : Math.random()
+}
+
+/**
+ * Fisher-Yates shuffle in place using the provided random source
+ */
+export function shuffleInPlace<T>(items: T[], random: () => number = Math.random): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[items[i], items[j]] = [items[j], items[i]]
+  }
+  return items
+}
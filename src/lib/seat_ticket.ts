@@ -0,0 +1,124 @@
+import { type LobbyTicket, LobbyTicketSchema } from '@/schemas/multiplayer_schema'
+import type { PlayerId } from '@/schemas/schema'
+
+// ================================
+// SEAT TICKETS
+// ================================
+// Matchmaking hands each matched player a ticket binding their profile to one seat of one match:
+// `<claims>.<signature>`, the claims base64url JSON and the signature an HMAC-SHA256 over them.
+// The game server only rates games whose seats were claimed with a ticket it can verify, so a
+// client can't put someone else's profile, or its own, on the ladder by editing a URL.
+// A private lobby instead gives each player a sealed ticket for their seat: the rules and both
+// decks, encrypted, so the game server can deal the agreed decks without either player seeing the
+// other's, and neither player can take the other's seat with their own ticket.
+
+export interface SeatClaims {
+  matchId: string
+  seat: PlayerId
+  profileId: string
+}
+
+const DEV_SECRET = 'tarot-tcg-dev-seat-secret'
+
+/** The signing secret shared by matchmaking and the game server; null if production has none */
+export function getSeatTicketSecret(): string | null {
+  const secret = process.env.SEAT_TICKET_SECRET
+  if (secret) return secret
+  return process.env.NODE_ENV === 'production' ? null : DEV_SECRET
+}
+
+export async function signSeatTicket(claims: SeatClaims, secret: string): Promise<string> {
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)))
+  return `${body}.${await sign(body, secret)}`
+}
+
+/** The claims of a ticket signed with `secret`, or null for anything else (including plain tokens) */
+export async function verifySeatTicket(ticket: string, secret: string): Promise<SeatClaims | null> {
+  const [body, signature, ...rest] = ticket.split('.')
+  if (!body || !signature || rest.length > 0) return null
+
+  const key = await importKey(secret)
+  let valid: boolean
+  try {
+    valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64Url(signature),
+      new TextEncoder().encode(body),
+    )
+  } catch {
+    return null
+  }
+  if (!valid) return null
+
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(body)))
+    const { matchId, seat, profileId } = claims ?? {}
+    if (typeof matchId !== 'string' || typeof profileId !== 'string') return null
+    if (seat !== 'player1' && seat !== 'player2') return null
+    return { matchId, seat, profileId }
+  } catch {
+    return null
+  }
+}
+
+/** Encrypt a lobby seat's ticket for the game server; the player only passes it along */
+export async function sealLobbyTicket(ticket: LobbyTicket, secret: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await importSealKey(secret),
+    new TextEncoder().encode(JSON.stringify(ticket)),
+  )
+  return `${toBase64Url(iv)}.${toBase64Url(new Uint8Array(sealed))}`
+}
+
+/** The seat and match inside a lobby ticket sealed with `secret`, or null if it can't be opened */
+export async function openLobbyTicket(ticket: string, secret: string): Promise<LobbyTicket | null> {
+  const [iv, sealed, ...rest] = ticket.split('.')
+  if (!iv || !sealed || rest.length > 0) return null
+
+  try {
+    const opened = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64Url(iv) },
+      await importSealKey(secret),
+      fromBase64Url(sealed),
+    )
+    const parsed = LobbyTicketSchema.safeParse(JSON.parse(new TextDecoder().decode(opened)))
+    return parsed.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  )
+}
+
+// AES wants a key of a fixed size, so the secret is hashed into one
+async function importSealKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`seal:${secret}`))
+  return crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt'])
+}
+
+async function sign(body: string, secret: string): Promise<string> {
+  const key = await importKey(secret)
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body))
+  return toBase64Url(new Uint8Array(signature))
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte))
+  return btoa(binary.join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
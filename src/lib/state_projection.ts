@@ -0,0 +1,92 @@
+import { produce } from 'immer'
+import type { RedactedGameState } from '@/schemas/multiplayer_schema'
+import type { Card, GameEvent, GameEventType, GameState, PlayerId } from '@/schemas/schema'
+
+// ================================
+// PER-SEAT STATE PROJECTION
+// ================================
+// The server holds the full game; each client only ever receives the view for its own seat
+
+const PLAYER_IDS: PlayerId[] = ['player1', 'player2']
+
+/** A face-down card that reveals nothing but who owns it */
+export function createHiddenCard(owner: PlayerId, slot: string): Card {
+  return {
+    id: `hidden_${owner}_${slot}`,
+    name: 'Card Back',
+    cost: 0,
+    attack: 0,
+    health: 0,
+    type: 'unit',
+    zodiacClass: 'aries',
+    element: 'fire',
+    rarity: 'common',
+    owner,
+    isHidden: true,
+  }
+}
+
+/**
+ * Strip everything `viewer` may not know: the opponent's hand, the contents and order of
+ * both decks (including the orientation already rolled for undrawn cards) and the RNG.
+ * Pass null for spectators, who see the board but neither hand.
+ */
+export function projectStateForSeat(state: GameState, viewer: PlayerId | null): RedactedGameState {
+  return redact(state, viewer, playerId => playerId === viewer)
+}
+
+/**
+ * The spectator view. Casters, whose feed is delayed, may see both hands; everyone else
+ * watches with both hands face-down. Decks and the RNG stay hidden either way.
+ */
+export function projectStateForSpectator(
+  state: GameState,
+  revealHands: boolean,
+): RedactedGameState {
+  return redact(state, null, () => revealHands)
+}
+
+function redact(
+  state: GameState,
+  viewer: PlayerId | null,
+  canSeeHand: (playerId: PlayerId) => boolean,
+): RedactedGameState {
+  const { rng: _rng, ...visible } = produce(state, draft => {
+    for (const playerId of PLAYER_IDS) {
+      const player = draft[playerId]
+      player.deck = player.deck.map((_, i) => createHiddenCard(playerId, `deck_${i}`))
+
+      if (!canSeeHand(playerId)) {
+        player.hand = player.hand.map((_, i) => createHiddenCard(playerId, `hand_${i}`))
+        player.selectedForMulligan = []
+      }
+    }
+  })
+
+  return { ...visible, viewer }
+}
+
+// Events spectators are sent. Anything else may carry internals such as effect stack items
+const SPECTATOR_EVENTS: GameEventType[] = [
+  'game_started',
+  'round_start',
+  'turn_start',
+  'card_drawn',
+  'card_played',
+  'unit_dies',
+  'player_loses_health',
+  'effect_triggered',
+]
+
+// Events that name a card going into a hand nobody else may see
+const HAND_EVENTS: GameEventType[] = ['card_drawn']
+
+/**
+ * An event as a spectator may see it, or null if they shouldn't see it at all. Which card was
+ * drawn stays secret unless hands are shown.
+ */
+export function projectEventForSpectator(event: GameEvent, revealHands: boolean): GameEvent | null {
+  if (!SPECTATOR_EVENTS.includes(event.type)) return null
+  if (revealHands || !HAND_EVENTS.includes(event.type)) return event
+  return { ...event, source: undefined, target: undefined, data: {} }
+}
@@ -0,0 +1,216 @@
+import { getUnitRow } from '@/lib/graveyard'
+import type {
+  Card,
+  EffectContext,
+  GameState,
+  PlayerId,
+  PlayTarget,
+  ScriptedAction,
+  ScriptedEffect,
+} from '@/schemas/schema'
+import { type ParsedAction, parseAbilityDescription } from '@/services/ability_parser'
+import {
+  type CardEffectSystem,
+  findScriptedEffect,
+  getOrientedAbilities,
+} from '@/services/card_effect_system'
+import type { CombatService } from '@/services/combat_service'
+import { defaultEngineSystems, type EngineSystems } from '@/services/engine_systems'
+
+// ================================
+// PLAYER-SELECTED TARGETS
+// ================================
+// Spells and on-play abilities that say "target unit" or "any target" ask whoever plays them
+// to pick one; everything else resolves without a choice
+
+// Executors that act on a single chosen unit (or player, for damage)
+const TARGETED_ACTIONS = new Set<ParsedAction['type']>(['dealDamage', 'destroyUnit', 'statBuff'])
+
+export interface TargetingRule {
+  action: ParsedAction
+  side: 'enemy' | 'friendly' | 'any'
+  allowPlayers: boolean
+}
+
+/** Abilities that resolve the moment the card is played */
+function getPlayAbilities(card: Card, effects: CardEffectSystem): NonNullable<Card['abilities']> {
+  if (card.type === 'spell') {
+    return (card.isReversed ? card.reversedAbilities : card.uprightAbilities) ?? []
+  }
+  return getOrientedAbilities(card).filter(
+    ability =>
+      ability.description &&
+      effects.getAbilityTriggers(card, ability.description, ability.name).includes('on_play'),
+  )
+}
+
+/** A scripted effect names its targets outright rather than leaving them to the prose */
+function getScriptedTargetingRule(script: ScriptedEffect): TargetingRule | null {
+  for (const action of script.actions) {
+    if (action.type === 'payMana' || !TARGETED_ACTIONS.has(action.type)) continue
+    if (action.target === 'enemy_unit' || action.target === 'friendly_unit') {
+      const side = action.target === 'enemy_unit' ? 'enemy' : 'friendly'
+      return { action: toParsedAction(action), side, allowPlayers: false }
+    }
+    if (action.target === 'any_target') {
+      const allowPlayers = action.type === 'dealDamage'
+      return { action: toParsedAction(action), side: 'any', allowPlayers }
+    }
+  }
+  return null
+}
+
+function toParsedAction(action: ScriptedAction): ParsedAction {
+  return {
+    type: action.type as ParsedAction['type'],
+    amount: typeof action.amount === 'number' ? action.amount : undefined,
+    target: 'any_target',
+  }
+}
+
+/** What a card asks its player to pick when played, or null if it needs no choice */
+export function getTargetingRule(
+  card: Card,
+  systems: EngineSystems = defaultEngineSystems,
+): TargetingRule | null {
+  for (const ability of getPlayAbilities(card, systems.effects)) {
+    const script = findScriptedEffect(card, ability.name)
+    if (script) {
+      const rule = getScriptedTargetingRule(script)
+      if (rule) return rule
+      continue
+    }
+
+    const description = ability.description
+    const action = parseAbilityDescription(description).actions.find(
+      a => a.target === 'any_target' && TARGETED_ACTIONS.has(a.type),
+    )
+    if (!action) continue
+
+    const lower = description.toLowerCase()
+    const side = /enem(?:y|ies)|opponent/.test(lower)
+      ? 'enemy'
+      : /friendly|allied|your/.test(lower)
+        ? 'friendly'
+        : 'any'
+    const allowPlayers = action.type === 'dealDamage' && lower.includes('any target')
+    return { action, side, allowPlayers }
+  }
+  return null
+}
+
+export function requiresTarget(card: Card, systems: EngineSystems = defaultEngineSystems): boolean {
+  return getTargetingRule(card, systems) !== null
+}
+
+/** Stealthed enemies hide until they attack; mystical ward turns spells away */
+function canTargetUnit(unit: Card, source: Card, isEnemy: boolean, combat: CombatService): boolean {
+  if (
+    source.type === 'spell' &&
+    (unit.mysticWard === true || combat.hasKeyword(unit, 'mystical_ward'))
+  ) {
+    return false
+  }
+  if (isEnemy && !unit.hasAttackedThisTurn) {
+    if (combat.hasKeyword(unit, 'stealth')) return false
+    if (combat.hasKeyword(unit, 'veil_of_illusion')) return false
+  }
+  return true
+}
+
+/** Every unit or player the card could be aimed at right now */
+export function getLegalTargets(
+  state: GameState,
+  card: Card,
+  playerId: PlayerId = state.activePlayer,
+  systems: EngineSystems = defaultEngineSystems,
+): PlayTarget[] {
+  const rule = getTargetingRule(card, systems)
+  if (!rule) return []
+
+  const opponent: PlayerId = playerId === 'player1' ? 'player2' : 'player1'
+  const sides: PlayerId[] =
+    rule.side === 'enemy'
+      ? [opponent]
+      : rule.side === 'friendly'
+        ? [playerId]
+        : [playerId, opponent]
+
+  const targets: PlayTarget[] = []
+  for (const side of sides) {
+    for (const unit of getUnitRow(state, side)) {
+      if (unit && canTargetUnit(unit, card, side === opponent, systems.combat)) {
+        targets.push({ type: 'card', id: unit.id })
+      }
+    }
+  }
+  if (rule.allowPlayers) {
+    targets.push({ type: 'player', id: opponent }, { type: 'player', id: playerId })
+  }
+  return targets
+}
+
+export function isLegalTarget(
+  state: GameState,
+  card: Card,
+  target: PlayTarget,
+  playerId: PlayerId = state.activePlayer,
+  systems: EngineSystems = defaultEngineSystems,
+): boolean {
+  return getLegalTargets(state, card, playerId, systems).some(
+    t => t.type === target.type && t.id === target.id,
+  )
+}
+
+/** The chosen target in the shape effect executors read from their context */
+export function toEffectTargets(state: GameState, target: PlayTarget): EffectContext['targets'] {
+  const entity =
+    target.type === 'player'
+      ? state[target.id as PlayerId]
+      : [...state.battlefield.playerUnits, ...state.battlefield.enemyUnits].find(
+          u => u?.id === target.id,
+        )
+  return [{ ...target, entity }]
+}
+
+/**
+ * Pick a target the way a computer player would: harm the biggest enemy it can,
+ * empower its own strongest unit. Returns undefined when nothing is legal.
+ */
+export function chooseBestTarget(
+  state: GameState,
+  card: Card,
+  playerId: PlayerId = state.activePlayer,
+  systems: EngineSystems = defaultEngineSystems,
+): PlayTarget | undefined {
+  const rule = getTargetingRule(card, systems)
+  const legal = getLegalTargets(state, card, playerId, systems)
+  if (!rule || legal.length === 0) return undefined
+
+  const opponent: PlayerId = playerId === 'player1' ? 'player2' : 'player1'
+  const unitsOf = (owner: PlayerId) =>
+    getUnitRow(state, owner).filter(
+      (u): u is Card => u !== null && legal.some(t => t.type === 'card' && t.id === u.id),
+    )
+  const byThreat = (a: Card, b: Card) => b.attack + b.health - (a.attack + a.health)
+  const asTarget = (unit: Card | undefined): PlayTarget | undefined =>
+    unit ? { type: 'card', id: unit.id } : undefined
+
+  if (rule.action.type === 'statBuff') {
+    const [strongest] = unitsOf(playerId).sort(byThreat)
+    return asTarget(strongest) ?? legal[0]
+  }
+
+  const enemies = unitsOf(opponent).sort(byThreat)
+  if (rule.action.type === 'dealDamage') {
+    const amount = rule.action.amount ?? 1
+    const killable = enemies.find(u => (u.currentHealth ?? u.health) <= amount)
+    if (killable) return asTarget(killable)
+    if (rule.allowPlayers) return { type: 'player', id: opponent }
+  }
+  if (enemies.length > 0) return asTarget(enemies[0])
+
+  // Forced to aim at our own side: pick the least valuable unit
+  const [weakest] = unitsOf(playerId).sort(byThreat).reverse()
+  return asTarget(weakest) ?? legal[0]
+}
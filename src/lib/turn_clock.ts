@@ -0,0 +1,151 @@
+import type { PlayerId } from '@/schemas/schema'
+
+// ================================
+// TURN CLOCK
+// ================================
+// Chess-style timing for online games: every turn gets a fixed allowance and anything past it
+// comes out of the player's bank. The server owns the clock; clients only count down a snapshot.
+
+export interface TurnClockConfig {
+  turnMs: number
+  /** Reserve for the whole game, spent once a turn's own time is gone */
+  bankMs: number
+  /** The rope burns for this long before time runs out */
+  ropeMs: number
+}
+
+export interface TurnClock {
+  activePlayer: PlayerId | null
+  turn: number
+  turnStartedAt: number
+  banks: Record<PlayerId, number>
+  /** Set while the clock is stopped, e.g. while a dropped player reconnects */
+  pausedAt: number | null
+}
+
+/** The clock as sent to clients: durations rather than timestamps, so clock skew doesn't matter */
+export interface TurnTimer {
+  activePlayer: PlayerId
+  turnRemainingMs: number
+  banks: Record<PlayerId, number>
+  ropeMs: number
+  paused: boolean
+}
+
+export type ClockAlert = 'bank' | 'rope' | 'expired'
+
+export interface TimeLeft {
+  turnMs: number
+  bankMs: number
+  totalMs: number
+}
+
+export function createTurnClock(config: TurnClockConfig): TurnClock {
+  return {
+    activePlayer: null,
+    turn: 0,
+    turnStartedAt: 0,
+    banks: { player1: config.bankMs, player2: config.bankMs },
+    pausedAt: null,
+  }
+}
+
+/** Time left after `elapsedMs` of a turn that started with `turnMs` on the clock */
+function spend(turnMs: number, bankMs: number, elapsedMs: number): TimeLeft {
+  const turn = Math.max(0, turnMs - elapsedMs)
+  const bank = Math.max(0, bankMs - Math.max(0, elapsedMs - turnMs))
+  return { turnMs: turn, bankMs: bank, totalMs: turn + bank }
+}
+
+/** The active player's time left, or null between turns */
+export function getTimeLeft(
+  clock: TurnClock,
+  config: TurnClockConfig,
+  now: number,
+): TimeLeft | null {
+  if (!clock.activePlayer) return null
+  const elapsed = (clock.pausedAt ?? now) - clock.turnStartedAt
+  return spend(config.turnMs, clock.banks[clock.activePlayer], elapsed)
+}
+
+/** End the running turn, if any, charging time past the allowance to the player's bank */
+export function finishTurn(clock: TurnClock, config: TurnClockConfig, now: number): TurnClock {
+  const left = getTimeLeft(clock, config, now)
+  if (!clock.activePlayer || !left) return clock
+  return {
+    ...clock,
+    activePlayer: null,
+    banks: { ...clock.banks, [clock.activePlayer]: left.bankMs },
+    pausedAt: null,
+  }
+}
+
+export function startTurn(
+  clock: TurnClock,
+  config: TurnClockConfig,
+  player: PlayerId,
+  turn: number,
+  now: number,
+): TurnClock {
+  return { ...finishTurn(clock, config, now), activePlayer: player, turn, turnStartedAt: now }
+}
+
+export function pauseClock(clock: TurnClock, now: number): TurnClock {
+  return clock.pausedAt === null ? { ...clock, pausedAt: now } : clock
+}
+
+/** Restart a paused clock; the pause doesn't count against the active player */
+export function resumeClock(clock: TurnClock, now: number): TurnClock {
+  if (clock.pausedAt === null) return clock
+  return { ...clock, turnStartedAt: clock.turnStartedAt + now - clock.pausedAt, pausedAt: null }
+}
+
+export function toTurnTimer(
+  clock: TurnClock,
+  config: TurnClockConfig,
+  now: number,
+): TurnTimer | null {
+  const left = getTimeLeft(clock, config, now)
+  if (!clock.activePlayer || !left) return null
+  return {
+    activePlayer: clock.activePlayer,
+    turnRemainingMs: left.turnMs,
+    banks: { ...clock.banks, [clock.activePlayer]: left.bankMs },
+    ropeMs: config.ropeMs,
+    paused: clock.pausedAt !== null,
+  }
+}
+
+/**
+ * The next thing the server has to announce: the turn dipping into the bank, the rope lighting,
+ * or time running out. Alerts already due are skipped, except expiry. Null while stopped.
+ */
+export function nextClockAlert(
+  clock: TurnClock,
+  config: TurnClockConfig,
+  now: number,
+): { alert: ClockAlert; inMs: number } | null {
+  const left = getTimeLeft(clock, config, now)
+  if (!left || clock.pausedAt !== null) return null
+
+  const upcoming: { alert: ClockAlert; inMs: number }[] = [
+    { alert: 'rope', inMs: left.totalMs - config.ropeMs },
+  ]
+  if (left.bankMs > 0) upcoming.push({ alert: 'bank', inMs: left.turnMs })
+
+  const next = upcoming.filter(a => a.inMs > 0).sort((a, b) => a.inMs - b.inMs)[0]
+  return next ?? { alert: 'expired', inMs: left.totalMs }
+}
+
+/** Count a received snapshot down by the time since it arrived */
+export function countDownTimer(
+  timer: TurnTimer,
+  elapsedMs: number,
+): TimeLeft & { roping: boolean } {
+  const left = spend(
+    timer.turnRemainingMs,
+    timer.banks[timer.activePlayer],
+    timer.paused ? 0 : elapsedMs,
+  )
+  return { ...left, roping: left.totalMs <= timer.ropeMs }
+}
@@ -13,7 +13,7 @@ export const ChallengeRulesSchema = z.object({
   maxRounds: z.number().nullable(),
   requiredElements: z.array(z.string()).nullable(),
   requiredZodiacs: z.array(z.string()).nullable(),
-  majorArcanaOnly: z.boolean(),
+  format: z.string(), // Deck format id the player's deck must be legal in
   startingHealth: z.number(),
   startingMana: z.number(),
   aiDifficulty: z.enum(['easy', 'normal', 'hard', 'expert']),
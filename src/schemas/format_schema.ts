@@ -0,0 +1,33 @@
+import { z } from 'zod'
+import { RaritySchema } from './schema'
+
+// ================================
+// DECK FORMAT SCHEMAS
+// ================================
+
+/** Major Arcana, or one of the four Minor Arcana suits */
+export const SuitSchema = z.enum(['major', 'wands', 'cups', 'swords', 'pentacles'])
+
+export type Suit = z.infer<typeof SuitSchema>
+
+export const DeckFormatSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  minSize: z.number().int(),
+  maxSize: z.number().int(),
+  maxCopies: z.number().int(),
+  rarityLimits: z.partialRecord(RaritySchema, z.number().int()), // Most cards of a rarity, copies included
+  allowedSuits: z.array(SuitSchema).nullable(), // null allows every suit
+  singleElement: z.boolean(), // Every card must share one element
+})
+
+export type DeckFormat = z.infer<typeof DeckFormatSchema>
+
+export const DeckViolationSchema = z.object({
+  rule: z.enum(['min_size', 'max_size', 'copies', 'rarity', 'suit', 'element']),
+  message: z.string(),
+  cardIds: z.array(z.string()), // The offending cards, empty for size violations
+})
+
+export type DeckViolation = z.infer<typeof DeckViolationSchema>
@@ -0,0 +1,89 @@
+import { z } from 'zod'
+import { GAME_MODES, GameStateSchema, PlayerIdSchema, PlayTargetSchema } from '@/schemas/schema'
+
+// ================================
+// MULTIPLAYER MESSAGE SCHEMAS
+// ================================
+
+const MulliganActionSchema = z.object({
+  type: z.literal('mulligan'),
+  cardIds: z.array(z.string()),
+  actionId: z.string().optional(),
+})
+
+const PlayCardActionSchema = z.object({
+  type: z.literal('play_card'),
+  cardId: z.string(),
+  targetSlot: z.number().int().optional(),
+  target: PlayTargetSchema.optional(),
+  actionId: z.string().optional(),
+})
+
+const DeclareAttackActionSchema = z.object({
+  type: z.literal('declare_attack'),
+  attackerId: z.string(),
+  targetType: z.enum(['unit', 'player']),
+  targetId: z.string().optional(),
+  actionId: z.string().optional(),
+})
+
+const EndTurnActionSchema = z.object({
+  type: z.literal('end_turn'),
+  actionId: z.string().optional(),
+})
+
+// An action a seated player asks the server to apply; the server supplies the player id
+export const GameActionSchema = z.discriminatedUnion('type', [
+  MulliganActionSchema,
+  PlayCardActionSchema,
+  DeclareAttackActionSchema,
+  EndTurnActionSchema,
+])
+
+export type GameAction = z.infer<typeof GameActionSchema>
+
+// Everything a client may send over the game socket
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+  MulliganActionSchema,
+  PlayCardActionSchema,
+  DeclareAttackActionSchema,
+  EndTurnActionSchema,
+  z.object({ type: z.literal('heartbeat'), timestamp: z.number().optional() }),
+  // The client has applied every state update up to seq
+  z.object({ type: z.literal('ack'), seq: z.number().int().nonnegative() }),
+])
+
+export type ClientMessage = z.infer<typeof ClientMessageSchema>
+
+// House rules for a private game, agreed in a lobby
+export const GameRulesSchema = z.object({
+  gameMode: z.string().refine(mode => mode in GAME_MODES, 'Unknown game mode'),
+  startingHealth: z.number().int().min(10).max(40),
+  turnSeconds: z.number().int().min(30).max(300),
+  bankSeconds: z.number().int().min(0).max(300),
+  format: z.string(),
+})
+
+export type GameRules = z.infer<typeof GameRulesSchema>
+
+// A private game as the lobby started it: the rules plus both players' decks, as card ids
+export const LobbyMatchSchema = z.object({
+  matchId: z.string(),
+  rules: GameRulesSchema,
+  decks: z.object({ player1: z.array(z.string()), player2: z.array(z.string()) }),
+})
+
+export type LobbyMatch = z.infer<typeof LobbyMatchSchema>
+
+// What a lobby seals for each of its players: the match, and the one seat its holder may take
+export const LobbyTicketSchema = z.object({ seat: PlayerIdSchema, match: LobbyMatchSchema })
+
+export type LobbyTicket = z.infer<typeof LobbyTicketSchema>
+
+// The game as one seat is allowed to see it. Hidden cards are replaced by card backs and the
+// RNG is dropped so upcoming draws and orientations cannot be predicted.
+export const RedactedGameStateSchema = GameStateSchema.omit({ rng: true }).extend({
+  viewer: PlayerIdSchema.nullable(), // null for spectators; only delayed casters see hands
+})
+
+export type RedactedGameState = z.infer<typeof RedactedGameStateSchema>
@@ -0,0 +1,33 @@
+import { z } from 'zod'
+
+// ================================
+// PROFILE SYNC SCHEMAS
+// ================================
+
+/** Each piece of local progress that syncs on its own. Achievements live inside stats */
+export const ProfileSectionSchema = z.enum(['stats', 'quests', 'challenges', 'settings', 'decks'])
+
+export type ProfileSection = z.infer<typeof ProfileSectionSchema>
+
+export const ProfileEntrySchema = z.object({
+  version: z.number().int().nonnegative(), // Bumped by each device that changes the section
+  updatedAt: z.number(),
+  data: z.unknown(), // The section's localStorage value, parsed
+  // Sent with a changed section whose progress adds up: the data as of the device's last sync
+  // (null if it never synced), so the server can tell what the device gained since. Never stored.
+  base: z.unknown().optional(),
+})
+
+export type ProfileEntry = z.infer<typeof ProfileEntrySchema>
+
+export const ProfileSnapshotSchema = z.partialRecord(ProfileSectionSchema, ProfileEntrySchema)
+
+export type ProfileSnapshot = z.infer<typeof ProfileSnapshotSchema>
+
+export const ProfileSyncRequestSchema = z.object({
+  playerId: z.string().min(1).max(36),
+  name: z.string().min(1).max(100).optional(),
+  sections: ProfileSnapshotSchema,
+})
+
+export type ProfileSyncRequest = z.infer<typeof ProfileSyncRequestSchema>
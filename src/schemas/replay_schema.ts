@@ -0,0 +1,62 @@
+import { z } from 'zod'
+import { CardSchema, PlayerIdSchema, PlayTargetSchema } from './schema'
+
+// ================================
+// GAME REPLAY SCHEMAS
+// ================================
+
+export const ReplayActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('mulligan'),
+    playerId: PlayerIdSchema,
+    cardIds: z.array(z.string()),
+  }),
+  z.object({
+    type: z.literal('play_card'),
+    playerId: PlayerIdSchema,
+    cardId: z.string(),
+    targetSlot: z.number().optional(),
+    target: PlayTargetSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('declare_attack'),
+    playerId: PlayerIdSchema,
+    attackerId: z.string(),
+    targetType: z.enum(['unit', 'player']),
+    targetId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('end_turn'),
+    playerId: PlayerIdSchema,
+  }),
+])
+
+export type ReplayAction = z.infer<typeof ReplayActionSchema>
+
+export const GameReplaySchema = z.object({
+  version: z.number(),
+  id: z.string(),
+  // Seed for the game's RNG - with the deck lists this rebuilds the opening state
+  seed: z.number(),
+  gameMode: z.string(),
+  // Both decks in draw order at game start, with per-game card instance ids
+  decks: z.object({
+    player1: z.array(CardSchema),
+    player2: z.array(CardSchema),
+  }),
+  actions: z.array(ReplayActionSchema),
+  // Calendar date the zodiac season was read from; older replays fall back to startedAt
+  seasonDate: z.number().optional(),
+  result: z.enum(['player1_wins', 'player2_wins']).optional(),
+  startedAt: z.number(),
+  endedAt: z.number().optional(),
+})
+
+export type GameReplay = z.infer<typeof GameReplaySchema>
+
+export const ReplayStorageSchema = z.object({
+  version: z.number(),
+  replays: z.array(GameReplaySchema),
+})
+
+export type ReplayStorage = z.infer<typeof ReplayStorageSchema>
@@ -74,6 +74,70 @@ export const SpellEffectSchema = z.object({
   duration: z.number().optional(),
 })
 
+// Scripted effects: the structured `effects` block in card frontmatter. The effect system runs
+// these in place of parsing the prose of the ability with the same name.
+
+// A number, or X - the mana paid by an earlier payMana action in the same effect
+export const ScriptedAmountSchema = z.union([z.number(), z.literal('X')])
+
+export const ScriptedActionSchema = z.object({
+  type: z.enum([
+    'payMana',
+    'dealDamage',
+    'gainHealth',
+    'drawCards',
+    'statBuff',
+    'discardCards',
+    'summonUnit',
+    'destroyUnit',
+    'gainMana',
+    'healAllUnits',
+    'damageAllUnits',
+    'buffAllUnits',
+    'destroyAllUnits',
+    'addKeyword',
+    'returnFromGraveyard',
+    'resurrectUnit',
+  ]),
+  amount: ScriptedAmountSchema.optional(),
+  max: z.number().optional(), // Most mana a payMana X will take
+  target: z
+    .enum([
+      'self',
+      'player',
+      'opponent',
+      'all_friendly',
+      'all_enemy',
+      'all_units',
+      'any_target',
+      'enemy_unit',
+      'friendly_unit',
+    ])
+    .optional(),
+  stats: z
+    .object({ attack: ScriptedAmountSchema.optional(), health: ScriptedAmountSchema.optional() })
+    .optional(),
+  keyword: z.string().optional(),
+  duration: z.union([z.enum(['permanent', 'this_turn', 'end_of_turn']), z.number()]).optional(),
+})
+
+// All conditions must hold when the effect resolves, or it does nothing
+export const ScriptedConditionSchema = z.object({
+  check: z.enum(['mana', 'health', 'hand_size', 'unit_count']),
+  player: z.enum(['self', 'opponent']).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+})
+
+export const ScriptedEffectSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  orientation: z.enum(['upright', 'reversed', 'both']).optional(),
+  trigger: z.enum(['on_play', 'start_of_turn', 'end_of_turn', 'on_attack', 'on_death', 'passive']),
+  conditions: z.array(ScriptedConditionSchema).optional(),
+  actions: z.array(ScriptedActionSchema).min(1),
+})
+
 export const StatusEffectSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -109,9 +173,11 @@ export const CardSchema = z.object({
   // Spell-specific properties
   spellType: SpellTypeSchema.optional(),
   effects: z.array(SpellEffectSchema).optional(),
+  scriptedEffects: z.array(ScriptedEffectSchema).optional(),
 
   // Runtime state
   owner: PlayerIdSchema.optional(), // Which player owns this card
+  isHidden: z.boolean().optional(), // Card back standing in for a card this viewer may not see
   statusEffects: z.array(StatusEffectSchema).optional(),
   counters: z.record(z.string(), z.number()).optional(),
 
@@ -125,6 +191,7 @@ export const CardSchema = z.object({
 
   // Advanced esoteric mechanics
   astrologyBonus: z.number().optional(), // Bonus from zodiac alignments
+  seasonalBuff: z.object({ attack: z.number(), health: z.number() }).optional(), // Stats from its zodiac season
   tarotPower: z.number().optional(), // Special tarot energy accumulated
   mysticWard: z.boolean().optional(), // Protection from spells
   veilOfIllusion: z.boolean().optional(), // Cannot be targeted until attacks
@@ -154,6 +221,7 @@ export const CardMetadataSchema = z.object({
   abilities: z.array(AbilitySchema).optional(),
   spellType: SpellTypeSchema.optional(),
   effects: z.array(SpellEffectSchema).optional(),
+  scriptedEffects: z.array(ScriptedEffectSchema).optional(),
 })
 
 export const CardDataSchema = z.object({
@@ -174,6 +242,7 @@ export const PlayerSchema = z.object({
   spellMana: z.number(),
   hand: z.array(CardSchema),
   deck: z.array(CardSchema),
+  graveyard: z.array(CardSchema).optional(), // Destroyed units, discards and resolved spells, oldest first
   hasAttackToken: z.boolean(),
   mulliganComplete: z.boolean(),
   selectedForMulligan: z.array(z.string()),
@@ -181,6 +250,12 @@ export const PlayerSchema = z.object({
   actionsThisTurn: z.number(),
 })
 
+// Seeded RNG carried with the game so the same seed + actions replay identically
+export const RngStateSchema = z.object({
+  seed: z.number(), // Seed the game was created from (kept for replays/bug reports)
+  state: z.number(), // Current 32-bit generator state
+})
+
 export const GameStateSchema = z.object({
   round: z.number(),
   turn: z.number(),
@@ -197,6 +272,8 @@ export const GameStateSchema = z.object({
   passCount: z.number().default(0), // How many consecutive passes
   canRespond: z.boolean().default(false), // Can opponent respond to current action
   actionStack: z.array(z.any()).optional(), // Stack of pending actions
+  rng: RngStateSchema.optional(), // Deterministic randomness (orientation, shuffles)
+  seasonDate: z.number().optional(), // Calendar date (ms) the zodiac season is read from, pinned at start
 })
 
 // ================================
@@ -390,6 +467,12 @@ export const TargetRequirementSchema = z.object({
   count: z.union([z.number(), z.literal('any'), z.literal('all')]),
 })
 
+// The unit or player picked for a spell or on-play ability that says "target"
+export const PlayTargetSchema = z.object({
+  type: z.enum(['card', 'player']),
+  id: z.string(),
+})
+
 export const EffectContextSchema = z.object({
   gameState: GameStateSchema,
   source: CardSchema,
@@ -636,12 +719,17 @@ export type BattlefieldPosition = z.infer<typeof BattlefieldPositionSchema>
 export type Battlefield = z.infer<typeof BattlefieldSchema>
 export type Ability = z.infer<typeof AbilitySchema>
 export type SpellEffect = z.infer<typeof SpellEffectSchema>
+export type ScriptedAmount = z.infer<typeof ScriptedAmountSchema>
+export type ScriptedAction = z.infer<typeof ScriptedActionSchema>
+export type ScriptedCondition = z.infer<typeof ScriptedConditionSchema>
+export type ScriptedEffect = z.infer<typeof ScriptedEffectSchema>
 export type StatusEffect = z.infer<typeof StatusEffectSchema>
 export type Card = z.infer<typeof CardSchema>
 export type CardMetadata = z.infer<typeof CardMetadataSchema>
 export type CardData = z.infer<typeof CardDataSchema>
 export type GameBattlefield = z.infer<typeof GameBattlefieldSchema>
 export type Player = z.infer<typeof PlayerSchema>
+export type RngState = z.infer<typeof RngStateSchema>
 export type GameState = z.infer<typeof GameStateSchema>
 
 // Game events types
@@ -667,7 +755,8 @@ export type EventFilter = {
   }
   condition?: (event: GameEvent) => boolean
 }
-export type EventListener = (event: GameEvent) => void | Promise<void>
+/** Listeners get the state the event was emitted with, so each match sees its own game */
+export type EventListener = (event: GameEvent, gameState: GameState) => void | Promise<void>
 export type EventSubscription = {
   id: string
   filter: EventFilter
@@ -678,6 +767,7 @@ export type EventSubscription = {
 export type TriggerCondition = z.infer<typeof TriggerConditionSchema>
 export type ResourceCost = z.infer<typeof ResourceCostSchema>
 export type TargetRequirement = z.infer<typeof TargetRequirementSchema>
+export type PlayTarget = z.infer<typeof PlayTargetSchema>
 export type EffectContext = z.infer<typeof EffectContextSchema>
 export type EffectResult = z.infer<typeof EffectResultSchema>
 export type CardEffect = z.infer<typeof CardEffectSchema>
@@ -4,6 +4,15 @@ import { z } from 'zod'
 // GAME STATISTICS SCHEMAS
 // ================================
 
+/** One card leaving the player's hand: which card, on which round, and which way up */
+export const CardPlaySchema = z.object({
+  cardId: z.string(),
+  round: z.number(),
+  reversed: z.boolean(),
+})
+
+export type CardPlay = z.infer<typeof CardPlaySchema>
+
 export const GameRecordSchema = z.object({
   id: z.string(),
   result: z.enum(['win', 'loss']),
@@ -24,6 +33,12 @@ export const GameRecordSchema = z.object({
   playerHealthRemaining: z.number(),
   opponentHealthRemaining: z.number(),
   timestamp: z.number(),
+  replayId: z.string().optional(), // Saved replay of this game, if one was recorded
+  // Per-card tracking; missing on games recorded before it existed
+  deckCode: z.string().optional(), // Unnamed deck code of the cards played, absent for random decks
+  cardsInDeck: z.array(z.string()).optional(), // Base card ids, one per distinct card
+  cardsDrawn: z.array(z.string()).optional(),
+  cardPlays: z.array(CardPlaySchema).optional(),
 })
 
 export type GameRecord = z.infer<typeof GameRecordSchema>
@@ -55,6 +70,40 @@ export const PlayerStatsSchema = z.object({
 
 export type PlayerStats = z.infer<typeof PlayerStatsSchema>
 
+export const OrientationRecordSchema = z.object({
+  plays: z.number(),
+  wins: z.number(),
+})
+
+/** Lifetime record of one card across every game it was in the player's deck */
+export const CardStatsSchema = z.object({
+  cardId: z.string(),
+  games: z.number(),
+  wins: z.number(),
+  gamesDrawn: z.number(),
+  winsDrawn: z.number(),
+  gamesPlayed: z.number(),
+  winsPlayed: z.number(),
+  totalPlays: z.number(),
+  totalPlayRound: z.number(), // Sum of the rounds it was played on, for the average
+  upright: OrientationRecordSchema,
+  reversed: OrientationRecordSchema,
+})
+
+export type CardStats = z.infer<typeof CardStatsSchema>
+
+/** Lifetime record of one deck list, keyed by its unnamed deck code so renames keep the record */
+export const DeckStatsSchema = z.object({
+  deckCode: z.string(),
+  name: z.string(), // Name it was last played under
+  games: z.number(),
+  wins: z.number(),
+  totalRounds: z.number(),
+  lastPlayed: z.number(),
+})
+
+export type DeckStats = z.infer<typeof DeckStatsSchema>
+
 export const AchievementProgressSchema = z.object({
   id: z.string(),
   unlocked: z.boolean(),
@@ -71,6 +120,8 @@ export const StatsStorageSchema = z.object({
   stats: PlayerStatsSchema,
   recentGames: z.array(GameRecordSchema),
   achievements: z.array(AchievementProgressSchema),
+  cardStats: z.record(z.string(), CardStatsSchema).default({}),
+  deckStats: z.record(z.string(), DeckStatsSchema).default({}),
 })
 
 export type StatsStorage = z.infer<typeof StatsStorageSchema>
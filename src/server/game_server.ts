@@ -0,0 +1,161 @@
+import type { IncomingMessage } from 'node:http'
+import { type WebSocket, WebSocketServer } from 'ws'
+import { WEBSOCKET_CONFIG } from '@/config/websocket_config'
+import { GameLogger } from '@/lib/game_logger'
+import { getSeatTicketSecret, openLobbyTicket, verifySeatTicket } from '@/lib/seat_ticket'
+import type { LobbyMatch } from '@/schemas/multiplayer_schema'
+import { type PlayerId, PlayerIdSchema } from '@/schemas/schema'
+import { gameSessionService } from '@/services/game_session_service'
+import { ratingService } from '@/services/rating_service'
+
+// ================================
+// WEBSOCKET GAME SERVER
+// ================================
+// Standalone Node/Bun process hosting online games. Clients connect to
+//   ws://host:port/api/game/ws?gameId=...&playerId=player1|player2&token=...
+// adding &resume=<reconnectToken> after a drop to replay missed updates and &lobby=<ticket> with
+// their seat's own ticket for private lobby games, or watch with
+// ?gameId=...&spectate=true[&caster=<key>&delay=ms]. Only a key listed in CASTER_KEYS reveals both
+// hands, and only on a delay; anyone else watches face-down.
+// Matchmade players use their seat ticket as the token; only those games are rated, with each
+// seat's profile taken from its ticket rather than anything else the client sends.
+
+/**
+ * The lobby match from the URL: null when absent, undefined when unreadable or issued for another
+ * game or seat
+ */
+async function parseLobbyTicket(
+  raw: string | null,
+  gameId: string,
+  playerId: PlayerId,
+): Promise<LobbyMatch | null | undefined> {
+  if (raw === null) return null
+  const secret = getSeatTicketSecret()
+  const ticket = secret ? await openLobbyTicket(raw, secret) : null
+  return ticket?.match.matchId === gameId && ticket.seat === playerId ? ticket.match : undefined
+}
+
+function validatePlayerSession(token: string): boolean {
+  // Unticketed tokens only guard the seat against being taken over; they never touch the ladder
+  return token.length > 10
+}
+
+/**
+ * The profile a seat ticket binds to this seat, undefined for a plain token, or null for a
+ * ticket that was issued for another match or seat
+ */
+async function seatProfile(
+  token: string,
+  gameId: string,
+  playerId: string,
+): Promise<string | undefined | null> {
+  const secret = getSeatTicketSecret()
+  const claims = secret ? await verifySeatTicket(token, secret) : null
+  if (!claims) return undefined
+  return claims.matchId === gameId && claims.seat === playerId ? claims.profileId : null
+}
+
+async function handleConnection(socket: WebSocket, request: IncomingMessage): Promise<void> {
+  const url = new URL(request.url ?? '/', 'http://localhost')
+  const gameId = url.searchParams.get('gameId')
+
+  if (url.pathname !== WEBSOCKET_CONFIG.WS_PATH || !gameId) {
+    socket.close(1008, 'Missing required parameters')
+    return
+  }
+
+  if (url.searchParams.get('spectate') === 'true') {
+    const options = {
+      casterKey: url.searchParams.get('caster'),
+      delayMs: Number(url.searchParams.get('delay')) || 0,
+    }
+    if (!gameSessionService.joinAsSpectator(gameId, socket, options)) {
+      socket.close(1008, 'Game not found')
+      return
+    }
+    socket.on('message', data => gameSessionService.handleSpectatorMessage(socket, String(data)))
+    socket.on('close', () => gameSessionService.removeSpectator(gameId, socket))
+    return
+  }
+
+  const playerId = PlayerIdSchema.safeParse(url.searchParams.get('playerId'))
+  const token = url.searchParams.get('token') ?? ''
+  const reconnectToken = url.searchParams.get('resume')
+  if (!playerId.success || !validatePlayerSession(token)) {
+    socket.close(1008, 'Unauthorized')
+    return
+  }
+
+  // Buffer anything sent before the seat is registered so no action is dropped
+  const pending: string[] = []
+  const onEarlyMessage = (data: unknown) => pending.push(String(data))
+  socket.on('message', onEarlyMessage)
+
+  const lobby = await parseLobbyTicket(url.searchParams.get('lobby'), gameId, playerId.data)
+  if (lobby === undefined) {
+    socket.close(1008, 'Invalid lobby ticket')
+    return
+  }
+
+  const profileId = await seatProfile(token, gameId, playerId.data)
+  if (profileId === null) {
+    socket.close(1008, 'Seat ticket is for another game')
+    return
+  }
+
+  // A resume that can't be honoured (stale token, server restart) falls back to a full join
+  const joined =
+    (reconnectToken !== null &&
+      gameSessionService.resumeSeat(gameId, playerId.data, reconnectToken, socket)) ||
+    (await gameSessionService.joinAsPlayer(gameId, playerId.data, token, socket, profileId, lobby))
+  socket.off('message', onEarlyMessage)
+  if (!joined) {
+    socket.close(1008, 'Seat already taken or lobby does not match')
+    return
+  }
+
+  const handleMessage = (raw: string) =>
+    gameSessionService.handleMessage(gameId, playerId.data, raw).catch(error => {
+      GameLogger.error(`WebSocket message error for ${playerId.data}:`, error)
+    })
+
+  socket.on('message', data => handleMessage(String(data)))
+  socket.on('close', () => gameSessionService.handleDisconnect(gameId, playerId.data, socket))
+  socket.on('error', error => GameLogger.error(`WebSocket error for ${playerId.data}:`, error))
+
+  for (const raw of pending) handleMessage(raw)
+}
+
+/** Update the ranked ladder when a matchmade game ends */
+function rateFinishedGames(): void {
+  gameSessionService.onGameEnd(({ gameId, winner, profiles, ranked }) => {
+    if (!ranked) return
+    const winnerProfile = profiles[winner]
+    const loserProfile = profiles[winner === 'player1' ? 'player2' : 'player1']
+    if (!winnerProfile || !loserProfile) return
+
+    ratingService.recordResult(winnerProfile, loserProfile).catch(error => {
+      GameLogger.error(`Failed to rate game ${gameId}:`, error)
+    })
+  })
+}
+
+/** Start listening for game connections; resolves once the port is bound */
+export function startGameServer(port = WEBSOCKET_CONFIG.SERVER_PORT): Promise<WebSocketServer> {
+  rateFinishedGames()
+  return new Promise(resolve => {
+    const server = new WebSocketServer({ port }, () => {
+      GameLogger.system(
+        `Game server listening on ws://localhost:${port}${WEBSOCKET_CONFIG.WS_PATH}`,
+      )
+      resolve(server)
+    })
+
+    server.on('connection', (socket, request) => {
+      handleConnection(socket, request).catch(error => {
+        GameLogger.error('Failed to set up game connection:', error)
+        socket.close(1011, 'Server error')
+      })
+    })
+  })
+}
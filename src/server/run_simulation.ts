@@ -0,0 +1,72 @@
+import { writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import { createZodiacDeck } from '@/lib/card_loader'
+import { GameLogger } from '@/lib/game_logger'
+import { createRandomFn, createRng, createSeed } from '@/lib/rng'
+import { AI_PERSONALITIES, type AILevel } from '@/services/ai_service'
+import { type SimulationSide, simulationService } from '@/services/simulation_service'
+
+// Entry point for `bun run simulate`, e.g.
+//   bun run simulate --games 200 --p1 hard --p2 normal --deck1 aries --format csv --out cards.csv
+// Decks are a zodiac class name or "random" (a fresh random deck every game).
+
+const { values } = parseArgs({
+  options: {
+    games: { type: 'string', default: '100' },
+    p1: { type: 'string', default: 'normal' },
+    p2: { type: 'string', default: 'normal' },
+    deck1: { type: 'string', default: 'random' },
+    deck2: { type: 'string', default: 'random' },
+    seed: { type: 'string' },
+    'max-rounds': { type: 'string' },
+    format: { type: 'string', default: 'json' },
+    out: { type: 'string' },
+  },
+})
+
+const seed = values.seed ? Number(values.seed) : createSeed()
+
+function parseLevel(level: string): AILevel {
+  if (!(level in AI_PERSONALITIES)) {
+    throw new Error(
+      `Unknown AI level "${level}". Use one of: ${Object.keys(AI_PERSONALITIES).join(', ')}`,
+    )
+  }
+  return level as AILevel
+}
+
+function buildSide(level: string, deck: string, index: number): SimulationSide {
+  const personality = parseLevel(level)
+  return {
+    name: `${personality}/${deck}`,
+    personality,
+    deck:
+      deck === 'random'
+        ? undefined
+        : createZodiacDeck(deck, 40, createRandomFn(createRng(seed + index))),
+  }
+}
+
+const games = Number(values.games)
+const sides: [SimulationSide, SimulationSide] = [
+  buildSide(values.p1, values.deck1, 1),
+  buildSide(values.p2, values.deck2, 2),
+]
+
+GameLogger.setEnabled(false)
+const report = await simulationService.run({
+  games,
+  sides,
+  seed,
+  maxRounds: values['max-rounds'] ? Number(values['max-rounds']) : undefined,
+  onGameComplete: (_, index) => process.stderr.write(`\rgame ${index + 1}/${games}`),
+})
+process.stderr.write(`\nseed ${seed}\n`)
+
+const output =
+  values.format === 'csv' ? simulationService.toCSV(report) : JSON.stringify(report, null, 2)
+if (values.out) {
+  writeFileSync(values.out, `${output}\n`)
+} else {
+  process.stdout.write(`${output}\n`)
+}
@@ -0,0 +1,13 @@
+import { startGameServer } from '@/server/game_server'
+import { gameSessionService } from '@/services/game_session_service'
+
+// Entry point for `bun run game-server`
+const server = await startGameServer()
+
+const shutdown = () => {
+  gameSessionService.reset()
+  server.close(() => process.exit(0))
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
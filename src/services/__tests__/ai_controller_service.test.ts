@@ -29,19 +29,7 @@ vi.mock('@/lib/game_logger', () => ({
     },
 }))
 
-// Mock combat and battlefield services with minimal implementations
-vi.mock('../combat_service', () => ({
-    combatService: {
-        processAttack: vi.fn().mockResolvedValue({
-            attackerDamage: 0,
-            targetDamage: 3,
-            attackerSurvived: true,
-            targetSurvived: false,
-        }),
-        getValidTargets: vi.fn().mockReturnValue({ units: [], canAttackNexus: true }),
-    },
-}))
-
+// Mock battlefield service with minimal implementations
 vi.mock('../battlefield_service', () => ({
     battlefieldService: {
         placeUnit: vi.fn((battlefield, card, player, slot) => {
@@ -83,15 +71,28 @@ vi.mock('../ai_service', () => ({
     },
 }))
 
-vi.mock('@/services/combat_service', () => ({
+// Attack legality stays real so the AI only sees the attacks the rules allow
+vi.mock('@/services/combat_service', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/services/combat_service')>()),
     declareAttack: vi.fn((state) => state),
 }))
 
 vi.mock('@/lib/game_logic', () => ({
+    canPlayCard: vi.fn((state, card) => {
+        const player = state[state.activePlayer]
+        return card.cost <= player.mana + player.spellMana
+    }),
     endTurn: vi.fn((state) => ({
         ...state,
         activePlayer: state.activePlayer === 'player1' ? 'player2' : 'player1',
     })),
+    playCard: vi.fn(async (state, card) => ({
+        ...state,
+        player2: {
+            ...state.player2,
+            hand: state.player2.hand.filter((c: { id: string }) => c.id !== card.id),
+        },
+    })),
 }))
 
 describe('AIControllerService', () => {
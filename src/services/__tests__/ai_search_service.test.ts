@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest'
+import { AISearchService } from '../ai_search_service'
+import { AIControllerService } from '../ai_controller_service'
+import { AI_PERSONALITIES } from '../ai_service'
+import { previewPlayCard } from '@/lib/game_logic'
+import { createTestCard, createTestGameState, createTestPlayer } from '../../test_utils'
+import type { Card, GameState } from '../../schemas/schema'
+
+const unit = (id: string, attack: number, health: number, overrides: Partial<Card> = {}) =>
+    createTestCard({
+        id,
+        name: id,
+        attack,
+        health,
+        currentHealth: health,
+        hasSummoningSickness: false,
+        hasAttackedThisTurn: false,
+        ...overrides,
+    })
+
+const boardState = (mine: Card[], theirs: Card[], overrides: Partial<GameState> = {}) => {
+    const state = createTestGameState({
+        player1: createTestPlayer('player1', { hand: [] }),
+        player2: createTestPlayer('player2', { hand: [], hasAttackToken: false }),
+        ...overrides,
+    })
+    mine.forEach((card, slot) => {
+        state.battlefield.playerUnits[slot] = { ...card, owner: 'player1' }
+    })
+    theirs.forEach((card, slot) => {
+        state.battlefield.enemyUnits[slot] = { ...card, owner: 'player2' }
+    })
+    return state
+}
+
+describe('AISearchService', () => {
+    const search = new AISearchService()
+    const seeded = () => {
+        let seed = 7
+        return () => {
+            seed = (seed * 16807) % 2147483647
+            return seed / 2147483647
+        }
+    }
+
+    it('finds lethal through a blocker it could trade with', async () => {
+        const state = boardState([unit('striker', 3, 3), unit('finisher', 2, 2)], [unit('wall', 1, 5)], {
+            player2: createTestPlayer('player2', { hand: [], health: 5, hasAttackToken: false }),
+        })
+
+        const plan = await search.planTurn(state, 'player1', { timeBudget: 1000, maxIterations: 300, random: seeded() })
+
+        expect(plan.score).toBe(1)
+        expect(plan.actions).toEqual(
+            expect.arrayContaining([
+                { type: 'declare_attack', attackerId: 'striker', targetType: 'player' },
+                { type: 'declare_attack', attackerId: 'finisher', targetType: 'player' },
+            ]),
+        )
+    })
+
+    it('hands the thread back while it searches', async () => {
+        const state = boardState([unit('striker', 3, 3)], [unit('wall', 1, 5)])
+        let ticked = false
+        setTimeout(() => {
+            ticked = true
+        }, 0)
+
+        const plan = await search.planTurn(state, 'player1', { timeBudget: 60, random: seeded() })
+
+        expect(ticked).toBe(true)
+        expect(plan.iterations).toBeGreaterThan(1)
+    })
+
+    it('drops a seasonal aura from the playout once its source has died', () => {
+        // Leo season: the lion gives the squire beside it +1 attack while it lives
+        const state = boardState(
+            [
+                unit('lion', 1, 1, { zodiacClass: 'leo', element: 'fire' }),
+                unit('squire', 2, 2, { zodiacClass: 'cancer', element: 'water' }),
+            ],
+            [unit('wall', 5, 5, { element: 'earth' })],
+            { seasonDate: new Date(2025, 7, 1).getTime() },
+        )
+        state.player1.hasAttackToken = true
+
+        const lionDead = search.applyAction(state, {
+            type: 'declare_attack',
+            attackerId: 'lion',
+            targetType: 'unit',
+            targetId: 'wall',
+        })
+        if (!lionDead) throw new Error('attack rejected')
+        const after = search.applyAction(lionDead, { type: 'declare_attack', attackerId: 'squire', targetType: 'player' })
+
+        expect(lionDead.battlefield.playerUnits[0]).toBeNull()
+        expect(after?.player2.health).toBe(state.player2.health - 2)
+    })
+
+    it('only offers taunt units as attack targets', () => {
+        const state = boardState(
+            [unit('striker', 3, 3), unit('sleepy', 3, 3, { hasSummoningSickness: true })],
+            [unit('guard', 1, 2, { keywords: ['taunt'] }), unit('other', 1, 1)],
+        )
+
+        expect(search.getActions(state, 'player1')).toEqual([
+            { type: 'declare_attack', attackerId: 'striker', targetType: 'unit', targetId: 'guard' },
+        ])
+    })
+
+    it('plans only with cards that were in hand when the turn began', () => {
+        const state = boardState([], [])
+        state.player1.hand = [unit('known', 1, 1, { cost: 1 }), unit('drawn', 1, 1, { cost: 1 })]
+
+        const actions = search.getActions(state, 'player1', new Set(['known']))
+
+        expect(actions).toEqual([{ type: 'play_card', cardId: 'known' }])
+    })
+
+    it('scores positions by board, life and the threat of lethal next turn', () => {
+        const even = boardState([], [])
+        const ahead = boardState([unit('big', 5, 5)], [])
+        // Turn 3 hands over to turn 4 in the same round, so player2's token still stands
+        const threatened = boardState([], [unit('big', 6, 6)], {
+            round: 2,
+            turn: 3,
+            player1: createTestPlayer('player1', { hand: [], health: 5, hasAttackToken: false }),
+            player2: createTestPlayer('player2', { hand: [], hasAttackToken: true }),
+        })
+
+        expect(search.evaluate(even, 'player1')).toBeCloseTo(0.5)
+        expect(search.evaluate(ahead, 'player1')).toBeGreaterThan(0.5)
+        expect(search.evaluate(threatened, 'player1')).toBeLessThan(0.05)
+    })
+})
+
+describe('previewPlayCard', () => {
+    it('plays a card onto a copy of the state', () => {
+        const card = unit('newcomer', 2, 2, { cost: 2, hasSummoningSickness: undefined })
+        const state = boardState([], [])
+        state.player1.hand = [card]
+
+        const after = previewPlayCard(state, card)
+
+        expect(after.battlefield.playerUnits[0]).toMatchObject({ id: 'newcomer', hasSummoningSickness: true })
+        expect(after.player1.mana).toBe(1)
+        expect(after.player1.hand).toHaveLength(0)
+        expect(state.player1.hand).toHaveLength(1)
+        expect(state.battlefield.playerUnits[0]).toBeNull()
+    })
+})
+
+describe('search-based AI controller', () => {
+    it('plays the searched line for real and ends the turn', async () => {
+        const state = boardState([unit('striker', 4, 4)], [unit('wall', 1, 5)], {
+            player2: createTestPlayer('player2', { hand: [], health: 4, hasAttackToken: false }),
+        })
+        const recordAction = vi.fn()
+        const controller = new AIControllerService({
+            playerId: 'player1',
+            personality: { ...AI_PERSONALITIES.expert, searchBudget: 50 },
+            thinkingDelays: false,
+            recordAction,
+        })
+
+        const after = await controller.executeAITurn(state)
+
+        expect(after.player2.health).toBe(0)
+        expect(recordAction).toHaveBeenCalledWith({
+            type: 'declare_attack',
+            playerId: 'player1',
+            attackerId: 'striker',
+            targetType: 'player',
+        })
+        expect(recordAction).toHaveBeenLastCalledWith({ type: 'end_turn', playerId: 'player1' })
+    })
+})
@@ -389,6 +389,28 @@ describe('AstrologyService', () => {
 
             expect(bonus).toBeGreaterThan(1.5) // Multiple bonuses stacked
         })
+
+        it('should turn the multiplier into whole attack for sacred geometry units', () => {
+            const card = createTestCard({ id: 'architect', attack: 5 })
+
+            expect(astrologyService.getSacredGeometryBonus(card, { slot: 0, player: 'player1' }, battlefield)).toBe(0)
+            expect(astrologyService.getSacredGeometryBonus(card, { slot: 2, player: 'player1' }, battlefield)).toBe(1)
+        })
+    })
+
+    describe('Lunar Cycle', () => {
+        it('should advance the moon one phase per round', () => {
+            const phases = [1, 2, 3, 4, 5].map(round => astrologyService.getLunarPhaseForRound(round))
+
+            expect(phases).toEqual(['new_moon', 'waxing', 'full_moon', 'waning', 'new_moon'])
+        })
+
+        it('should bless units most under a full moon', () => {
+            expect(astrologyService.getLunarBlessingBonus(1)).toBe(0)
+            expect(astrologyService.getLunarBlessingBonus(2)).toBe(1)
+            expect(astrologyService.getLunarBlessingBonus(3)).toBe(2)
+            expect(astrologyService.getLunarBlessingBonus(4)).toBe(1)
+        })
     })
 
     describe('Zodiac Compatibility', () => {
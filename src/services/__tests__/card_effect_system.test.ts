@@ -3,8 +3,18 @@ vi.unmock('@/services/card_effect_system')
 vi.unmock('@/services/event_manager')
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { CardEffectSystem, createEffect } from '../card_effect_system'
-import type { Card, CardEffect, EffectContext, GameEvent, GameState, TriggeredAbility } from '@/schemas/schema'
+import { produce } from 'immer'
+import { CardEffectSystem, createEffect, findScriptedEffect } from '../card_effect_system'
+import type {
+    Card,
+    CardEffect,
+    EffectContext,
+    GameEvent,
+    GameState,
+    ScriptedEffect,
+    TriggeredAbility,
+} from '@/schemas/schema'
+import { createRng } from '@/lib/rng'
 import { createTestGameState, createTestCard } from '@/test_utils'
 
 // Helper to create complete GameEvent with all required fields
@@ -236,10 +246,10 @@ describe('CardEffectSystem', () => {
                 id: 'event-1',
                 type: 'unit_summoned',
                 source: { type: 'card', id: 'trigger-card', name: 'Trigger Card' },
-                data: { gameState },
+                data: {},
             }, gameState)
 
-            await effectSystem.processTriggeredAbilities(event)
+            await effectSystem.processTriggeredAbilities(event, gameState)
 
             // Should complete without errors
             expect(true).toBe(true)
@@ -264,11 +274,11 @@ describe('CardEffectSystem', () => {
                 id: 'event-2',
                 type: 'card_played',
                 source: { type: 'card', id: 'other-card', name: 'Other Card' },
-                data: { gameState },
+                data: {},
             }, gameState)
 
             // Should not trigger (different event type)
-            await effectSystem.processTriggeredAbilities(event)
+            await effectSystem.processTriggeredAbilities(event, gameState)
             expect(true).toBe(true)
         })
 
@@ -291,11 +301,11 @@ describe('CardEffectSystem', () => {
                 id: 'event-3',
                 type: 'unit_summoned',
                 source: { type: 'card', id: 'optional-card', name: 'Optional Card' },
-                data: { gameState },
+                data: {},
             }, gameState)
 
             // Should skip optional abilities
-            await effectSystem.processTriggeredAbilities(event)
+            await effectSystem.processTriggeredAbilities(event, gameState)
             expect(true).toBe(true)
         })
 
@@ -332,12 +342,41 @@ describe('CardEffectSystem', () => {
                 id: 'event-4',
                 type: 'turn_start',
                 source: { type: 'system', id: 'game', name: 'Game' },
-                data: { gameState },
+                data: {},
             }, gameState)
 
-            await effectSystem.processTriggeredAbilities(event)
+            await effectSystem.processTriggeredAbilities(event, gameState)
             expect(true).toBe(true)
         })
+
+        it('resolves abilities against the state of the match that emitted the event', async () => {
+            const card = createTestCard({ id: 'match-a-card' })
+            effectSystem.registerCardAbilities(card, [
+                {
+                    id: 'test-ability-isolated',
+                    name: 'On Turn Start',
+                    description: 'Draw a card',
+                    trigger: { event: 'turn_start' },
+                    effect: createEffect.drawCards(1),
+                    optional: false,
+                },
+            ])
+            const matchA = produce(gameState, draft => {
+                draft.player1.hand.push(card)
+            })
+            const matchB = createTestGameState()
+            const execute = vi.spyOn(effectSystem, 'executeEffect')
+
+            const event = createTestGameEvent({ type: 'turn_start' }, matchB)
+
+            // The card only exists in match A, so match B's turn must not fire it
+            await effectSystem.processTriggeredAbilities(event, matchB)
+            expect(execute).not.toHaveBeenCalled()
+
+            await effectSystem.processTriggeredAbilities(event, matchA)
+            expect(execute).toHaveBeenCalledTimes(1)
+            expect(execute.mock.calls[0][1].gameState).toBe(matchA)
+        })
     })
 
     describe('Persistent Effects', () => {
@@ -457,6 +496,313 @@ describe('CardEffectSystem', () => {
                 expect(result.newGameState).toBeDefined()
             })
         })
+
+        it('should give summoned tokens ids that replay from the same seed', async () => {
+            const summon = async (seed: number) => {
+                const context: EffectContext = {
+                    gameState: { ...gameState, rng: createRng(seed) },
+                    source: createTestCard({ id: 'test-card', owner: 'player1' }),
+                }
+                const result = await effectSystem.executeEffect(createEffect.summonToken(1, 1), context)
+                return result.newGameState?.battlefield.playerUnits.find(unit => unit?.name === 'Token')?.id
+            }
+
+            const first = await summon(7)
+            expect(first).toMatch(/^token_/)
+            expect(await summon(7)).toBe(first)
+            expect(await summon(8)).not.toBe(first)
+        })
+    })
+
+    describe('Graveyard', () => {
+        // Description-only effects go through the ability parser, as card abilities do in play
+        const abilityEffect = (description: string): CardEffect => ({
+            id: `ability-${description}`,
+            name: 'Test Ability',
+            description,
+            type: 'instant',
+            execute: () => ({ success: false }),
+        })
+
+        const sourceFor = (owner: 'player1' | 'player2') =>
+            createTestCard({ id: 'source-card', owner })
+
+        it('sends destroyed units to their owner\'s graveyard and lets tokens vanish', async () => {
+            gameState.battlefield.playerUnits[0] = createTestCard({
+                id: 'ally',
+                owner: 'player1',
+                currentHealth: 1,
+                hasSummoningSickness: true,
+            })
+            gameState.battlefield.enemyUnits[2] = createTestCard({ id: 'enemy', owner: 'player2' })
+            gameState.battlefield.enemyUnits[3] = createTestCard({ id: 'token_1', owner: 'player2' })
+
+            const result = await effectSystem.executeEffect(abilityEffect('Destroy all units'), {
+                gameState,
+                source: sourceFor('player1'),
+            })
+
+            const state = result.newGameState!
+            expect(state.battlefield.playerUnits.every(u => u === null)).toBe(true)
+            expect(state.battlefield.enemyUnits.every(u => u === null)).toBe(true)
+            expect(state.player1.graveyard?.map(c => c.id)).toEqual(['ally'])
+            expect(state.player1.graveyard?.[0].currentHealth).toBeUndefined()
+            expect(state.player1.graveyard?.[0].hasSummoningSickness).toBeUndefined()
+            expect(state.player2.graveyard?.map(c => c.id)).toEqual(['enemy'])
+        })
+
+        it('puts units killed by damage into the graveyard', async () => {
+            gameState.battlefield.enemyUnits[0] = createTestCard({ id: 'weak', currentHealth: 2 })
+            gameState.battlefield.enemyUnits[1] = createTestCard({ id: 'sturdy', health: 5, currentHealth: 5 })
+
+            const result = await effectSystem.executeEffect(
+                abilityEffect('Deal 2 damage to all enemy units'),
+                { gameState, source: sourceFor('player1') },
+            )
+
+            expect(result.newGameState!.player2.graveyard?.map(c => c.id)).toEqual(['weak'])
+            expect(result.newGameState!.battlefield.enemyUnits[1]?.currentHealth).toBe(3)
+        })
+
+        it('discards cards from hand into the graveyard', async () => {
+            const hand = gameState.player1.hand.map(c => c.id)
+
+            const result = await effectSystem.executeEffect(abilityEffect('Discard your hand'), {
+                gameState,
+                source: sourceFor('player1'),
+            })
+
+            expect(result.newGameState!.player1.hand).toHaveLength(0)
+            expect(result.newGameState!.player1.graveyard?.map(c => c.id).sort()).toEqual(hand.sort())
+        })
+
+        it('returns the most recent unit from the graveyard to hand', async () => {
+            gameState.player1.graveyard = [
+                createTestCard({ id: 'old-unit' }),
+                createTestCard({ id: 'recent-unit' }),
+                createTestCard({ id: 'spent-spell', type: 'spell' }),
+            ]
+
+            const result = await effectSystem.executeEffect(
+                abilityEffect('Return a unit from your graveyard to hand'),
+                { gameState, source: sourceFor('player1') },
+            )
+
+            const state = result.newGameState!
+            expect(state.player1.hand.map(c => c.id)).toContain('recent-unit')
+            expect(state.player1.graveyard?.map(c => c.id)).toEqual(['old-unit', 'spent-spell'])
+        })
+
+        it('resurrects every dead unit to its owner\'s side with Judgement', async () => {
+            gameState.player1.graveyard = [createTestCard({ id: 'mine', health: 4 })]
+            gameState.player2.graveyard = [createTestCard({ id: 'theirs', health: 6 })]
+
+            const result = await effectSystem.executeEffect(
+                abilityEffect(
+                    "Return all units that died this game to the battlefield under their owner's control with 1 health",
+                ),
+                { gameState, source: sourceFor('player1') },
+            )
+
+            const state = result.newGameState!
+            expect(state.battlefield.playerUnits[0]).toMatchObject({
+                id: 'mine',
+                currentHealth: 1,
+                owner: 'player1',
+                hasSummoningSickness: true,
+            })
+            expect(state.battlefield.enemyUnits[0]).toMatchObject({ id: 'theirs', owner: 'player2' })
+            expect(state.player1.graveyard).toEqual([])
+            expect(state.player2.graveyard).toEqual([])
+        })
+    })
+
+    describe('Keywords', () => {
+        const abilityEffect = (description: string): CardEffect => ({
+            id: `ability-${description}`,
+            name: 'Test Ability',
+            description,
+            type: 'instant',
+            execute: () => ({ success: false }),
+        })
+
+        const spell = createTestCard({ id: 'bolt', type: 'spell', owner: 'player1' })
+
+        it('boosts spell damage by one per friendly spell_damage unit', async () => {
+            gameState.battlefield.playerUnits[0] = createTestCard({ id: 'adept', keywords: ['spell_damage'] })
+            gameState.battlefield.playerUnits[1] = createTestCard({ id: 'sage', keywords: ['Spell Damage'] })
+            gameState.battlefield.enemyUnits[0] = createTestCard({ id: 'enemy', keywords: ['spell_damage'] })
+
+            const result = await effectSystem.executeEffect(abilityEffect('Deal 2 damage to the opponent'), {
+                gameState,
+                source: spell,
+            })
+
+            expect(result.newGameState!.player2.health).toBe(16)
+        })
+
+        it('does not boost damage from units', async () => {
+            gameState.battlefield.playerUnits[0] = createTestCard({ id: 'adept', keywords: ['spell_damage'] })
+            gameState.battlefield.enemyUnits[0] = createTestCard({ id: 'enemy', currentHealth: 3 })
+
+            const result = await effectSystem.executeEffect(abilityEffect('Deal 2 damage to all enemy units'), {
+                gameState,
+                source: createTestCard({ id: 'soldier', owner: 'player1' }),
+            })
+
+            expect(result.newGameState!.battlefield.enemyUnits[0]?.currentHealth).toBe(1)
+        })
+
+        it('protects mystical ward units from targeted spells only', async () => {
+            gameState.battlefield.enemyUnits[0] = createTestCard({ id: 'warded', keywords: ['mystical_ward'] })
+            gameState.battlefield.enemyUnits[1] = createTestCard({ id: 'blessed', mysticWard: true })
+
+            const targeted = await effectSystem.executeEffect(createEffect.destroyUnit('warded'), {
+                gameState,
+                source: spell,
+            })
+            expect(targeted.newGameState!.battlefield.enemyUnits[0]?.id).toBe('warded')
+
+            const fromUnit = await effectSystem.executeEffect(createEffect.destroyUnit('blessed'), {
+                gameState,
+                source: createTestCard({ id: 'assassin', owner: 'player1' }),
+            })
+            expect(fromUnit.newGameState!.battlefield.enemyUnits[1]).toBeNull()
+
+            const sweep = await effectSystem.executeEffect(abilityEffect('Destroy all units'), {
+                gameState,
+                source: spell,
+            })
+            expect(sweep.newGameState!.battlefield.enemyUnits.every(u => u === null)).toBe(true)
+        })
+
+        it('times abilities by their text, then by battlecry and deathrattle keywords', () => {
+            const plain = createTestCard()
+            const deathrattle = createTestCard({ keywords: ['deathrattle'] })
+            const both = createTestCard({ keywords: ['battlecry', 'deathrattle'] })
+
+            expect(effectSystem.getAbilityTriggers(plain, 'Draw a card')).toEqual(['on_play'])
+            expect(effectSystem.getAbilityTriggers(plain, 'Deathrattle: Draw a card')).toEqual(['on_death'])
+            expect(effectSystem.getAbilityTriggers(deathrattle, 'Draw a card')).toEqual(['on_death'])
+            expect(effectSystem.getAbilityTriggers(deathrattle, 'Battlecry: Draw a card')).toEqual(['on_play'])
+            expect(effectSystem.getAbilityTriggers(both, 'Draw a card')).toEqual(['on_play', 'on_death'])
+        })
+
+        it('resolves deathrattles of fallen units, chaining into further deaths', async () => {
+            gameState.player1.health = 10
+            gameState.battlefield.playerUnits[0] = createTestCard({
+                id: 'martyr',
+                owner: 'player1',
+                abilities: [{ name: 'Last Rites', description: 'Deathrattle: Deal 1 damage to all enemy units' }],
+            })
+            gameState.battlefield.enemyUnits[0] = createTestCard({
+                id: 'frail',
+                owner: 'player2',
+                currentHealth: 1,
+                keywords: ['deathrattle'],
+                abilities: [{ name: 'Parting Gift', description: 'Gain 3 health' }],
+            })
+            gameState.battlefield.enemyUnits[1] = createTestCard({ id: 'sturdy', owner: 'player2' })
+
+            const after = produce(gameState, draft => {
+                draft.battlefield.playerUnits[0] = null
+            })
+            const result = await effectSystem.resolveDeathrattles(gameState, after)
+
+            expect(result.battlefield.enemyUnits[0]).toBeNull()
+            expect(result.battlefield.enemyUnits[1]?.currentHealth).toBe(2)
+            expect(result.player2.health).toBe(23)
+            expect(result.player1.health).toBe(10)
+        })
+    })
+
+    describe('Scripted Effects', () => {
+        const leapOfFaith: ScriptedEffect = {
+            name: 'Leap of Faith',
+            orientation: 'upright',
+            trigger: 'on_play',
+            actions: [
+                { type: 'payMana', amount: 'X' },
+                { type: 'statBuff', target: 'self', stats: { attack: 'X', health: 'X' } },
+            ],
+        }
+        const abilityEffect = (name: string, description: string): CardEffect => ({
+            id: `ability-${name}`,
+            name,
+            description,
+            type: 'instant',
+            execute: () => ({ success: false }),
+        })
+
+        it('prefers the script over the ability prose', async () => {
+            const source = createTestCard({
+                id: 'oracle',
+                owner: 'player1',
+                scriptedEffects: [
+                    { name: 'Omen', trigger: 'on_play', actions: [{ type: 'dealDamage', amount: 3, target: 'opponent' }] },
+                ],
+            })
+
+            const result = await effectSystem.executeEffect(abilityEffect('Omen', 'Something unreadable happens'), {
+                gameState,
+                source,
+            })
+
+            expect(result.newGameState!.player2.health).toBe(17)
+        })
+
+        it('pays X mana and buffs the card by the amount paid', async () => {
+            const fool = createTestCard({ id: 'fool', owner: 'player1', attack: 0, health: 1, scriptedEffects: [leapOfFaith] })
+            gameState = produce(gameState, draft => {
+                draft.player1.mana = 3
+                draft.player1.spellMana = 1
+                draft.battlefield.playerUnits[0] = fool
+            })
+
+            const result = await effectSystem.executeEffect(abilityEffect('Leap of Faith', 'Pay X mana'), {
+                gameState,
+                source: fool,
+            })
+
+            expect(result.newGameState!.player1.mana).toBe(0)
+            expect(result.newGameState!.player1.spellMana).toBe(0)
+            expect(result.newGameState!.battlefield.playerUnits[0]?.attack).toBe(4)
+        })
+
+        it('ignores a script written for the other orientation', () => {
+            const fool = createTestCard({ id: 'fool', isReversed: true, scriptedEffects: [leapOfFaith] })
+
+            expect(findScriptedEffect(fool, 'Leap of Faith')).toBeUndefined()
+        })
+
+        it('does nothing when its conditions are not met', async () => {
+            const source = createTestCard({
+                id: 'hermit',
+                owner: 'player1',
+                scriptedEffects: [
+                    {
+                        name: 'Solitude',
+                        trigger: 'on_play',
+                        conditions: [{ check: 'unit_count', max: 0 }],
+                        actions: [{ type: 'drawCards', amount: 2 }],
+                    },
+                ],
+            })
+            gameState.battlefield.playerUnits[0] = createTestCard({ id: 'friend' })
+            const deckSize = gameState.player1.deck.length
+
+            const result = await effectSystem.executeEffect(abilityEffect('Solitude', ''), { gameState, source })
+
+            expect(result.newGameState!.player1.deck).toHaveLength(deckSize)
+        })
+
+        it('takes its trigger from the script', () => {
+            const source = createTestCard({
+                scriptedEffects: [{ name: 'Last Rites', trigger: 'on_death', actions: [{ type: 'drawCards', amount: 1 }] }],
+            })
+
+            expect(effectSystem.getAbilityTriggers(source, 'When played, draw a card', 'Last Rites')).toEqual(['on_death'])
+        })
     })
 
     describe('Edge Cases', () => {
@@ -482,10 +828,10 @@ describe('CardEffectSystem', () => {
                 id: 'event-5',
                 type: 'unit_summoned',
                 source: { type: 'card', id: 'some-card', name: 'Some Card' },
-                data: { gameState },
+                data: {},
             }, gameState)
 
-            await effectSystem.processTriggeredAbilities(event)
+            await effectSystem.processTriggeredAbilities(event, gameState)
 
             // Should not throw
             expect(true).toBe(true)
@@ -515,10 +861,10 @@ describe('CardEffectSystem', () => {
                 id: 'turn-start-1',
                 type: 'turn_start',
                 source: { type: 'system', id: 'game', name: 'Game' },
-                data: { gameState },
+                data: {},
             }, gameState)
 
-            await effectSystem.processTriggeredAbilities(event)
+            await effectSystem.processTriggeredAbilities(event, gameState)
             expect(true).toBe(true)
         })
 
@@ -541,10 +887,10 @@ describe('CardEffectSystem', () => {
                 id: 'destroy-1',
                 type: 'card_destroyed',
                 source: { type: 'card', id: 'destroyed-card', name: 'Destroyed Card' },
-                data: { gameState },
+                data: {},
             }, gameState)
 
-            await effectSystem.processTriggeredAbilities(event)
+            await effectSystem.processTriggeredAbilities(event, gameState)
             expect(true).toBe(true)
         })
     })
@@ -1,6 +1,6 @@
 vi.unmock("@/lib/game_logger")
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { combatService } from '../combat_service'
+import { combatService, MAX_ARCANE_CHARGE } from '../combat_service'
 import { battlefieldService } from '../battlefield_service'
 import { createTestCard, createTestGameState } from '../../test_utils'
 import type { GameState, Card } from '../../schemas/schema'
@@ -654,4 +654,109 @@ describe('CombatService', () => {
             expect(result.targetDamage).toBeGreaterThanOrEqual(3)
         })
     })
+
+    describe('Esoteric keywords', () => {
+        // Face damage isolates the attacker's power; each unit attacks alone on its board so
+        // no element synergy interferes
+        const faceDamage = async (unit: Card, slot = 0, state = gameState) => {
+            state.battlefield.playerUnits[slot] = {
+                owner: 'player1',
+                hasSummoningSickness: false,
+                ...unit,
+            }
+            state.player2.health = 20
+            const result = await combatService.declareAttack(state, {
+                attackerId: unit.id,
+                targetType: 'player',
+            })
+            return 20 - result.player2.health
+        }
+
+        it('matches printed keywords however the author spelled them', () => {
+            const card = createTestCard({ keywords: ['Spell Damage', 'mystical-ward'] })
+
+            expect(combatService.hasKeyword(card, 'spell_damage')).toBe(true)
+            expect(combatService.hasKeyword(card, 'mystical_ward')).toBe(true)
+            expect(combatService.hasKeyword(card, 'taunt')).toBe(false)
+        })
+
+        it('spares tarot masters the reversal attack penalty', async () => {
+            const reversed = { attack: 4, cost: 6, isReversed: true }
+
+            expect(await faceDamage(createTestCard({ id: 'plain', ...reversed }))).toBe(2)
+            expect(
+                await faceDamage(
+                    createTestCard({ id: 'master', keywords: ['tarot_mastery'], ...reversed }),
+                    1,
+                    createTestGameState(),
+                ),
+            ).toBe(4)
+        })
+
+        it('adds one attack per stored arcane charge for chakra flow units', async () => {
+            const unit = createTestCard({
+                id: 'monk', attack: 2, keywords: ['chakra_flow'], arcaneCharge: 2,
+            })
+            expect(await faceDamage(unit)).toBe(4)
+        })
+
+        it('ignores arcane charge on units without chakra flow', async () => {
+            expect(await faceDamage(createTestCard({ id: 'plain', attack: 2, arcaneCharge: 2 }))).toBe(2)
+        })
+
+        it('channels one charge per turn up to the cap', () => {
+            const units = [
+                createTestCard({ id: 'monk', keywords: ['chakra_flow'] }),
+                createTestCard({ id: 'full', keywords: ['chakra_flow'], arcaneCharge: MAX_ARCANE_CHARGE }),
+                createTestCard({ id: 'plain' }),
+                null,
+            ]
+
+            expect(combatService.channelChakraFlow(units)).toBe(1)
+            expect(units[0]?.arcaneCharge).toBe(1)
+            expect(units[1]?.arcaneCharge).toBe(MAX_ARCANE_CHARGE)
+            expect(units[2]?.arcaneCharge).toBeUndefined()
+        })
+
+        it('follows the moon for lunar blessing', async () => {
+            const unit = createTestCard({ id: 'seer', attack: 2, keywords: ['lunar_blessing'] })
+
+            expect(await faceDamage(unit, 0, createTestGameState({ round: 1 }))).toBe(2)
+            expect(await faceDamage(unit, 0, createTestGameState({ round: 2 }))).toBe(3)
+            expect(await faceDamage(unit, 0, createTestGameState({ round: 3 }))).toBe(4)
+        })
+
+        it('scales sacred geometry units with their slot', async () => {
+            const unit = createTestCard({ id: 'architect', attack: 5, keywords: ['sacred_geometry'] })
+
+            expect(await faceDamage(unit, 0, createTestGameState())).toBe(5)
+            // Golden slot: x1.3
+            expect(await faceDamage(unit, 2, createTestGameState())).toBe(6)
+        })
+
+        it('resolves deathrattles of units killed in combat', async () => {
+            gameState.player2.health = 20
+            gameState.battlefield.playerUnits[0] = createTestCard({
+                id: 'attacker', attack: 5, owner: 'player1', hasSummoningSickness: false,
+            })
+            gameState.battlefield.enemyUnits[0] = createTestCard({
+                id: 'martyr',
+                attack: 0,
+                health: 1,
+                currentHealth: 1,
+                element: 'water',
+                owner: 'player2',
+                abilities: [{ name: 'Last Rites', description: 'Deathrattle: Gain 4 health' }],
+            })
+
+            const result = await combatService.declareAttack(gameState, {
+                attackerId: 'attacker',
+                targetType: 'unit',
+                targetId: 'martyr',
+            })
+
+            expect(result.battlefield.enemyUnits[0]).toBeNull()
+            expect(result.player2.health).toBe(24)
+        })
+    })
 })
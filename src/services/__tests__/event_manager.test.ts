@@ -73,7 +73,8 @@ describe('EventManager', () => {
                 expect.objectContaining({
                     type: 'card_played',
                     data: { cardId: 'test-card' },
-                })
+                }),
+                gameState,
             )
         })
 
@@ -465,7 +466,8 @@ describe('EventManager', () => {
                         id: 'card-123',
                         name: 'Test Card',
                     },
-                })
+                }),
+                gameState,
             )
         })
 
@@ -489,7 +491,8 @@ describe('EventManager', () => {
                         id: 'player1',
                         name: gameState.player1.name,
                     },
-                })
+                }),
+                gameState,
             )
         })
 
@@ -510,7 +513,8 @@ describe('EventManager', () => {
                         type: 'system',
                         id: 'combat',
                     },
-                })
+                }),
+                gameState,
             )
         })
 
@@ -534,7 +538,8 @@ describe('EventManager', () => {
                         type: 'system',
                         id: 'game',
                     },
-                })
+                }),
+                gameState,
             )
         })
     })
@@ -640,7 +645,8 @@ describe('EventManager', () => {
                         cardName: 'Test Card',
                         cost: 3,
                     }),
-                })
+                }),
+                gameState,
             )
         })
 
@@ -659,7 +665,8 @@ describe('EventManager', () => {
                         cardName: 'Knight',
                         stats: { attack: 3, health: 4, currentHealth: 4 },
                     }),
-                })
+                }),
+                gameState,
             )
         })
 
@@ -679,7 +686,8 @@ describe('EventManager', () => {
                         previousValue: gameState.player1.health,
                         newValue: gameState.player1.health - 5,
                     }),
-                })
+                }),
+                gameState,
             )
         })
 
@@ -695,7 +703,8 @@ describe('EventManager', () => {
                 expect.objectContaining({
                     type: 'turn_start',
                     data: { playerId: 'player1' },
-                })
+                }),
+                gameState,
             )
         })
     })
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Each engine builds real subsystems of its own
+vi.unmock('@/services/event_manager')
+vi.unmock('@/services/win_condition_service')
+
+import { createGameEngine, gameEngine } from '../game_engine'
+import { eventManager } from '../event_manager'
+import { winConditionService } from '../win_condition_service'
+import { createTestCard } from '../../test_utils'
+
+const deck = (prefix: string) =>
+    Array.from({ length: 20 }, (_, i) => createTestCard({ id: `${prefix}_${i}`, name: `${prefix} ${i}` }))
+
+describe('GameEngine', () => {
+    it('runs the default engine on the app-wide subsystems', () => {
+        expect(gameEngine.systems.events).toBe(eventManager)
+        expect(gameEngine.systems.winConditions).toBe(winConditionService)
+    })
+
+    it('keeps event history per match', async () => {
+        const first = createGameEngine({ enableAnimations: false })
+        const second = createGameEngine({ enableAnimations: false })
+
+        await first.startGame(deck('a'), deck('b'), { seed: 1 })
+
+        await vi.waitFor(() =>
+            expect(first.systems.events.getHistory({ types: ['game_started'] })).toHaveLength(1),
+        )
+        expect(second.systems.events.getHistoryLength()).toBe(0)
+    })
+
+    it('keeps persistent effects per match', () => {
+        const first = createGameEngine({ enableAnimations: false })
+        const second = createGameEngine({ enableAnimations: false })
+        const unit = createTestCard({ id: 'shared', keywords: [] })
+
+        first.systems.combat.registerPersistentEffect({
+            id: 'aura',
+            sourceCardId: 'source',
+            type: 'keyword_grant',
+            duration: 'permanent',
+            targets: 'specific_card',
+            targetCardId: 'shared',
+            effect: { grantsKeywords: ['taunt'] },
+            description: 'Grants taunt',
+        })
+
+        expect(first.systems.combat.hasKeyword(unit, 'taunt')).toBe(true)
+        expect(second.systems.combat.hasKeyword(unit, 'taunt')).toBe(false)
+    })
+
+    it('keeps win-condition state per match', async () => {
+        const first = createGameEngine({ enableAnimations: false })
+        const second = createGameEngine({ enableAnimations: false })
+
+        await first.startGame(deck('a'), deck('b'), { gameMode: 'arcana_master' })
+        await second.startGame(deck('c'), deck('d'), { gameMode: 'standard' })
+
+        expect(first.systems.winConditions.getCurrentGameMode().name).toBe('Arcana Master')
+        expect(second.systems.winConditions.getCurrentGameMode().name).toBe('Standard')
+    })
+
+    it('subscribes abilities of cards played in one match to that match only', async () => {
+        const first = createGameEngine({ enableAnimations: false, enableTransactions: false })
+        const second = createGameEngine({ enableAnimations: false, enableTransactions: false })
+        const unit = createTestCard({
+            id: 'p1_watcher',
+            cost: 1,
+            abilities: [{ name: 'Vigil', description: 'At the start of your turn, gain 1 health' }],
+        })
+
+        const state = await first.startGame([unit, ...deck('a')], deck('b'), { seed: 3 })
+        const ready = { ...state, phase: 'action' as const }
+        const firstBefore = first.systems.events.getActiveSubscriptions().length
+        const secondBefore = second.systems.events.getActiveSubscriptions().length
+
+        const result = await first.playCard(ready, ready.player1.hand.find(c => c.id === unit.id)!)
+
+        expect(result.success).toBe(true)
+        expect(first.systems.events.getActiveSubscriptions().length).toBeGreaterThan(firstBefore)
+        expect(second.systems.events.getActiveSubscriptions()).toHaveLength(secondBefore)
+    })
+})
@@ -0,0 +1,553 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { WEBSOCKET_CONFIG } from '@/config/websocket_config'
+import * as cardLoader from '@/lib/card_loader'
+import type { GameEvent } from '@/schemas/schema'
+import type { ServerMessage } from '@/services/websocket_service'
+import { gameSessionService, type SessionSocket } from '@/services/game_session_service'
+import { createTestCard } from '@/test_utils'
+
+// Records everything the server sends so tests can inspect the protocol
+function createFakeSocket() {
+    const sent: ServerMessage[] = []
+    const socket: SessionSocket & { sent: ServerMessage[] } = {
+        sent,
+        send: vi.fn((data: string) => {
+            sent.push(JSON.parse(data))
+        }),
+        close: vi.fn(),
+    }
+    return socket
+}
+
+const lastMessage = (socket: { sent: ServerMessage[] }) => socket.sent[socket.sent.length - 1]
+
+describe('GameSessionService', () => {
+    const gameId = 'test-game'
+    const p1Token = 'player-one-token'
+    const p2Token = 'player-two-token'
+
+    beforeEach(() => {
+        gameSessionService.reset()
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    async function seatBoth() {
+        const p1 = createFakeSocket()
+        const p2 = createFakeSocket()
+        await gameSessionService.joinAsPlayer(gameId, 'player1', p1Token, p1)
+        await gameSessionService.joinAsPlayer(gameId, 'player2', p2Token, p2)
+        return { p1, p2 }
+    }
+
+    async function finishMulligans() {
+        await gameSessionService.handleMessage(gameId, 'player1', JSON.stringify({ type: 'mulligan', cardIds: [] }))
+        await gameSessionService.handleMessage(gameId, 'player2', JSON.stringify({ type: 'mulligan', cardIds: [] }))
+    }
+
+    describe('joining', () => {
+        it('should create the game on first join and send the initial state', async () => {
+            const { p1 } = await seatBoth()
+
+            expect(gameSessionService.getSession(gameId)).toBeDefined()
+            expect(p1.sent[0].type).toBe('game_state')
+            expect(p1.sent[0].yourPlayer).toBe('player1')
+            expect(p1.sent[0].state?.phase).toBe('mulligan')
+        })
+
+        it('should reject a second client claiming a seat with a different token', async () => {
+            await seatBoth()
+            const intruder = createFakeSocket()
+
+            const joined = await gameSessionService.joinAsPlayer(gameId, 'player1', 'someone-else-token', intruder)
+
+            expect(joined).toBe(false)
+            expect(intruder.sent).toHaveLength(0)
+        })
+
+        it('should replace the old socket when the seat owner reconnects', async () => {
+            const { p1 } = await seatBoth()
+            const p1Again = createFakeSocket()
+
+            const joined = await gameSessionService.joinAsPlayer(gameId, 'player1', p1Token, p1Again)
+
+            expect(joined).toBe(true)
+            expect(p1.close).toHaveBeenCalledWith(4000, expect.any(String))
+            expect(lastMessage(p1Again).type).toBe('game_state')
+        })
+
+        it('should only let spectators join existing games', async () => {
+            const spectator = createFakeSocket()
+            expect(gameSessionService.joinAsSpectator(gameId, spectator)).toBe(false)
+
+            await seatBoth()
+            expect(gameSessionService.joinAsSpectator(gameId, spectator)).toBe(true)
+            expect(lastMessage(spectator).type).toBe('game_state')
+        })
+    })
+
+    describe('actions', () => {
+        it('should broadcast applied actions to both seats and spectators', async () => {
+            const { p1, p2 } = await seatBoth()
+            const spectator = createFakeSocket()
+            gameSessionService.joinAsSpectator(gameId, spectator)
+
+            await finishMulligans()
+
+            for (const socket of [p1, p2, spectator]) {
+                expect(lastMessage(socket).type).toBe('game_state_update')
+                expect(lastMessage(socket).state?.phase).toBe('action')
+            }
+        })
+
+        it('should only reveal each seat its own hand', async () => {
+            const { p1, p2 } = await seatBoth()
+            const spectator = createFakeSocket()
+            gameSessionService.joinAsSpectator(gameId, spectator)
+
+            await finishMulligans()
+
+            const real = gameSessionService.getSession(gameId)?.gameState
+            expect(lastMessage(p1).state?.player1.hand).toEqual(real?.player1.hand)
+            expect(lastMessage(p1).state?.player2.hand.every(c => c.isHidden)).toBe(true)
+            expect(lastMessage(p2).state?.player2.hand).toEqual(real?.player2.hand)
+            expect(lastMessage(p2).state?.player1.hand.every(c => c.isHidden)).toBe(true)
+            expect(lastMessage(spectator).state?.player1.hand.every(c => c.isHidden)).toBe(true)
+            expect(lastMessage(spectator).state?.player2.hand.every(c => c.isHidden)).toBe(true)
+        })
+
+        it('should reject actions out of turn with an error to the sender only', async () => {
+            const { p1, p2 } = await seatBoth()
+            await finishMulligans()
+            const p1Count = p1.sent.length
+
+            await gameSessionService.handleMessage(gameId, 'player2', JSON.stringify({ type: 'end_turn' }))
+
+            expect(lastMessage(p2)).toMatchObject({ type: 'error', error: 'Not your turn' })
+            expect(p1.sent).toHaveLength(p1Count)
+        })
+
+        it('should apply a valid end turn and pass the turn', async () => {
+            await seatBoth()
+            await finishMulligans()
+
+            await gameSessionService.handleMessage(gameId, 'player1', JSON.stringify({ type: 'end_turn' }))
+
+            expect(gameSessionService.getSession(gameId)?.gameState.activePlayer).toBe('player2')
+        })
+
+        it('should report malformed messages and ignore heartbeats', async () => {
+            const { p1 } = await seatBoth()
+            const count = p1.sent.length
+
+            await gameSessionService.handleMessage(gameId, 'player1', JSON.stringify({ type: 'heartbeat' }))
+            expect(p1.sent).toHaveLength(count)
+
+            await gameSessionService.handleMessage(gameId, 'player1', 'not json')
+            expect(lastMessage(p1)).toMatchObject({ type: 'error', message: 'Invalid message format' })
+
+            await gameSessionService.handleMessage(gameId, 'player1', JSON.stringify({ type: 'cheat' }))
+            expect(lastMessage(p1)).toMatchObject({ type: 'error', message: 'Invalid message format' })
+        })
+    })
+
+    describe('spectators', () => {
+        const drawEvent: GameEvent = {
+            id: 'evt_draw',
+            type: 'card_drawn',
+            timestamp: 0,
+            gameStateId: '1_2',
+            source: { type: 'card', id: 'major-00', name: 'The Fool' },
+            data: { cardId: 'major-00', cardName: 'The Fool' },
+            phase: 'action',
+            activePlayer: 'player2',
+            turn: 2,
+            round: 1,
+        }
+
+        beforeEach(() => {
+            vi.stubEnv('CASTER_KEYS', 'caster-key, other-key')
+        })
+
+        afterEach(() => {
+            vi.unstubAllEnvs()
+        })
+
+        it('should hold a caster feed back by the broadcast delay and show both hands', async () => {
+            vi.useFakeTimers()
+            await seatBoth()
+            const caster = createFakeSocket()
+
+            gameSessionService.joinAsSpectator(gameId, caster, { casterKey: 'caster-key', delayMs: 1000 })
+            expect(caster.sent).toHaveLength(0)
+
+            vi.advanceTimersByTime(WEBSOCKET_CONFIG.CASTER_DELAY)
+            const real = gameSessionService.getSession(gameId)?.gameState
+            expect(lastMessage(caster)).toMatchObject({
+                type: 'game_state',
+                spectator: { revealHands: true, delayMs: WEBSOCKET_CONFIG.CASTER_DELAY },
+            })
+            expect(lastMessage(caster).state?.player2.hand).toEqual(real?.player2.hand)
+        })
+
+        it('should keep both hands hidden from spectators without a caster key the server knows', async () => {
+            await seatBoth()
+            const guesser = createFakeSocket()
+
+            gameSessionService.joinAsSpectator(gameId, guesser, { casterKey: 'guessed-key' })
+            const real = gameSessionService.getSession(gameId)?.gameState
+            expect(lastMessage(guesser)).toMatchObject({
+                type: 'game_state',
+                spectator: { revealHands: false, delayMs: 0 },
+            })
+            expect(lastMessage(guesser).state?.player2.hand).not.toEqual(real?.player2.hand)
+
+            vi.stubEnv('CASTER_KEYS', '')
+            const emptyKey = createFakeSocket()
+            gameSessionService.joinAsSpectator(gameId, emptyKey, { casterKey: '' })
+            expect(lastMessage(emptyKey).spectator?.revealHands).toBe(false)
+        })
+
+        it('should stream events with drawn cards hidden from face-down spectators', async () => {
+            vi.useFakeTimers()
+            await seatBoth()
+            await finishMulligans()
+            const spectator = createFakeSocket()
+            const caster = createFakeSocket()
+            gameSessionService.joinAsSpectator(gameId, spectator)
+            gameSessionService.joinAsSpectator(gameId, caster, { casterKey: 'other-key' })
+
+            gameSessionService.getSession(gameId)?.pendingEvents.push(drawEvent)
+            await gameSessionService.handleMessage(gameId, 'player1', JSON.stringify({ type: 'end_turn' }))
+            vi.runAllTimers()
+
+            const spectatorFeed = spectator.sent.find(m => m.type === 'game_events')
+            expect(spectatorFeed?.events).toHaveLength(1)
+            expect(JSON.stringify(spectatorFeed)).not.toContain('The Fool')
+            const casterFeed = caster.sent.find(m => m.type === 'game_events')
+            expect(casterFeed?.events?.[0].data).toMatchObject({ cardName: 'The Fool' })
+        })
+
+        it('should refuse actions from spectators', async () => {
+            await seatBoth()
+            const spectator = createFakeSocket()
+            gameSessionService.joinAsSpectator(gameId, spectator)
+            const before = gameSessionService.getSession(gameId)?.gameState
+
+            gameSessionService.handleSpectatorMessage(spectator, JSON.stringify({ type: 'heartbeat' }))
+            expect(lastMessage(spectator).type).toBe('game_state')
+
+            gameSessionService.handleSpectatorMessage(spectator, JSON.stringify({ type: 'end_turn' }))
+            expect(lastMessage(spectator)).toMatchObject({ type: 'error', error: 'Spectators cannot take actions' })
+            expect(gameSessionService.getSession(gameId)?.gameState).toBe(before)
+        })
+    })
+
+    describe('game end', () => {
+        it('should report the winner with each seat profile exactly once', async () => {
+            await gameSessionService.joinAsPlayer(gameId, 'player1', p1Token, createFakeSocket(), 'profile-a')
+            await gameSessionService.joinAsPlayer(gameId, 'player2', p2Token, createFakeSocket(), 'profile-b')
+            await finishMulligans()
+            const listener = vi.fn()
+            const unsubscribe = gameSessionService.onGameEnd(listener)
+
+            const session = gameSessionService.getSession(gameId)
+            if (!session) throw new Error('no session')
+            session.gameState = { ...session.gameState, player2: { ...session.gameState.player2, health: 0 } }
+
+            await gameSessionService.handleMessage(gameId, 'player1', JSON.stringify({ type: 'end_turn' }))
+            await gameSessionService.handleMessage(gameId, 'player2', JSON.stringify({ type: 'end_turn' }))
+            unsubscribe()
+
+            expect(listener).toHaveBeenCalledTimes(1)
+            expect(listener).toHaveBeenCalledWith({
+                gameId,
+                winner: 'player1',
+                profiles: { player1: 'profile-a', player2: 'profile-b' },
+                ranked: true,
+            })
+        })
+
+        it('should only rank games whose seats were all bound to profiles', async () => {
+            expect(await gameSessionService.joinAsPlayer(gameId, 'player1', p1Token, createFakeSocket(), 'profile-a')).toBe(true)
+            expect(await gameSessionService.joinAsPlayer(gameId, 'player2', p2Token, createFakeSocket())).toBe(false)
+
+            expect(await gameSessionService.joinAsPlayer('casual-game', 'player1', p1Token, createFakeSocket())).toBe(true)
+            expect(
+                await gameSessionService.joinAsPlayer('casual-game', 'player2', p2Token, createFakeSocket(), 'profile-b'),
+            ).toBe(false)
+            expect(gameSessionService.getSession('casual-game')?.ranked).toBe(false)
+        })
+    })
+
+    describe('house rules', () => {
+        const rules = { gameMode: 'standard', startingHealth: 30, turnSeconds: 120, bankSeconds: 60, format: 'standard' }
+        // Ten different cards, three copies each: the smallest deck Standard allows
+        const deckOf = (suit: string) => Array.from({ length: 30 }, (_, i) => `${suit}-0${i % 10}`)
+        const lobby = { matchId: gameId, rules, decks: { player1: deckOf('cups'), player2: deckOf('swords') } }
+
+        beforeEach(() => {
+            vi.spyOn(cardLoader, 'getCardById').mockImplementation(id => createTestCard({ id }))
+        })
+
+        afterEach(() => {
+            vi.mocked(cardLoader.getCardById).mockRestore()
+        })
+
+        it('should deal lobby games the readied decks under their rules and refuse seats that bring another match', async () => {
+            expect(await gameSessionService.joinAsPlayer(gameId, 'player1', p1Token, createFakeSocket(), undefined, lobby)).toBe(true)
+            const mismatched = { ...lobby, rules: { ...rules, startingHealth: 10 } }
+
+            expect(await gameSessionService.joinAsPlayer(gameId, 'player2', p2Token, createFakeSocket(), undefined, mismatched)).toBe(false)
+            expect(await gameSessionService.joinAsPlayer(gameId, 'player2', p2Token, createFakeSocket())).toBe(false)
+            expect(await gameSessionService.joinAsPlayer(gameId, 'player2', p2Token, createFakeSocket(), undefined, structuredClone(lobby))).toBe(true)
+
+            const session = gameSessionService.getSession(gameId)
+            if (!session) throw new Error('no session')
+            expect(session.gameState.player1.health).toBe(30)
+            expect(session.gameState.player2.health).toBe(30)
+            expect(session.clockConfig).toMatchObject({ turnMs: 120_000, bankMs: 60_000 })
+
+            const { player1, player2 } = session.gameState
+            expect([...player1.hand, ...player1.deck]).toHaveLength(30)
+            expect([...player1.hand, ...player1.deck].every(card => card.id.startsWith('p1_cups-'))).toBe(true)
+            expect([...player2.hand, ...player2.deck].every(card => card.id.startsWith('p2_swords-'))).toBe(true)
+        })
+
+        it('should report lobby games as unranked', async () => {
+            await gameSessionService.joinAsPlayer(gameId, 'player1', p1Token, createFakeSocket(), undefined, lobby)
+            await gameSessionService.joinAsPlayer(gameId, 'player2', p2Token, createFakeSocket(), undefined, lobby)
+            await finishMulligans()
+            const listener = vi.fn()
+            const unsubscribe = gameSessionService.onGameEnd(listener)
+
+            const session = gameSessionService.getSession(gameId)
+            if (!session) throw new Error('no session')
+            session.gameState = { ...session.gameState, player2: { ...session.gameState.player2, health: 0 } }
+            await gameSessionService.handleMessage(gameId, 'player1', JSON.stringify({ type: 'end_turn' }))
+            await gameSessionService.handleMessage(gameId, 'player2', JSON.stringify({ type: 'end_turn' }))
+            unsubscribe()
+
+            expect(listener).toHaveBeenCalledWith(expect.objectContaining({ winner: 'player1', ranked: false }))
+        })
+    })
+
+    describe('reconnection', () => {
+        it('should number updates and replay only the unacknowledged ones on resume', async () => {
+            const { p1 } = await seatBoth()
+            const reconnectToken = p1.sent[0].reconnectToken ?? ''
+            await finishMulligans()
+            expect(p1.sent.map(message => message.seq)).toEqual([0, 1, 2])
+
+            await gameSessionService.handleMessage(gameId, 'player1', JSON.stringify({ type: 'ack', seq: 1 }))
+            gameSessionService.handleDisconnect(gameId, 'player1', p1)
+            const p1Again = createFakeSocket()
+
+            expect(gameSessionService.resumeSeat(gameId, 'player1', reconnectToken, p1Again)).toBe(true)
+            expect(p1Again.sent.map(message => [message.type, message.seq])).toEqual([
+                ['session_resumed', 2],
+                ['game_state_update', 2],
+            ])
+            expect(p1Again.sent[0].reconnectToken).not.toBe(reconnectToken)
+            expect(p1Again.sent[1].state?.player2.hand.every(card => card.isHidden)).toBe(true)
+        })
+
+        it('should refuse to resume with an unknown reconnect token', async () => {
+            await seatBoth()
+
+            expect(gameSessionService.resumeSeat(gameId, 'player1', 'not-the-token', createFakeSocket())).toBe(false)
+            expect(gameSessionService.getSession(gameId)?.players.get('player1')?.isConnected).toBe(true)
+        })
+
+        it('should forfeit a player who does not return within the grace period', async () => {
+            vi.useFakeTimers()
+            const { p1, p2 } = await seatBoth()
+            const listener = vi.fn()
+            const unsubscribe = gameSessionService.onGameEnd(listener)
+
+            gameSessionService.handleDisconnect(gameId, 'player1', p1)
+            expect(lastMessage(p2)).toMatchObject({
+                type: 'player_disconnected',
+                resumeBy: expect.any(Number),
+            })
+
+            vi.advanceTimersByTime(WEBSOCKET_CONFIG.GRACE_PERIOD)
+            unsubscribe()
+
+            expect(lastMessage(p2)).toMatchObject({ type: 'game_forfeited', playerId: 'player1', winner: 'player2' })
+            expect(listener).toHaveBeenCalledWith(expect.objectContaining({ winner: 'player2' }))
+            expect(gameSessionService.resumeSeat(gameId, 'player1', p1.sent[0].reconnectToken ?? '', createFakeSocket())).toBe(false)
+        })
+
+        it('should cancel the forfeit when the player resumes in time', async () => {
+            vi.useFakeTimers()
+            const { p1, p2 } = await seatBoth()
+
+            gameSessionService.handleDisconnect(gameId, 'player1', p1)
+            vi.advanceTimersByTime(WEBSOCKET_CONFIG.GRACE_PERIOD - 1000)
+            gameSessionService.resumeSeat(gameId, 'player1', p1.sent[0].reconnectToken ?? '', createFakeSocket())
+            vi.advanceTimersByTime(WEBSOCKET_CONFIG.GRACE_PERIOD)
+
+            expect(lastMessage(p2)).toMatchObject({ type: 'player_reconnected', playerId: 'player1' })
+            expect(gameSessionService.getSession(gameId)?.finished).toBe(false)
+        })
+    })
+
+    describe('turn clock', () => {
+        const { TURN_TIME_LIMIT, TIME_BANK, ROPE_TIME } = WEBSOCKET_CONFIG
+
+        it('should start the clock once the action phase begins and send it with updates', async () => {
+            const { p1 } = await seatBoth()
+            expect(p1.sent[0].timer).toBeNull()
+
+            await finishMulligans()
+
+            expect(lastMessage(p1).timer).toMatchObject({
+                activePlayer: 'player1',
+                turnRemainingMs: TURN_TIME_LIMIT,
+                banks: { player1: TIME_BANK, player2: TIME_BANK },
+                paused: false,
+            })
+        })
+
+        it('should warn as the bank and rope start, then pass the turn when time runs out', async () => {
+            vi.useFakeTimers()
+            const { p1, p2 } = await seatBoth()
+            await finishMulligans()
+            const session = gameSessionService.getSession(gameId)
+            if (!session) throw new Error('no session')
+
+            await vi.advanceTimersByTimeAsync(TURN_TIME_LIMIT)
+            expect(lastMessage(p2)).toMatchObject({ type: 'turn_timer', alert: 'bank' })
+
+            await vi.advanceTimersByTimeAsync(TIME_BANK - ROPE_TIME)
+            expect(lastMessage(p1)).toMatchObject({ type: 'turn_timer', alert: 'rope' })
+
+            await vi.advanceTimersByTimeAsync(ROPE_TIME)
+            await session.queue
+
+            expect(session.gameState.activePlayer).toBe('player2')
+            expect(p1.sent.some(message => message.alert === 'expired')).toBe(true)
+            expect(lastMessage(p1).timer).toMatchObject({ activePlayer: 'player2', banks: { player1: 0 } })
+        })
+
+        it('should stop the clock while a player is reconnecting', async () => {
+            vi.useFakeTimers()
+            const { p1, p2 } = await seatBoth()
+            await finishMulligans()
+            const session = gameSessionService.getSession(gameId)
+            if (!session) throw new Error('no session')
+
+            gameSessionService.handleDisconnect(gameId, 'player2', p2)
+            expect(lastMessage(p1).timer?.paused).toBe(true)
+
+            await vi.advanceTimersByTimeAsync(WEBSOCKET_CONFIG.GRACE_PERIOD - 1000)
+            gameSessionService.resumeSeat(gameId, 'player2', p2.sent[0].reconnectToken ?? '', createFakeSocket())
+
+            expect(lastMessage(p1)).toMatchObject({
+                type: 'player_reconnected',
+                timer: { paused: false, turnRemainingMs: TURN_TIME_LIMIT },
+            })
+            expect(session.gameState.activePlayer).toBe('player1')
+        })
+
+        it('should keep the hand of a player who has not chosen when the mulligan runs out', async () => {
+            vi.useFakeTimers()
+            const { p1 } = await seatBoth()
+            await gameSessionService.handleMessage(gameId, 'player1', JSON.stringify({ type: 'mulligan', cardIds: [] }))
+            const session = gameSessionService.getSession(gameId)
+            if (!session) throw new Error('no session')
+
+            await vi.advanceTimersByTimeAsync(WEBSOCKET_CONFIG.MULLIGAN_TIME)
+            await session.queue
+
+            expect(session.gameState.player2.mulliganComplete).toBe(true)
+            expect(session.gameState.phase).toBe('action')
+            expect(lastMessage(p1).timer).toMatchObject({ activePlayer: 'player1' })
+        })
+
+        it('should end the game on time when the turn cannot be passed for the player', async () => {
+            vi.useFakeTimers()
+            const { p2 } = await seatBoth()
+            await finishMulligans()
+            const session = gameSessionService.getSession(gameId)
+            if (!session) throw new Error('no session')
+            const ended = vi.fn()
+            const unsubscribe = gameSessionService.onGameEnd(ended)
+
+            // Stuck mid-combat, so end_turn is refused when the clock runs out
+            session.gameState = { ...session.gameState, phase: 'combat_resolution' }
+            await vi.advanceTimersByTimeAsync(TURN_TIME_LIMIT + TIME_BANK)
+            await session.queue
+            unsubscribe()
+
+            expect(session.finished).toBe(true)
+            expect(ended).toHaveBeenCalledWith(expect.objectContaining({ winner: 'player2' }))
+            expect(p2.sent).toContainEqual(
+                expect.objectContaining({ type: 'game_forfeited', playerId: 'player1', winner: 'player2' }),
+            )
+        })
+    })
+
+    describe('disconnects', () => {
+        it('should notify the other seat and spectators with player_disconnected', async () => {
+            const { p1, p2 } = await seatBoth()
+            const spectator = createFakeSocket()
+            gameSessionService.joinAsSpectator(gameId, spectator)
+
+            gameSessionService.handleDisconnect(gameId, 'player1', p1)
+
+            expect(lastMessage(p2)).toMatchObject({ type: 'player_disconnected', playerId: 'player1' })
+            expect(lastMessage(spectator)).toMatchObject({ type: 'player_disconnected', playerId: 'player1' })
+            expect(gameSessionService.getSession(gameId)?.players.get('player1')?.isConnected).toBe(false)
+        })
+
+        it('should ignore the close of a socket that was already replaced', async () => {
+            const { p1, p2 } = await seatBoth()
+            await gameSessionService.joinAsPlayer(gameId, 'player1', p1Token, createFakeSocket())
+            const count = p2.sent.length
+
+            gameSessionService.handleDisconnect(gameId, 'player1', p1)
+
+            expect(p2.sent).toHaveLength(count)
+            expect(gameSessionService.getSession(gameId)?.players.get('player1')?.isConnected).toBe(true)
+        })
+
+        it('should clean up the game once every seat has left', async () => {
+            vi.useFakeTimers()
+            const { p1, p2 } = await seatBoth()
+
+            gameSessionService.handleDisconnect(gameId, 'player1', p1)
+            gameSessionService.handleDisconnect(gameId, 'player2', p2)
+            vi.runAllTimers()
+
+            expect(gameSessionService.getSession(gameId)).toBeUndefined()
+        })
+
+        it('should stop every timer of a game it cleans up, so nobody forfeits a dropped game', async () => {
+            vi.useFakeTimers()
+            const { p1, p2 } = await seatBoth()
+            const ended = vi.fn()
+            const unsubscribe = gameSessionService.onGameEnd(ended)
+
+            // A drop and rejoin leaves the first drop's cleanup pending; by the time it runs, both
+            // seats have dropped again and their forfeit grace and the mulligan are still counting
+            gameSessionService.handleDisconnect(gameId, 'player1', p1)
+            vi.advanceTimersByTime(WEBSOCKET_CONFIG.GRACE_PERIOD / 2)
+            const rejoined = createFakeSocket()
+            await gameSessionService.joinAsPlayer(gameId, 'player1', p1Token, rejoined)
+            vi.advanceTimersByTime(WEBSOCKET_CONFIG.GRACE_PERIOD)
+            gameSessionService.handleDisconnect(gameId, 'player1', rejoined)
+            gameSessionService.handleDisconnect(gameId, 'player2', p2)
+            vi.advanceTimersByTime(WEBSOCKET_CONFIG.CLEANUP_INTERVAL - WEBSOCKET_CONFIG.GRACE_PERIOD * 1.5)
+
+            expect(gameSessionService.getSession(gameId)).toBeUndefined()
+
+            vi.runAllTimers()
+            unsubscribe()
+            expect(ended).not.toHaveBeenCalled()
+        })
+    })
+})
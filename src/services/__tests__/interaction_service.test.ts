@@ -547,3 +547,53 @@ describe('InteractionService - Drag and Drop', () => {
     })
 })
 
+
+describe('InteractionService - Target Selection', () => {
+    const card = { id: 'bolt', name: 'Bolt', type: 'spell' } as GameCard
+    const validTargets = [
+        { type: 'card' as const, id: 'foe' },
+        { type: 'player' as const, id: 'player2' },
+    ]
+
+    beforeEach(() => {
+        interactionService.reset()
+    })
+
+    it('should announce the request and resolve it with a valid target', () => {
+        const onTargetingStart = vi.fn()
+        const onTargetingEnd = vi.fn()
+        const onSelect = vi.fn()
+        interactionService.setCallbacks({ onTargetingStart, onTargetingEnd })
+
+        interactionService.requestTarget(card, validTargets, onSelect)
+        expect(onTargetingStart).toHaveBeenCalledWith(card, validTargets)
+        expect(interactionService.isSelectingTarget()).toBe(true)
+
+        expect(interactionService.selectTarget({ type: 'player', id: 'player2' })).toBe(true)
+        expect(onSelect).toHaveBeenCalledWith({ type: 'player', id: 'player2' })
+        expect(onTargetingEnd).toHaveBeenCalled()
+        expect(interactionService.isSelectingTarget()).toBe(false)
+    })
+
+    it('should ignore targets outside the valid set', () => {
+        const onSelect = vi.fn()
+        interactionService.requestTarget(card, validTargets, onSelect)
+
+        expect(interactionService.selectTarget({ type: 'card', id: 'ally' })).toBe(false)
+        expect(onSelect).not.toHaveBeenCalled()
+        expect(interactionService.isSelectingTarget()).toBe(true)
+    })
+
+    it('should drop the request when targeting is cancelled', () => {
+        const onTargetingEnd = vi.fn()
+        const onSelect = vi.fn()
+        interactionService.setCallbacks({ onTargetingEnd })
+        interactionService.requestTarget(card, validTargets, onSelect)
+
+        interactionService.cancelTargeting()
+
+        expect(onTargetingEnd).toHaveBeenCalled()
+        expect(interactionService.selectTarget({ type: 'card', id: 'foe' })).toBe(false)
+        expect(onSelect).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as cardLoader from '@/lib/card_loader'
+import { encodeDeckCode } from '@/lib/deck_code'
+import { getSeatTicketSecret, openLobbyTicket } from '@/lib/seat_ticket'
+import { createTestCard } from '@/test_utils'
+import { DEFAULT_GAME_RULES, lobbyService } from '../lobby_service'
+
+// Ten different cards, three copies each: the smallest deck Standard allows
+const deckOf = (suit: string) => Array.from({ length: 30 }, (_, i) => `${suit}-0${i % 10}`)
+const hostDeck = encodeDeckCode({ name: 'Cups', cards: deckOf('cups') })
+const guestDeck = encodeDeckCode({ name: 'Swords', cards: deckOf('swords') })
+
+describe('LobbyService', () => {
+  beforeEach(() => {
+    lobbyService.reset()
+    vi.spyOn(cardLoader, 'getCardById').mockImplementation(id => createTestCard({ id }))
+  })
+
+  afterEach(() => {
+    vi.mocked(cardLoader.getCardById).mockRestore()
+  })
+
+  /** A lobby with both seats taken, and each seat's secret */
+  function openLobby(rules = {}) {
+    const host = lobbyService.createLobby('Host', rules)
+    const guest = lobbyService.joinLobby(host.lobby.code, 'Guest')
+    return { code: host.lobby.code, host: host.secret, guest: guest.secret }
+  }
+
+  it('opens a lobby with a short invite code that a friend can join', () => {
+    const { lobby, seat } = lobbyService.createLobby('Host')
+
+    expect(lobby.code).toMatch(/^[A-Z2-9]{6}$/)
+    expect(lobby.rules).toEqual(DEFAULT_GAME_RULES)
+    expect(seat).toBe('player1')
+
+    const joined = lobbyService.joinLobby(lobby.code.toLowerCase(), 'Guest')
+    expect(joined.seat).toBe('player2')
+    expect(joined.lobby.guest).toEqual({ name: 'Guest', ready: false })
+    expect(() => lobbyService.joinLobby(lobby.code, 'Third')).toThrow('Lobby is full')
+    expect(() => lobbyService.joinLobby('NOPE99', 'Guest')).toThrow('Lobby not found')
+  })
+
+  it('acts only for the seat whose secret is sent, and shows others no secrets', async () => {
+    const { code, host, guest } = openLobby()
+
+    expect(host).not.toBe(guest)
+    expect(lobbyService.getSeat(code, guest).seat).toBe('player2')
+    expect(() => lobbyService.getSeat(code, 'guessed')).toThrow('You are not in this lobby')
+    await expect(lobbyService.setReady(code, '', true, hostDeck)).rejects.toThrow(
+      'You are not in this lobby',
+    )
+
+    const shown = JSON.stringify(lobbyService.getLobby(code))
+    expect(shown).not.toContain(host)
+    expect(shown).not.toContain(guest)
+  })
+
+  it('lets only the host change the rules, and un-readies both players when they do', async () => {
+    const { code, host, guest } = openLobby()
+    await lobbyService.setReady(code, guest, true, guestDeck)
+
+    expect(() => lobbyService.updateRules(code, guest, { startingHealth: 10 })).toThrow(
+      'Only the host can change the rules',
+    )
+    expect(() => lobbyService.updateRules(code, host, { gameMode: 'no_such_mode' })).toThrow(
+      'Unknown game mode',
+    )
+
+    const { lobby } = lobbyService.updateRules(code, host, { startingHealth: 30, turnSeconds: 120 })
+    expect(lobby.rules).toMatchObject({ startingHealth: 30, turnSeconds: 120 })
+    expect(lobby.guest?.ready).toBe(false)
+  })
+
+  it('starts a match once both players are ready with legal decks', async () => {
+    const { code, host, guest } = openLobby()
+    const tinyDeck = encodeDeckCode({ name: 'Tiny', cards: ['test-unit-1', 'test-unit-1'] })
+
+    await expect(lobbyService.setReady(code, host, true, tinyDeck)).rejects.toThrow(
+      'Deck is not legal in Standard',
+    )
+    await expect(lobbyService.setReady(code, host, true)).rejects.toThrow(
+      'Choose a deck before readying up',
+    )
+    expect((await lobbyService.setReady(code, host, true, hostDeck)).match).toBeNull()
+
+    const view = await lobbyService.setReady(code, guest, true, guestDeck)
+    expect(view.match?.matchId).toMatch(new RegExp(`^lobby_${code}_`))
+    expect(lobbyService.getLobby(code)?.started).toBe(true)
+    // Neither deck list nor any ticket is visible to someone polling with just the code
+    const shown = JSON.stringify(lobbyService.getLobby(code))
+    expect(shown).not.toContain('cups-00')
+    expect(shown).not.toContain(view.match?.ticket)
+  })
+
+  it('seals the rules and both decks into a ticket for each seat', async () => {
+    const { code, host, guest } = openLobby({ startingHealth: 30 })
+    await lobbyService.setReady(code, host, true, hostDeck)
+    const guestView = await lobbyService.setReady(code, guest, true, guestDeck)
+    const hostView = lobbyService.getSeat(code, host)
+    const secret = getSeatTicketSecret() ?? ''
+
+    const match = {
+      matchId: guestView.match?.matchId,
+      rules: guestView.lobby.rules,
+      decks: { player1: [...deckOf('cups')].sort(), player2: [...deckOf('swords')].sort() },
+    }
+    expect(await openLobbyTicket(hostView.match?.ticket ?? '', secret)).toEqual({
+      seat: 'player1',
+      match,
+    })
+    expect(await openLobbyTicket(guestView.match?.ticket ?? '', secret)).toEqual({
+      seat: 'player2',
+      match,
+    })
+    expect(match.rules.startingHealth).toBe(30)
+  })
+
+  it('closes the lobby when the host leaves and frees the seat when the guest does', async () => {
+    const { code, host, guest } = openLobby()
+    await lobbyService.setReady(code, host, true, hostDeck)
+
+    lobbyService.leaveLobby(code, 'guessed')
+    expect(lobbyService.getLobby(code)?.guest).not.toBeNull()
+
+    lobbyService.leaveLobby(code, guest)
+    expect(lobbyService.getLobby(code)).toMatchObject({ guest: null, host: { ready: false } })
+
+    lobbyService.leaveLobby(code, host)
+    expect(lobbyService.getLobby(code)).toBeUndefined()
+  })
+})
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { mergeProfileSnapshots } from '@/lib/profile_sync'
+import type { ProfileSnapshot } from '@/schemas/profile_schema'
+import { profileSyncService } from '../profile_sync_service'
+import { settingsService } from '../settings_service'
+
+// A stand-in for /api/profile that merges like the real route
+let server: ProfileSnapshot = {}
+let online = true
+
+const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+  if (!online) throw new TypeError('Failed to fetch')
+  if (init?.method === 'PUT') {
+    server = mergeProfileSnapshots(server, JSON.parse(String(init.body)).sections)
+  }
+  return new Response(JSON.stringify({ sections: server }), { status: 200 })
+})
+
+describe('ProfileSyncService', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    server = {}
+    online = true
+    fetchMock.mockClear()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  it('sends each local section with a version', async () => {
+    localStorage.setItem('tarot-tcg-decks', JSON.stringify([{ name: 'Fire', cards: [] }]))
+
+    expect(await profileSyncService.sync()).toBe('synced')
+    expect(server.decks).toMatchObject({ version: 1, data: [{ name: 'Fire', cards: [] }] })
+  })
+
+  it('only bumps a version when the section changed', async () => {
+    localStorage.setItem('tarot-tcg-decks', '[]')
+    await profileSyncService.sync()
+    await profileSyncService.sync()
+    expect(server.decks?.version).toBe(1)
+
+    localStorage.setItem('tarot-tcg-decks', '[{"name":"Water","cards":[]}]')
+    await profileSyncService.sync()
+    expect(server.decks?.version).toBe(2)
+  })
+
+  it('takes newer sections from the server and reloads their service', async () => {
+    localStorage.setItem('tarot_tcg_settings', JSON.stringify({ soundVolume: 0.5 }))
+    await profileSyncService.sync()
+    server = {
+      ...server,
+      settings: { version: 7, updatedAt: Date.now(), data: { soundVolume: 0.9 } },
+    }
+
+    await profileSyncService.sync()
+
+    expect(JSON.parse(localStorage.getItem('tarot_tcg_settings')!)).toEqual({ soundVolume: 0.9 })
+    expect(settingsService.get('soundVolume')).toBe(0.9)
+  })
+
+  it('keeps offline progress and sends it once back online', async () => {
+    online = false
+    localStorage.setItem('tarot-tcg-decks', '[]')
+
+    expect(await profileSyncService.sync()).toBe('offline')
+    expect(localStorage.getItem('tarot-tcg-decks')).toBe('[]')
+
+    online = true
+    expect(await profileSyncService.sync()).toBe('synced')
+    expect(server.decks?.version).toBe(1)
+  })
+
+  it('sends changed stats with the copy it last synced, so the server can add up devices', async () => {
+    const stats = (totalGames: number) => JSON.stringify({ version: 1, stats: { totalGames } })
+    localStorage.setItem('tarot-tcg-stats', stats(1))
+    await profileSyncService.sync()
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body)).sections.stats.base).toBeNull()
+
+    localStorage.setItem('tarot-tcg-stats', stats(2))
+    await profileSyncService.sync()
+    const sent = JSON.parse(String(fetchMock.mock.calls[1][1]?.body)).sections
+    expect(sent.stats).toMatchObject({ version: 2, base: { stats: { totalGames: 1 } } })
+    expect(server.stats).not.toHaveProperty('base')
+
+    // Sections that don't add up just replace each other
+    localStorage.setItem('tarot-tcg-decks', '[]')
+    await profileSyncService.sync()
+    expect(JSON.parse(String(fetchMock.mock.calls[2][1]?.body)).sections.decks).not.toHaveProperty('base')
+  })
+
+  it('treats a server without a database as offline', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('{}', { status: 503 }))
+
+    expect(await profileSyncService.sync()).toBe('offline')
+  })
+
+  it('links to another device by replacing local progress with its profile', async () => {
+    localStorage.setItem('tarot-tcg-decks', '[]')
+    server = { decks: { version: 4, updatedAt: 1, data: [{ name: 'Shared', cards: [] }] } }
+
+    await profileSyncService.link('other-device')
+
+    expect(profileSyncService.getPlayerId()).toBe('other-device')
+    expect(JSON.parse(localStorage.getItem('tarot-tcg-decks')!)).toEqual([{ name: 'Shared', cards: [] }])
+  })
+
+  it('refuses to link to a profile that does not exist', async () => {
+    const before = profileSyncService.getPlayerId()
+    fetchMock.mockResolvedValueOnce(new Response('{}', { status: 404 }))
+
+    await expect(profileSyncService.link('nobody')).rejects.toThrow('No saved profile')
+    expect(profileSyncService.getPlayerId()).toBe(before)
+  })
+})
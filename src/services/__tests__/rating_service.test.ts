@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getPublicProfileId } from '@/lib/profile_id'
+import { getSeasonId, PLACEMENT_GAMES, type RankedRecord } from '@/lib/ranked_season'
+import { ratingService } from '../rating_service'
+
+// An in-memory player_profiles table
+const records = new Map<string, RankedRecord>()
+
+vi.mock('@/services/persistence_service', () => ({
+  persistenceService: {
+    loadRankedRecord: vi.fn(async (id: string) => records.get(id) ?? null),
+    saveRankedRecord: vi.fn(async (id: string, record: RankedRecord) => {
+      records.set(id, record)
+    }),
+    getLeaderboard: vi.fn(async (season: string, minGames: number) =>
+      [...records.entries()]
+        .filter(([, r]) => r.season === season && r.rankedGames >= minGames)
+        .sort(([, a], [, b]) => b.rating - a.rating)
+        .map(([id, r]) => ({ id, name: id, ...r })),
+    ),
+  },
+}))
+
+describe('RatingService', () => {
+  beforeEach(() => {
+    records.clear()
+    vi.stubEnv('DATABASE_URL', 'postgres://test')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('rates both players and counts the game toward placement', async () => {
+    await ratingService.recordResult('alice', 'bob')
+
+    expect(records.get('alice')?.rating).toBeGreaterThan(1500)
+    expect(records.get('bob')?.rating).toBeLessThan(1500)
+
+    const standing = await ratingService.getStanding('alice')
+    expect(standing).toMatchObject({ rankedGames: 1, placed: false })
+    expect(standing?.placementGamesLeft).toBe(PLACEMENT_GAMES - 1)
+  })
+
+  it('only lists players who finished placement this season, by their public ids', async () => {
+    for (let game = 0; game < PLACEMENT_GAMES; game++) {
+      await ratingService.recordResult('alice', 'bob')
+    }
+    await ratingService.recordResult('carol', 'alice')
+
+    const leaderboard = await ratingService.getLeaderboard()
+    expect(leaderboard?.season).toBe(getSeasonId())
+    expect(leaderboard?.entries.map(e => [e.rank, e.id])).toEqual([
+      [1, await getPublicProfileId('alice')],
+      [2, await getPublicProfileId('bob')],
+    ])
+  })
+
+  it('starts a returning player on a soft-reset record in a new season', async () => {
+    records.set('alice', {
+      rating: 1900,
+      deviation: 60,
+      volatility: 0.06,
+      rankedGames: 30,
+      season: '2000-Q1',
+    })
+
+    const standing = await ratingService.getStanding('alice')
+    expect(standing).toMatchObject({ rating: 1700, rankedGames: 0, placed: false })
+  })
+
+  it('does nothing without a database', async () => {
+    vi.stubEnv('DATABASE_URL', '')
+
+    await ratingService.recordResult('alice', 'bob')
+
+    expect(records.size).toBe(0)
+    expect(await ratingService.getLeaderboard()).toBeNull()
+  })
+})
@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { produce } from 'immer'
+import { completeMulligan, createInitialGameState, endTurn, playCard } from '@/lib/game_logic'
+import type { GameState } from '@/schemas/schema'
+import {
+    applyReplayAction,
+    buildReplayTimeline,
+    createReplayInitialState,
+    replayService,
+} from '@/services/replay_service'
+
+// Mock localStorage
+const localStorageMock = (() => {
+    let store: Record<string, string> = {}
+    return {
+        getItem: vi.fn((key: string) => store[key] ?? null),
+        setItem: vi.fn((key: string, value: string) => {
+            store[key] = value
+        }),
+        removeItem: vi.fn((key: string) => {
+            delete store[key]
+        }),
+        clear: vi.fn(() => {
+            store = {}
+        }),
+    }
+})()
+
+Object.defineProperty(globalThis, 'localStorage', { value: localStorageMock })
+
+// Play a short game the way the UI does, recording each action as it succeeds
+async function playRecordedGame(seed: number): Promise<GameState> {
+    let state = createInitialGameState(undefined, 'standard', seed)
+    replayService.startRecording(state)
+
+    state = completeMulligan(state, 'player2')
+    replayService.recordAction({ type: 'mulligan', playerId: 'player2', cardIds: [] })
+
+    const mulliganIds = [state.player1.hand[0].id]
+    state = completeMulligan(
+        produce(state, draft => {
+            draft.player1.selectedForMulligan = mulliganIds
+        }),
+    )
+    replayService.recordAction({ type: 'mulligan', playerId: 'player1', cardIds: mulliganIds })
+
+    for (let turn = 0; turn < 6; turn++) {
+        const active = state.activePlayer
+        const playable = state[active].hand.find(
+            c => c.type === 'unit' && c.cost <= state[active].mana + state[active].spellMana,
+        )
+        if (playable) {
+            state = await playCard(state, playable)
+            replayService.recordAction({ type: 'play_card', playerId: active, cardId: playable.id })
+        }
+        state = await endTurn(state)
+        replayService.recordAction({ type: 'end_turn', playerId: active })
+    }
+
+    return state
+}
+
+describe('ReplayService', () => {
+    beforeEach(() => {
+        localStorageMock.clear()
+        for (const replay of replayService.getReplays()) {
+            replayService.deleteReplay(replay.id)
+        }
+    })
+
+    describe('recording', () => {
+        it('captures the seed and both decks in draw order', () => {
+            const state = createInitialGameState(undefined, 'standard', 99)
+            const replay = replayService.startRecording(state)
+
+            expect(replay?.seed).toBe(99)
+            expect(replay?.decks.player1.map(c => c.id)).toEqual(
+                [...state.player1.hand, ...state.player1.deck].map(c => c.id),
+            )
+            expect(replay?.actions).toEqual([])
+        })
+
+        it('refuses to record games without a seeded RNG', () => {
+            const state = createInitialGameState(undefined, 'standard', 1)
+            const unseeded = produce(state, draft => {
+                delete draft.rng
+            })
+
+            expect(replayService.startRecording(unseeded)).toBeNull()
+            replayService.recordAction({ type: 'end_turn', playerId: 'player1' })
+            expect(replayService.getCurrentRecording()).toBeNull()
+        })
+
+        it('stops recording and saves once the game is finished', () => {
+            replayService.startRecording(createInitialGameState(undefined, 'standard', 5))
+            replayService.recordAction({ type: 'end_turn', playerId: 'player1' })
+            const finished = replayService.finishRecording('player2_wins')
+
+            replayService.recordAction({ type: 'end_turn', playerId: 'player2' })
+
+            expect(finished?.result).toBe('player2_wins')
+            expect(finished?.actions).toHaveLength(1)
+            expect(replayService.getReplay(finished!.id)).toEqual(finished)
+        })
+    })
+
+    describe('playback', () => {
+        it('rebuilds the opening state from the seed and deck lists', async () => {
+            const state = createInitialGameState(undefined, 'standard', 1234)
+            const replay = replayService.startRecording(state)!
+
+            const rebuilt = await createReplayInitialState(replay)
+
+            expect(rebuilt).toEqual(state)
+        })
+
+        it('reproduces a recorded game move by move', async () => {
+            const finalState = await playRecordedGame(2024)
+            const replay = replayService.getCurrentRecording()!
+
+            const timeline = await buildReplayTimeline(replay)
+
+            expect(replay.actions.some(a => a.type === 'play_card')).toBe(true)
+            expect(timeline).toHaveLength(replay.actions.length + 1)
+            expect(timeline[timeline.length - 1]).toEqual(finalState)
+        })
+
+        it('applies mulligans for the recorded player', async () => {
+            const state = createInitialGameState(undefined, 'standard', 77)
+            const cardIds = state.player2.hand.slice(0, 2).map(c => c.id)
+
+            const next = await applyReplayAction(state, {
+                type: 'mulligan',
+                playerId: 'player2',
+                cardIds,
+            })
+
+            expect(next.player2.mulliganComplete).toBe(true)
+            expect(next.player1.mulliganComplete).toBe(false)
+            expect(next.player2.hand).toHaveLength(state.player2.hand.length)
+        })
+
+        it('stops the timeline where a replay diverges', async () => {
+            await playRecordedGame(31)
+            const replay = replayService.getCurrentRecording()!
+            const broken = {
+                ...replay,
+                actions: [
+                    ...replay.actions.slice(0, 2),
+                    { type: 'play_card' as const, playerId: 'player1' as const, cardId: 'missing' },
+                    ...replay.actions.slice(2),
+                ],
+            }
+
+            const timeline = await buildReplayTimeline(broken)
+
+            expect(timeline).toHaveLength(3)
+        })
+    })
+
+    describe('import and export', () => {
+        it('round-trips a replay through JSON', async () => {
+            await playRecordedGame(8)
+            const replay = replayService.getCurrentRecording()!
+
+            const imported = replayService.importReplay(replayService.exportReplay(replay))
+
+            expect(imported).toEqual(replay)
+            expect(replayService.getReplay(replay.id)).toEqual(replay)
+        })
+
+        it('rejects malformed replay files', () => {
+            expect(() => replayService.importReplay('{"id": "nope"}')).toThrow('Invalid replay file')
+        })
+    })
+})
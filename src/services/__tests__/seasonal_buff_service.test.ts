@@ -0,0 +1,248 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { produce } from 'immer'
+import { canPlayCard, createGameStateFromDecks, endTurn, playCard } from '@/lib/game_logic'
+import { destroyUnitAt } from '@/lib/graveyard'
+import { getLegalAttacks } from '@/lib/legal_actions'
+import type { Card, GameState, ZodiacClass } from '@/schemas/schema'
+import { combatService } from '@/services/combat_service'
+import { isDateInSeason, seasonalBuffService, ZODIAC_SEASONS } from '@/services/seasonal_buff_service'
+import { createTestCard, createTestGameState } from '@/test_utils'
+
+const onDate = (month: number, day: number): GameState =>
+    ({ ...createTestGameState(), seasonDate: new Date(2025, month - 1, day).getTime() })
+
+const unitOf = (sign: ZodiacClass, overrides: Partial<Card> = {}) =>
+    createTestCard({ id: `${sign}_unit`, zodiacClass: sign, type: 'unit', cost: 3, attack: 2, health: 2, ...overrides })
+
+describe('SeasonalBuffService', () => {
+    afterEach(() => {
+        seasonalBuffService.setClock(null)
+    })
+
+    describe('calendar', () => {
+        it('assigns every day of the year to exactly one season', () => {
+            for (let day = 0; day < 366; day++) {
+                const date = new Date(2024, 0, 1 + day)
+                const matches = ZODIAC_SEASONS.filter(season => isDateInSeason(season, date))
+                expect(matches).toHaveLength(1)
+            }
+        })
+
+        it('uses the documented boundaries', () => {
+            const signOn = (month: number, day: number) =>
+                seasonalBuffService.getSeasonForDate(new Date(2025, month - 1, day)).sign
+
+            expect(signOn(3, 20)).toBe('pisces')
+            expect(signOn(3, 21)).toBe('aries')
+            expect(signOn(4, 19)).toBe('aries')
+            expect(signOn(12, 31)).toBe('capricorn')
+            expect(signOn(1, 19)).toBe('capricorn')
+            expect(signOn(1, 20)).toBe('aquarius')
+        })
+
+        it('reads the season from the injectable clock when the game has no pinned date', () => {
+            seasonalBuffService.setDateOverride(new Date(2025, 7, 1))
+            expect(seasonalBuffService.getActiveSeason().sign).toBe('leo')
+
+            seasonalBuffService.setClock(() => new Date(2025, 4, 1))
+            expect(seasonalBuffService.getActiveSeason().sign).toBe('taurus')
+        })
+
+        it('prefers the date pinned on the game state over the clock', () => {
+            seasonalBuffService.setDateOverride(new Date(2025, 7, 1))
+            expect(seasonalBuffService.getActiveSeason(onDate(4, 1)).sign).toBe('aries')
+        })
+
+        it('pins the clock date when a game starts', () => {
+            const date = new Date(2025, 5, 1)
+            seasonalBuffService.setDateOverride(date)
+
+            const state = createGameStateFromDecks([], [], { seed: 1 })
+            expect(state.seasonDate).toBe(date.getTime())
+        })
+    })
+
+    describe('cost', () => {
+        it('discounts in-season Aries cards by 1', () => {
+            const state = onDate(4, 1)
+            expect(seasonalBuffService.getEffectiveCost(state, unitOf('aries'))).toBe(2)
+            expect(seasonalBuffService.getEffectiveCost(state, unitOf('leo'))).toBe(3)
+        })
+
+        it('lets canPlayCard afford a card only with the discount', () => {
+            const state = onDate(9, 1)
+            state.player1.mana = 2
+            state.player1.spellMana = 0
+
+            expect(canPlayCard(state, unitOf('virgo'))).toBe(true)
+            expect(canPlayCard(state, unitOf('aries'))).toBe(false)
+        })
+    })
+
+    describe('playing cards', () => {
+        const play = async (state: GameState, card: Card, slot = 0) => {
+            state.player1.hand = [card]
+            state.player1.mana = 10
+            state.phase = 'action'
+            return playCard(state, card, slot)
+        }
+
+        it('gives Taurus units +2 health', async () => {
+            const result = await play(onDate(5, 1), unitOf('taurus'))
+            const unit = result.battlefield.playerUnits[0]
+
+            expect(unit?.health).toBe(4)
+            expect(unit?.currentHealth).toBe(4)
+            expect(unit?.seasonalBuff).toEqual({ attack: 0, health: 2 })
+        })
+
+        it('summons a 1/1 Gemini twin beside the unit', async () => {
+            const result = await play(onDate(6, 1), unitOf('gemini'), 3)
+            const twin = result.battlefield.playerUnits[4]
+
+            expect(twin?.id).toBe('token_twin_gemini_unit')
+            expect(twin?.attack).toBe(1)
+            expect(twin?.health).toBe(1)
+        })
+
+        it('heals for 2 and gives other allies +0/+1 with Cancer', async () => {
+            const state = onDate(7, 1)
+            state.player1.health = 10
+            state.battlefield.playerUnits[1] = createTestCard({ id: 'ally', health: 3, currentHealth: 2 })
+
+            const result = await play(state, unitOf('cancer'))
+
+            expect(result.player1.health).toBe(12)
+            expect(result.battlefield.playerUnits[1]?.health).toBe(4)
+            expect(result.battlefield.playerUnits[1]?.currentHealth).toBe(3)
+            expect(result.battlefield.playerUnits[0]?.health).toBe(2)
+        })
+
+        it('sets every unit to 3/3 with Libra', async () => {
+            const state = onDate(10, 1)
+            state.battlefield.enemyUnits[2] = createTestCard({ id: 'giant', attack: 7, health: 8, currentHealth: 5 })
+
+            const result = await play(state, unitOf('libra'))
+
+            expect(result.battlefield.playerUnits[0]).toMatchObject({ attack: 3, health: 3, currentHealth: 3 })
+            expect(result.battlefield.enemyUnits[2]).toMatchObject({ attack: 3, health: 3, currentHealth: 3 })
+            expect(result.battlefield.enemyUnits[2]?.seasonalBuff).toEqual({ attack: -4, health: -5 })
+        })
+
+        it('grows Capricorn units +1/+1 as each of their owner turns begins', async () => {
+            const state = onDate(1, 5)
+            state.battlefield.playerUnits[0] = unitOf('capricorn', { currentHealth: 1, owner: 'player1' })
+            state.activePlayer = 'player2'
+
+            const result = await endTurn(state)
+
+            expect(result.battlefield.playerUnits[0]).toMatchObject({ attack: 3, health: 3, currentHealth: 2 })
+            expect((await endTurn(result)).battlefield.playerUnits[0]?.attack).toBe(3)
+        })
+
+        it('returns buffed units to the graveyard with their printed stats', async () => {
+            const result = await play(onDate(8, 1), unitOf('leo'))
+
+            const after = produce(result, draft => {
+                destroyUnitAt(draft, 'player1', 0)
+            })
+
+            const buried = after.player1.graveyard?.[0]
+            expect(buried?.attack).toBe(2)
+            expect(buried?.health).toBe(2)
+            expect(buried?.seasonalBuff).toBeUndefined()
+        })
+    })
+
+    describe('Leo aura', () => {
+        it('gives adjacent allies +1 attack in combat', async () => {
+            const state = onDate(8, 1)
+            state.phase = 'action'
+            state.player1.hasAttackToken = true
+            state.battlefield.playerUnits[0] = createTestCard({
+                id: 'lion', zodiacClass: 'leo', element: 'fire', owner: 'player1',
+            })
+            // Different element so no synergy bonus muddies the numbers
+            state.battlefield.playerUnits[1] = createTestCard({
+                id: 'squire', zodiacClass: 'cancer', element: 'water', attack: 2, owner: 'player1',
+                hasSummoningSickness: false,
+            })
+            state.player2.health = 20
+
+            const result = await combatService.declareAttack(state, {
+                attackerId: 'squire',
+                targetType: 'player',
+            })
+
+            expect(result.player2.health).toBe(17)
+        })
+
+        it('makes in-season Scorpio units Poisonous', async () => {
+            const state = onDate(11, 1)
+            state.phase = 'action'
+            state.player1.hasAttackToken = true
+            state.battlefield.playerUnits[0] = unitOf('scorpio', { attack: 1, owner: 'player1', hasSummoningSickness: false })
+            state.battlefield.enemyUnits[0] = createTestCard({ id: 'wall', attack: 0, health: 9, currentHealth: 9, owner: 'player2' })
+
+            const result = await combatService.declareAttack(state, {
+                attackerId: 'scorpio_unit',
+                targetType: 'unit',
+                targetId: 'wall',
+            })
+
+            expect(result.battlefield.enemyUnits[0]).toBeNull()
+        })
+
+        it('draws a card when an in-season Sagittarius unit deals damage', async () => {
+            const state = onDate(12, 1)
+            state.phase = 'action'
+            state.player1.hasAttackToken = true
+            state.battlefield.playerUnits[0] = unitOf('sagittarius', { owner: 'player1', hasSummoningSickness: false })
+            const handSize = state.player1.hand.length
+
+            const result = await combatService.declareAttack(state, {
+                attackerId: 'sagittarius_unit',
+                targetType: 'player',
+            })
+
+            expect(result.player1.hand).toHaveLength(handSize + 1)
+            expect(result.player1.deck).toHaveLength(state.player1.deck.length - 1)
+        })
+
+        it('lets an in-season Sagittarius unit attack past Taunt', async () => {
+            const state = onDate(12, 1)
+            state.phase = 'action'
+            state.player1.hasAttackToken = true
+            state.battlefield.playerUnits[0] = unitOf('sagittarius', { owner: 'player1', hasSummoningSickness: false })
+            state.battlefield.playerUnits[1] = unitOf('aries', { id: 'ram', owner: 'player1', hasSummoningSickness: false })
+            state.battlefield.enemyUnits[0] = createTestCard({ id: 'guard', keywords: ['taunt'], owner: 'player2' })
+            state.battlefield.enemyUnits[1] = createTestCard({ id: 'archer', owner: 'player2' })
+
+            expect(getLegalAttacks(state, 'player1').filter(attack => attack.attackerId === 'ram')).toEqual([
+                { type: 'declare_attack', attackerId: 'ram', targetType: 'unit', targetId: 'guard' },
+            ])
+
+            const result = await combatService.declareAttack(state, {
+                attackerId: 'sagittarius_unit',
+                targetType: 'player',
+            })
+            expect(result.player2.health).toBeLessThan(state.player2.health)
+
+            const outOfSeason = { ...state, seasonDate: onDate(1, 1).seasonDate }
+            await expect(
+                combatService.declareAttack(outOfSeason, { attackerId: 'sagittarius_unit', targetType: 'player' }),
+            ).rejects.toThrow('Must attack taunt first')
+        })
+
+        it('only covers units next to an in-season Leo', () => {
+            const state = onDate(8, 1)
+            state.battlefield.playerUnits[0] = createTestCard({ id: 'lion', zodiacClass: 'leo' })
+            state.battlefield.playerUnits[1] = createTestCard({ id: 'near' })
+            state.battlefield.playerUnits[3] = createTestCard({ id: 'far' })
+
+            const targets = seasonalBuffService.getPersistentEffects(state).map(e => e.targetCardId)
+            expect(targets).toEqual(['near'])
+            expect(seasonalBuffService.getPersistentEffects(onDate(4, 1))).toEqual([])
+        })
+    })
+})
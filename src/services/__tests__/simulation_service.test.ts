@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { type SimulatedGame, SimulationService } from '../simulation_service'
+import { createTestCard } from '../../test_utils'
+
+const deck = (prefix: string) =>
+    Array.from({ length: 40 }, (_, i) =>
+        createTestCard({ id: `${prefix}-${i % 10}`, name: `${prefix} ${i % 10}`, cost: 1, attack: 2, health: 2 }),
+    )
+
+const game = (overrides: Partial<SimulatedGame>): SimulatedGame => ({
+    winner: 0,
+    firstSide: 0,
+    rounds: 10,
+    decks: [['a', 'b'], ['c']],
+    played: [['a', 'a'], ['c']],
+    ...overrides,
+})
+
+describe('SimulationService', () => {
+    const service = new SimulationService()
+
+    it('plays a full headless game to a result', async () => {
+        const sides = [
+            { personality: 'hard' as const, deck: deck('alpha') },
+            { personality: 'easy' as const, deck: deck('beta') },
+        ] as const
+        const result = await service.playGame([sides[0], sides[1]], 1, 42, 30)
+
+        expect(result.firstSide).toBe(1)
+        expect(result.rounds).toBeGreaterThan(0)
+        expect(result.rounds).toBeLessThanOrEqual(30)
+        expect(result.decks[0]).toHaveLength(40)
+        expect(result.played[0].every(id => id.startsWith('alpha-'))).toBe(true)
+        expect(result.played[1].every(id => id.startsWith('beta-'))).toBe(true)
+    }, 30000)
+
+    it('summarizes win rates, first player advantage and rounds', () => {
+        const report = service.summarize(
+            [{ personality: 'hard' }, { name: 'Sparring', personality: 'easy' }],
+            [
+                game({ winner: 0, firstSide: 0, rounds: 8 }),
+                game({ winner: 1, firstSide: 1, rounds: 12 }),
+                game({ winner: null, firstSide: 0, rounds: 50 }),
+                game({ winner: 0, firstSide: 1, rounds: 10 }),
+            ],
+        )
+
+        expect(report.games).toBe(4)
+        expect(report.draws).toBe(1)
+        expect(report.averageRounds).toBe(20)
+        expect(report.sides.map(side => [side.name, side.wins, side.winRate])).toEqual([
+            ['Master Diviner', 2, 0.5],
+            ['Sparring', 1, 0.25],
+        ])
+        expect(report.firstPlayer).toEqual({ wins: 2, winRate: 2 / 3 })
+    })
+
+    it('correlates playing a card with winning', () => {
+        const report = service.summarize(
+            [{ personality: 'normal' }, { personality: 'normal' }],
+            [
+                game({ winner: 0, played: [['a', 'a'], ['c']] }),
+                game({ winner: 1, played: [['b'], ['c']] }),
+            ],
+        )
+        const card = (id: string) => report.cards.find(c => c.cardId === id)
+
+        expect(card('a')).toMatchObject({
+            timesPlayed: 2,
+            gamesPlayed: 1,
+            winRateWhenPlayed: 1,
+            gamesUnplayed: 1,
+            winRateWhenUnplayed: 0,
+            playWinDelta: 1,
+        })
+        expect(card('b')?.playWinDelta).toBe(-1)
+        expect(report.cards[0].cardId).toBe('a')
+    })
+
+    it('exports per-card rows as CSV', () => {
+        const report = service.summarize(
+            [{ personality: 'normal', deck: [createTestCard({ id: 'a', name: 'Fool, Reversed' })] }, { personality: 'normal' }],
+            [game({ decks: [['a'], []], played: [['a'], []] })],
+        )
+
+        expect(service.toCSV(report).split('\n')).toEqual([
+            'cardId,name,timesPlayed,gamesPlayed,winRateWhenPlayed,gamesUnplayed,winRateWhenUnplayed,playWinDelta',
+            'a,"Fool, Reversed",1,1,1,0,0,1',
+        ])
+    })
+})
@@ -1,6 +1,12 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { encodeDeckCode } from '@/lib/deck_code'
 import type { GameRecord } from '@/schemas/stats_schema'
-import { extractBaseCardId, statsService } from '@/services/stats_service'
+import {
+  averagePlayRound,
+  extractBaseCardId,
+  statsService,
+  winRate,
+} from '@/services/stats_service'
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -181,6 +187,101 @@ describe('StatsService', () => {
     })
   })
 
+  describe('card and deck records', () => {
+    it('tracks each card by whether it was in the deck, drawn or played', () => {
+      statsService.recordGame(
+        createTestRecord({
+          result: 'win',
+          cardsInDeck: ['major-00', 'cups-01', 'swords-08'],
+          cardsDrawn: ['major-00', 'cups-01'],
+          cardPlays: [{ cardId: 'major-00', round: 3, reversed: false }],
+        }),
+      )
+      statsService.recordGame(
+        createTestRecord({
+          result: 'loss',
+          cardsInDeck: ['major-00', 'cups-01'],
+          cardsDrawn: ['major-00', 'cups-01'],
+          cardPlays: [
+            { cardId: 'major-00', round: 5, reversed: true },
+            { cardId: 'cups-01', round: 2, reversed: false },
+          ],
+        }),
+      )
+
+      const fool = statsService.getCardStats('major-00')!
+      expect(fool).toMatchObject({ games: 2, wins: 1, gamesPlayed: 2, winsPlayed: 1, totalPlays: 2 })
+      expect(fool.upright).toEqual({ plays: 1, wins: 1 })
+      expect(fool.reversed).toEqual({ plays: 1, wins: 0 })
+      expect(averagePlayRound(fool)).toBe(4)
+
+      const cups = statsService.getCardStats('cups-01')!
+      expect(cups).toMatchObject({ games: 2, gamesDrawn: 2, winsDrawn: 1, gamesPlayed: 1, winsPlayed: 0 })
+      expect(statsService.getCardStats('swords-08')).toMatchObject({ games: 1, gamesDrawn: 0 })
+    })
+
+    it('falls back to played cards for records without a deck list', () => {
+      statsService.recordGame(createTestRecord())
+
+      expect(statsService.getCardStats('major-00-fool')).toMatchObject({ games: 1, gamesPlayed: 1 })
+      expect(statsService.getAllCardStats()).toHaveLength(2)
+    })
+
+    it('keeps a record per saved deck list', () => {
+      statsService.recordGame(createTestRecord({ deckCode: 'TT1.a.b', rounds: 8, result: 'win' }))
+      statsService.recordGame(createTestRecord({ deckCode: 'TT1.a.b', rounds: 12, result: 'loss' }))
+      statsService.recordGame(createTestRecord({ deckName: 'Random' }))
+
+      const decks = statsService.getDeckStats()
+      expect(decks).toHaveLength(1)
+      expect(decks[0]).toMatchObject({ name: 'Test Deck', games: 2, wins: 1, totalRounds: 20 })
+      expect(winRate(decks[0].wins, decks[0].games)).toBe(0.5)
+      expect(winRate(0, 0)).toBeNull()
+    })
+
+    it('folds records of a renamed deck into one, keyed by its cards', () => {
+      const cards = ['major-00-fool', 'major-01-magician']
+      const named = (name: string, lastPlayed: number) => ({
+        deckCode: encodeDeckCode({ name, cards }),
+        name,
+        games: 2,
+        wins: 1,
+        totalRounds: 20,
+        lastPlayed,
+      })
+      const legacy = {
+        ...statsService.getStorage(),
+        deckStats: {
+          [encodeDeckCode({ name: 'Old Name', cards })]: named('Old Name', 100),
+          [encodeDeckCode({ name: 'New Name', cards })]: named('New Name', 200),
+        },
+      }
+      localStorageMock.getItem.mockReturnValueOnce(JSON.stringify(legacy))
+      ;(statsService as unknown as { storage: null }).storage = null
+
+      expect(statsService.getDeckStats()).toEqual([
+        {
+          deckCode: encodeDeckCode({ name: '', cards }),
+          name: 'New Name',
+          games: 4,
+          wins: 2,
+          totalRounds: 40,
+          lastPlayed: 200,
+        },
+      ])
+    })
+
+    it('loads stats saved before card records existed', () => {
+      const { cardStats: _cards, deckStats: _decks, ...legacy } = statsService.getStorage()
+      localStorageMock.getItem.mockReturnValueOnce(JSON.stringify(legacy))
+      // Drop the cached copy so the next read goes through localStorage
+      ;(statsService as unknown as { storage: null }).storage = null
+
+      expect(statsService.getAllCardStats()).toEqual([])
+      expect(statsService.getDeckStats()).toEqual([])
+    })
+  })
+
   describe('resetStats', () => {
     it('resets all stats to defaults', () => {
       statsService.recordGame(createTestRecord())
@@ -22,6 +22,8 @@ export type ActionType =
   | 'buffAllUnits'
   | 'destroyAllUnits'
   | 'addKeyword'
+  | 'returnFromGraveyard'
+  | 'resurrectUnit'
 
 export type TargetType =
   | 'self'
@@ -46,6 +48,7 @@ export interface ParsedAction {
   type: ActionType
   amount?: number
   target?: TargetType
+  // For resurrectUnit, health is what the unit comes back with rather than a buff
   statModifiers?: { attack?: number; health?: number }
   keyword?: string
   condition?: string
@@ -105,6 +108,15 @@ const TRIGGER_PATTERNS: Array<{ pattern: RegExp; trigger: TriggerType }> = [
   { pattern: /^on death:?\s*/i, trigger: 'on_death' },
 ]
 
+/**
+ * The trigger an ability's text spells out, or null when it has no trigger prefix
+ * (the card's keywords then decide when it resolves)
+ */
+export function findExplicitTrigger(description: string): TriggerType | null {
+  const text = description.trim()
+  return TRIGGER_PATTERNS.find(({ pattern }) => pattern.test(text))?.trigger ?? null
+}
+
 function parseTrigger(description: string): TriggerParseResult {
   const text = description.trim()
 
@@ -298,6 +310,37 @@ interface ActionPattern {
 }
 
 const ACTION_PATTERNS: ActionPattern[] = [
+  // --- RETURN A UNIT FROM YOUR GRAVEYARD TO HAND ---
+  {
+    test: text => /return .*?graveyard to (?:your |their )?hand/i.test(text),
+    parse: text => {
+      const countMatch = text.match(/return (\d+|a|an|one|two|three|four|five) /i)
+      return {
+        type: 'returnFromGraveyard',
+        amount: countMatch ? extractNumber(countMatch[1]) || 1 : 1,
+        target: 'player',
+      }
+    },
+  },
+
+  // --- RESURRECT / RETURN DEAD UNITS TO THE BATTLEFIELD ---
+  {
+    test: text =>
+      /\bresurrect/i.test(text) ||
+      /return .*?(?:that died|graveyard).*?to the battlefield/i.test(text),
+    parse: text => {
+      const isAll = /\ball\b/i.test(text)
+      const countMatch = text.match(/(?:resurrect|return) (\d+|a|an|one|two|three|four|five) /i)
+      const healthMatch = text.match(/with (\d+) health/i)
+      return {
+        type: 'resurrectUnit',
+        amount: isAll ? -1 : countMatch ? extractNumber(countMatch[1]) || 1 : 1, // -1: all
+        target: /owner'?s control|each player/i.test(text) ? 'all_units' : 'player',
+        statModifiers: healthMatch ? { health: Number.parseInt(healthMatch[1], 10) } : undefined,
+      }
+    },
+  },
+
   // --- DESTROY ALL UNITS ---
   {
     test: text => /destroy all (?:units|characters|minions)/i.test(text),
@@ -731,7 +774,7 @@ function trySplitOnAnd(text: string): string[] {
 
   // For each "and" position, check if both sides start with action verbs
   const actionVerbs =
-    /^(?:deals?|draws?|gains?|gives?|heals?|restores?|destroys?|discards?|summons?|creates?|takes?|loses?|they|all|your|each|returns?)/i
+    /^(?:deals?|draws?|gains?|gives?|heals?|restores?|destroys?|discards?|summons?|creates?|takes?|loses?|they|all|your|each|returns?|resurrects?)/i
 
   for (const idx of candidates) {
     const before = text.slice(0, idx).trim()
@@ -806,6 +849,19 @@ export function parseAbilityDescription(description: string): ParsedAbility {
   }
 }
 
+/**
+ * The clauses of a description that no action pattern recognizes. These are silently
+ * dropped by parseAbilityDescription, so the ability does less than its text says.
+ */
+export function findUnparsedClauses(description: string): string[] {
+  if (!description || typeof description !== 'string') return []
+
+  const { remainingText } = parseTrigger(description)
+  if (remainingText.length === 0) return []
+
+  return splitIntoFragments(remainingText).filter(fragment => !parseFragment(fragment))
+}
+
 /**
  * Parse a single text fragment into a ParsedAction by testing against known patterns.
  */
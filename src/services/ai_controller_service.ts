@@ -1,14 +1,19 @@
 import { GameLogger } from '@/lib/game_logger'
-import { endTurn } from '@/lib/game_logic'
-import type { Card, GameState } from '@/schemas/schema'
+import { endTurn, playCard as playCardLogic } from '@/lib/game_logic'
+import { getUnitRow } from '@/lib/graveyard'
+import { getLegalAttacks, getLegalPlays } from '@/lib/legal_actions'
+import { chooseBestTarget } from '@/lib/targeting'
+import type { ReplayAction } from '@/schemas/replay_schema'
+import type { Card, GameState, PlayerId, PlayTarget } from '@/schemas/schema'
 import { parseAbilityDescription } from '@/services/ability_parser'
 import type { ActionType } from '@/services/ability_parser'
+import { AISearchService, type TurnAction, aiSearchService } from './ai_search_service'
 import { type AILevel, type AIPersonality, aiService } from './ai_service'
-import { battlefieldService } from './battlefield_service'
-import { eventManager } from './event_manager'
+import { defaultEngineSystems, type EngineSystems } from './engine_systems'
+import { replayService } from './replay_service'
 
 // Simple battlefield helper inlined
-function getPlayerUnits(gameState: GameState, playerId: 'player1' | 'player2'): Card[] {
+function getPlayerUnits(gameState: GameState, playerId: PlayerId): Card[] {
   const units =
     playerId === 'player1' ? gameState.battlefield.playerUnits : gameState.battlefield.enemyUnits
   return units.filter(u => u !== null) as Card[]
@@ -48,6 +53,9 @@ interface AttackEvaluation {
 
 // Removed DefenseDecision - using direct attacks only
 
+// Times a search-based AI may re-plan within one turn
+const MAX_SEARCH_PASSES = 3
+
 // Base value scores for each parsed action type
 const ACTION_BASE_VALUES: Record<ActionType, number> = {
   dealDamage: 1.5,
@@ -63,6 +71,8 @@ const ACTION_BASE_VALUES: Record<ActionType, number> = {
   addKeyword: 1.5,
   healAllUnits: 0.5,
   statBuff: 1.0,
+  returnFromGraveyard: 1.5,
+  resurrectUnit: 2.5,
 }
 
 /**
@@ -141,9 +151,16 @@ function evaluateAbilityValue(abilities: { name?: string; description?: string }
         case 'addKeyword':
           totalValue += ACTION_BASE_VALUES.addKeyword
           break
+        case 'returnFromGraveyard':
+          totalValue += amount * ACTION_BASE_VALUES.returnFromGraveyard
+          break
         case 'healAllUnits':
           totalValue += (amount || 1) * ACTION_BASE_VALUES.healAllUnits
           break
+        case 'resurrectUnit':
+          // Mass resurrection (amount -1) is valued like a handful of units
+          totalValue += (amount === -1 ? 3 : amount) * ACTION_BASE_VALUES.resurrectUnit
+          break
         case 'statBuff': {
           const buffTotal =
             (action.statModifiers?.attack || 0) + (action.statModifiers?.health || 0)
@@ -164,15 +181,18 @@ function evaluateAbilityValue(abilities: { name?: string; description?: string }
 function evaluateAbilityValueWithContext(
   abilities: { name?: string; description?: string }[],
   gameState: GameState,
+  playerId: PlayerId,
 ): number {
   if (!abilities || abilities.length === 0) return 0
 
-  const myUnits = getPlayerUnits(gameState, 'player2').length
-  const oppUnits = getPlayerUnits(gameState, 'player1').length
-  const handSize = gameState.player2.hand.length
+  const opponentId = playerId === 'player1' ? 'player2' : 'player1'
+  const myUnits = getPlayerUnits(gameState, playerId).length
+  const oppUnits = getPlayerUnits(gameState, opponentId).length
+  const handSize = gameState[playerId].hand.length
+  const deadUnits = (gameState[playerId].graveyard ?? []).filter(c => c.type === 'unit').length
 
   // Check how many friendly units are at full health
-  const myUnitsList = getPlayerUnits(gameState, 'player2')
+  const myUnitsList = getPlayerUnits(gameState, playerId)
   const damagedUnits = myUnitsList.filter(
     u => (u.currentHealth ?? u.health) < u.health,
   ).length
@@ -270,6 +290,16 @@ function evaluateAbilityValueWithContext(
         case 'addKeyword':
           totalValue += ACTION_BASE_VALUES.addKeyword
           break
+        case 'returnFromGraveyard':
+          totalValue += Math.min(amount, deadUnits) * ACTION_BASE_VALUES.returnFromGraveyard
+          break
+        case 'resurrectUnit': {
+          // Only worth what is actually in the graveyard and fits on the board
+          const openSlots = getUnitRow(gameState, playerId).filter(u => u === null).length
+          const count = Math.min(amount === -1 ? deadUnits : amount, deadUnits, openSlots)
+          totalValue += count * ACTION_BASE_VALUES.resurrectUnit
+          break
+        }
         case 'statBuff': {
           const buffTotal =
             (action.statModifiers?.attack || 0) + (action.statModifiers?.health || 0)
@@ -283,29 +313,59 @@ function evaluateAbilityValueWithContext(
   return totalValue
 }
 
+export interface AIControllerOptions {
+  /** The seat this controller plays; the app's computer opponent is player2 */
+  playerId?: PlayerId
+  /** Play as this personality instead of following aiService's difficulty setting */
+  personality?: AIPersonality
+  /** Pause between decisions as if thinking. Headless games turn this off */
+  thinkingDelays?: boolean
+  /** Where moves are recorded; defaults to the replay service */
+  recordAction?: (action: ReplayAction) => void
+  /** The engine subsystems of the match being played; defaults to the app-wide ones */
+  systems?: EngineSystems
+}
+
 export class AIControllerService {
-  private currentPersonality: AIPersonality = aiService.getCurrentPersonality()
+  private currentPersonality: AIPersonality
+  private readonly playerId: PlayerId
+  private readonly opponentId: PlayerId
+  private readonly thinkingDelays: boolean
+  private readonly recordAction: (action: ReplayAction) => void
+  private readonly systems: EngineSystems
+  private readonly search: AISearchService
+
+  constructor(private readonly options: AIControllerOptions = {}) {
+    this.playerId = options.playerId ?? 'player2'
+    this.opponentId = this.playerId === 'player1' ? 'player2' : 'player1'
+    this.currentPersonality = options.personality ?? aiService.getCurrentPersonality()
+    this.thinkingDelays = options.thinkingDelays ?? true
+    this.recordAction = options.recordAction ?? (action => replayService.recordAction(action))
+    this.systems = options.systems ?? defaultEngineSystems
+    this.search = options.systems ? new AISearchService(options.systems) : aiSearchService
+  }
 
   // Main entry point for AI turn execution
   async executeAITurn(gameState: GameState): Promise<GameState> {
+    const me = gameState[this.playerId]
     GameLogger.ai('🤖 AI executeAITurn called with:', {
       activePlayer: gameState.activePlayer,
       phase: gameState.phase,
-      aiHand: gameState.player2.hand.map(c => ({ name: c.name, cost: c.cost, type: c.type })),
-      aiMana: gameState.player2.mana,
+      aiHand: me.hand.map(c => ({ name: c.name, cost: c.cost, type: c.type })),
+      aiMana: me.mana,
       battlefield: {
         playerUnits: gameState.battlefield.playerUnits.filter(u => u !== null).length,
         enemyUnits: gameState.battlefield.enemyUnits.filter(u => u !== null).length,
       },
     })
 
-    if (gameState.activePlayer !== 'player2') {
+    if (gameState.activePlayer !== this.playerId) {
       GameLogger.warn('executeAITurn called when not AI turn')
       return gameState
     }
 
     // this.turnStartTime = Date.now() // TODO: Add performance tracking
-    this.currentPersonality = aiService.getCurrentPersonality()
+    this.currentPersonality = this.options.personality ?? aiService.getCurrentPersonality()
     let currentState = { ...gameState }
 
     // Log AI thinking
@@ -314,7 +374,7 @@ export class AIControllerService {
     )
 
     // Phase 1: Mulligan (if needed)
-    if (currentState.phase === 'mulligan' && !currentState.player2.mulliganComplete) {
+    if (currentState.phase === 'mulligan' && !currentState[this.playerId].mulliganComplete) {
       currentState = this.performMulligan(currentState)
       return currentState
     }
@@ -326,28 +386,34 @@ export class AIControllerService {
       // Simulate thinking time
       await this.simulateThinking()
 
-      // Make card play decisions
-      currentState = await this.executeCardPlays(currentState)
-      GameLogger.ai('🤖 AI card plays completed')
+      if (this.currentPersonality.searchBudget) {
+        // Look ahead over whole lines of play instead of judging moves one at a time
+        currentState = await this.executeSearchedTurn(currentState)
+      } else {
+        // Make card play decisions
+        currentState = await this.executeCardPlays(currentState)
+        GameLogger.ai('🤖 AI card plays completed')
 
-      // Small delay between actions for visual clarity
-      await new Promise(resolve => setTimeout(resolve, 300))
+        // Small delay between actions for visual clarity
+        await this.pause(300)
 
-      // Execute attacks using new evaluation system
-      if (currentState[currentState.activePlayer].hasAttackToken) {
-        currentState = await this.makeSmartAttackDecision(currentState)
+        // Execute attacks using new evaluation system
+        if (currentState[currentState.activePlayer].hasAttackToken) {
+          currentState = await this.makeSmartAttackDecision(currentState)
+        }
       }
-      // The AI will attack via direct unit interactions in future implementation
 
       // End turn if nothing else to do
       GameLogger.ai(`🤖 ${this.currentPersonality.name} ends turn`)
-      eventManager.emitAIAction('ai_end_turn', {
-        playerId: 'player2',
+      this.systems.events.emitAIAction('ai_end_turn', {
+        playerId: this.playerId,
         reason: 'No more actions available',
       })
 
       // Actually end the turn using game logic
-      currentState = await endTurn(currentState)
+      const endingPlayer = currentState.activePlayer
+      currentState = await endTurn(currentState, this.systems)
+      this.recordAction({ type: 'end_turn', playerId: endingPlayer })
       GameLogger.ai('🤖 AI turn ended')
       return currentState
     }
@@ -357,6 +423,65 @@ export class AIControllerService {
     return currentState
   }
 
+  /**
+   * Play the turn the look-ahead search recommends. Searches again when a move is
+   * rejected (the real engine also fires deathrattles and triggers) or cards were drawn.
+   */
+  private async executeSearchedTurn(gameState: GameState): Promise<GameState> {
+    let currentState = gameState
+
+    for (let pass = 0; pass < MAX_SEARCH_PASSES; pass++) {
+      const plan = await this.search.planTurn(currentState, this.playerId, {
+        timeBudget: this.currentPersonality.searchBudget ?? 0,
+      })
+      GameLogger.ai(
+        `🤖 AI plan (${plan.iterations} playouts, score ${plan.score.toFixed(2)}): ${plan.actions.length} moves`,
+      )
+      if (plan.actions.length === 0) break
+
+      const handBefore = new Set(currentState[this.playerId].hand.map(card => card.id))
+      let completed = true
+      for (const action of plan.actions) {
+        const nextState = await this.executeTurnAction(currentState, action)
+        if (!nextState) {
+          completed = false
+          break
+        }
+        currentState = nextState
+        await this.pause(200)
+      }
+
+      const drewCards = currentState[this.playerId].hand.some(card => !handBefore.has(card.id))
+      if (completed && !drewCards) break
+    }
+
+    return currentState
+  }
+
+  // Carry out one planned move for real, or return null if the engine rejects it
+  private async executeTurnAction(
+    gameState: GameState,
+    action: TurnAction,
+  ): Promise<GameState | null> {
+    try {
+      if (action.type === 'declare_attack') {
+        const newState = await declareAttack(gameState, action, this.systems)
+        this.recordAction({ ...action, playerId: gameState.activePlayer })
+        return newState
+      }
+
+      const card = gameState[this.playerId].hand.find(c => c.id === action.cardId)
+      if (!card) return null
+      const newState = await playCardLogic(gameState, card, undefined, action.target, this.systems)
+      this.recordAction({ ...action, playerId: gameState.activePlayer })
+      GameLogger.ai(`🎴 AI plays ${card.name} as planned`)
+      return newState
+    } catch (error) {
+      GameLogger.ai(`🤖 AI planned move failed: ${error}`)
+      return null
+    }
+  }
+
   // Card play logic with strategic evaluation
   private async executeCardPlays(gameState: GameState): Promise<GameState> {
     GameLogger.ai('🤖 AI executeCardPlays starting...')
@@ -384,29 +509,26 @@ export class AIControllerService {
         continue
       }
 
-      // Check mana availability
-      const totalMana = currentState.player2.mana + currentState.player2.spellMana
-      if (decision.card.cost > totalMana) {
-        GameLogger.ai(
-          `🤖 AI skipping ${decision.card.name} - insufficient mana (${decision.card.cost} > ${totalMana})`,
-        )
+      // Earlier plays this turn may have spent the mana or filled the row
+      if (!this.hasLegalPlay(currentState, decision.card)) {
+        GameLogger.ai(`🤖 AI skipping ${decision.card.name} - no longer playable`)
         continue
       }
 
       // Play the card
       GameLogger.ai(`🤖 AI playing ${decision.card.name}`)
-      currentState = this.playCard(currentState, decision)
+      currentState = await this.playCard(currentState, decision)
       playsThisTurn++
 
       GameLogger.ai(`🎴 AI plays ${decision.card.name} - ${decision.reasoning}`)
 
       // Small delay between card plays
-      await new Promise(resolve => setTimeout(resolve, 200))
+      await this.pause(200)
     }
 
     if (playsThisTurn > 0) {
-      eventManager.emitAIAction('ai_cards_played', {
-        playerId: 'player2',
+      this.systems.events.emitAIAction('ai_cards_played', {
+        playerId: this.playerId,
         cardsPlayed: playsThisTurn,
       })
     } else {
@@ -418,7 +540,7 @@ export class AIControllerService {
 
   // Evaluate all playable cards and assign priorities
   private evaluateCardPlays(gameState: GameState): CardPlayDecision[] {
-    const player = gameState.player2
+    const player = gameState[this.playerId]
     const decisions: CardPlayDecision[] = []
 
     GameLogger.ai(
@@ -428,7 +550,11 @@ export class AIControllerService {
     GameLogger.ai(`🤖 AI mana: ${player.mana}, spell mana: ${player.spellMana}`)
     GameLogger.ai(
       '🤖 AI battlefield slots available:',
-      gameState.battlefield.enemyUnits.filter(u => u === null).length,
+      getUnitRow(gameState, this.playerId).filter(u => u === null).length,
+    )
+
+    const playable = new Set(
+      getLegalPlays(gameState, this.playerId, this.systems).map(p => p.cardId),
     )
 
     for (const card of player.hand) {
@@ -440,26 +566,11 @@ export class AIControllerService {
         allProps: Object.keys(card),
       })
 
-      const totalMana = player.mana + player.spellMana
-      GameLogger.ai(`🤖 AI checking ${card.name}: cost ${card.cost}, available mana ${totalMana}`)
-
-      if (card.cost > totalMana) {
-        GameLogger.ai(`🤖 AI skipping ${card.name} - insufficient mana`)
+      if (!playable.has(card.id)) {
+        GameLogger.ai(`🤖 AI skipping ${card.name} - not playable (mana, board space or timing)`)
         continue
       }
 
-      // Check if unit cards can be placed (battlefield not full)
-      if (card.type === 'unit') {
-        const availableSlots = gameState.battlefield.enemyUnits.filter(u => u === null).length
-        GameLogger.ai(
-          `🤖 AI checking unit placement for ${card.name}, available slots: ${availableSlots}`,
-        )
-        if (availableSlots === 0) {
-          GameLogger.ai(`🤖 AI skipping ${card.name} - no empty battlefield slots`)
-          continue
-        }
-      }
-
       const priority = this.calculateCardPriority(card, gameState)
       const reasoning = this.getCardPlayReasoning(card, gameState)
 
@@ -480,15 +591,13 @@ export class AIControllerService {
   private calculateCardPriority(card: Card, gameState: GameState): number {
     let priority = 50 // Base priority
 
-    const _player = gameState.player2
-    const _opponent = gameState.player1
     const round = gameState.round
 
     // Card type considerations
     if (card.type === 'unit') {
       // Board presence evaluation
-      const myUnits = getPlayerUnits(gameState, 'player2').length
-      const oppUnits = getPlayerUnits(gameState, 'player1').length
+      const myUnits = getPlayerUnits(gameState, this.playerId).length
+      const oppUnits = getPlayerUnits(gameState, this.opponentId).length
 
       if (myUnits < oppUnits) {
         priority += 20 // Need board presence
@@ -530,7 +639,7 @@ export class AIControllerService {
     const useContextAware =
       this.currentPersonality.level === 'hard' || this.currentPersonality.level === 'expert'
     const abilityValue = useContextAware
-      ? evaluateAbilityValueWithContext(orientedAbilities, gameState)
+      ? evaluateAbilityValueWithContext(orientedAbilities, gameState, this.playerId)
       : evaluateAbilityValue(orientedAbilities)
 
     const stats = (card.attack || 0) + (card.health || 0)
@@ -540,7 +649,7 @@ export class AIControllerService {
     // Check for favorable trades
     let tradeValue = 0
 
-    for (const enemyUnit of getPlayerUnits(gameState, 'player1')) {
+    for (const enemyUnit of getPlayerUnits(gameState, this.opponentId)) {
       // Skip units that are already dead (currentHealth <= 0)
       const unitHealth = enemyUnit.currentHealth ?? enemyUnit.health ?? 0
       if (unitHealth <= 0) continue
@@ -564,14 +673,14 @@ export class AIControllerService {
       const useContextAware =
         this.currentPersonality.level === 'hard' || this.currentPersonality.level === 'expert'
       const abilityValue = useContextAware
-        ? evaluateAbilityValueWithContext(orientedAbilities, gameState)
+        ? evaluateAbilityValueWithContext(orientedAbilities, gameState, this.playerId)
         : evaluateAbilityValue(orientedAbilities)
 
       // Normalize to 0-1 range: a value of 6+ is near max
       const normalizedValue = Math.min(1, Math.max(0, abilityValue / 6))
 
       // Bonus for removal spells when opponent has dangerous units
-      const enemyUnits = getPlayerUnits(gameState, 'player1')
+      const enemyUnits = getPlayerUnits(gameState, this.opponentId)
       const needsRemoval = enemyUnits.some(u => (u.attack || 0) >= 4)
       if (needsRemoval && normalizedValue >= 0.4) {
         return Math.min(1, normalizedValue + 0.15)
@@ -581,7 +690,7 @@ export class AIControllerService {
     }
 
     // Fallback: no parseable abilities, use old heuristic
-    const enemyUnits = getPlayerUnits(gameState, 'player1')
+    const enemyUnits = getPlayerUnits(gameState, this.opponentId)
     const hasTargets = enemyUnits.length > 0
     const needsRemoval = enemyUnits.some(u => (u.attack || 0) >= 4)
 
@@ -642,7 +751,7 @@ export class AIControllerService {
     const threshold = this.getPlayThreshold()
 
     // Always play if it's our only option or very high priority
-    if (decision.priority >= 80 || gameState.player2.hand.length <= 2) {
+    if (decision.priority >= 80 || gameState[this.playerId].hand.length <= 2) {
       return true
     }
 
@@ -691,8 +800,8 @@ export class AIControllerService {
     const reasons: string[] = []
 
     if (card.type === 'unit') {
-      const myUnits = getPlayerUnits(gameState, 'player2').length
-      const oppUnits = getPlayerUnits(gameState, 'player1').length
+      const myUnits = getPlayerUnits(gameState, this.playerId).length
+      const oppUnits = getPlayerUnits(gameState, this.opponentId).length
 
       if (myUnits < oppUnits) {
         reasons.push('need board presence')
@@ -723,84 +832,50 @@ export class AIControllerService {
     return reasons.join(', ')
   }
 
-  // Execute card play and update game state
-  private playCard(gameState: GameState, decision: CardPlayDecision): GameState {
+  // Execute card play through the game engine so AI plays resolve like player plays
+  private async playCard(gameState: GameState, decision: CardPlayDecision): Promise<GameState> {
     GameLogger.ai(`🤖 AI playCard: attempting to play ${decision.card.name}`)
-    const newState = { ...gameState }
-    const player = {
-      ...newState.player2,
-      hand: [...newState.player2.hand],
-      deck: [...newState.player2.deck],
-    }
     const card = decision.card
 
-    // Find first empty slot on the battlefield for AI (player2 uses enemyUnits)
-    let targetSlot = -1
-    if (card.type === 'unit') {
-      GameLogger.ai(`🤖 AI looking for empty slot for unit ${card.name}`)
-      for (let i = 0; i < newState.battlefield.enemyUnits.length; i++) {
-        if (newState.battlefield.enemyUnits[i] === null) {
-          targetSlot = i
-          GameLogger.ai(`🤖 AI found empty slot at index ${i}`)
-          break
-        }
-      }
-
-      if (targetSlot === -1) {
-        GameLogger.warn(`AI cannot play ${card.name} - battlefield is full`)
-        GameLogger.ai('🤖 AI battlefield state:', newState.battlefield.enemyUnits)
-        return newState // Return unchanged state
-      }
-    }
-
-    // Calculate mana payment
-    const manaToUse = Math.min(player.mana, card.cost)
-    const spellManaToUse = Math.max(0, card.cost - manaToUse)
-
-    // Validate mana availability
-    const totalMana = player.mana + player.spellMana
-    if (card.cost > totalMana) {
-      GameLogger.warn(`AI cannot play ${card.name} - insufficient mana`)
-      return newState // Return unchanged state
+    const plays = getLegalPlays(gameState, this.playerId, this.systems).filter(
+      p => p.cardId === card.id,
+    )
+    if (plays.length === 0) {
+      GameLogger.warn(`AI cannot play ${card.name} - no legal play`)
+      return gameState // Return unchanged state
     }
 
-    // Pay mana
-    player.mana -= manaToUse
-    player.spellMana -= spellManaToUse
-
-    // Remove from hand
-    player.hand = player.hand.filter(c => c.id !== card.id)
+    // Units go in the first empty slot
+    const targetSlot = plays[0].targetSlot
+    const target = this.chooseTarget(gameState, card)
 
-    // Add to appropriate zone
-    if (card.type === 'unit') {
-      // Create the unit with proper properties for battlefield placement
-      const unitToPlace: Card = {
-        ...card,
-        owner: 'player2',
-        currentHealth: card.health,
-        hasSummoningSickness: true,
-        hasAttackedThisTurn: false,
-      }
-
-      // Use battlefield service to place unit on battlefield
-      const newBattlefield = battlefieldService.placeUnit(
-        newState.battlefield,
-        unitToPlace,
-        'player2',
+    try {
+      const newState = await playCardLogic(gameState, card, targetSlot, target, this.systems)
+      this.recordAction({
+        type: 'play_card',
+        playerId: gameState.activePlayer,
+        cardId: card.id,
         targetSlot,
-      )
-      newState.battlefield = newBattlefield
-
-      // Update state
-      newState.player2 = player
-      return newState
-    } else {
-      // Handle spell - effects are resolved immediately
-      newState.player2 = player
+        target,
+      })
       return newState
+    } catch (error) {
+      GameLogger.warn(`AI cannot play ${card.name}: ${error}`)
+      return gameState // Return unchanged state
     }
   }
 
+  private hasLegalPlay(gameState: GameState, card: Card): boolean {
+    return getLegalPlays(gameState, this.playerId, this.systems).some(p => p.cardId === card.id)
+  }
+
+  // Pick the unit or player a targeted spell or battlecry is aimed at
+  chooseTarget(gameState: GameState, card: Card): PlayTarget | undefined {
+    const target = chooseBestTarget(gameState, card, this.playerId, this.systems)
+    if (target) GameLogger.ai(`🤖 AI aims ${card.name} at ${target.type} ${target.id}`)
+    return target
+  }
+
   // NEW: Smart attack decision using evaluation system
   private async makeSmartAttackDecision(gameState: GameState): Promise<GameState> {
     const evaluations = this.evaluateAttacks(gameState)
@@ -811,7 +886,19 @@ export class AIControllerService {
 
     for (const attack of bestAttacks) {
       try {
-        currentState = await declareAttack(currentState, {
+        const attackingPlayer = currentState.activePlayer
+        currentState = await declareAttack(
+          currentState,
+          {
+            attackerId: attack.attackerId,
+            targetType: attack.targetType,
+            targetId: attack.targetId,
+          },
+          this.systems,
+        )
+        this.recordAction({
+          type: 'declare_attack',
+          playerId: attackingPlayer,
           attackerId: attack.attackerId,
           targetType: attack.targetType,
           targetId: attack.targetId,
@@ -826,55 +913,38 @@ export class AIControllerService {
     return currentState
   }
 
-  // Direct Attack Evaluation System with ability-aware targeting
+  // Score every legal attack; taunt and stealth are already settled by the legal-move list
   private evaluateAttacks(state: GameState): AttackEvaluation[] {
     const evaluations: AttackEvaluation[] = []
-    const myUnits = getPlayerUnits(state, 'player2')
-    const enemyUnits = getPlayerUnits(state, 'player1')
-
-    // Check for taunt units - if present, we must attack them
-    const tauntUnits = enemyUnits.filter(
-      u =>
-        u.keywords?.some(k => k.toLowerCase() === 'taunt') &&
-        (u.currentHealth ?? u.health) > 0,
-    )
-    const hasTaunt = tauntUnits.length > 0
-
-    for (const attacker of myUnits) {
-      if (!this.canAttack(attacker)) continue
+    const onBoard = [
+      ...getPlayerUnits(state, this.playerId),
+      ...getPlayerUnits(state, this.opponentId),
+    ]
+    const units = new Map(onBoard.map(u => [u.id, u]))
 
-      // Evaluate each enemy unit as target
-      for (const target of enemyUnits) {
-        const targetHealth = target.currentHealth ?? target.health ?? 0
-        if (targetHealth <= 0) continue
-
-        const isTauntTarget = target.keywords?.some(k => k.toLowerCase() === 'taunt') || false
-        let value = this.evaluateTrade(attacker, target, state)
-
-        // If there are taunt units, heavily penalize non-taunt targets
-        if (hasTaunt && !isTauntTarget) {
-          value -= 1000
-        }
+    for (const attack of getLegalAttacks(state, this.playerId, this.systems)) {
+      const attacker = units.get(attack.attackerId)
+      if (!attacker) continue
 
+      if (attack.targetType === 'player') {
         evaluations.push({
           attackerId: attacker.id,
-          targetType: 'unit',
-          targetId: target.id,
-          value,
-          reasoning: `Trade ${attacker.name} into ${target.name}${isTauntTarget ? ' (taunt)' : ''}`,
+          targetType: 'player',
+          value: this.evaluateFaceDamage(attacker.attack || 0, state[this.opponentId].health),
+          reasoning: `Deal ${attacker.attack} to face`,
         })
+        continue
       }
 
-      // Evaluate face damage - blocked if taunt is on the field
-      let faceValue = this.evaluateFaceDamage(attacker.attack || 0, state.player1.health)
-      if (hasTaunt) {
-        faceValue -= 1000 // Cannot go face when taunt is present
-      }
+      const target = attack.targetId ? units.get(attack.targetId) : undefined
+      if (!target) continue
+      const isTauntTarget = this.systems.combat.hasKeyword(target, 'taunt')
       evaluations.push({
         attackerId: attacker.id,
-        targetType: 'player',
-        value: faceValue,
-        reasoning: `Deal ${attacker.attack} to face`,
+        targetType: 'unit',
+        targetId: target.id,
+        value: this.evaluateTrade(attacker, target, state),
+        reasoning: `Trade ${attacker.name} into ${target.name}${isTauntTarget ? ' (taunt)' : ''}`,
       })
     }
 
@@ -938,7 +1008,7 @@ export class AIControllerService {
       attackerKillsTarget
     ) {
       const overkill = attackerDamage - targetHealth
-      if (overkill >= 3 && state.player1.health <= 10) {
+      if (overkill >= 3 && state[this.opponentId].health <= 10) {
         // Significant overkill and opponent is low - face might be better
         // Reduce trade value slightly so face damage can compete
         tradeValue *= 0.8
@@ -989,32 +1059,27 @@ export class AIControllerService {
     return value
   }
 
-  // Helper function to check if unit can attack (imported from combat_logic)
-  private canAttack(unit: Card): boolean {
-    if (!unit) return false
-    if (unit.hasSummoningSickness && !unit.keywords?.some(k => k.toLowerCase() === 'charge'))
-      return false
-    if (unit.hasAttackedThisTurn) return false
-    if ((unit.currentHealth ?? unit.health) <= 0) return false
-    return true
-  }
-
   // Mulligan logic
-  private performMulligan(gameState: GameState): GameState {
-    return aiService.performMulligan(gameState)
+  performMulligan(gameState: GameState): GameState {
+    return aiService.performMulligan(gameState, this.playerId, this.currentPersonality)
   }
 
   // Simulate thinking delay
   private async simulateThinking(): Promise<void> {
     const delay = this.currentPersonality.thinkingTime
     const variation = (Math.random() - 0.5) * 500 // ±250ms variation
-    await new Promise(resolve => setTimeout(resolve, Math.max(300, delay + variation)))
+    await this.pause(Math.max(300, delay + variation))
+  }
+
+  private async pause(ms: number): Promise<void> {
+    if (!this.thinkingDelays) return
+    await new Promise(resolve => setTimeout(resolve, ms))
   }
 
   // Set AI difficulty
   setDifficulty(level: AILevel): void {
     aiService.setPersonality(level)
-    this.currentPersonality = aiService.getCurrentPersonality()
+    this.currentPersonality = this.options.personality ?? aiService.getCurrentPersonality()
     GameLogger.ai(`🎮 AI difficulty set to: ${level} - ${this.currentPersonality.name}`)
   }
 
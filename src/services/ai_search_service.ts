@@ -0,0 +1,273 @@
+import { GameLogger } from '@/lib/game_logger'
+import { previewPlayCard } from '@/lib/game_logic'
+import { getUnitRow } from '@/lib/graveyard'
+import { getLegalAttacks, getLegalPlays } from '@/lib/legal_actions'
+import type { ReplayAction } from '@/schemas/replay_schema'
+import type { Card, GameState, PlayerId } from '@/schemas/schema'
+import { defaultEngineSystems, type EngineSystems } from './engine_systems'
+
+// ================================
+// LOOK-AHEAD TURN SEARCH
+// ================================
+// Monte Carlo tree search over the moves available this turn: which cards to play, in
+// what order, at what, and which attacks to make. Moves are played out on copies of the
+// state with the engine's synchronous previews (previewPlayCard, resolveAttack), so the
+// real game, its events and its effect system are never touched. Each line of play is
+// scored on the position it leaves once the opponent swings back with their board.
+// The search hands the thread back every few milliseconds so the board keeps animating.
+
+/** One move in a turn plan, shaped like the replay action that records it */
+export type TurnAction =
+  | Omit<Extract<ReplayAction, { type: 'play_card' }>, 'playerId' | 'targetSlot'>
+  | Omit<Extract<ReplayAction, { type: 'declare_attack' }>, 'playerId'>
+
+export interface TurnPlan {
+  /** Moves to make in order before ending the turn; empty means pass */
+  actions: TurnAction[]
+  /** The plan's evaluation, from 0 (lost) to 1 (won) */
+  score: number
+  iterations: number
+}
+
+export interface SearchOptions {
+  /** Milliseconds to spend searching */
+  timeBudget: number
+  /** Stop after this many playouts even if time remains */
+  maxIterations?: number
+  random?: () => number
+}
+
+interface SearchNode {
+  /** The move that led here; null at the root */
+  action: TurnAction | null
+  children: SearchNode[]
+  /** Moves not yet tried from this node, plus ending the turn (null) */
+  untried: (TurnAction | null)[]
+  visits: number
+  totalReward: number
+}
+
+// Longest stretch of playouts between yields to the event loop, in milliseconds
+const SEARCH_SLICE_MS = 12
+// Exploration constant for UCT
+const EXPLORATION = Math.SQRT2
+// Playouts end the turn early with this chance at every step
+const ROLLOUT_END_CHANCE = 0.15
+// Scale of the evaluation's logistic squash; a swing of this many points is ~73% vs 50%
+const SCORE_SCALE = 12
+// Evaluation weights, in points
+const WEIGHTS = {
+  health: 0.6,
+  cardInHand: 1.5,
+  lethalThreat: 25,
+  taunt: 1,
+  divineShield: 1.5,
+}
+
+const opponentOf = (playerId: PlayerId): PlayerId =>
+  playerId === 'player1' ? 'player2' : 'player1'
+
+function unitsOf(state: GameState, playerId: PlayerId): Card[] {
+  return getUnitRow(state, playerId).filter((u): u is Card => u !== null)
+}
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0))
+
+export class AISearchService {
+  /** Moves are checked against the keywords and effects of `systems`' match */
+  constructor(private readonly systems: EngineSystems = defaultEngineSystems) {}
+
+  /** Search for the best sequence of moves for `playerId`, who must be the active player */
+  planTurn(state: GameState, playerId: PlayerId, options: SearchOptions): Promise<TurnPlan> {
+    return this.search(state, playerId, options)
+  }
+
+  /** Every move available right now. Only cards already in `playable` are considered */
+  getActions(state: GameState, playerId: PlayerId, playable?: Set<string>): TurnAction[] {
+    const actions: TurnAction[] = []
+
+    // Previews put units in the first empty slot, so plays differing only by slot are one move
+    const seen = new Set<string>()
+    for (const { cardId, target } of getLegalPlays(state, playerId, this.systems)) {
+      if (playable && !playable.has(cardId)) continue
+      const key = `${cardId}:${target?.type ?? ''}:${target?.id ?? ''}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      actions.push(target ? { type: 'play_card', cardId, target } : { type: 'play_card', cardId })
+    }
+
+    actions.push(...getLegalAttacks(state, playerId, this.systems))
+    return actions
+  }
+
+  /** Play a move out on a copy of the state, or return null if the engine rejects it */
+  applyAction(state: GameState, action: TurnAction): GameState | null {
+    try {
+      if (action.type === 'declare_attack') {
+        // Seasonal auras follow the board this line of play has left, as in declareAttack
+        this.systems.combat.syncSeasonalEffects(state)
+        return this.systems.combat.resolveAttack(state, action)
+      }
+      const card = state[state.activePlayer].hand.find(c => c.id === action.cardId)
+      return card ? previewPlayCard(state, card, action.target, this.systems) : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Score a position for `playerId` between 0 and 1: material on board and in hand,
+   * life totals, and whether the opponent's board threatens lethal on their next turn.
+   */
+  evaluate(state: GameState, playerId: PlayerId): number {
+    const opponentId = opponentOf(playerId)
+    const me = state[playerId]
+    const opponent = state[opponentId]
+    const { combat } = this.systems
+    if (opponent.health <= 0) return 1
+    if (me.health <= 0) return 0
+
+    const boardValue = (units: Card[]) =>
+      units.reduce(
+        (sum, unit) =>
+          sum +
+          unit.attack +
+          (unit.currentHealth ?? unit.health) +
+          (combat.hasKeyword(unit, 'taunt') ? WEIGHTS.taunt : 0) +
+          (unit.divineShield ? WEIGHTS.divineShield : 0),
+        0,
+      )
+    const myUnits = unitsOf(state, playerId)
+    const enemyUnits = unitsOf(state, opponentId)
+
+    let value =
+      boardValue(myUnits) -
+      boardValue(enemyUnits) +
+      (me.health - opponent.health) * WEIGHTS.health +
+      (me.hand.length - opponent.hand.length) * WEIGHTS.cardInHand
+
+    // Tokens flip at the start of each round, which begins on player1's turn
+    const nextTurnIsNewRound = (state.turn + 1) % 2 === 1
+    const opponentAttacksNext = nextTurnIsNewRound
+      ? !opponent.hasAttackToken
+      : opponent.hasAttackToken
+    if (opponentAttacksNext) {
+      const incoming = enemyUnits.reduce((sum, unit) => sum + Math.max(0, unit.attack), 0)
+      const blocking = myUnits
+        .filter(unit => combat.hasKeyword(unit, 'taunt'))
+        .reduce((sum, unit) => sum + (unit.currentHealth ?? unit.health), 0)
+      if (incoming - blocking >= me.health) value -= WEIGHTS.lethalThreat
+    }
+
+    return 1 / (1 + Math.exp(-value / SCORE_SCALE))
+  }
+
+  private async search(
+    state: GameState,
+    playerId: PlayerId,
+    options: SearchOptions,
+  ): Promise<TurnPlan> {
+    const random = options.random ?? Math.random
+    const deadline = Date.now() + options.timeBudget
+    const maxIterations = options.maxIterations ?? Number.POSITIVE_INFINITY
+    // Cards drawn mid-turn are unknown until they arrive, so only plan with today's hand
+    const playable = new Set(state[playerId].hand.map(card => card.id))
+
+    // Ending the turn is a leaf; any other move opens up the moves that follow it
+    const newNode = (action: TurnAction | null, from: GameState | null): SearchNode => ({
+      action,
+      children: [],
+      untried: from ? [null, ...this.getActions(from, playerId, playable)] : [],
+      visits: 0,
+      totalReward: 0,
+    })
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)]
+
+    const root = newNode(null, state)
+    let best: TurnPlan = { actions: [], score: this.evaluate(state, playerId), iterations: 0 }
+    let iterations = 0
+    const searching = () =>
+      iterations < maxIterations && (iterations === 0 || Date.now() < deadline)
+
+    // One playout: select, expand, play out at random, then back the result up the tree
+    const playout = () => {
+      iterations++
+      let current = state
+      let node = root
+      const path: SearchNode[] = [root]
+      const line: TurnAction[] = []
+      let ended = false
+
+      // Selection: descend through fully expanded nodes by UCT
+      while (node.untried.length === 0 && node.children.length > 0) {
+        const parentVisits = node.visits
+        node = node.children.reduce((a, b) =>
+          this.uct(b, parentVisits) > this.uct(a, parentVisits) ? b : a,
+        )
+        path.push(node)
+        if (node.action === null) {
+          ended = true
+          break
+        }
+        current = this.applyAction(current, node.action) ?? current
+        line.push(node.action)
+      }
+
+      // Expansion: try one new move from here; moves the engine rejects are dropped
+      if (!ended && node.untried.length > 0) {
+        const [action] = node.untried.splice(Math.floor(random() * node.untried.length), 1)
+        const next = action && this.applyAction(current, action)
+        if (action === null || next) {
+          const child = newNode(action, next || null)
+          if (next) {
+            current = next
+            line.push(action as TurnAction)
+          } else {
+            ended = true
+          }
+          node.children.push(child)
+          path.push(child)
+        }
+      }
+
+      // Playout: random moves until the turn ends or the game is decided
+      while (!ended && current[opponentOf(playerId)].health > 0) {
+        const actions = this.getActions(current, playerId, playable)
+        if (actions.length === 0 || random() < ROLLOUT_END_CHANCE) break
+        const action = pick(actions)
+        const next = this.applyAction(current, action)
+        if (!next) break
+        current = next
+        line.push(action)
+      }
+
+      const reward = this.evaluate(current, playerId)
+      for (const visited of path) {
+        visited.visits++
+        visited.totalReward += reward
+      }
+      if (reward > best.score) best = { actions: [...line], score: reward, iterations }
+    }
+
+    while (searching()) {
+      const sliceEnd = Date.now() + SEARCH_SLICE_MS
+      GameLogger.muted(() => {
+        do {
+          playout()
+        } while (searching() && Date.now() < sliceEnd)
+      })
+      if (searching()) await yieldToEventLoop()
+    }
+
+    return { ...best, iterations }
+  }
+
+  private uct(node: SearchNode, parentVisits: number): number {
+    if (node.visits === 0) return Number.POSITIVE_INFINITY
+    return (
+      node.totalReward / node.visits + EXPLORATION * Math.sqrt(Math.log(parentVisits) / node.visits)
+    )
+  }
+}
+
+export const aiSearchService = new AISearchService()
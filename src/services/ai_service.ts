@@ -1,4 +1,4 @@
-import type { Card, GameState } from '@/schemas/schema'
+import type { Card, GameState, PlayerId } from '@/schemas/schema'
 
 export type AILevel = 'tutorial' | 'easy' | 'normal' | 'hard' | 'expert'
 
@@ -12,6 +12,7 @@ export interface AIPersonality {
   attackStrategy: 'cautious' | 'aggressive' | 'optimal' | 'random'
   thinkingTime: number // milliseconds
   mistakeChance: number // 0-1, chance of making suboptimal plays
+  searchBudget?: number // milliseconds of look-ahead per turn; greedy heuristics when unset
 }
 
 export const AI_PERSONALITIES: Record<AILevel, AIPersonality> = {
@@ -61,14 +62,15 @@ export const AI_PERSONALITIES: Record<AILevel, AIPersonality> = {
   },
   expert: {
     name: 'Arcane Oracle',
-    description: 'Near-perfect play, maximum challenge',
+    description: 'Searches ahead for the strongest line of play, maximum challenge',
     level: 'expert',
     icon: '👑',
     mulliganStrategy: 'aggressive',
     playStrategy: 'control',
     attackStrategy: 'optimal',
-    thinkingTime: 2000,
-    mistakeChance: 0.05,
+    thinkingTime: 500,
+    mistakeChance: 0,
+    searchBudget: 1500,
   },
 }
 
@@ -84,10 +86,13 @@ export class AIService {
   }
 
   // Enhanced mulligan logic based on AI personality
-  performMulligan(gameState: GameState): GameState {
-    const personality = this.currentPersonality
-    const player = gameState.player2
-    const hand = player.hand
+  performMulligan(
+    gameState: GameState,
+    playerId: PlayerId = 'player2',
+    personality: AIPersonality = this.currentPersonality,
+  ): GameState {
+    const player = gameState[playerId]
+    const hand = [...player.hand]
     let cardsToMulligan: string[] = []
 
     switch (personality.mulliganStrategy) {
@@ -153,7 +158,7 @@ export class AIService {
     }
 
     // Apply the mulligan
-    return this.applyMulligan(gameState, cardsToMulligan)
+    return this.applyMulligan(gameState, cardsToMulligan, playerId)
   }
 
   // Enhanced card play logic
@@ -382,9 +387,9 @@ export class AIService {
       : availableAttackers.slice(0, 1).map(unit => unit.id) // At least attack with one
   }
 
-  private applyMulligan(gameState: GameState, cardIds: string[]): GameState {
+  private applyMulligan(gameState: GameState, cardIds: string[], playerId: PlayerId): GameState {
     const newGameState = { ...gameState }
-    const player = { ...newGameState.player2 }
+    const player = { ...newGameState[playerId] }
 
     if (cardIds.length > 0) {
       // Shuffle selected cards back into deck
@@ -407,7 +412,7 @@ export class AIService {
     }
 
     player.mulliganComplete = true
-    newGameState.player2 = player
+    newGameState[playerId] = player
 
     // Check if both players completed mulligan
     if (newGameState.player1.mulliganComplete && newGameState.player2.mulliganComplete) {
@@ -19,11 +19,13 @@ export type ZodiacClass =
   | 'aquarius'
   | 'pisces'
 
+export type LunarPhase = 'new_moon' | 'waxing' | 'full_moon' | 'waning'
+
 export interface CosmicAlignment {
   dominantElement: ZodiacElement
   alignedSigns: ZodiacClass[]
   resonanceStrength: number
-  activePhase: 'new_moon' | 'waxing' | 'full_moon' | 'waning'
+  activePhase: LunarPhase
 }
 
 export interface AstrologyBonus {
@@ -33,6 +35,15 @@ export interface AstrologyBonus {
   source: 'cosmic_alignment' | 'zodiac_synergy' | 'elemental_dominance'
 }
 
+const LUNAR_CYCLE: LunarPhase[] = ['new_moon', 'waxing', 'full_moon', 'waning']
+
+const LUNAR_BLESSING: Record<LunarPhase, number> = {
+  new_moon: 0,
+  waxing: 1,
+  full_moon: 2,
+  waning: 1,
+}
+
 class AstrologyService {
   // Use static GameLogger methods instead of instance
   private currentAlignment: CosmicAlignment = {
@@ -284,6 +295,34 @@ class AstrologyService {
     return geometryBonus
   }
 
+  /**
+   * Attack a sacred_geometry unit gains from where it stands, scaling its printed attack
+   * by the geometry multiplier
+   */
+  getSacredGeometryBonus(
+    card: GameCard,
+    position: BattlefieldPosition,
+    battlefield: Battlefield,
+  ): number {
+    const multiplier = this.calculateSacredGeometry(card, position, battlefield)
+    return Math.floor(card.attack * (multiplier - 1))
+  }
+
+  /**
+   * Lunar phase of a game round. The moon advances once per round rather than with the
+   * wall clock, so both players and replays see the same sky.
+   */
+  getLunarPhaseForRound(round: number): LunarPhase {
+    return LUNAR_CYCLE[Math.max(0, round - 1) % LUNAR_CYCLE.length]
+  }
+
+  /**
+   * Attack granted by lunar_blessing: +2 under a full moon, +1 while waxing or waning
+   */
+  getLunarBlessingBonus(round: number): number {
+    return LUNAR_BLESSING[this.getLunarPhaseForRound(round)]
+  }
+
   /**
    * Check if two numbers form a Fibonacci pair
    */
@@ -296,16 +335,10 @@ class AstrologyService {
   /**
    * Calculate current lunar phase (simplified)
    */
-  private calculateLunarPhase(): 'new_moon' | 'waxing' | 'full_moon' | 'waning' {
+  private calculateLunarPhase(): LunarPhase {
     // Simple cycle based on game turn or time
     const cycle = Math.floor(Date.now() / (1000 * 60 * 2)) % 4 // 2-minute cycles
-    const phases: ('new_moon' | 'waxing' | 'full_moon' | 'waning')[] = [
-      'new_moon',
-      'waxing',
-      'full_moon',
-      'waning',
-    ]
-    return phases[cycle]
+    return LUNAR_CYCLE[cycle]
   }
 
   /**
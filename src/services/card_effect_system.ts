@@ -1,5 +1,13 @@
 import { produce } from 'immer'
 import { GameLogger } from '@/lib/game_logger'
+import {
+  destroyAllUnitsOf,
+  destroyUnitAt,
+  getUnitRow,
+  sendToGraveyard,
+  takeUnitsFromGraveyard,
+} from '@/lib/graveyard'
+import { rollRandom } from '@/lib/rng'
 import type {
   Card,
   CardEffect,
@@ -7,13 +15,19 @@ import type {
   EffectResult,
   GameEvent,
   GameState,
+  PlayerId,
+  ScriptedAction,
+  ScriptedAmount,
+  ScriptedCondition,
+  ScriptedEffect,
   TriggeredAbility,
 } from '@/schemas/schema'
-import { parseAbilityDescription } from '@/services/ability_parser'
-import type { ParsedAction } from '@/services/ability_parser'
-import { effectStackService } from '@/services/effect_stack_service'
-import { eventManager } from '@/services/event_manager'
-import { useGameStore } from '@/store/game_store'
+import { findExplicitTrigger, parseAbilityDescription } from '@/services/ability_parser'
+import type { ParsedAction, TriggerType } from '@/services/ability_parser'
+import { type CombatService, combatService } from '@/services/combat_service'
+import { type EffectStackService, effectStackService } from '@/services/effect_stack_service'
+import type { EngineSystems } from '@/services/engine_systems'
+import { type EventManager, eventManager } from '@/services/event_manager'
 
 // ================================
 // ABILITY PRIORITY LEVELS
@@ -33,29 +47,148 @@ export type EffectExecutor = (
   effect: CardEffect,
   context: EffectContext,
   params: EffectParams,
+  /** Keyword checks for the match the effect resolves in */
+  combat: CombatService,
 ) => EffectResult
 
 export interface EffectParams {
   amount?: number
   targetType?: 'player' | 'unit' | 'all_units' | 'all_enemies' | 'all_allies'
   targetId?: string
+  targetPlayer?: PlayerId
   duration?: number
   statModifiers?: { attack?: number; health?: number }
   keyword?: string
 }
 
+// ================================
+// KEYWORD RULES
+// ================================
+
+/** Extra damage a spell deals: +1 for each spell_damage unit its caster controls */
+function getSpellDamageBonus(
+  state: GameState,
+  source: Card,
+  owner: PlayerId,
+  combat: CombatService,
+): number {
+  if (source.type !== 'spell') return 0
+  const units = getUnitRow(state, owner)
+  return units.filter(u => u && combat.hasKeyword(u, 'spell_damage')).length
+}
+
+/** Mystical ward stops spells from targeting a unit; area effects still reach it */
+function isWardedFrom(
+  state: GameState,
+  targetId: string | undefined,
+  source: Card,
+  combat: CombatService,
+): boolean {
+  if (source.type !== 'spell' || !targetId) return false
+
+  const unit = [...state.battlefield.playerUnits, ...state.battlefield.enemyUnits].find(
+    u => u?.id === targetId,
+  )
+  if (!unit) return false
+  if (unit.mysticWard !== true && !combat.hasKeyword(unit, 'mystical_ward')) return false
+
+  GameLogger.action(`${source.name}: ${unit.name} is protected by Mystical Ward`)
+  return true
+}
+
+/** The abilities a card uses in its current orientation */
+export function getOrientedAbilities(card: Card): NonNullable<Card['abilities']> {
+  const oriented = card.isReversed ? card.reversedAbilities : card.uprightAbilities
+  return oriented && oriented.length > 0 ? oriented : (card.abilities ?? [])
+}
+
+/** Units on the battlefield in `before` that are gone from both rows in `after` */
+function findFallenUnits(before: GameState, after: GameState): Card[] {
+  const remaining = new Set(
+    [...after.battlefield.playerUnits, ...after.battlefield.enemyUnits].map(u => u?.id),
+  )
+  const fallen: Card[] = []
+  for (const playerId of ['player1', 'player2'] as const) {
+    for (const unit of getUnitRow(before, playerId)) {
+      if (unit && !remaining.has(unit.id)) fallen.push({ ...unit, owner: playerId })
+    }
+  }
+  return fallen
+}
+
+// Deathrattles that kill more deathrattle units chain; stop runaway loops
+const MAX_DEATHRATTLE_WAVES = 5
+
+// ================================
+// SCRIPTED EFFECTS
+// ================================
+
+/** The frontmatter script standing in for an ability's prose in the card's current orientation */
+export function findScriptedEffect(
+  card: Card,
+  abilityName: string | undefined,
+): ScriptedEffect | undefined {
+  if (!abilityName) return undefined
+  const otherSide = card.isReversed ? 'upright' : 'reversed'
+  return card.scriptedEffects?.find(
+    effect => effect.name === abilityName && effect.orientation !== otherSide,
+  )
+}
+
+function meetsCondition(state: GameState, owner: PlayerId, condition: ScriptedCondition): boolean {
+  const playerId = condition.player === 'opponent' ? (owner === 'player1' ? 'player2' : 'player1') : owner
+  const player = state[playerId]
+  const value = {
+    mana: player.mana + player.spellMana,
+    health: player.health,
+    hand_size: player.hand.length,
+    unit_count: getUnitRow(state, playerId).filter(Boolean).length,
+  }[condition.check]
+
+  return value >= (condition.min ?? -Infinity) && value <= (condition.max ?? Infinity)
+}
+
+/** Spend mana (regular first, then spell mana); X takes everything left, up to its max */
+function payScriptedMana(
+  state: GameState,
+  owner: PlayerId,
+  action: ScriptedAction,
+): { state: GameState; paid: number } | null {
+  const player = state[owner]
+  const available = player.mana + player.spellMana
+  const amount =
+    action.amount === 'X' || action.amount === undefined
+      ? Math.min(available, action.max ?? available)
+      : action.amount
+  if (amount > available) return null
+
+  const newState = produce(state, draft => {
+    const fromMana = Math.min(draft[owner].mana, amount)
+    draft[owner].mana -= fromMana
+    draft[owner].spellMana -= amount - fromMana
+  })
+  return { state: newState, paid: amount }
+}
+
 // ================================
 // EFFECT EXECUTORS REGISTRY
 // ================================
 const effectExecutors: Record<string, EffectExecutor> = {
-  dealDamage: (effect, context, params) => {
-    const { amount = 1, targetType = 'player', targetId } = params
+  dealDamage: (effect, context, params, combat) => {
+    const { targetType = 'player', targetId } = params
     const gameState = context.gameState
     const sourceOwner = context.source.owner || gameState.activePlayer
+    const amount =
+      (params.amount ?? 1) + getSpellDamageBonus(gameState, context.source, sourceOwner, combat)
+
+    if (targetType === 'unit' && isWardedFrom(gameState, targetId, context.source, combat)) {
+      return { success: true, newGameState: gameState }
+    }
 
     const newState = produce(gameState, draft => {
       if (targetType === 'player') {
-        const targetPlayer = sourceOwner === 'player1' ? 'player2' : 'player1'
+        const targetPlayer =
+          params.targetPlayer ?? (sourceOwner === 'player1' ? 'player2' : 'player1')
         draft[targetPlayer].health -= amount
         GameLogger.action(`${effect.name}: Dealt ${amount} damage to ${targetPlayer}`)
       } else if (targetType === 'unit' && targetId) {
@@ -64,31 +197,31 @@ const effectExecutors: Record<string, EffectExecutor> = {
           if (draft.battlefield.playerUnits[i]?.id === targetId) {
             const unit = draft.battlefield.playerUnits[i]!
             unit.currentHealth = (unit.currentHealth || unit.health) - amount
+            GameLogger.action(`${effect.name}: Dealt ${amount} damage to ${unit.name}`)
             if (unit.currentHealth <= 0) {
-              draft.battlefield.playerUnits[i] = null
+              destroyUnitAt(draft, 'player1', i)
             }
-            GameLogger.action(`${effect.name}: Dealt ${amount} damage to ${unit.name}`)
             break
           }
           if (draft.battlefield.enemyUnits[i]?.id === targetId) {
             const unit = draft.battlefield.enemyUnits[i]!
             unit.currentHealth = (unit.currentHealth || unit.health) - amount
+            GameLogger.action(`${effect.name}: Dealt ${amount} damage to ${unit.name}`)
             if (unit.currentHealth <= 0) {
-              draft.battlefield.enemyUnits[i] = null
+              destroyUnitAt(draft, 'player2', i)
             }
-            GameLogger.action(`${effect.name}: Dealt ${amount} damage to ${unit.name}`)
             break
           }
         }
       } else if (targetType === 'all_enemies') {
-        const enemyUnits =
-          sourceOwner === 'player1' ? draft.battlefield.enemyUnits : draft.battlefield.playerUnits
+        const enemy = sourceOwner === 'player1' ? 'player2' : 'player1'
+        const enemyUnits = getUnitRow(draft, enemy)
         for (let i = 0; i < enemyUnits.length; i++) {
           const unit = enemyUnits[i]
           if (unit) {
             unit.currentHealth = (unit.currentHealth || unit.health) - amount
             if (unit.currentHealth <= 0) {
-              enemyUnits[i] = null
+              destroyUnitAt(draft, enemy, i)
             }
           }
         }
@@ -137,8 +270,8 @@ const effectExecutors: Record<string, EffectExecutor> = {
       for (let i = 0; i < cardsToDraw; i++) {
         const drawnCard = player.deck.shift()
         if (drawnCard) {
-          // Set random orientation
-          drawnCard.isReversed = Math.random() < 0.5
+          // Set random orientation from the game's seeded generator
+          drawnCard.isReversed = rollRandom(draft) < 0.5
           player.hand.push(drawnCard)
         }
       }
@@ -149,11 +282,15 @@ const effectExecutors: Record<string, EffectExecutor> = {
     return { success: true, newGameState: newState }
   },
 
-  statBuff: (effect, context, params) => {
+  statBuff: (effect, context, params, combat) => {
     const { statModifiers = {}, targetId } = params
     const { attack = 0, health = 0 } = statModifiers
     const gameState = context.gameState
 
+    if (isWardedFrom(gameState, targetId, context.source, combat)) {
+      return { success: true, newGameState: gameState }
+    }
+
     const newState = produce(gameState, draft => {
       const targetCardId = targetId || context.source.id
 
@@ -188,11 +325,14 @@ const effectExecutors: Record<string, EffectExecutor> = {
 
     const newState = produce(gameState, draft => {
       const player = draft[sourceOwner]
-      const cardsToDiscard = Math.min(amount, player.hand.length)
+      // The parser uses -1 for "discard your hand"
+      const cardsToDiscard =
+        amount === -1 ? player.hand.length : Math.min(amount, player.hand.length)
 
       // Discard from end of hand (random selection would need UI)
       for (let i = 0; i < cardsToDiscard; i++) {
-        player.hand.pop()
+        const discarded = player.hand.pop()
+        if (discarded) sendToGraveyard(draft, sourceOwner, discarded)
       }
 
       GameLogger.action(`${effect.name}: ${sourceOwner} discarded ${cardsToDiscard} card(s)`)
@@ -213,9 +353,9 @@ const effectExecutors: Record<string, EffectExecutor> = {
       // Find empty slot
       const emptySlot = units.indexOf(null)
       if (emptySlot !== -1) {
-        // Create a basic token
+        // Create a basic token, its id drawn from the game's RNG so a replay recreates it
         units[emptySlot] = {
-          id: `token_${Date.now()}`,
+          id: `token_${Math.floor(rollRandom(draft) * 0x100000000).toString(36)}`,
           name: 'Token',
           cost: 0,
           attack: params.statModifiers?.attack || 1,
@@ -236,7 +376,7 @@ const effectExecutors: Record<string, EffectExecutor> = {
     return { success: true, newGameState: newState }
   },
 
-  destroyUnit: (effect, context, params) => {
+  destroyUnit: (effect, context, params, combat) => {
     const { targetId } = params
     const gameState = context.gameState
 
@@ -244,18 +384,22 @@ const effectExecutors: Record<string, EffectExecutor> = {
       return { success: false, error: 'No target specified' }
     }
 
+    if (isWardedFrom(gameState, targetId, context.source, combat)) {
+      return { success: true, newGameState: gameState }
+    }
+
     const newState = produce(gameState, draft => {
       for (let i = 0; i < 7; i++) {
         if (draft.battlefield.playerUnits[i]?.id === targetId) {
           const unit = draft.battlefield.playerUnits[i]!
           GameLogger.action(`${effect.name}: Destroyed ${unit.name}`)
-          draft.battlefield.playerUnits[i] = null
+          destroyUnitAt(draft, 'player1', i)
           break
         }
         if (draft.battlefield.enemyUnits[i]?.id === targetId) {
           const unit = draft.battlefield.enemyUnits[i]!
           GameLogger.action(`${effect.name}: Destroyed ${unit.name}`)
-          draft.battlefield.enemyUnits[i] = null
+          destroyUnitAt(draft, 'player2', i)
           break
         }
       }
@@ -264,6 +408,52 @@ const effectExecutors: Record<string, EffectExecutor> = {
     return { success: true, newGameState: newState }
   },
 
+  returnFromGraveyard: (effect, context, params) => {
+    const { amount = 1 } = params
+    const gameState = context.gameState
+    const sourceOwner = context.source.owner || gameState.activePlayer
+
+    const newState = produce(gameState, draft => {
+      const returned = takeUnitsFromGraveyard(draft, sourceOwner, amount)
+      draft[sourceOwner].hand.push(...returned)
+      GameLogger.action(
+        `${effect.name}: ${sourceOwner} returned ${returned.map(c => c.name).join(', ') || 'nothing'} to hand`,
+      )
+    })
+
+    return { success: true, newGameState: newState }
+  },
+
+  resurrectUnit: (effect, context, params) => {
+    // amount -1 resurrects every unit that fits; all_units reaches both graveyards
+    const { amount = 1, targetType = 'player', statModifiers } = params
+    const gameState = context.gameState
+    const sourceOwner = context.source.owner || gameState.activePlayer
+    const players: PlayerId[] = targetType === 'all_units' ? ['player1', 'player2'] : [sourceOwner]
+
+    const newState = produce(gameState, draft => {
+      for (const playerId of players) {
+        const units = getUnitRow(draft, playerId)
+        const openSlots = units.filter(u => u === null).length
+        const count = amount === -1 ? openSlots : Math.min(amount, openSlots)
+
+        for (const card of takeUnitsFromGraveyard(draft, playerId, count)) {
+          const health = statModifiers?.health ?? card.health
+          units[units.indexOf(null)] = {
+            ...card,
+            currentHealth: health,
+            owner: playerId,
+            hasSummoningSickness: true,
+            hasAttackedThisTurn: false,
+          }
+          GameLogger.action(`${effect.name}: ${card.name} returns to ${playerId}'s battlefield`)
+        }
+      }
+    })
+
+    return { success: true, newGameState: newState }
+  },
+
   gainMana: (effect, context, params) => {
     const { amount = 1 } = params
     const gameState = context.gameState
@@ -307,38 +497,38 @@ const effectExecutors: Record<string, EffectExecutor> = {
     return { success: true, newGameState: newState }
   },
 
-  damageAllUnits: (effect, context, params) => {
-    const { amount = 1, targetType = 'all_units' } = params
+  damageAllUnits: (effect, context, params, combat) => {
+    const { targetType = 'all_units' } = params
     const gameState = context.gameState
     const sourceOwner = context.source.owner || gameState.activePlayer
+    const amount =
+      (params.amount ?? 1) + getSpellDamageBonus(gameState, context.source, sourceOwner, combat)
 
     const newState = produce(gameState, draft => {
-      const friendlyUnits =
-        sourceOwner === 'player1' ? draft.battlefield.playerUnits : draft.battlefield.enemyUnits
-      const enemyUnits =
-        sourceOwner === 'player1' ? draft.battlefield.enemyUnits : draft.battlefield.playerUnits
+      const enemy = sourceOwner === 'player1' ? 'player2' : 'player1'
 
-      const applyDamage = (units: (Card | null)[]) => {
+      const applyDamage = (playerId: PlayerId) => {
+        const units = getUnitRow(draft, playerId)
         for (let i = 0; i < units.length; i++) {
           const unit = units[i]
           if (unit) {
             unit.currentHealth = (unit.currentHealth || unit.health) - amount
             if (unit.currentHealth <= 0) {
-              units[i] = null
+              destroyUnitAt(draft, playerId, i)
             }
           }
         }
       }
 
       if (targetType === 'all_units') {
-        applyDamage(friendlyUnits)
-        applyDamage(enemyUnits)
+        applyDamage(sourceOwner)
+        applyDamage(enemy)
         draft.player1.health -= amount
         draft.player2.health -= amount
       } else if (targetType === 'all_enemies') {
-        applyDamage(enemyUnits)
+        applyDamage(enemy)
       } else if (targetType === 'all_allies') {
-        applyDamage(friendlyUnits)
+        applyDamage(sourceOwner)
       }
 
       GameLogger.action(`${effect.name}: Dealt ${amount} damage to ${targetType}`)
@@ -390,15 +580,14 @@ const effectExecutors: Record<string, EffectExecutor> = {
     const sourceOwner = context.source.owner || gameState.activePlayer
 
     const newState = produce(gameState, draft => {
+      const enemy = sourceOwner === 'player1' ? 'player2' : 'player1'
       if (targetType === 'all_units') {
-        draft.battlefield.playerUnits = Array(7).fill(null)
-        draft.battlefield.enemyUnits = Array(7).fill(null)
+        destroyAllUnitsOf(draft, 'player1')
+        destroyAllUnitsOf(draft, 'player2')
       } else if (targetType === 'all_enemies') {
-        const enemyField = sourceOwner === 'player1' ? 'enemyUnits' : 'playerUnits'
-        draft.battlefield[enemyField] = Array(7).fill(null)
+        destroyAllUnitsOf(draft, enemy)
       } else if (targetType === 'all_allies') {
-        const allyField = sourceOwner === 'player1' ? 'playerUnits' : 'enemyUnits'
-        draft.battlefield[allyField] = Array(7).fill(null)
+        destroyAllUnitsOf(draft, sourceOwner)
       }
 
       GameLogger.action(`${effect.name}: Destroyed ${targetType}`)
@@ -462,22 +651,38 @@ export class CardEffectSystem {
   private activeEffects: Map<string, ActiveEffect> = new Map()
   private effectQueue: QueuedEffect[] = []
   private cardAbilities: Map<string, TriggeredAbility[]> = new Map()
+  private cardSubscriptions: Map<string, string[]> = new Map()
   private nextEffectId = 1
 
-  constructor() {
+  /** `systems` is the match this service belongs to; the app-wide singletons if omitted */
+  constructor(private readonly systems?: EngineSystems) {
     this.setupEventListeners()
   }
 
+  private get events(): EventManager {
+    return this.systems?.events ?? eventManager
+  }
+
+  private get stack(): EffectStackService {
+    return this.systems?.stack ?? effectStackService
+  }
+
+  private get combat(): CombatService {
+    return this.systems?.combat ?? combatService
+  }
+
   /**
    * Register abilities for a card
    */
   registerCardAbilities(card: Card, abilities: TriggeredAbility[]): void {
+    this.unsubscribeCard(card.id)
     this.cardAbilities.set(card.id, abilities)
 
     // Subscribe to events for each ability
-    for (const ability of abilities) {
-      this.subscribeToTrigger(card.id, ability)
-    }
+    this.cardSubscriptions.set(
+      card.id,
+      abilities.map(ability => this.subscribeToTrigger(card.id, ability)),
+    )
   }
 
   /**
@@ -485,8 +690,71 @@ export class CardEffectSystem {
    */
   unregisterCardAbilities(cardId: string): void {
     this.cardAbilities.delete(cardId)
-    // Event subscriptions will be cleaned up automatically by the EventManager
-    // when the card is no longer in play
+    this.unsubscribeCard(cardId)
+  }
+
+  /** Whether a parsed or scripted action type has an executor behind it */
+  canExecute(actionType: string): boolean {
+    return actionType === 'payMana' || actionType in effectExecutors
+  }
+
+  /**
+   * When an ability resolves. A scripted effect's trigger or one spelled out in its text always
+   * wins; otherwise the deathrattle keyword moves it to the unit's death, and a card with both
+   * battlecry and deathrattle resolves it on play and again on death.
+   */
+  getAbilityTriggers(card: Card, description: string, abilityName?: string): TriggerType[] {
+    const scripted = findScriptedEffect(card, abilityName)
+    if (scripted) return [scripted.trigger]
+
+    const explicit = findExplicitTrigger(description)
+    if (explicit) return [explicit]
+
+    const triggers: TriggerType[] = []
+    const hasDeathrattle = this.combat.hasKeyword(card, 'deathrattle')
+    if (!hasDeathrattle || this.combat.hasKeyword(card, 'battlecry')) triggers.push('on_play')
+    if (hasDeathrattle) triggers.push('on_death')
+    return triggers
+  }
+
+  /**
+   * Resolve the deathrattles of every unit that left the battlefield between `before` and
+   * `after`. Units killed by those deathrattles resolve theirs in turn.
+   */
+  async resolveDeathrattles(before: GameState, after: GameState): Promise<GameState> {
+    let previous = before
+    let current = after
+
+    for (let wave = 0; wave < MAX_DEATHRATTLE_WAVES; wave++) {
+      const fallen = findFallenUnits(previous, current)
+      previous = current
+
+      for (const unit of fallen) {
+        for (const ability of getOrientedAbilities(unit)) {
+          if (!ability.description) continue
+          const triggers = this.getAbilityTriggers(unit, ability.description, ability.name)
+          if (!triggers.includes('on_death')) continue
+
+          const result = await this.executeEffect(
+            {
+              id: `deathrattle_${unit.id}_${ability.name || 'effect'}`,
+              name: ability.name || 'Deathrattle',
+              description: ability.description,
+              type: 'instant',
+              execute: () => ({ success: false }),
+            },
+            { gameState: current, source: unit },
+          )
+          if (result.success && result.newGameState) {
+            current = result.newGameState
+          }
+        }
+      }
+
+      if (current === previous) break
+    }
+
+    return current
   }
 
   /**
@@ -515,7 +783,7 @@ export class CardEffectSystem {
         const result = executeFn(context)
         if (result.success) {
           // Emit effect triggered event
-          eventManager.emitSystemEvent(
+          this.events.emitSystemEvent(
             'effect_triggered',
             result.newGameState || context.gameState,
             {
@@ -528,11 +796,23 @@ export class CardEffectSystem {
         }
       }
 
+      // A scripted effect from the card's frontmatter takes precedence over its prose
+      const scripted = findScriptedEffect(context.source, effect.name)
+      if (scripted) {
+        const result = this.executeScriptedEffect(effect, scripted, context)
+        this.events.emitSystemEvent('effect_triggered', result.newGameState || context.gameState, {
+          effectId: effect.id,
+          effectName: effect.name,
+          sourceCardId: context.source.id,
+        })
+        return result
+      }
+
       // Try structured ability parser for description-based effects
       const parsedResult = this.executeFromParsedAbility(effect, context)
       if (parsedResult) {
         if (parsedResult.success) {
-          eventManager.emitSystemEvent(
+          this.events.emitSystemEvent(
             'effect_triggered',
             parsedResult.newGameState || context.gameState,
             {
@@ -549,11 +829,11 @@ export class CardEffectSystem {
       const executorKey = this.matchEffectToExecutor(effect)
       if (executorKey && effectExecutors[executorKey]) {
         const params = this.extractEffectParams(effect)
-        const result = effectExecutors[executorKey](effect, context, params)
+        const result = effectExecutors[executorKey](effect, context, params, this.combat)
 
         // Emit effect triggered event
         if (result.success) {
-          eventManager.emitSystemEvent(
+          this.events.emitSystemEvent(
             'effect_triggered',
             result.newGameState || context.gameState,
             {
@@ -579,6 +859,18 @@ export class CardEffectSystem {
     }
   }
 
+  /**
+   * Resolve a scripted or parsed ability synchronously without emitting events.
+   * For playing out hypothetical moves; the real game goes through executeEffect.
+   */
+  previewEffect(effect: CardEffect, context: EffectContext): GameState {
+    const scripted = findScriptedEffect(context.source, effect.name)
+    const result = scripted
+      ? this.executeScriptedEffect(effect, scripted, context)
+      : this.executeFromParsedAbility(effect, context)
+    return result?.newGameState ?? context.gameState
+  }
+
   /**
    * Execute an effect by parsing its description into structured actions
    * using the ability parser. Returns null if parsing yields no actions.
@@ -595,11 +887,12 @@ export class CardEffectSystem {
       for (const action of parsed.actions) {
         const executorName = action.type
         if (effectExecutors[executorName]) {
-          const params = this.parsedActionToParams(action)
+          const params = this.parsedActionToParams(action, context)
           const result = effectExecutors[executorName](
             effect,
             { ...context, gameState: currentState },
             params,
+            this.combat,
           )
           if (result.newGameState) currentState = result.newGameState
         }
@@ -610,10 +903,68 @@ export class CardEffectSystem {
     }
   }
 
+  /**
+   * Run a scripted effect's actions in order. payMana sets X for the actions after it;
+   * if a condition fails or the mana can't be paid, the rest of the effect does nothing.
+   */
+  private executeScriptedEffect(
+    effect: CardEffect,
+    script: ScriptedEffect,
+    context: EffectContext,
+  ): EffectResult {
+    const owner = context.source.owner || context.gameState.activePlayer
+    if (!(script.conditions ?? []).every(c => meetsCondition(context.gameState, owner, c))) {
+      GameLogger.action(`${effect.name}: conditions not met`)
+      return { success: true, newGameState: context.gameState }
+    }
+
+    let currentState = context.gameState
+    let x = 0
+    const resolve = (amount: ScriptedAmount | undefined) => (amount === 'X' ? x : amount)
+
+    for (const action of script.actions) {
+      if (action.type === 'payMana') {
+        const payment = payScriptedMana(currentState, owner, action)
+        if (!payment) break
+        currentState = payment.state
+        x = payment.paid
+        GameLogger.action(`${effect.name}: Paid ${x} mana`)
+        continue
+      }
+
+      const executor = effectExecutors[action.type]
+      if (!executor) continue
+
+      const target =
+        action.target === 'enemy_unit' || action.target === 'friendly_unit'
+          ? 'any_target'
+          : action.target
+      const params = this.parsedActionToParams(
+        {
+          type: action.type,
+          amount: resolve(action.amount),
+          target,
+          statModifiers: action.stats && {
+            attack: resolve(action.stats.attack),
+            health: resolve(action.stats.health),
+          },
+          keyword: action.keyword,
+          duration: action.duration,
+        },
+        context,
+      )
+      const result = executor(effect, { ...context, gameState: currentState }, params, this.combat)
+      if (result.newGameState) currentState = result.newGameState
+    }
+
+    return { success: true, newGameState: currentState }
+  }
+
   /**
    * Convert a ParsedAction into EffectParams compatible with existing executors.
+   * "Target unit" / "any target" actions aim at the target chosen when the card was played.
    */
-  private parsedActionToParams(action: ParsedAction): EffectParams {
+  private parsedActionToParams(action: ParsedAction, context: EffectContext): EffectParams {
     const params: EffectParams = {}
 
     if (action.amount !== undefined) {
@@ -638,9 +989,17 @@ export class CardEffectSystem {
         case 'all_units':
           params.targetType = 'all_units'
           break
-        case 'any_target':
-          params.targetType = 'unit'
+        case 'any_target': {
+          const chosen = context.targets?.[0]
+          if (chosen?.type === 'player' && action.type === 'dealDamage') {
+            params.targetType = 'player'
+            params.targetPlayer = chosen.id as PlayerId
+          } else {
+            params.targetType = 'unit'
+            if (chosen?.type === 'card') params.targetId = chosen.id
+          }
           break
+        }
         case 'self':
           params.targetType = 'unit'
           break
@@ -774,7 +1133,7 @@ export class CardEffectSystem {
     },
   ): string {
     // Use EffectStackService for proper stack resolution
-    return effectStackService.addToStack(effect, context, {
+    return this.stack.addToStack(effect, context, {
       type: 'ability',
       ...options,
     })
@@ -805,9 +1164,9 @@ export class CardEffectSystem {
   }
 
   /**
-   * Process triggered abilities for an event
+   * Process triggered abilities for an event, against the state of the match that emitted it
    */
-  async processTriggeredAbilities(event: GameEvent): Promise<void> {
+  async processTriggeredAbilities(event: GameEvent, gameState: GameState): Promise<void> {
     const triggeredAbilities: Array<{
       cardId: string
       ability: TriggeredAbility
@@ -819,10 +1178,10 @@ export class CardEffectSystem {
       for (const ability of abilities) {
         if (this.shouldTriggerAbility(ability, event)) {
           // Get the card from the game state
-          const card = this.findCardInGameState(cardId, event)
+          const card = this.findCardInGameState(cardId, gameState)
           if (card) {
             const context: EffectContext = {
-              gameState: this.getGameStateFromEvent(event),
+              gameState,
               source: card,
               event,
             }
@@ -967,23 +1326,23 @@ export class CardEffectSystem {
     this.activeEffects.clear()
     this.effectQueue = []
     this.cardAbilities.clear()
+    for (const cardId of [...this.cardSubscriptions.keys()]) this.unsubscribeCard(cardId)
   }
 
   // Private methods
 
   private setupEventListeners(): void {
     // Listen for turn/phase changes to update persistent effects
-    eventManager.subscribe(
+    this.events.subscribe(
       { types: ['turn_start', 'turn_end', 'phase_changed'] },
-      async event => {
-        const gameState = this.getGameStateFromEvent(event)
+      async (_event, gameState) => {
         this.updatePersistentEffects(gameState)
       },
       { priority: 100 },
     )
 
     // Listen for card removal events to clean up abilities
-    eventManager.subscribe(
+    this.events.subscribe(
       { types: ['card_destroyed', 'unit_dies', 'card_returned_to_hand'] },
       async event => {
         if ((event as unknown as { source?: { type: string; id: string } }).source?.type === 'card') {
@@ -993,18 +1352,23 @@ export class CardEffectSystem {
     )
   }
 
-  private subscribeToTrigger(cardId: string, ability: TriggeredAbility): void {
+  private unsubscribeCard(cardId: string): void {
+    for (const id of this.cardSubscriptions.get(cardId) ?? []) this.events.unsubscribe(id)
+    this.cardSubscriptions.delete(cardId)
+  }
+
+  private subscribeToTrigger(cardId: string, ability: TriggeredAbility): string {
     const eventTypes = Array.isArray(ability.trigger.event)
       ? ability.trigger.event
       : [ability.trigger.event]
 
-    eventManager.subscribe(
+    return this.events.subscribe(
       {
         types: eventTypes,
         condition: event => this.shouldTriggerAbility(ability, event, cardId),
       },
-      async event => {
-        await this.processTriggeredAbilities(event)
+      async (event, gameState) => {
+        await this.processTriggeredAbilities(event, gameState)
       },
     )
   }
@@ -1056,9 +1420,7 @@ export class CardEffectSystem {
     }
   }
 
-  private findCardInGameState(cardId: string, event: GameEvent): Card | null {
-    const gameState = this.getGameStateFromEvent(event)
-
+  private findCardInGameState(cardId: string, gameState: GameState): Card | null {
     // Search in all zones (battlefield-only system)
     const allCards = [
       ...gameState.player1.hand,
@@ -1071,69 +1433,6 @@ export class CardEffectSystem {
 
     return allCards.find(card => card.id === cardId) || null
   }
-
-  private getGameStateFromEvent(event: GameEvent): GameState {
-    // First try to extract game state from event data
-    if (event.data && 'gameState' in event.data) {
-      return event.data.gameState as GameState
-    }
-
-    // Get current game state from the store
-    const { gameState } = useGameStore.getState()
-    if (gameState) {
-      return gameState
-    }
-
-    // Final fallback: create a minimal game state for processing
-    // This should rarely be needed now
-    GameLogger.warn('getGameStateFromEvent: No game state available, using minimal fallback')
-    return {
-      round: 1,
-      turn: 1,
-      activePlayer: 'player1' as const,
-      attackingPlayer: null,
-      phase: 'action' as const,
-      waitingForAction: false,
-      combatResolved: false,
-      passCount: 0,
-      canRespond: false,
-      player1: {
-        id: 'player1',
-        name: 'Player 1',
-        health: 20,
-        mana: 1,
-        maxMana: 1,
-        spellMana: 0,
-        hand: [],
-        deck: [],
-        hasAttackToken: false,
-        mulliganComplete: true,
-        selectedForMulligan: [],
-        hasPassed: false,
-        actionsThisTurn: 0,
-      },
-      player2: {
-        id: 'player2',
-        name: 'Player 2',
-        health: 20,
-        mana: 1,
-        maxMana: 1,
-        spellMana: 0,
-        hand: [],
-        deck: [],
-        hasAttackToken: false,
-        mulliganComplete: true,
-        selectedForMulligan: [],
-        hasPassed: false,
-        actionsThisTurn: 0,
-      },
-      battlefield: {
-        playerUnits: Array(7).fill(null),
-        enemyUnits: Array(7).fill(null),
-        maxSlots: 7,
-      },
-    }
-  }
 }
 
 // Singleton instance
@@ -1160,6 +1459,7 @@ export const createEffect = {
         },
         context,
         { amount, targetType },
+        combatService,
       )
     },
   }),
@@ -1180,6 +1480,7 @@ export const createEffect = {
         },
         context,
         { amount, targetType },
+        combatService,
       )
     },
   }),
@@ -1200,6 +1501,7 @@ export const createEffect = {
         },
         context,
         { amount },
+        combatService,
       )
     },
   }),
@@ -1225,6 +1527,7 @@ export const createEffect = {
         },
         context,
         { statModifiers: { attack, health } },
+        combatService,
       )
     },
   }),
@@ -1245,6 +1548,7 @@ export const createEffect = {
         },
         context,
         { amount },
+        combatService,
       )
     },
   }),
@@ -1265,6 +1569,7 @@ export const createEffect = {
         },
         context,
         { statModifiers: { attack, health } },
+        combatService,
       )
     },
   }),
@@ -1285,6 +1590,7 @@ export const createEffect = {
         },
         context,
         { targetId },
+        combatService,
       )
     },
   }),
@@ -1305,6 +1611,7 @@ export const createEffect = {
         },
         context,
         { amount },
+        combatService,
       )
     },
   }),
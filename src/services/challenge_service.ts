@@ -28,11 +28,11 @@ const CHALLENGE_DEFINITIONS: ChallengeDefinition[] = [
     icon: '\u{1F0CF}',
     difficulty: 'medium',
     rules: {
-      deckRestriction: 'major-arcana-only',
+      deckRestriction: null,
       maxRounds: null,
       requiredElements: null,
       requiredZodiacs: null,
-      majorArcanaOnly: true,
+      format: 'major-arcana-only',
       startingHealth: 20,
       startingMana: 1,
       aiDifficulty: 'normal',
@@ -51,7 +51,7 @@ const CHALLENGE_DEFINITIONS: ChallengeDefinition[] = [
       maxRounds: null,
       requiredElements: ['fire', 'earth', 'air', 'water'],
       requiredZodiacs: null,
-      majorArcanaOnly: false,
+      format: 'standard',
       startingHealth: 20,
       startingMana: 1,
       aiDifficulty: 'hard',
@@ -70,7 +70,7 @@ const CHALLENGE_DEFINITIONS: ChallengeDefinition[] = [
       maxRounds: 5,
       requiredElements: null,
       requiredZodiacs: null,
-      majorArcanaOnly: false,
+      format: 'standard',
       startingHealth: 20,
       startingMana: 3,
       aiDifficulty: 'normal',
@@ -89,7 +89,7 @@ const CHALLENGE_DEFINITIONS: ChallengeDefinition[] = [
       maxRounds: null,
       requiredElements: null,
       requiredZodiacs: null,
-      majorArcanaOnly: false,
+      format: 'standard',
       startingHealth: 15,
       startingMana: 1,
       aiDifficulty: 'easy',
@@ -108,7 +108,7 @@ const CHALLENGE_DEFINITIONS: ChallengeDefinition[] = [
       maxRounds: null,
       requiredElements: null,
       requiredZodiacs: null,
-      majorArcanaOnly: false,
+      format: 'standard',
       startingHealth: 20,
       startingMana: 1,
       aiDifficulty: 'hard',
@@ -164,6 +164,11 @@ class ChallengeService {
     }
   }
 
+  /** Drop the cached copy so the next read comes from localStorage, e.g. after a sync */
+  reload(): void {
+    this.storage = null
+  }
+
   saveStorage(): void {
     if (!this.storage) return
     try {
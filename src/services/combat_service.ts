@@ -2,6 +2,8 @@
 
 import { produce } from 'immer'
 import { GameLogger } from '@/lib/game_logger'
+import { destroyUnitAt } from '@/lib/graveyard'
+import { rollRandom } from '@/lib/rng'
 import type {
   DirectAttack,
   Card as GameCard,
@@ -9,10 +11,13 @@ import type {
   PlayerId,
   Battlefield as SchemaBattlefield,
 } from '@/schemas/schema'
+import { astrologyService } from '@/services/astrology_service'
 import type { Battlefield, BattlefieldPosition } from '@/services/battlefield_service'
 import { battlefieldService } from '@/services/battlefield_service'
+import { seasonalBuffService } from '@/services/seasonal_buff_service'
 import { getSynergyAttackBonus, getSynergyHealthBonus } from '@/services/zodiac_synergy_service'
 import { animationService } from './animation_service'
+import type { EngineSystems } from './engine_systems'
 
 // Event system for triggered abilities
 export type GameEvent =
@@ -93,6 +98,17 @@ export type CardKeyword =
   | 'solar_radiance' // Damages adjacent enemies when attacking
   | 'elemental_fury' // Double damage against opposing elements
 
+/** Most arcane charge a chakra_flow unit can hold */
+export const MAX_ARCANE_CHARGE = 3
+
+/** Printed keywords are free text; compare them in CardKeyword form */
+export function normalizeKeyword(keyword: string): string {
+  return keyword
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_')
+}
+
 export interface AttackResult {
   attacker: GameCard
   target: GameCard | 'nexus'
@@ -121,10 +137,13 @@ export interface CombatModifiers {
   mustBeTargeted?: boolean
 }
 
-class CombatService {
+export class CombatService {
   private triggeredAbilities: Map<string, TriggeredAbility> = new Map()
   private persistentEffects: Map<string, PersistentEffect> = new Map()
 
+  /** `systems` is the match this service belongs to; the app-wide singletons if omitted */
+  constructor(private readonly systems?: EngineSystems) {}
+
   /**
    * Process a direct attack (unit attacking nexus or another unit)
    */
@@ -270,11 +289,12 @@ class CombatService {
   }
 
   /**
-   * Check if a card has a specific keyword
+   * Check if a card has a specific keyword.
+   * Printed keywords match however the card author spelled them ("Spell Damage", "spell-damage").
    */
-  private hasKeyword(card: GameCard, keyword: CardKeyword): boolean {
+  hasKeyword(card: GameCard, keyword: CardKeyword): boolean {
     // Check base keywords
-    if (card.keywords?.includes(keyword)) return true
+    if (card.keywords?.some(printed => normalizeKeyword(printed) === keyword)) return true
 
     // Check granted keywords from effects
     for (const effect of this.persistentEffects.values()) {
@@ -289,6 +309,41 @@ class CombatService {
     return false
   }
 
+  /** Whether a unit is ready to attack: awake or charging, and not yet spent unless windfury */
+  canAttack(unit: GameCard): boolean {
+    if ((unit.currentHealth ?? unit.health) <= 0) return false
+    if (
+      unit.hasSummoningSickness &&
+      !this.hasKeyword(unit, 'charge') &&
+      !this.hasKeyword(unit, 'astral_projection')
+    ) {
+      return false
+    }
+    return !unit.hasAttackedThisTurn || this.hasKeyword(unit, 'windfury')
+  }
+
+  /**
+   * What `attackingPlayer`'s units may attack. Taunts must be dealt with first, and
+   * stealthed units can't be picked out until they attack themselves. Passing the
+   * attacker lets an in-season Sagittarius shoot past the Taunts.
+   */
+  getAttackTargets(
+    state: GameState,
+    attackingPlayer: PlayerId,
+    attacker?: GameCard,
+  ): { units: GameCard[]; canTargetPlayer: boolean } {
+    const opponent = attackingPlayer === 'player1' ? 'player2' : 'player1'
+    const enemies = this.getPlayerUnits(state.battlefield, opponent)
+    const ignoresTaunt = attacker && seasonalBuffService.getModifiers(state, attacker)?.ignoresTaunt
+    const taunts = ignoresTaunt ? [] : enemies.filter(unit => this.hasKeyword(unit, 'taunt'))
+    const units = (taunts.length > 0 ? taunts : enemies).filter(
+      unit =>
+        unit.hasAttackedThisTurn ||
+        (!this.hasKeyword(unit, 'stealth') && !this.hasKeyword(unit, 'veil_of_illusion')),
+    )
+    return { units, canTargetPlayer: taunts.length === 0 }
+  }
+
   /**
    * Get all modifiers affecting a card.
    * When gameState and playerId are provided, element synergy bonuses are included.
@@ -319,10 +374,18 @@ class CombatService {
       // - Defense is slightly enhanced (inward focus provides protection)
       // Scale penalty with card cost for balance (higher cost = bigger impact)
       const reversalPenalty = Math.max(1, Math.ceil(card.cost / 3))
-      modifiers.attackBonus = (modifiers.attackBonus || 0) - reversalPenalty
+      // Tarot masters channel the reversal without losing force
+      if (!this.hasKeyword(card, 'tarot_mastery')) {
+        modifiers.attackBonus = (modifiers.attackBonus || 0) - reversalPenalty
+      }
       modifiers.defenseBonus = (modifiers.defenseBonus || 0) + Math.ceil(reversalPenalty / 2)
     }
 
+    // Chakra flow: each stored arcane charge adds attack
+    if (this.hasKeyword(card, 'chakra_flow') && card.arcaneCharge) {
+      modifiers.attackBonus = (modifiers.attackBonus || 0) + card.arcaneCharge
+    }
+
     // Cosmic resonance bonus
     if (card.cosmicResonance && card.cosmicResonance > 0) {
       modifiers.attackBonus = (modifiers.attackBonus || 0) + Math.floor(card.cosmicResonance / 2)
@@ -354,6 +417,25 @@ class CombatService {
       modifiers.defenseBonus = (modifiers.defenseBonus || 0) + Math.floor(chakraBonus / 3)
     }
 
+    // Lunar blessing follows the moon, which turns once per round
+    if (gameState && this.hasKeyword(card, 'lunar_blessing')) {
+      const lunarBonus = astrologyService.getLunarBlessingBonus(gameState.round)
+      modifiers.attackBonus = (modifiers.attackBonus || 0) + lunarBonus
+    }
+
+    // Sacred geometry keyword scales with the unit's current slot and neighbours
+    if (gameState && this.hasKeyword(card, 'sacred_geometry')) {
+      const position = this.findUnitPosition(gameState.battlefield, card.id)
+      if (position) {
+        const geometryBonus = astrologyService.getSacredGeometryBonus(
+          card,
+          position,
+          gameState.battlefield,
+        )
+        modifiers.attackBonus = (modifiers.attackBonus || 0) + geometryBonus
+      }
+    }
+
     // Element synergy bonuses (when battlefield context is available)
     if (gameState && playerId && card.element) {
       const synergyAttack = getSynergyAttackBonus(gameState, playerId, card)
@@ -365,6 +447,24 @@ class CombatService {
     return modifiers
   }
 
+  /**
+   * Chakra flow units store one arcane charge at the start of their owner's turn.
+   * Takes a player's unit row (an Immer draft) and returns how many units gained a charge.
+   */
+  channelChakraFlow(units: (GameCard | null)[]): number {
+    let channeled = 0
+    for (const unit of units) {
+      if (!unit || !this.hasKeyword(unit, 'chakra_flow')) continue
+
+      const charge = unit.arcaneCharge ?? 0
+      if (charge < MAX_ARCANE_CHARGE) {
+        unit.arcaneCharge = charge + 1
+        channeled++
+      }
+    }
+    return channeled
+  }
+
   /**
    * Check if an effect applies to a specific card
    */
@@ -480,6 +580,18 @@ class CombatService {
     GameLogger.action(`Removed persistent effect: ${effectId}`)
   }
 
+  /**
+   * Replace the zodiac season auras with the ones the current board produces
+   */
+  syncSeasonalEffects(state: GameState): void {
+    for (const id of this.persistentEffects.keys()) {
+      if (id.startsWith('season_')) this.persistentEffects.delete(id)
+    }
+    for (const effect of seasonalBuffService.getPersistentEffects(state)) {
+      this.persistentEffects.set(effect.id, effect)
+    }
+  }
+
   /**
    * Trigger all abilities for a game event
    */
@@ -519,7 +631,9 @@ class CombatService {
       }
     }
 
-    toRemove.forEach(id => { this.removePersistentEffect(id) })
+    toRemove.forEach(id => {
+      this.removePersistentEffect(id)
+    })
     GameLogger.action(`Cleaned up end-of-turn effects: ${toRemove.length}`)
   }
 
@@ -535,7 +649,9 @@ class CombatService {
       }
     }
 
-    toRemove.forEach(id => { this.removePersistentEffect(id) })
+    toRemove.forEach(id => {
+      this.removePersistentEffect(id)
+    })
     GameLogger.action('Reset combat effects')
   }
 
@@ -544,6 +660,22 @@ class CombatService {
    * This wraps processAttack() to provide the same interface as combat_logic.ts
    */
   async declareAttack(state: GameState, attack: DirectAttack): Promise<GameState> {
+    // Seasonal auras depend on where units stand right now
+    this.syncSeasonalEffects(state)
+
+    const afterCombat = this.resolveAttack(state, attack)
+
+    // Loaded lazily: the effect system depends on this service for keyword checks
+    const effects =
+      this.systems?.effects ?? (await import('@/services/card_effect_system')).cardEffectSystem
+    return effects.resolveDeathrattles(state, afterCombat)
+  }
+
+  /**
+   * Validate and resolve an attack synchronously, stopping short of deathrattles.
+   * declareAttack builds on this; the AI also uses it to play out hypothetical attacks.
+   */
+  resolveAttack(state: GameState, attack: DirectAttack): GameState {
     const attackingPlayer = state.activePlayer
     const player = state[attackingPlayer]
 
@@ -576,13 +708,16 @@ class CombatService {
       throw new Error('Already attacked')
     }
 
-    // Check taunt
+    // Check taunt and stealth
     const opponent = attackingPlayer === 'player1' ? 'player2' : 'player1'
-    const tauntUnits = this.getUnitsWithKeyword(state.battlefield, opponent, 'taunt')
+    const targets = this.getAttackTargets(state, attackingPlayer, attacker)
 
-    if (tauntUnits.length > 0 && attack.targetType === 'player') {
+    if (attack.targetType === 'player' && !targets.canTargetPlayer) {
       throw new Error('Must attack taunt first')
     }
+    if (attack.targetType === 'unit' && !targets.units.some(unit => unit.id === attack.targetId)) {
+      throw new Error('Invalid attack target')
+    }
 
     // Execute attack using Immer for immutability
     return produce(state, draft => {
@@ -667,8 +802,8 @@ class CombatService {
                 adjUnit.currentHealth = (adjUnit.currentHealth || adjUnit.health) - solarDamage
                 GameLogger.combat(`Solar Radiance deals ${solarDamage} to adjacent ${adjUnit.name}`)
                 if (adjUnit.currentHealth <= 0) {
-                  targetSideUnits[adjSlot] = null
                   GameLogger.combat(`${adjUnit.name} dies from Solar Radiance`)
+                  destroyUnitAt(draft, targetPos.player, adjSlot)
                 }
               }
             }
@@ -680,24 +815,16 @@ class CombatService {
           draft[attackingPlayer].health += targetDamage
           GameLogger.combat(`${draftAttacker.name} heals for ${targetDamage} (lifesteal)`)
         }
+        if (targetDamage > 0) this.drawForSeasonalDamage(state, draft, draftAttacker)
 
         // Process deaths
-        const draftUnitsAttacker =
-          attackerPos.player === 'player1'
-            ? draft.battlefield.playerUnits
-            : draft.battlefield.enemyUnits
-        const draftUnitsTarget =
-          targetPos.player === 'player1'
-            ? draft.battlefield.playerUnits
-            : draft.battlefield.enemyUnits
-
         if (draftAttacker.currentHealth <= 0) {
-          draftUnitsAttacker[attackerPos.slot] = null
           GameLogger.combat(`${draftAttacker.name} dies in combat`)
+          destroyUnitAt(draft, attackerPos.player, attackerPos.slot)
         }
         if (target.currentHealth <= 0) {
-          draftUnitsTarget[targetPos.slot] = null
           GameLogger.combat(`${target.name} dies in combat`)
+          destroyUnitAt(draft, targetPos.player, targetPos.slot)
         }
       } else if (attack.targetType === 'player') {
         // Face damage
@@ -711,6 +838,7 @@ class CombatService {
           draft[attackingPlayer].health += damage
           GameLogger.combat(`${draftAttacker.name} heals for ${damage} (lifesteal)`)
         }
+        if (damage > 0) this.drawForSeasonalDamage(state, draft, draftAttacker)
       }
 
       // Mark as attacked
@@ -718,6 +846,18 @@ class CombatService {
     })
   }
 
+  /** In-season Sagittarius units draw their owner a card whenever they deal combat damage */
+  private drawForSeasonalDamage(state: GameState, draft: GameState, attacker: GameCard): void {
+    if (!seasonalBuffService.getModifiers(state, attacker)?.drawOnDamage || !attacker.owner) return
+
+    const player = draft[attacker.owner]
+    const drawnCard = player.deck.shift()
+    if (!drawnCard) return
+    drawnCard.isReversed = rollRandom(draft) < 0.5
+    player.hand.push(drawnCard)
+    GameLogger.combat(`${attacker.name} draws ${attacker.owner} a card`)
+  }
+
   /**
    * Helper: Find unit position on battlefield
    */
@@ -772,22 +912,6 @@ class CombatService {
     const units = playerId === 'player1' ? battlefield.playerUnits : battlefield.enemyUnits
     return units.filter(u => u !== null) as GameCard[]
   }
-
-  /**
-   * Helper: Get units with a specific keyword
-   */
-  private getUnitsWithKeyword(
-    battlefield: SchemaBattlefield,
-    playerId: 'player1' | 'player2',
-    keyword: string,
-  ): GameCard[] {
-    const units = this.getPlayerUnits(battlefield, playerId)
-    return units.filter(
-      unit =>
-        unit.keywords?.includes(keyword) ||
-        unit.keywords?.includes(keyword.charAt(0).toUpperCase() + keyword.slice(1)),
-    )
-  }
 }
 
 export const combatService = new CombatService()
@@ -799,29 +923,20 @@ export const combatService = new CombatService()
 /**
  * Declare an attack - compatibility wrapper for combat_logic.ts interface
  */
-export async function declareAttack(state: GameState, attack: DirectAttack): Promise<GameState> {
-  return combatService.declareAttack(state, attack)
+export async function declareAttack(
+  state: GameState,
+  attack: DirectAttack,
+  systems?: EngineSystems,
+): Promise<GameState> {
+  return (systems?.combat ?? combatService).declareAttack(state, attack)
 }
 
 /**
  * Check if a unit can attack
  */
-export function canAttack(unit: GameCard): boolean {
+export function canAttack(unit: GameCard, systems?: EngineSystems): boolean {
   if (!unit) return false
-  if (unit.hasSummoningSickness) {
-    // Check for charge/astral_projection keywords
-    if (!unit.keywords?.includes('charge') && !unit.keywords?.includes('astral_projection')) {
-      return false
-    }
-  }
-  if (unit.hasAttackedThisTurn) {
-    // Check for windfury
-    if (!unit.keywords?.includes('windfury')) {
-      return false
-    }
-  }
-  if ((unit.currentHealth || unit.health) <= 0) return false
-  return true
+  return (systems?.combat ?? combatService).canAttack(unit)
 }
 
 /**
@@ -830,28 +945,9 @@ export function canAttack(unit: GameCard): boolean {
 export function getValidAttackTargets(
   state: GameState,
   attackingPlayer: PlayerId,
+  systems?: EngineSystems,
 ): { units: GameCard[]; canTargetPlayer: boolean } {
-  const opponent = attackingPlayer === 'player1' ? 'player2' : 'player1'
-  const enemyUnits = (
-    opponent === 'player1' ? state.battlefield.playerUnits : state.battlefield.enemyUnits
-  ).filter(u => u !== null) as GameCard[]
-
-  // Check for taunt units
-  const tauntUnits = enemyUnits.filter(
-    unit => unit.keywords?.includes('taunt') || unit.keywords?.includes('Taunt'),
-  )
-
-  // Filter out stealth units that haven't attacked
-  const targetableUnits = (tauntUnits.length > 0 ? tauntUnits : enemyUnits).filter(unit => {
-    if (unit.keywords?.includes('stealth') && !unit.hasAttackedThisTurn) return false
-    if (unit.keywords?.includes('veil_of_illusion') && !unit.hasAttackedThisTurn) return false
-    return true
-  })
-
-  return {
-    units: targetableUnits,
-    canTargetPlayer: tauntUnits.length === 0,
-  }
+  return (systems?.combat ?? combatService).getAttackTargets(state, attackingPlayer)
 }
 
 /**
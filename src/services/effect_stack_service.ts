@@ -1,7 +1,8 @@
 import { GameLogger } from '@/lib/game_logger'
 import type { CardEffect, EffectContext, GameEvent, GameState } from '@/schemas/schema'
-import { cardEffectSystem } from '@/services/card_effect_system'
-import { eventManager } from '@/services/event_manager'
+import { type CardEffectSystem, cardEffectSystem } from '@/services/card_effect_system'
+import type { EngineSystems } from '@/services/engine_systems'
+import { type EventManager, eventManager } from '@/services/event_manager'
 
 export type StackItemType =
   | 'spell'
@@ -88,7 +89,8 @@ export interface StackResolutionResult {
 export class EffectStackService {
   private state: StackState
 
-  constructor() {
+  /** `systems` is the match this service belongs to; the app-wide singletons if omitted */
+  constructor(private readonly systems?: EngineSystems) {
     this.state = {
       items: [],
       nextSequenceNumber: 1,
@@ -107,6 +109,14 @@ export class EffectStackService {
     this.setupEventListeners()
   }
 
+  private get events(): EventManager {
+    return this.systems?.events ?? eventManager
+  }
+
+  private get effects(): CardEffectSystem {
+    return this.systems?.effects ?? cardEffectSystem
+  }
+
   /**
    * Add an effect to the stack
    */
@@ -226,7 +236,7 @@ export class EffectStackService {
         // Check for new effects added during resolution
         if (result.eventsGenerated.length > 0) {
           // Process any triggered abilities that might have been added
-          await this.processTriggerredAbilitiesFromEvents(result.eventsGenerated)
+          await this.processTriggerredAbilitiesFromEvents(result.eventsGenerated, currentGameState)
         }
 
         // Yield control occasionally to prevent blocking
@@ -449,7 +459,7 @@ export class EffectStackService {
       }
 
       // Execute the effect
-      const result = await cardEffectSystem.executeEffect(
+      const result = await this.effects.executeEffect(
         item.effect,
         item.context,
         item.metadata?.triggeringEvent,
@@ -493,7 +503,7 @@ export class EffectStackService {
 
   private async resolveImmediately(item: StackItem): Promise<string> {
     try {
-      const result = await cardEffectSystem.executeEffect(
+      const result = await this.effects.executeEffect(
         item.effect,
         item.context,
         item.metadata?.triggeringEvent,
@@ -643,10 +653,14 @@ export class EffectStackService {
     }, 100)
   }
 
-  private async processTriggerredAbilitiesFromEvents(events: GameEvent[]): Promise<void> {
+  private async processTriggerredAbilitiesFromEvents(
+    events: GameEvent[],
+    gameState: GameState | undefined,
+  ): Promise<void> {
+    if (!gameState) return
     for (const event of events) {
       // Let the card effect system handle triggered abilities
-      await cardEffectSystem.processTriggeredAbilities(event)
+      await this.effects.processTriggeredAbilities(event, gameState)
     }
   }
 
@@ -672,7 +686,7 @@ export class EffectStackService {
 
   private setupEventListeners(): void {
     // Listen for game events that might trigger stack effects
-    eventManager.subscribe(
+    this.events.subscribe(
       { types: ['turn_start', 'turn_end', 'combat_resolved'] },
       async _event => {
         // Check for any delayed trigger abilities
@@ -691,7 +705,7 @@ export class EffectStackService {
   ): void {
     const gameState = this.getCurrentGameState()
     if (!gameState) return
-    eventManager.emit(
+    this.events.emit(
       eventType as GameEvent['type'],
       gameState,
       {
@@ -0,0 +1,61 @@
+import { CardEffectSystem, cardEffectSystem } from './card_effect_system'
+import { CombatService, combatService } from './combat_service'
+import { EffectStackService, effectStackService } from './effect_stack_service'
+import { EventManager, eventManager } from './event_manager'
+import { PhaseManagerService, phaseManagerService } from './phase_manager_service'
+import { WinConditionService, winConditionService } from './win_condition_service'
+
+// ================================
+// PER-MATCH ENGINE SUBSYSTEMS
+// ================================
+// Everything a match remembers outside its GameState: subscriptions and event history,
+// persistent effects, the effect stack, win-condition counters and phase transitions.
+// Subsystems reach their siblings through the set they were created in, so two sets
+// never share state. Code that isn't handed a set uses the app-wide singletons.
+
+export interface EngineSystems {
+  events: EventManager
+  effects: CardEffectSystem
+  stack: EffectStackService
+  winConditions: WinConditionService
+  combat: CombatService
+  phases: PhaseManagerService
+}
+
+/**
+ * The app-wide singletons the single-player game and its UI share. Read lazily:
+ * these modules import one another, so a singleton may not exist yet at load time.
+ */
+export const defaultEngineSystems: EngineSystems = {
+  get events() {
+    return eventManager
+  },
+  get effects() {
+    return cardEffectSystem
+  },
+  get stack() {
+    return effectStackService
+  },
+  get winConditions() {
+    return winConditionService
+  },
+  get combat() {
+    return combatService
+  },
+  get phases() {
+    return phaseManagerService
+  },
+}
+
+/** A fresh set of subsystems for one match, wired to each other and nothing else */
+export function createEngineSystems(): EngineSystems {
+  const systems = {} as EngineSystems
+  // Events first: the other subsystems subscribe to them as they are constructed
+  systems.events = new EventManager()
+  systems.combat = new CombatService(systems)
+  systems.effects = new CardEffectSystem(systems)
+  systems.stack = new EffectStackService(systems)
+  systems.winConditions = new WinConditionService(systems)
+  systems.phases = new PhaseManagerService()
+  return systems
+}
@@ -15,7 +15,8 @@ export class EventManager {
   private eventHistory: RingBuffer<GameEvent>
   private nextSubscriptionId = 1
   private isProcessingEvents = false
-  private eventQueue: GameEvent[] = []
+  // Queued events keep the state they were emitted with
+  private eventQueue: { event: GameEvent; gameState: GameState }[] = []
 
   constructor(maxHistorySize: number = 1000) {
     this.eventHistory = new RingBuffer(maxHistorySize)
@@ -77,20 +78,20 @@ export class EventManager {
 
     // Queue event if we're currently processing events (prevents recursion issues)
     if (this.isProcessingEvents) {
-      this.eventQueue.push(event)
+      this.eventQueue.push({ event, gameState })
       return
     }
 
-    await this.processEvent(event)
+    await this.processEvent(event, gameState)
 
     // Process any queued events
     while (this.eventQueue.length > 0) {
-      const queuedEvent = this.eventQueue.shift()!
-      await this.processEvent(queuedEvent)
+      const queued = this.eventQueue.shift()!
+      await this.processEvent(queued.event, queued.gameState)
     }
   }
 
-  private async processEvent(event: GameEvent): Promise<void> {
+  private async processEvent(event: GameEvent, gameState: GameState): Promise<void> {
     this.isProcessingEvents = true
 
     try {
@@ -103,7 +104,7 @@ export class EventManager {
       // Execute listeners
       for (const subscription of matchingSubscriptions) {
         try {
-          await subscription.listener(event)
+          await subscription.listener(event, gameState)
 
           // Remove one-time subscriptions
           if (subscription.once) {
@@ -368,25 +369,25 @@ export class EventManager {
 export const eventManager = new EventManager()
 
 // Helper functions for common event patterns
-export const createEventHelpers = (gameState: GameState) => ({
+export const createEventHelpers = (gameState: GameState, events: EventManager = eventManager) => ({
   // Card events
   cardPlayed: (cardId: string, cardName: string, cost: number) =>
-    eventManager.emitCardEvent('card_played', gameState, cardId, cardName, { cost }),
+    events.emitCardEvent('card_played', gameState, cardId, cardName, { cost }),
 
   cardDrawn: (cardId: string, cardName: string) =>
-    eventManager.emitCardEvent('card_drawn', gameState, cardId, cardName),
+    events.emitCardEvent('card_drawn', gameState, cardId, cardName),
 
   unitSummoned: (cardId: string, cardName: string, attack: number, health: number) =>
-    eventManager.emitCardEvent('unit_summoned', gameState, cardId, cardName, {
+    events.emitCardEvent('unit_summoned', gameState, cardId, cardName, {
       stats: { attack, health, currentHealth: health },
     }),
 
   unitDies: (cardId: string, cardName: string) =>
-    eventManager.emitCardEvent('unit_dies', gameState, cardId, cardName),
+    events.emitCardEvent('unit_dies', gameState, cardId, cardName),
 
   // Player events
   playerLosesHealth: (playerId: 'player1' | 'player2', amount: number, reason: string) =>
-    eventManager.emitPlayerEvent('player_loses_health', gameState, playerId, {
+    events.emitPlayerEvent('player_loses_health', gameState, playerId, {
       amount,
       reason,
       previousValue: gameState[playerId].health,
@@ -394,15 +395,15 @@ export const createEventHelpers = (gameState: GameState) => ({
     }),
 
   playerGainsMana: (playerId: 'player1' | 'player2', amount: number) =>
-    eventManager.emitPlayerEvent('player_gains_mana', gameState, playerId, {
+    events.emitPlayerEvent('player_gains_mana', gameState, playerId, {
       amount,
       resourceType: 'mana' as const,
     }),
 
   // Turn/phase events
   turnStart: (playerId: 'player1' | 'player2') =>
-    eventManager.emitSystemEvent('turn_start', gameState, { playerId }),
+    events.emitSystemEvent('turn_start', gameState, { playerId }),
 
   phaseChanged: (fromPhase: string, toPhase: string) =>
-    eventManager.emitSystemEvent('phase_changed', gameState, { fromPhase, toPhase }),
+    events.emitSystemEvent('phase_changed', gameState, { fromPhase, toPhase }),
 })
@@ -1,5 +1,3 @@
-'use client'
-
 import { produce } from 'immer'
 import type {
   Card,
@@ -11,10 +9,9 @@ import type {
   PlayerId,
 } from '@/schemas/schema'
 import { animationQueue } from './animation_queue'
-import { cardEffectSystem } from './card_effect_system'
 import { declareAttack, canAttack, getValidAttackTargets, previewCombat } from './combat_service'
-import { transactionManager } from './transaction_manager'
-import { winConditionService } from './win_condition_service'
+import { createEngineSystems, defaultEngineSystems, type EngineSystems } from './engine_systems'
+import { TransactionManager, transactionManager } from './transaction_manager'
 
 // ================================
 // GAME ENGINE RESULT TYPES
@@ -51,11 +48,21 @@ const ANIMATION_DURATIONS = {
 // GAME ENGINE CLASS
 // ================================
 
+/**
+ * Runs one match. Each engine owns its subsystems - events, persistent effects, the effect
+ * stack and win-condition counters - so engines never see each other's games.
+ */
 export class GameEngine {
   private config: GameEngineConfig
+  private readonly transactions: TransactionManager
 
-  constructor(config: Partial<GameEngineConfig> = {}) {
+  constructor(
+    config: Partial<GameEngineConfig> = {},
+    readonly systems: EngineSystems = createEngineSystems(),
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config }
+    this.transactions =
+      systems === defaultEngineSystems ? transactionManager : new TransactionManager()
 
     // Configure animation queue
     animationQueue.setEnabled(this.config.enableAnimations)
@@ -73,6 +80,20 @@ export class GameEngine {
   // MAIN GAME ACTIONS
   // ================================
 
+  /**
+   * Start a match from prepared decks (see createGameStateFromDecks)
+   */
+  async startGame(
+    player1Deck: Card[],
+    player2Deck: Card[],
+    options: { seed?: number; gameMode?: string; seasonDate?: number } = {},
+  ): Promise<GameState> {
+    const { createGameStateFromDecks } = await import('@/lib/game_logic')
+    this.systems.effects.clearAllEffects()
+    this.systems.stack.clearStack()
+    return createGameStateFromDecks(player1Deck, player2Deck, { ...options, systems: this.systems })
+  }
+
   /**
    * Play a card from hand
    */
@@ -89,7 +110,7 @@ export class GameEngine {
 
     // Start transaction if enabled
     if (this.config.enableTransactions) {
-      transactionManager.begin(state)
+      this.transactions.begin(state)
     }
 
     try {
@@ -118,11 +139,11 @@ export class GameEngine {
         }
       }
 
-      transactionManager.addOperation(`Play card: ${card.name}`)
+      this.transactions.addOperation(`Play card: ${card.name}`)
 
       // Import and use the game_logic playCard function
       const { playCard: playCardLogic } = await import('@/lib/game_logic')
-      const newState = await playCardLogic(state, card, targetSlot)
+      const newState = await playCardLogic(state, card, targetSlot, undefined, this.systems)
 
       // Queue animation
       if (this.config.enableAnimations) {
@@ -138,7 +159,7 @@ export class GameEngine {
 
       // Commit transaction
       if (this.config.enableTransactions) {
-        transactionManager.commit()
+        this.transactions.commit()
       }
 
       // Check win conditions
@@ -151,7 +172,7 @@ export class GameEngine {
     } catch (error) {
       // Rollback on error
       if (this.config.enableTransactions) {
-        const rollbackState = transactionManager.rollback()
+        const rollbackState = this.transactions.rollback()
         if (rollbackState) {
           return {
             success: false,
@@ -189,13 +210,13 @@ export class GameEngine {
 
     // Start transaction
     if (this.config.enableTransactions) {
-      transactionManager.begin(state)
+      this.transactions.begin(state)
     }
 
     try {
-      transactionManager.addOperation(`Attack: ${attack.attackerId} -> ${attack.targetType}`)
+      this.transactions.addOperation(`Attack: ${attack.attackerId} -> ${attack.targetType}`)
 
-      const newState = await declareAttack(state, attack)
+      const newState = await declareAttack(state, attack, this.systems)
 
       // Queue attack animation
       if (this.config.enableAnimations) {
@@ -211,7 +232,7 @@ export class GameEngine {
 
       // Commit transaction
       if (this.config.enableTransactions) {
-        transactionManager.commit()
+        this.transactions.commit()
       }
 
       // Check win conditions
@@ -223,7 +244,7 @@ export class GameEngine {
       return { success: true, newState }
     } catch (error) {
       if (this.config.enableTransactions) {
-        const rollbackState = transactionManager.rollback()
+        const rollbackState = this.transactions.rollback()
         if (rollbackState) {
           return {
             success: false,
@@ -251,17 +272,17 @@ export class GameEngine {
     }
 
     if (this.config.enableTransactions) {
-      transactionManager.begin(state)
+      this.transactions.begin(state)
     }
 
     try {
-      transactionManager.addOperation('End turn')
+      this.transactions.addOperation('End turn')
 
       const { endTurn: endTurnLogic } = await import('@/lib/game_logic')
-      const newState = await endTurnLogic(state)
+      const newState = await endTurnLogic(state, this.systems)
 
       if (this.config.enableTransactions) {
-        transactionManager.commit()
+        this.transactions.commit()
       }
 
       // Check win conditions
@@ -273,7 +294,7 @@ export class GameEngine {
       return { success: true, newState }
     } catch (error) {
       if (this.config.enableTransactions) {
-        const rollbackState = transactionManager.rollback()
+        const rollbackState = this.transactions.rollback()
         if (rollbackState) {
           return {
             success: false,
@@ -301,7 +322,7 @@ export class GameEngine {
 
     try {
       const { completeMulligan: completeMulliganLogic } = await import('@/lib/game_logic')
-      const newState = completeMulliganLogic(state)
+      const newState = completeMulliganLogic(state, state.activePlayer, this.systems)
       return { success: true, newState }
     } catch (error) {
       return {
@@ -353,7 +374,7 @@ export class GameEngine {
    * Check win conditions and return result if game ended
    */
   private checkWinConditions(state: GameState): GameEngineResult | null {
-    const result = winConditionService.checkWinConditions(state)
+    const result = this.systems.winConditions.checkWinConditions(state)
     if (result?.achieved) {
       return {
         success: true,
@@ -413,7 +434,7 @@ export class GameEngine {
     effect: CardEffect,
     context: EffectContext
   ): Promise<GameEngineResult> {
-    const result = await cardEffectSystem.executeEffect(effect, context)
+    const result = await this.systems.effects.executeEffect(effect, context)
     return {
       success: result.success,
       newState: result.newGameState,
@@ -439,14 +460,14 @@ export class GameEngine {
    * Get transaction status
    */
   getTransactionStatus() {
-    return transactionManager.getStatus()
+    return this.transactions.getStatus()
   }
 }
 
-// Singleton instance with default config
-export const gameEngine = new GameEngine()
+// Singleton instance with default config, running on the app-wide subsystems the UI shares
+export const gameEngine = new GameEngine({}, defaultEngineSystems)
 
-// Factory function for custom configs
+// Factory function for custom configs; each engine gets subsystems of its own
 export function createGameEngine(config?: Partial<GameEngineConfig>): GameEngine {
   return new GameEngine(config)
 }
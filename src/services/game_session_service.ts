@@ -0,0 +1,774 @@
+import { WEBSOCKET_CONFIG } from '@/config/websocket_config'
+import { getCardById } from '@/lib/card_loader'
+import { getFormat } from '@/lib/deck_format'
+import { applyGameAction, validateGameAction } from '@/lib/game_actions'
+import { GameLogger } from '@/lib/game_logger'
+import {
+  projectEventForSpectator,
+  projectStateForSeat,
+  projectStateForSpectator,
+} from '@/lib/state_projection'
+import {
+  createTurnClock,
+  finishTurn,
+  getTimeLeft,
+  nextClockAlert,
+  pauseClock,
+  resumeClock,
+  startTurn,
+  type TurnClock,
+  type TurnClockConfig,
+  type TurnTimer,
+  toTurnTimer,
+} from '@/lib/turn_clock'
+import {
+  ClientMessageSchema,
+  type GameAction,
+  type GameRules,
+  type LobbyMatch,
+} from '@/schemas/multiplayer_schema'
+import type { Card, GameEvent, GameState, PlayerId } from '@/schemas/schema'
+import type { EngineSystems } from '@/services/engine_systems'
+import type { ServerMessage } from '@/services/websocket_service'
+
+// The slice of a WebSocket the session host needs, so tests can pass plain objects
+export interface SessionSocket {
+  send(data: string): void
+  close(code?: number, reason?: string): void
+}
+
+interface SeatConnection {
+  socket: SessionSocket
+  token: string
+  isConnected: boolean
+  /** The profile matchmaking bound to this seat; only ranked games have them */
+  profileId?: string
+  /** Issued by the server and rotated on every resume; lets a dropped client pick up where it left off */
+  reconnectToken: string
+  /** Highest update sequence number the client has acknowledged */
+  lastAck: number
+  /** Forfeits the game if the player doesn't come back within the grace period */
+  graceTimer?: ReturnType<typeof setTimeout>
+}
+
+/** A state update as broadcast, kept so reconnecting players can replay what they missed */
+interface StateUpdate {
+  seq: number
+  state: GameState
+  timestamp: number
+}
+
+interface SpectatorConnection {
+  /** Casters see both hands, always on a delay so they can't feed live information back */
+  revealHands: boolean
+  delayMs: number
+}
+
+/** Who a message is being built for: a seat, or a face-down or caster spectator */
+type View = PlayerId | 'spectator' | 'caster'
+
+export interface SpectateOptions {
+  /** One of the server's CASTER_KEYS to see both hands; without a valid key the view stays face-down */
+  casterKey?: string | null
+  delayMs?: number
+}
+
+export interface GameSession {
+  gameState: GameState
+  /** The private lobby match the game was dealt from, house rules and decks; null for everything else */
+  lobby: LobbyMatch | null
+  /** Created by a matchmaking seat ticket, so every seat is bound to a profile and the result is rated */
+  ranked: boolean
+  /** The game's own events, effects and win-condition tracking */
+  systems: EngineSystems
+  players: Map<PlayerId, SeatConnection>
+  spectators: Map<SessionSocket, SpectatorConnection>
+  /** Game events since the last broadcast, streamed to spectators as a feed */
+  pendingEvents: GameEvent[]
+  lastUpdate: number
+  /** Sequence number of the latest state update */
+  seq: number
+  /** Recent updates, oldest first, trimmed to what a seat may still need */
+  history: StateUpdate[]
+  clockConfig: TurnClockConfig
+  clock: TurnClock
+  /** Fires the clock's next alert, or passes the turn when time is up */
+  clockTimer?: ReturnType<typeof setTimeout>
+  /** Keeps the opening hand of anyone still deciding when the mulligan runs out */
+  mulliganTimer?: ReturnType<typeof setTimeout>
+  // Actions are applied one at a time in arrival order
+  queue: Promise<void>
+  /** Set once the game has a winner, so it is only reported once */
+  finished: boolean
+}
+
+export interface GameEndEvent {
+  gameId: string
+  winner: PlayerId
+  /** Profile matchmaking bound to each seat */
+  profiles: Partial<Record<PlayerId, string>>
+  /** True only for matchmade games, whose seats were claimed with verified tickets */
+  ranked: boolean
+}
+
+// ================================
+// GAME SESSION HOST
+// ================================
+// Owns the authoritative state of every online game and fans updates out to its sockets
+
+class GameSessionService {
+  private gameSessions = new Map<string, GameSession>()
+  private gameEndListeners = new Set<(event: GameEndEvent) => void>()
+
+  getSession(gameId: string): GameSession | undefined {
+    return this.gameSessions.get(gameId)
+  }
+
+  /** Be told when any game is won; returns an unsubscribe function */
+  onGameEnd(listener: (event: GameEndEvent) => void): () => void {
+    this.gameEndListeners.add(listener)
+    return () => this.gameEndListeners.delete(listener)
+  }
+
+  /**
+   * Seat a player, creating the game on first join from the `lobby` match if given. `profileId`
+   * must come from a verified seat ticket; a game first joined with one is ranked, and then only
+   * takes ticketed seats. Returns false if the seat is taken, the player brings a different lobby
+   * match than the game was created from, or a ticket to the wrong kind of game.
+   */
+  async joinAsPlayer(
+    gameId: string,
+    playerId: PlayerId,
+    token: string,
+    socket: SessionSocket,
+    profileId?: string,
+    lobby: LobbyMatch | null = null,
+  ): Promise<boolean> {
+    let session = this.gameSessions.get(gameId)
+    if (!session) {
+      session = await this.createSession(gameId, lobby, lobby === null && profileId !== undefined)
+    }
+
+    // Both players of a private game bring the match the lobby sealed for them
+    if (JSON.stringify(session.lobby) !== JSON.stringify(lobby)) {
+      GameLogger.warn(`Rejected ${playerId} for game ${gameId}: lobby match does not match`)
+      return false
+    }
+    if (session.ranked !== (profileId !== undefined)) {
+      GameLogger.warn(
+        `Rejected ${playerId} for game ${gameId}: ticketed and unticketed seats cannot share a game`,
+      )
+      return false
+    }
+
+    // The first token to claim a seat owns it; reconnecting needs the same token
+    const seat = session.players.get(playerId)
+    if (seat && seat.token !== token) {
+      GameLogger.warn(`Rejected ${playerId} for game ${gameId}: seat already claimed`)
+      return false
+    }
+    if (seat?.isConnected) {
+      seat.socket.close(4000, 'Replaced by a new connection')
+    }
+
+    if (seat) this.markReconnected(gameId, session, playerId, seat)
+    const reconnectToken = crypto.randomUUID()
+    session.players.set(playerId, {
+      socket,
+      token,
+      isConnected: true,
+      profileId,
+      reconnectToken,
+      lastAck: session.seq,
+    })
+    if (!seat && session.players.size === 2) this.startMulliganTimer(gameId, session)
+
+    this.send(socket, {
+      type: 'game_state',
+      state: projectStateForSeat(session.gameState, playerId),
+      yourPlayer: playerId,
+      seq: session.seq,
+      reconnectToken,
+      timer: this.getTimer(session),
+      timestamp: Date.now(),
+    })
+
+    GameLogger.system(`Player ${playerId} joined game ${gameId}`)
+    return true
+  }
+
+  /**
+   * Put a dropped player back in their seat and replay the updates they haven't acknowledged.
+   * Returns false if the game or reconnect token is unknown, or the game is already over.
+   */
+  resumeSeat(
+    gameId: string,
+    playerId: PlayerId,
+    reconnectToken: string,
+    socket: SessionSocket,
+  ): boolean {
+    const session = this.gameSessions.get(gameId)
+    const seat = session?.players.get(playerId)
+    if (!session || !seat || seat.reconnectToken !== reconnectToken || session.finished) {
+      GameLogger.warn(`Could not resume ${playerId} in game ${gameId}`)
+      return false
+    }
+    if (seat.isConnected) {
+      seat.socket.close(4000, 'Replaced by a new connection')
+    }
+
+    this.markReconnected(gameId, session, playerId, seat)
+    seat.socket = socket
+    seat.isConnected = true
+    seat.reconnectToken = crypto.randomUUID()
+
+    const timestamp = Date.now()
+    this.send(socket, {
+      type: 'session_resumed',
+      seq: session.seq,
+      reconnectToken: seat.reconnectToken,
+      timer: this.getTimer(session),
+      timestamp,
+    })
+
+    // Replay the missed updates in order, or the current state if they're no longer all kept
+    const missed = session.history.filter(update => update.seq > seat.lastAck)
+    const canReplay = missed.length === session.seq - seat.lastAck
+    const replay = canReplay ? missed : [{ seq: session.seq, state: session.gameState, timestamp }]
+    for (const update of replay) {
+      this.send(socket, {
+        type: 'game_state_update',
+        state: projectStateForSeat(update.state, playerId),
+        seq: update.seq,
+        timestamp: update.timestamp,
+      })
+    }
+
+    GameLogger.system(
+      `Player ${playerId} resumed game ${gameId} (${canReplay ? `${missed.length} updates replayed` : 'full state'})`,
+    )
+    return true
+  }
+
+  /** Stop the forfeit countdown, restart the turn clock and let everyone else know */
+  private markReconnected(
+    gameId: string,
+    session: GameSession,
+    playerId: PlayerId,
+    seat: SeatConnection,
+  ): void {
+    if (!seat.graceTimer) return
+    clearTimeout(seat.graceTimer)
+    seat.graceTimer = undefined
+
+    const timestamp = Date.now()
+    // The clock stays stopped while anyone else is still dropped
+    if (Array.from(session.players.values()).every(other => !other.graceTimer)) {
+      session.clock = resumeClock(session.clock, timestamp)
+      this.scheduleClock(gameId, session)
+    }
+    const timer = this.getTimer(session)
+    this.broadcast(session, () => ({ type: 'player_reconnected', playerId, timer, timestamp }))
+  }
+
+  /**
+   * Watch an existing game, face-down unless the spectator holds a caster key. Revealing hands
+   * delays everything the spectator receives by at least CASTER_DELAY. Returns false if there
+   * is no such game.
+   */
+  joinAsSpectator(gameId: string, socket: SessionSocket, options: SpectateOptions = {}): boolean {
+    const session = this.gameSessions.get(gameId)
+    if (!session) return false
+
+    const revealHands = isCasterKey(options.casterKey)
+    const delayMs = revealHands
+      ? Math.max(options.delayMs ?? 0, WEBSOCKET_CONFIG.CASTER_DELAY)
+      : Math.max(options.delayMs ?? 0, 0)
+    const spectator: SpectatorConnection = { revealHands, delayMs }
+    session.spectators.set(socket, spectator)
+
+    this.sendToSpectator(session, socket, spectator, {
+      type: 'game_state',
+      state: projectStateForSpectator(session.gameState, revealHands),
+      spectator: { revealHands, delayMs },
+      timestamp: Date.now(),
+    })
+
+    GameLogger.system(`Spectator joined game ${gameId}${revealHands ? ' as caster' : ''}`)
+    return true
+  }
+
+  /** Spectators are read-only: anything but a heartbeat is refused */
+  handleSpectatorMessage(socket: SessionSocket, raw: string): void {
+    let data: unknown
+    try {
+      data = JSON.parse(raw)
+    } catch {
+      data = null
+    }
+
+    const parsed = ClientMessageSchema.safeParse(data)
+    if (parsed.success && parsed.data.type === 'heartbeat') return
+    this.send(socket, { type: 'error', error: 'Spectators cannot take actions' })
+  }
+
+  /** Validate and apply one raw client message from a seated player */
+  handleMessage(gameId: string, playerId: PlayerId, raw: string): Promise<void> {
+    const session = this.gameSessions.get(gameId)
+    const seat = session?.players.get(playerId)
+    if (!session || !seat) return Promise.resolve()
+
+    session.queue = session.queue.then(() =>
+      this.processMessage(gameId, session, playerId, seat, raw),
+    )
+    return session.queue
+  }
+
+  private async processMessage(
+    gameId: string,
+    session: GameSession,
+    playerId: PlayerId,
+    seat: SeatConnection,
+    raw: string,
+  ): Promise<void> {
+    let data: unknown
+    try {
+      data = JSON.parse(raw)
+    } catch {
+      data = null
+    }
+
+    const parsed = ClientMessageSchema.safeParse(data)
+    if (!parsed.success) {
+      this.send(seat.socket, { type: 'error', message: 'Invalid message format' })
+      return
+    }
+
+    const message = parsed.data
+    if (message.type === 'heartbeat') return
+    if (message.type === 'ack') {
+      seat.lastAck = Math.min(Math.max(seat.lastAck, message.seq), session.seq)
+      this.trimHistory(session)
+      return
+    }
+
+    const validation = validateGameAction(session.gameState, playerId, message, session.systems)
+    if (!validation.valid) {
+      this.send(seat.socket, { type: 'error', error: validation.error })
+      return
+    }
+
+    const error = await this.commitAction(gameId, session, playerId, message)
+    if (error) this.send(seat.socket, { type: 'error', error })
+  }
+
+  /** Apply a validated action and send the result everywhere. Returns an error message on failure. */
+  private async commitAction(
+    gameId: string,
+    session: GameSession,
+    playerId: PlayerId,
+    action: GameAction,
+  ): Promise<string | null> {
+    try {
+      session.gameState = await applyGameAction(
+        session.gameState,
+        playerId,
+        action,
+        session.systems,
+      )
+      session.lastUpdate = Date.now()
+    } catch (error) {
+      GameLogger.error(`Action failed for ${playerId} in game ${gameId}:`, error)
+      return error instanceof Error ? error.message : 'Unknown error'
+    }
+
+    const timestamp = Date.now()
+    const seq = ++session.seq
+    session.history.push({ seq, state: session.gameState, timestamp })
+    this.trimHistory(session)
+    this.syncClock(gameId, session, timestamp)
+    const timer = this.getTimer(session)
+    this.broadcast(session, view => ({
+      type: 'game_state_update',
+      state: this.project(session.gameState, view),
+      seq,
+      timer,
+      timestamp,
+    }))
+    this.flushEvents(session)
+    GameLogger.system(`Action processed: ${action.type} by ${playerId} in game ${gameId}`)
+
+    await this.checkForWinner(gameId, session)
+    return null
+  }
+
+  /** Start the clock for a new turn, or stop it outside the action phase */
+  private syncClock(gameId: string, session: GameSession, now: number): void {
+    const { activePlayer, phase, turn } = session.gameState
+    if (phase !== 'mulligan') {
+      clearTimeout(session.mulliganTimer)
+      session.mulliganTimer = undefined
+    }
+    if (session.finished || phase !== 'action') {
+      session.clock = finishTurn(session.clock, session.clockConfig, now)
+    } else if (session.clock.activePlayer !== activePlayer || session.clock.turn !== turn) {
+      session.clock = startTurn(session.clock, session.clockConfig, activePlayer, turn, now)
+    }
+    this.scheduleClock(gameId, session)
+  }
+
+  /** Arm the timer for the clock's next alert, announcing rope and bank time as they start */
+  private scheduleClock(gameId: string, session: GameSession): void {
+    clearTimeout(session.clockTimer)
+    session.clockTimer = undefined
+    const next = nextClockAlert(session.clock, session.clockConfig, Date.now())
+    if (!next) return
+
+    session.clockTimer = setTimeout(() => {
+      session.clockTimer = undefined
+      if (next.alert === 'expired') {
+        session.queue = session.queue.then(() => this.passOnTimeout(gameId, session))
+        return
+      }
+      const timer = this.getTimer(session)
+      this.broadcast(session, () => ({
+        type: 'turn_timer',
+        alert: next.alert,
+        timer,
+        timestamp: Date.now(),
+      }))
+      this.scheduleClock(gameId, session)
+    }, next.inMs)
+  }
+
+  /** Both seats are filled: give the players MULLIGAN_TIME to choose before their hands are kept */
+  private startMulliganTimer(gameId: string, session: GameSession): void {
+    if (session.gameState.phase !== 'mulligan' || session.mulliganTimer) return
+    session.mulliganTimer = setTimeout(() => {
+      session.queue = session.queue.then(() => this.keepOnTimeout(gameId, session))
+    }, WEBSOCKET_CONFIG.MULLIGAN_TIME)
+  }
+
+  /** The mulligan ran out: keep the opening hand of anyone who hasn't chosen */
+  private async keepOnTimeout(gameId: string, session: GameSession): Promise<void> {
+    session.mulliganTimer = undefined
+    const action: GameAction = { type: 'mulligan', cardIds: [] }
+    for (const player of ['player1', 'player2'] as const) {
+      if (session.finished) return
+      if (!validateGameAction(session.gameState, player, action, session.systems).valid) continue
+
+      GameLogger.system(`Mulligan timer expired for ${player} in game ${gameId}, keeping`)
+      const error = await this.commitAction(gameId, session, player, action)
+      if (error) GameLogger.error(`Timed-out mulligan failed in game ${gameId}: ${error}`)
+    }
+  }
+
+  /** The active player ran out of time: end their turn for them */
+  private async passOnTimeout(gameId: string, session: GameSession): Promise<void> {
+    const player = session.clock.activePlayer
+    const left = getTimeLeft(session.clock, session.clockConfig, Date.now())
+    // A move or a pause may have changed the clock while this waited in the queue
+    if (session.finished || !player || !left || left.totalMs > 0 || session.clock.pausedAt) {
+      this.scheduleClock(gameId, session)
+      return
+    }
+
+    const timer = this.getTimer(session)
+    this.broadcast(session, () => ({
+      type: 'turn_timer',
+      alert: 'expired',
+      timer,
+      timestamp: Date.now(),
+    }))
+
+    const action: GameAction = { type: 'end_turn' }
+    const validation = validateGameAction(session.gameState, player, action, session.systems)
+    const error = validation.valid
+      ? await this.commitAction(gameId, session, player, action)
+      : (validation.error ?? 'Cannot end the turn')
+    if (!error) {
+      GameLogger.system(`Turn timer expired for ${player} in game ${gameId}, passed`)
+      return
+    }
+
+    // The turn can't be passed for them, and a stopped clock would stall the game: their flag falls
+    if (session.finished) return
+    GameLogger.warn(
+      `Could not pass for ${player} in game ${gameId} (${error}), so they lose on time`,
+    )
+    const winner = player === 'player1' ? 'player2' : 'player1'
+    this.broadcast(session, () => ({
+      type: 'game_forfeited',
+      playerId: player,
+      winner,
+      timestamp: Date.now(),
+    }))
+    this.endGame(gameId, session, winner)
+  }
+
+  private getTimer(session: GameSession): TurnTimer | null {
+    return toTurnTimer(session.clock, session.clockConfig, Date.now())
+  }
+
+  private async checkForWinner(gameId: string, session: GameSession): Promise<void> {
+    if (session.finished) return
+    const { checkGameOutcome } = await import('@/lib/game_logic')
+    const outcome = checkGameOutcome(session.gameState, session.systems)
+    if (outcome === 'ongoing') return
+
+    this.endGame(gameId, session, outcome === 'player1_wins' ? 'player1' : 'player2')
+  }
+
+  private endGame(gameId: string, session: GameSession, winner: PlayerId): void {
+    session.finished = true
+    clearTimeout(session.clockTimer)
+    session.clockTimer = undefined
+    clearTimeout(session.mulliganTimer)
+    session.mulliganTimer = undefined
+    session.clock = finishTurn(session.clock, session.clockConfig, Date.now())
+    const profiles: Partial<Record<PlayerId, string>> = {}
+    for (const [seat, connection] of session.players) {
+      if (connection.profileId) profiles[seat] = connection.profileId
+      clearTimeout(connection.graceTimer)
+      connection.graceTimer = undefined
+    }
+    const event: GameEndEvent = { gameId, winner, profiles, ranked: session.ranked }
+
+    GameLogger.system(`Game ${gameId} won by ${event.winner}`)
+    for (const listener of this.gameEndListeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        GameLogger.error('Game end listener failed:', error)
+      }
+    }
+  }
+
+  /**
+   * Mark a seat as disconnected and tell everyone else. The player has GRACE_PERIOD to resume
+   * before forfeiting; the game is dropped once every seat is gone.
+   */
+  handleDisconnect(gameId: string, playerId: PlayerId, socket: SessionSocket): void {
+    const session = this.gameSessions.get(gameId)
+    const seat = session?.players.get(playerId)
+    // A socket that was already replaced by a reconnect has nothing left to clean up
+    if (!session || !seat || seat.socket !== socket) return
+
+    seat.isConnected = false
+    GameLogger.system(`Player ${playerId} disconnected from game ${gameId}`)
+
+    const timestamp = Date.now()
+    const opponent = playerId === 'player1' ? 'player2' : 'player1'
+    // Only a game with both seats filled can be forfeited
+    const canForfeit = !session.finished && session.players.has(opponent)
+    if (canForfeit) {
+      // Nobody's time runs down while a player is away
+      session.clock = pauseClock(session.clock, timestamp)
+      this.scheduleClock(gameId, session)
+      clearTimeout(seat.graceTimer)
+      seat.graceTimer = setTimeout(() => {
+        seat.graceTimer = undefined
+        if (seat.isConnected || session.finished) return
+        GameLogger.system(`Player ${playerId} forfeited game ${gameId} by not reconnecting`)
+        this.broadcast(session, () => ({
+          type: 'game_forfeited',
+          playerId,
+          winner: opponent,
+          timestamp: Date.now(),
+        }))
+        this.endGame(gameId, session, opponent)
+      }, WEBSOCKET_CONFIG.GRACE_PERIOD)
+    }
+
+    this.broadcast(session, () => ({
+      type: 'player_disconnected',
+      playerId,
+      resumeBy: canForfeit ? timestamp + WEBSOCKET_CONFIG.GRACE_PERIOD : undefined,
+      timer: this.getTimer(session),
+      timestamp,
+    }))
+
+    setTimeout(() => {
+      const current = this.gameSessions.get(gameId)
+      if (current && Array.from(current.players.values()).every(p => !p.isConnected)) {
+        this.clearTimers(current)
+        this.gameSessions.delete(gameId)
+        GameLogger.system(`Cleaned up empty game ${gameId}`)
+      }
+    }, WEBSOCKET_CONFIG.CLEANUP_INTERVAL)
+  }
+
+  /** Stream the events from the last action to spectators, each seeing what its view allows */
+  private flushEvents(session: GameSession): void {
+    const events = session.pendingEvents
+    session.pendingEvents = []
+    if (events.length === 0) return
+
+    const timestamp = Date.now()
+    this.broadcastToSpectators(session, view => {
+      const visible = events
+        .map(event => projectEventForSpectator(event, view === 'caster'))
+        .filter(event => event !== null)
+      return visible.length > 0 ? { type: 'game_events', events: visible, timestamp } : null
+    })
+  }
+
+  /** Drop updates every seat has acknowledged, and never keep more than RESUME_HISTORY */
+  private trimHistory(session: GameSession): void {
+    const acked = Math.min(...Array.from(session.players.values(), seat => seat.lastAck))
+    const keepFrom = session.history.findIndex(update => update.seq > acked)
+    session.history =
+      keepFrom === -1 ? [] : session.history.slice(keepFrom).slice(-WEBSOCKET_CONFIG.RESUME_HISTORY)
+  }
+
+  removeSpectator(gameId: string, socket: SessionSocket): void {
+    this.gameSessions.get(gameId)?.spectators.delete(socket)
+  }
+
+  private async createSession(
+    gameId: string,
+    lobby: LobbyMatch | null,
+    ranked: boolean,
+  ): Promise<GameSession> {
+    // Import game logic dynamically to avoid circular deps
+    const { createConstructedGameState, createInitialGameState } = await import('@/lib/game_logic')
+    const { createEngineSystems } = await import('@/services/engine_systems')
+
+    // Another join may have created the game while the import was pending
+    const existing = this.gameSessions.get(gameId)
+    if (existing) return existing
+
+    const systems = createEngineSystems()
+    const rules = lobby?.rules
+    const clockConfig: TurnClockConfig = {
+      turnMs: rules ? rules.turnSeconds * 1000 : WEBSOCKET_CONFIG.TURN_TIME_LIMIT,
+      bankMs: rules ? rules.bankSeconds * 1000 : WEBSOCKET_CONFIG.TIME_BANK,
+      ropeMs: WEBSOCKET_CONFIG.ROPE_TIME,
+    }
+    const session: GameSession = {
+      gameState: lobby
+        ? createConstructedGameState(
+            lobbyDeck(lobby.decks.player1, lobby.rules),
+            lobbyDeck(lobby.decks.player2, lobby.rules),
+            { gameMode: lobby.rules.gameMode, startingHealth: lobby.rules.startingHealth, systems },
+          )
+        : createInitialGameState(undefined, 'standard', undefined, systems),
+      lobby,
+      ranked,
+      systems,
+      players: new Map(),
+      spectators: new Map(),
+      pendingEvents: [],
+      lastUpdate: Date.now(),
+      seq: 0,
+      history: [],
+      clockConfig,
+      clock: createTurnClock(clockConfig),
+      queue: Promise.resolve(),
+      finished: false,
+    }
+    systems.events.subscribe({}, event => {
+      session.pendingEvents.push(event)
+    })
+    this.gameSessions.set(gameId, session)
+
+    GameLogger.system(`Created new game ${gameId}`)
+    return session
+  }
+
+  private project(state: GameState, view: View) {
+    if (view === 'spectator' || view === 'caster') {
+      return projectStateForSpectator(state, view === 'caster')
+    }
+    return projectStateForSeat(state, view)
+  }
+
+  /** Send to both connected seats and every spectator, each getting the message built for its view */
+  private broadcast(session: GameSession, buildMessage: (view: View) => ServerMessage): void {
+    for (const [playerId, connection] of session.players) {
+      if (connection.isConnected && !this.send(connection.socket, buildMessage(playerId))) {
+        GameLogger.error(`Failed to send to ${playerId}`)
+        connection.isConnected = false
+      }
+    }
+
+    this.broadcastToSpectators(session, buildMessage)
+  }
+
+  /** Send to every spectator, building at most one message per kind of view; null sends nothing */
+  private broadcastToSpectators(
+    session: GameSession,
+    buildMessage: (view: 'spectator' | 'caster') => ServerMessage | null,
+  ): void {
+    const messages = new Map<View, ServerMessage | null>()
+    for (const [socket, spectator] of session.spectators) {
+      const view = spectator.revealHands ? 'caster' : 'spectator'
+      if (!messages.has(view)) messages.set(view, buildMessage(view))
+      const message = messages.get(view)
+      if (message) this.sendToSpectator(session, socket, spectator, message)
+    }
+  }
+
+  private sendToSpectator(
+    session: GameSession,
+    socket: SessionSocket,
+    spectator: SpectatorConnection,
+    message: ServerMessage,
+  ): void {
+    const deliver = () => {
+      if (session.spectators.has(socket) && !this.send(socket, message)) {
+        session.spectators.delete(socket)
+      }
+    }
+    if (spectator.delayMs > 0) {
+      setTimeout(deliver, spectator.delayMs)
+    } else {
+      deliver()
+    }
+  }
+
+  private send(socket: SessionSocket, message: ServerMessage): boolean {
+    try {
+      socket.send(JSON.stringify(message))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /** Stop the turn clock, the mulligan and every seat's forfeit grace, before a session is dropped */
+  private clearTimers(session: GameSession): void {
+    clearTimeout(session.clockTimer)
+    session.clockTimer = undefined
+    clearTimeout(session.mulliganTimer)
+    session.mulliganTimer = undefined
+    for (const seat of session.players.values()) {
+      clearTimeout(seat.graceTimer)
+      seat.graceTimer = undefined
+    }
+  }
+
+  /** Forget every game (tests and server shutdown) */
+  reset(): void {
+    for (const session of this.gameSessions.values()) this.clearTimers(session)
+    this.gameSessions.clear()
+  }
+}
+
+/** Whether `key` is one of the comma-separated CASTER_KEYS this server shows both hands to */
+function isCasterKey(key: string | null | undefined): boolean {
+  if (!key) return false
+  const keys = (process.env.CASTER_KEYS ?? '').split(',').map(casterKey => casterKey.trim())
+  return keys.includes(key)
+}
+
+/** A deck a player readied with in a lobby, checked again against the lobby's format when dealt */
+function lobbyDeck(cardIds: string[], rules: GameRules) {
+  return {
+    type: 'constructed' as const,
+    cards: cardIds.map(id => getCardById(id)).filter((card): card is Card => card !== undefined),
+    format: getFormat(rules.format),
+  }
+}
+
+export const gameSessionService = new GameSessionService()
@@ -1,6 +1,6 @@
 'use client'
 
-import type { Card as GameCard } from '@/schemas/schema'
+import type { Card as GameCard, PlayTarget } from '@/schemas/schema'
 import type { BattlefieldPosition } from '@/services/battlefield_service'
 import { animationService } from './animation_service'
 
@@ -22,6 +22,13 @@ export interface ClickState {
   targetMode: 'none' | 'move' | 'attack' | 'defend'
 }
 
+// A spell or battlecry waiting for its player to pick what it hits
+export interface TargetRequest {
+  card: GameCard
+  validTargets: PlayTarget[]
+  onSelect: (target: PlayTarget) => void
+}
+
 export interface InteractionCallbacks {
   onCardSelect?: (card: GameCard, position: BattlefieldPosition | 'hand') => void
   onCardMove?: (card: GameCard, from: BattlefieldPosition | 'hand', to: BattlefieldPosition) => void
@@ -32,6 +39,8 @@ export interface InteractionCallbacks {
   onHideTooltip?: () => void
   onDragStart?: (card: GameCard) => void
   onDragEnd?: () => void
+  onTargetingStart?: (card: GameCard, validTargets: PlayTarget[]) => void
+  onTargetingEnd?: () => void
   getValidDropZones?: (card: GameCard, from: BattlefieldPosition | 'hand') => BattlefieldPosition[]
   canDragCard?: (card: GameCard, from: BattlefieldPosition | 'hand') => boolean
   canDropOn?: (
@@ -46,6 +55,7 @@ class InteractionService {
   private dragState: DragState = this.createEmptyDragState()
   private clickState: ClickState = this.createEmptyClickState()
   private callbacks: InteractionCallbacks = {}
+  private targetRequest: TargetRequest | null = null
   private dragThreshold = 5 // pixels to differentiate click from drag
   private longPressTimeout: number | null = null
   private longPressDelay = 500 // ms for long press on touch devices
@@ -456,10 +466,55 @@ class InteractionService {
     }
   }
 
+  /**
+   * Ask the player to pick a target for a card; onSelect runs once a valid one is chosen
+   */
+  requestTarget(
+    card: GameCard,
+    validTargets: PlayTarget[],
+    onSelect: (target: PlayTarget) => void,
+  ): void {
+    this.targetRequest = { card, validTargets, onSelect }
+    this.callbacks.onTargetingStart?.(card, validTargets)
+  }
+
+  /**
+   * Resolve the pending target request; returns false if the target isn't one it accepts
+   */
+  selectTarget(target: PlayTarget): boolean {
+    const request = this.targetRequest
+    if (!request) return false
+    if (!request.validTargets.some(t => t.type === target.type && t.id === target.id)) {
+      return false
+    }
+
+    this.targetRequest = null
+    this.callbacks.onTargetingEnd?.()
+    request.onSelect(target)
+    return true
+  }
+
+  /**
+   * Drop the pending target request without playing the card
+   */
+  cancelTargeting(): void {
+    if (!this.targetRequest) return
+    this.targetRequest = null
+    this.callbacks.onTargetingEnd?.()
+  }
+
+  /**
+   * Check if a card is waiting for its target
+   */
+  isSelectingTarget(): boolean {
+    return this.targetRequest !== null
+  }
+
   /**
    * Cancel any ongoing interaction
    */
   cancelInteraction(): void {
+    this.cancelTargeting()
     this.endDrag()
     this.resetStates()
     this.callbacks.onClearHighlights?.()
@@ -501,6 +556,7 @@ class InteractionService {
     this.endDrag()
     this.resetDragState()
     this.resetClickState()
+    this.targetRequest = null
     this.callbacks = {}
   }
 }
@@ -0,0 +1,294 @@
+import { WEBSOCKET_CONFIG } from '@/config/websocket_config'
+import { getCardById } from '@/lib/card_loader'
+import { decodeDeckCode } from '@/lib/deck_code'
+import { DEFAULT_FORMAT, getFormat, validateDeck } from '@/lib/deck_format'
+import { GameLogger } from '@/lib/game_logger'
+import { GAME_CONFIG } from '@/lib/game_logic'
+import { getSeatTicketSecret, sealLobbyTicket } from '@/lib/seat_ticket'
+import { type GameRules, GameRulesSchema } from '@/schemas/multiplayer_schema'
+import type { Card, PlayerId } from '@/schemas/schema'
+
+// ================================
+// PRIVATE LOBBIES
+// ================================
+// Rooms for playing a friend instead of the matchmaking pool. The host gets a short invite
+// code and sets the house rules; once both players are ready with legal decks the lobby hands
+// each of them a match id and a sealed ticket for their seat, which the game server deals the
+// decks from. Creating or joining hands out a secret for the seat, and only that secret acts
+// for it; anyone else with the code sees the lobby but none of the secrets, decks or tickets.
+
+export interface LobbyPlayer {
+  name: string
+  ready: boolean
+}
+
+/** A lobby as anyone with its code sees it */
+export interface Lobby {
+  code: string
+  host: LobbyPlayer
+  guest: LobbyPlayer | null
+  rules: GameRules
+  /** Set once both players are ready */
+  started: boolean
+  updatedAt: number
+}
+
+/** The lobby as one of its players sees it */
+export interface LobbySeatView {
+  lobby: Lobby
+  /** The host plays player1 */
+  seat: PlayerId
+  /** Set once both players are ready: the game, and this seat's sealed ticket to connect with */
+  match: { matchId: string; ticket: string } | null
+}
+
+/** What creating or joining a lobby returns: the seat, and the secret every later request needs */
+export interface JoinedLobby extends LobbySeatView {
+  secret: string
+}
+
+interface LobbySeat extends LobbyPlayer {
+  secret: string
+  /** The deck readied with, as card ids */
+  deck: string[] | null
+  ticket: string | null
+}
+
+interface LobbyRoom {
+  code: string
+  host: LobbySeat
+  guest: LobbySeat | null
+  rules: GameRules
+  matchId: string | null
+  updatedAt: number
+}
+
+export const DEFAULT_GAME_RULES: GameRules = {
+  gameMode: 'standard',
+  startingHealth: GAME_CONFIG.STARTING_HEALTH,
+  turnSeconds: WEBSOCKET_CONFIG.TURN_TIME_LIMIT / 1000,
+  bankSeconds: WEBSOCKET_CONFIG.TIME_BANK / 1000,
+  format: DEFAULT_FORMAT.id,
+}
+
+// No 0/O or 1/I/L, so codes survive being read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 6
+const LOBBY_TTL = 30 * 60 * 1000 // idle lobbies close after 30 minutes
+
+class LobbyService {
+  private lobbies = new Map<string, LobbyRoom>()
+
+  createLobby(hostName: string, rules: Partial<GameRules> = {}): JoinedLobby {
+    this.pruneIdle()
+
+    let code = generateCode()
+    while (this.lobbies.has(code)) code = generateCode()
+
+    const room: LobbyRoom = {
+      code,
+      host: openSeat(hostName),
+      guest: null,
+      rules: parseRules({ ...DEFAULT_GAME_RULES, ...rules }),
+      matchId: null,
+      updatedAt: Date.now(),
+    }
+    this.lobbies.set(code, room)
+
+    GameLogger.system(`🚪 ${hostName} opened lobby ${code}`)
+    return { ...seatView(room, 'player1'), secret: room.host.secret }
+  }
+
+  getLobby(code: string): Lobby | undefined {
+    const room = this.findRoom(code)
+    return room && lobbyView(room)
+  }
+
+  /** The lobby as the player holding `secret` sees it */
+  getSeat(code: string, secret: string): LobbySeatView {
+    const room = this.requireRoom(code)
+    return seatView(room, requireSeat(room, secret).seat)
+  }
+
+  joinLobby(code: string, name: string): JoinedLobby {
+    const room = this.requireRoom(code)
+    if (room.guest) throw new Error('Lobby is full')
+
+    room.guest = openSeat(name)
+    this.touch(room)
+    GameLogger.system(`🚪 ${name} joined lobby ${room.code}`)
+    return { ...seatView(room, 'player2'), secret: room.guest.secret }
+  }
+
+  /** Only the host changes the rules, and any change un-readies both players */
+  updateRules(code: string, secret: string, rules: Partial<GameRules>): LobbySeatView {
+    const room = this.requireRoom(code)
+    if (requireSeat(room, secret).seat !== 'player1') {
+      throw new Error('Only the host can change the rules')
+    }
+    if (room.matchId) throw new Error('The game has already started')
+
+    room.rules = parseRules({ ...room.rules, ...rules })
+    room.host.ready = false
+    if (room.guest) room.guest.ready = false
+    this.touch(room)
+    return seatView(room, 'player1')
+  }
+
+  /** Ready up, with a deck that must be legal in the lobby's format. Starts the game once both are. */
+  async setReady(
+    code: string,
+    secret: string,
+    ready: boolean,
+    deckCode?: string,
+  ): Promise<LobbySeatView> {
+    const room = this.requireRoom(code)
+    const { seat, player } = requireSeat(room, secret)
+    if (room.matchId) return seatView(room, seat)
+
+    if (ready) {
+      if (!deckCode) throw new Error('Choose a deck before readying up')
+      player.deck = checkDeck(deckCode, room.rules.format)
+    }
+    player.ready = ready
+    this.touch(room)
+
+    const { host, guest } = room
+    if (!host.ready || !guest?.ready || !host.deck || !guest.deck) return seatView(room, seat)
+
+    const ticketSecret = getSeatTicketSecret()
+    if (!ticketSecret) throw new Error('Private games are not available on this server')
+    const match = {
+      matchId: `lobby_${room.code}_${Date.now()}`,
+      rules: room.rules,
+      decks: { player1: host.deck, player2: guest.deck },
+    }
+    const [hostTicket, guestTicket] = await Promise.all([
+      sealLobbyTicket({ seat: 'player1', match }, ticketSecret),
+      sealLobbyTicket({ seat: 'player2', match }, ticketSecret),
+    ])
+    // Another request may have started the match while the tickets were being sealed
+    if (!room.matchId) {
+      room.matchId = match.matchId
+      host.ticket = hostTicket
+      guest.ticket = guestTicket
+      GameLogger.system(`🎮 Lobby ${room.code} starting match ${room.matchId}`)
+    }
+    return seatView(room, seat)
+  }
+
+  /** The host leaving closes the lobby; a guest leaving frees the seat */
+  leaveLobby(code: string, secret: string): void {
+    const room = this.lobbies.get(normalizeCode(code))
+    if (!room) return
+
+    if (room.host.secret === secret) {
+      this.lobbies.delete(room.code)
+      GameLogger.system(`🚪 Lobby ${room.code} closed`)
+    } else if (room.guest?.secret === secret) {
+      room.guest = null
+      room.host.ready = false
+      this.touch(room)
+    }
+  }
+
+  /** Forget every lobby (tests) */
+  reset(): void {
+    this.lobbies.clear()
+  }
+
+  private findRoom(code: string): LobbyRoom | undefined {
+    this.pruneIdle()
+    return this.lobbies.get(normalizeCode(code))
+  }
+
+  private requireRoom(code: string): LobbyRoom {
+    const room = this.findRoom(code)
+    if (!room) throw new Error('Lobby not found')
+    return room
+  }
+
+  private touch(room: LobbyRoom): void {
+    room.updatedAt = Date.now()
+  }
+
+  private pruneIdle(): void {
+    const cutoff = Date.now() - LOBBY_TTL
+    for (const [code, room] of this.lobbies) {
+      if (room.updatedAt < cutoff) this.lobbies.delete(code)
+    }
+  }
+}
+
+function openSeat(name: string): LobbySeat {
+  return { name, ready: false, secret: crypto.randomUUID(), deck: null, ticket: null }
+}
+
+/** The seat whose secret this is; anything else is refused */
+function requireSeat(room: LobbyRoom, secret: string): { seat: PlayerId; player: LobbySeat } {
+  if (secret && room.host.secret === secret) return { seat: 'player1', player: room.host }
+  if (secret && room.guest?.secret === secret) return { seat: 'player2', player: room.guest }
+  throw new Error('You are not in this lobby')
+}
+
+function lobbyView(room: LobbyRoom): Lobby {
+  const player = ({ name, ready }: LobbySeat): LobbyPlayer => ({ name, ready })
+  return {
+    code: room.code,
+    host: player(room.host),
+    guest: room.guest && player(room.guest),
+    rules: room.rules,
+    started: room.matchId !== null,
+    updatedAt: room.updatedAt,
+  }
+}
+
+function seatView(room: LobbyRoom, seat: PlayerId): LobbySeatView {
+  const ticket = (seat === 'player1' ? room.host : room.guest)?.ticket
+  return {
+    lobby: lobbyView(room),
+    seat,
+    match: room.matchId && ticket ? { matchId: room.matchId, ticket } : null,
+  }
+}
+
+function generateCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH))
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('')
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+function parseRules(rules: GameRules): GameRules {
+  const parsed = GameRulesSchema.safeParse(rules)
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? 'Invalid rules')
+  }
+  if (!getFormat(parsed.data.format)) {
+    throw new Error(`Unknown format "${parsed.data.format}"`)
+  }
+  return parsed.data
+}
+
+/** The deck's card ids, if it is legal in the format */
+function checkDeck(deckCode: string, formatId: string): string[] {
+  const format = getFormat(formatId) ?? DEFAULT_FORMAT
+  const ids = decodeDeckCode(deckCode).cards
+  const missing = ids.filter(id => !getCardById(id))
+  if (missing.length > 0) {
+    throw new Error(`Unknown cards: ${[...new Set(missing)].join(', ')}`)
+  }
+
+  const violations = validateDeck(
+    ids.map(id => getCardById(id) as Card),
+    format,
+  )
+  if (violations.length > 0) {
+    throw new Error(`Deck is not legal in ${format.name}: ${violations[0].message}`)
+  }
+  return ids
+}
+
+export const lobbyService = new LobbyService()
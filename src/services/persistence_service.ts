@@ -1,8 +1,17 @@
 import { db, schema } from '@/db';
 import type { GameState as AppGameState } from '@/schemas/schema';
-import { eq, desc } from 'drizzle-orm';
+import type { ProfileSnapshot } from '@/schemas/profile_schema';
+import type { RankedRecord } from '@/lib/ranked_season';
+import { StatsStorageSchema } from '@/schemas/stats_schema';
+import { and, eq, desc, gte } from 'drizzle-orm';
 import { GameLogger } from '@/lib/game_logger';
 
+/** A player's synced progress as stored, with the version a save must still find to write */
+export interface StoredProfile {
+    sections: ProfileSnapshot;
+    version: number;
+}
+
 /**
  * Persistence Service - P3-1 Implementation
  * 
@@ -206,6 +215,150 @@ export class PersistenceService {
         }
     }
 
+    /**
+     * Load a player's synced progress and its version, or null if they have no profile
+     */
+    async loadProfileSnapshot(playerId: string): Promise<StoredProfile | null> {
+        try {
+            const [profile] = await db
+                .select({
+                    profileData: schema.playerProfiles.profileData,
+                    profileVersion: schema.playerProfiles.profileVersion,
+                })
+                .from(schema.playerProfiles)
+                .where(eq(schema.playerProfiles.id, playerId))
+                .limit(1);
+
+            return profile
+                ? { sections: profile.profileData as ProfileSnapshot, version: profile.profileVersion }
+                : null;
+        } catch (error) {
+            GameLogger.error('Failed to load profile snapshot:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Store a player's merged progress, creating their profile on first sync. Only writes if
+     * the stored version is still `expectedVersion` (0 for a new profile); returns false when
+     * another sync got there first, so the caller can merge again.
+     */
+    async saveProfileSnapshot(
+        playerId: string,
+        name: string,
+        snapshot: ProfileSnapshot,
+        expectedVersion: number,
+    ): Promise<boolean> {
+        try {
+            // Keep the record columns in step with the synced stats
+            const stats = StatsStorageSchema.safeParse(snapshot.stats?.data);
+            const record = stats.success
+                ? {
+                      gamesPlayed: stats.data.stats.totalGames,
+                      gamesWon: stats.data.stats.wins,
+                      gamesLost: stats.data.stats.losses,
+                  }
+                : {};
+
+            const profileVersion = expectedVersion + 1;
+            const saved = await db
+                .insert(schema.playerProfiles)
+                .values({ id: playerId, name, profileData: snapshot, profileVersion, ...record })
+                .onConflictDoUpdate({
+                    target: schema.playerProfiles.id,
+                    set: { profileData: snapshot, profileVersion, lastActive: new Date(), ...record },
+                    setWhere: eq(schema.playerProfiles.profileVersion, expectedVersion),
+                })
+                .returning({ id: schema.playerProfiles.id });
+
+            if (saved.length === 0) return false;
+            GameLogger.debug(`Saved profile snapshot for ${playerId} (v${profileVersion})`);
+            return true;
+        } catch (error) {
+            GameLogger.error('Failed to save profile snapshot:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Load a player's ranked record, or null if they have no profile yet
+     */
+    async loadRankedRecord(playerId: string): Promise<RankedRecord | null> {
+        try {
+            const [profile] = await db
+                .select({
+                    rating: schema.playerProfiles.rating,
+                    deviation: schema.playerProfiles.ratingDeviation,
+                    volatility: schema.playerProfiles.ratingVolatility,
+                    rankedGames: schema.playerProfiles.rankedGames,
+                    season: schema.playerProfiles.rankedSeason,
+                })
+                .from(schema.playerProfiles)
+                .where(eq(schema.playerProfiles.id, playerId))
+                .limit(1);
+
+            if (!profile?.season) return null;
+            return { ...profile, season: profile.season };
+        } catch (error) {
+            GameLogger.error('Failed to load ranked record:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Store a player's ranked record, creating their profile if they have never synced
+     */
+    async saveRankedRecord(playerId: string, record: RankedRecord): Promise<void> {
+        try {
+            const ranked = {
+                rating: record.rating,
+                ratingDeviation: record.deviation,
+                ratingVolatility: record.volatility,
+                rankedGames: record.rankedGames,
+                rankedSeason: record.season,
+            };
+
+            await db
+                .insert(schema.playerProfiles)
+                .values({ id: playerId, name: 'Player', ...ranked })
+                .onConflictDoUpdate({
+                    target: schema.playerProfiles.id,
+                    set: { ...ranked, lastActive: new Date() },
+                });
+        } catch (error) {
+            GameLogger.error('Failed to save ranked record:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Highest-rated players of a season who have played at least `minGames` in it
+     */
+    async getLeaderboard(season: string, minGames: number, limit: number = 100) {
+        try {
+            return await db
+                .select({
+                    id: schema.playerProfiles.id,
+                    name: schema.playerProfiles.name,
+                    rating: schema.playerProfiles.rating,
+                    deviation: schema.playerProfiles.ratingDeviation,
+                    rankedGames: schema.playerProfiles.rankedGames,
+                })
+                .from(schema.playerProfiles)
+                .where(
+                    and(
+                        eq(schema.playerProfiles.rankedSeason, season),
+                        gte(schema.playerProfiles.rankedGames, minGames),
+                    ),
+                )
+                .orderBy(desc(schema.playerProfiles.rating))
+                .limit(limit);
+        } catch (error) {
+            GameLogger.error('Failed to load leaderboard:', error);
+            throw error;
+        }
+    }
+
   /**
    * Get game history for a player
    */
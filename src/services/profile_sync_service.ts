@@ -0,0 +1,213 @@
+import { isCombinedSection, isNewerEntry } from '@/lib/profile_sync'
+import {
+  type ProfileEntry,
+  type ProfileSection,
+  ProfileSectionSchema,
+  type ProfileSnapshot,
+  ProfileSnapshotSchema,
+} from '@/schemas/profile_schema'
+import { challengeService } from '@/services/challenge_service'
+import { questService } from '@/services/quest_service'
+import { settingsService } from '@/services/settings_service'
+import { statsService } from '@/services/stats_service'
+
+// ================================
+// PROFILE SYNC
+// ================================
+// Local progress stays in each service's own localStorage key, which remains the source the
+// game reads. This layer copies those keys to the server and back. A section's version only
+// moves when a sync succeeds, so progress made offline is simply sent on the next sync.
+
+const SYNC_KEY = 'tarot-tcg-sync'
+const ENDPOINT = '/api/profile'
+
+/** Where each section lives locally, and how to make its service re-read it */
+const SECTIONS: Record<ProfileSection, { key: string; reload: () => void }> = {
+  stats: { key: 'tarot-tcg-stats', reload: () => statsService.reload() },
+  quests: { key: 'tarot-tcg-quests', reload: () => questService.reload() },
+  challenges: { key: 'tarot-tcg-challenges', reload: () => challengeService.reload() },
+  settings: { key: 'tarot_tcg_settings', reload: () => settingsService.reload() },
+  decks: {
+    key: 'tarot-tcg-decks',
+    reload: () => {
+      // Pages read saved decks straight from localStorage
+    },
+  },
+}
+
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'offline' | 'error'
+
+interface SyncedSection {
+  version: number
+  updatedAt: number
+  /** The localStorage value as of the last sync, to tell whether it has changed since */
+  raw: string
+}
+
+type LocalValues = Partial<Record<ProfileSection, string>>
+
+interface SyncState {
+  playerId: string
+  lastSyncedAt: number | null
+  sections: Partial<Record<ProfileSection, SyncedSection>>
+}
+
+/** The section's data as of the last sync */
+function parseSynced(synced: SyncedSection): unknown {
+  try {
+    return JSON.parse(synced.raw)
+  } catch {
+    return null
+  }
+}
+
+class ProfileSyncService {
+  private status: SyncStatus = 'idle'
+  private listeners = new Set<(status: SyncStatus) => void>()
+
+  getStatus(): SyncStatus {
+    return this.status
+  }
+
+  onStatusChange(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /** The id this device syncs under; enter it on another device to share progress */
+  getPlayerId(): string {
+    return this.loadState().playerId
+  }
+
+  getLastSyncedAt(): number | null {
+    return this.loadState().lastSyncedAt
+  }
+
+  /** Push local changes and take anything newer from the server */
+  async sync(): Promise<SyncStatus> {
+    if (typeof window === 'undefined') return this.status
+    const state = this.loadState()
+    const { sections: local, raws } = this.readLocal(state)
+
+    this.setStatus('syncing')
+    try {
+      const response = await fetch(ENDPOINT, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId: state.playerId, sections: local }),
+      })
+      // No database behind the API is the same as no network: keep playing locally
+      if (response.status === 503) return this.setStatus('offline')
+      if (!response.ok) return this.setStatus('error')
+
+      const { sections } = await response.json()
+      this.applyRemote(state, local, raws, ProfileSnapshotSchema.parse(sections))
+      return this.setStatus('synced')
+    } catch {
+      return this.setStatus('offline')
+    }
+  }
+
+  /**
+   * Switch this device to another player's id and replace local progress with theirs.
+   * Throws if that profile can't be fetched, leaving this device as it was.
+   */
+  async link(playerId: string): Promise<void> {
+    const id = playerId.trim()
+    if (!id) throw new Error('Enter a sync code')
+
+    const response = await fetch(`${ENDPOINT}?playerId=${encodeURIComponent(id)}`)
+    if (response.status === 404) throw new Error('No saved profile with that sync code')
+    if (response.status === 503) throw new Error('Profile sync is not available right now')
+    if (!response.ok) throw new Error('Could not load that profile')
+
+    const { sections } = await response.json()
+    const state: SyncState = { playerId: id, lastSyncedAt: null, sections: {} }
+    this.applyRemote(state, {}, {}, ProfileSnapshotSchema.parse(sections))
+    this.setStatus('synced')
+  }
+
+  private readLocal(state: SyncState): { sections: ProfileSnapshot; raws: LocalValues } {
+    const snapshot: ProfileSnapshot = {}
+    const raws: LocalValues = {}
+    const now = Date.now()
+    for (const section of ProfileSectionSchema.options) {
+      const raw = localStorage.getItem(SECTIONS[section].key)
+      const synced = state.sections[section]
+      if (raw === null) continue
+
+      let data: unknown
+      try {
+        data = JSON.parse(raw)
+      } catch {
+        continue // Leave corrupt data to the owning service to reset
+      }
+      raws[section] = raw
+      // Unchanged since the last sync keeps its version; a change is one more
+      if (synced && synced.raw === raw) {
+        snapshot[section] = { version: synced.version, updatedAt: synced.updatedAt, data }
+        continue
+      }
+      snapshot[section] = { version: (synced?.version ?? 0) + 1, updatedAt: now, data }
+      // Progress that adds up goes with what was last synced, so the server can add only the new part
+      if (isCombinedSection(section)) snapshot[section].base = synced ? parseSynced(synced) : null
+    }
+    return { sections: snapshot, raws }
+  }
+
+  /** Write the server's newer sections locally and remember what was synced */
+  private applyRemote(
+    state: SyncState,
+    local: ProfileSnapshot,
+    raws: LocalValues,
+    remote: ProfileSnapshot,
+  ): void {
+    for (const section of ProfileSectionSchema.options) {
+      const { key, reload } = SECTIONS[section]
+      const remoteEntry: ProfileEntry | undefined = remote[section]
+      const localEntry = local[section]
+      if (!remoteEntry && !localEntry) continue
+
+      const entry = remoteEntry && isNewerEntry(remoteEntry, localEntry) ? remoteEntry : localEntry
+      if (!entry) continue
+      // What this device sent is what the server now holds, even if it changed since
+      let raw = raws[section] ?? ''
+      if (entry !== localEntry) {
+        raw = JSON.stringify(entry.data)
+        localStorage.setItem(key, raw)
+        reload()
+      }
+      state.sections[section] = { version: entry.version, updatedAt: entry.updatedAt, raw }
+    }
+    state.lastSyncedAt = Date.now()
+    this.saveState(state)
+  }
+
+  private loadState(): SyncState {
+    try {
+      const raw = localStorage.getItem(SYNC_KEY)
+      if (raw) return JSON.parse(raw) as SyncState
+    } catch {
+      // Fall through to a fresh id
+    }
+    const state: SyncState = { playerId: crypto.randomUUID(), lastSyncedAt: null, sections: {} }
+    this.saveState(state)
+    return state
+  }
+
+  private saveState(state: SyncState): void {
+    try {
+      localStorage.setItem(SYNC_KEY, JSON.stringify(state))
+    } catch {
+      console.warn('Failed to save sync state to localStorage')
+    }
+  }
+
+  private setStatus(status: SyncStatus): SyncStatus {
+    this.status = status
+    for (const listener of this.listeners) listener(status)
+    return status
+  }
+}
+
+export const profileSyncService = new ProfileSyncService()
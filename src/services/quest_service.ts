@@ -293,6 +293,11 @@ class QuestService {
     }
   }
 
+  /** Drop the cached copy so the next read comes from localStorage, e.g. after a sync */
+  reload(): void {
+    this.storage = null
+  }
+
   /** Save current storage to localStorage */
   private saveStorage(): void {
     if (!this.storage) return
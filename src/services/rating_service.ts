@@ -0,0 +1,96 @@
+import { GameLogger } from '@/lib/game_logger'
+import { getPublicProfileId } from '@/lib/profile_id'
+import {
+  applyRankedResult,
+  getSeasonId,
+  isPlaced,
+  PLACEMENT_GAMES,
+  type RankedRecord,
+  recordForSeason,
+} from '@/lib/ranked_season'
+
+// ================================
+// RANKED LADDER
+// ================================
+// Rates finished multiplayer games and serves the leaderboard. Records are stored on
+// player_profiles; without a database there is no ladder and results are simply not rated.
+
+export interface LeaderboardEntry {
+  rank: number
+  id: string // Public profile id; the stored id is the player's sync secret
+  name: string
+  rating: number
+  deviation: number
+  rankedGames: number
+}
+
+export interface PlayerStanding extends RankedRecord {
+  placed: boolean
+  placementGamesLeft: number
+}
+
+class RatingService {
+  /** Rate a decisive game between two profiles. Does nothing without a database. */
+  async recordResult(winnerId: string, loserId: string): Promise<void> {
+    if (winnerId === loserId) return
+    const store = await this.getStore()
+    if (!store) return
+
+    const season = getSeasonId()
+    const [winner, loser] = (
+      await Promise.all([store.loadRankedRecord(winnerId), store.loadRankedRecord(loserId)])
+    ).map(record => recordForSeason(record, season))
+
+    const updated = applyRankedResult(winner, loser)
+    await Promise.all([
+      store.saveRankedRecord(winnerId, updated.winner),
+      store.saveRankedRecord(loserId, updated.loser),
+    ])
+
+    GameLogger.system(
+      `Rated ${winnerId} ${Math.round(winner.rating)} → ${Math.round(updated.winner.rating)}, ` +
+        `${loserId} ${Math.round(loser.rating)} → ${Math.round(updated.loser.rating)}`,
+    )
+  }
+
+  /** This season's placed players, best first, or null without a database */
+  async getLeaderboard(
+    limit = 100,
+  ): Promise<{ season: string; entries: LeaderboardEntry[] } | null> {
+    const store = await this.getStore()
+    if (!store) return null
+
+    const season = getSeasonId()
+    const rows = await store.getLeaderboard(season, PLACEMENT_GAMES, limit)
+    const entries = await Promise.all(
+      rows.map(async (row, index) => ({
+        rank: index + 1,
+        ...row,
+        id: await getPublicProfileId(row.id),
+      })),
+    )
+    return { season, entries }
+  }
+
+  /** A player's record for this season, including placement progress */
+  async getStanding(playerId: string): Promise<PlayerStanding | null> {
+    const store = await this.getStore()
+    if (!store) return null
+
+    const record = recordForSeason(await store.loadRankedRecord(playerId), getSeasonId())
+    return {
+      ...record,
+      placed: isPlaced(record),
+      placementGamesLeft: Math.max(0, PLACEMENT_GAMES - record.rankedGames),
+    }
+  }
+
+  private async getStore() {
+    if (!process.env.DATABASE_URL) return null
+    // Imported lazily: the database module throws at load time when it isn't configured
+    const { persistenceService } = await import('@/services/persistence_service')
+    return persistenceService
+  }
+}
+
+export const ratingService = new RatingService()
@@ -0,0 +1,229 @@
+import { produce } from 'immer'
+import { GameLogger } from '@/lib/game_logger'
+import type { GameReplay, ReplayAction, ReplayStorage } from '@/schemas/replay_schema'
+import { GameReplaySchema, ReplayStorageSchema } from '@/schemas/replay_schema'
+import type { GameState } from '@/schemas/schema'
+
+const STORAGE_KEY = 'tarot-tcg-replays'
+const CURRENT_VERSION = 1
+const MAX_SAVED_REPLAYS = 10
+
+function createDefaultStorage(): ReplayStorage {
+  return {
+    version: CURRENT_VERSION,
+    replays: [],
+  }
+}
+
+// ================================
+// PLAYBACK
+// ================================
+
+/** Rebuild the opening state of a replay from its seed and deck lists */
+export async function createReplayInitialState(replay: GameReplay): Promise<GameState> {
+  // Import game logic dynamically to avoid circular deps
+  const { createGameStateFromDecks } = await import('@/lib/game_logic')
+  return createGameStateFromDecks(replay.decks.player1, replay.decks.player2, {
+    seed: replay.seed,
+    gameMode: replay.gameMode,
+    seasonDate: replay.seasonDate ?? replay.startedAt,
+  })
+}
+
+/** Apply one recorded action through the same engine functions used in play */
+export async function applyReplayAction(
+  state: GameState,
+  action: ReplayAction,
+): Promise<GameState> {
+  switch (action.type) {
+    case 'mulligan': {
+      const { completeMulligan } = await import('@/lib/game_logic')
+      const prepared = produce(state, draft => {
+        draft[action.playerId].selectedForMulligan = action.cardIds
+      })
+      return completeMulligan(prepared, action.playerId)
+    }
+
+    case 'play_card': {
+      const { playCard } = await import('@/lib/game_logic')
+      const card = state[action.playerId].hand.find(c => c.id === action.cardId)
+      if (!card) {
+        throw new Error(`Replay card ${action.cardId} is not in ${action.playerId}'s hand`)
+      }
+      return playCard(state, card, action.targetSlot, action.target)
+    }
+
+    case 'declare_attack': {
+      const { declareAttack } = await import('@/services/combat_service')
+      return declareAttack(state, {
+        attackerId: action.attackerId,
+        targetType: action.targetType,
+        targetId: action.targetId,
+      })
+    }
+
+    case 'end_turn': {
+      const { endTurn } = await import('@/lib/game_logic')
+      return endTurn(state)
+    }
+  }
+}
+
+/**
+ * Replay a whole game, returning the state before the first action followed by
+ * the state after each action. Stops early if an action can no longer be applied.
+ */
+export async function buildReplayTimeline(replay: GameReplay): Promise<GameState[]> {
+  let state = await createReplayInitialState(replay)
+  const timeline = [state]
+
+  for (const [index, action] of replay.actions.entries()) {
+    try {
+      state = await applyReplayAction(state, action)
+      timeline.push(state)
+    } catch (error) {
+      GameLogger.error(`Replay ${replay.id} diverged at action ${index + 1}:`, error)
+      break
+    }
+  }
+
+  return timeline
+}
+
+// ================================
+// RECORDING AND STORAGE
+// ================================
+
+class ReplayService {
+  private storage: ReplayStorage | null = null
+  private recording: GameReplay | null = null
+
+  loadStorage(): ReplayStorage {
+    if (this.storage) return this.storage
+
+    if (typeof window === 'undefined') {
+      return createDefaultStorage()
+    }
+
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY)
+      if (!raw) {
+        this.storage = createDefaultStorage()
+        return this.storage
+      }
+
+      const validated = ReplayStorageSchema.safeParse(JSON.parse(raw))
+      if (validated.success) {
+        this.storage = validated.data
+        return this.storage
+      }
+
+      console.warn('Replay data failed validation, resetting:', validated.error)
+      this.storage = createDefaultStorage()
+      return this.storage
+    } catch {
+      this.storage = createDefaultStorage()
+      return this.storage
+    }
+  }
+
+  private saveStorage(): void {
+    if (!this.storage) return
+    if (typeof window === 'undefined') return
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.storage))
+    } catch {
+      console.warn('Failed to save replays to localStorage')
+    }
+  }
+
+  /** Begin recording a new game from its opening state */
+  startRecording(initialState: GameState, gameMode = 'standard'): GameReplay | null {
+    if (!initialState.rng) {
+      GameLogger.warn('Cannot record replay for a game without a seeded RNG')
+      this.recording = null
+      return null
+    }
+
+    const { player1, player2 } = initialState
+    this.recording = {
+      version: CURRENT_VERSION,
+      id: `replay_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      seed: initialState.rng.seed,
+      gameMode,
+      decks: {
+        player1: [...player1.hand, ...player1.deck],
+        player2: [...player2.hand, ...player2.deck],
+      },
+      actions: [],
+      seasonDate: initialState.seasonDate,
+      startedAt: Date.now(),
+    }
+
+    GameLogger.system(`Recording replay ${this.recording.id} (seed ${this.recording.seed})`)
+    return this.recording
+  }
+
+  /** Append an action to the game being recorded; ignored when not recording */
+  recordAction(action: ReplayAction): void {
+    if (!this.recording || this.recording.result) return
+    this.recording.actions.push(action)
+  }
+
+  /** Stamp the result on the current recording and save it */
+  finishRecording(result: 'player1_wins' | 'player2_wins'): GameReplay | null {
+    if (!this.recording || this.recording.result) return this.recording
+
+    this.recording.result = result
+    this.recording.endedAt = Date.now()
+    this.saveReplay(this.recording)
+    return this.recording
+  }
+
+  /** The replay being recorded, or the last one finished */
+  getCurrentRecording(): GameReplay | null {
+    return this.recording
+  }
+
+  saveReplay(replay: GameReplay): void {
+    const storage = this.loadStorage()
+    storage.replays = [replay, ...storage.replays.filter(r => r.id !== replay.id)].slice(
+      0,
+      MAX_SAVED_REPLAYS,
+    )
+    this.saveStorage()
+  }
+
+  getReplays(): GameReplay[] {
+    return this.loadStorage().replays
+  }
+
+  getReplay(id: string): GameReplay | null {
+    return this.loadStorage().replays.find(r => r.id === id) ?? null
+  }
+
+  deleteReplay(id: string): void {
+    const storage = this.loadStorage()
+    storage.replays = storage.replays.filter(r => r.id !== id)
+    this.saveStorage()
+  }
+
+  /** Serialize a replay for download or attaching to a bug report */
+  exportReplay(replay: GameReplay): string {
+    return JSON.stringify(replay)
+  }
+
+  /** Parse and validate an exported replay, saving it locally */
+  importReplay(json: string): GameReplay {
+    const validated = GameReplaySchema.safeParse(JSON.parse(json))
+    if (!validated.success) {
+      throw new Error(
+        `Invalid replay file: ${validated.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+      )
+    }
+    this.saveReplay(validated.data)
+    return validated.data
+  }
+}
+
+export const replayService = new ReplayService()
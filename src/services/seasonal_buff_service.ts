@@ -0,0 +1,253 @@
+import type { Card, GameState, ZodiacClass } from '@/schemas/schema'
+import type { CardKeyword, PersistentEffect } from '@/services/combat_service'
+
+// ================================
+// ZODIAC SEASONAL BUFFS
+// ================================
+// Each zodiac class is empowered during its astrological season (see
+// content/classes/zodiac-seasonal-buffs.mdx). A game reads its season from the date pinned in
+// GameState.seasonDate, so replays and multiplayer peers always agree on the active buff.
+
+/** Numeric parts of a seasonal buff the engine applies */
+export interface SeasonalModifiers {
+  costModifier?: number // Applied to the card's cost while in hand
+  attackModifier?: number // Added to the unit when played
+  healthModifier?: number
+  adjacentAttackAura?: number // Ongoing bonus to allies next to the unit
+  alliesHealthOnPlay?: number // One-time health granted to every friendly unit
+  healOnPlay?: number // Heals the caster when played
+  twinOnPlay?: boolean // Summons a 1/1 copy next to the unit
+  equalizeOnPlay?: number // Sets every unit on the battlefield to N/N
+  grantsKeywords?: CardKeyword[] // Keywords the unit has while on the battlefield
+  growthPerTurn?: number // +N/+N at the start of each of its owner's turns
+  drawOnDamage?: boolean // Its owner draws when it deals combat damage
+  ignoresTaunt?: boolean // It may attack any visible enemy, Taunt or not
+}
+
+export interface ZodiacSeason {
+  sign: ZodiacClass
+  symbol: string
+  title: string
+  start: [month: number, day: number]
+  end: [month: number, day: number]
+  description: string
+  modifiers: SeasonalModifiers
+}
+
+// Each description is shown in the season HUD and must match the buff the doc promises
+export const ZODIAC_SEASONS: ZodiacSeason[] = [
+  {
+    sign: 'aries',
+    symbol: '♈',
+    title: "The Ram's Charge",
+    start: [3, 21],
+    end: [4, 19],
+    description: 'Aries cards cost 1 less and gain +1 Attack',
+    modifiers: { costModifier: -1, attackModifier: 1 },
+  },
+  {
+    sign: 'taurus',
+    symbol: '♉',
+    title: "The Bull's Endurance",
+    start: [4, 20],
+    end: [5, 20],
+    description: 'Taurus cards gain +2 Health',
+    modifiers: { healthModifier: 2 },
+  },
+  {
+    sign: 'gemini',
+    symbol: '♊',
+    title: "The Twins' Duality",
+    start: [5, 21],
+    end: [6, 20],
+    description: 'Gemini cards create a 1/1 copy when played',
+    modifiers: { twinOnPlay: true },
+  },
+  {
+    sign: 'cancer',
+    symbol: '♋',
+    title: "The Crab's Protection",
+    start: [6, 21],
+    end: [7, 22],
+    description: 'Cancer cards heal you for 2 when played and give +0/+1 to all allies',
+    modifiers: { healOnPlay: 2, alliesHealthOnPlay: 1 },
+  },
+  {
+    sign: 'leo',
+    symbol: '♌',
+    title: "The Lion's Majesty",
+    start: [7, 23],
+    end: [8, 22],
+    description: 'Leo cards gain +1/+1 and give +1/+0 to adjacent allies',
+    modifiers: { attackModifier: 1, healthModifier: 1, adjacentAttackAura: 1 },
+  },
+  {
+    sign: 'virgo',
+    symbol: '♍',
+    title: "The Maiden's Precision",
+    start: [8, 23],
+    end: [9, 22],
+    description: 'Virgo cards cost 1 less',
+    modifiers: { costModifier: -1 },
+  },
+  {
+    sign: 'libra',
+    symbol: '♎',
+    title: "The Scales' Balance",
+    start: [9, 23],
+    end: [10, 22],
+    description: 'Libra cards set all units to 3/3 when played',
+    modifiers: { equalizeOnPlay: 3 },
+  },
+  {
+    sign: 'scorpio',
+    symbol: '♏',
+    title: "The Scorpion's Venom",
+    start: [10, 23],
+    end: [11, 21],
+    description: 'Scorpio units are Poisonous',
+    modifiers: { grantsKeywords: ['poisonous'] },
+  },
+  {
+    sign: 'sagittarius',
+    symbol: '♐',
+    title: "The Archer's Aim",
+    start: [11, 22],
+    end: [12, 21],
+    description:
+      'Sagittarius units can attack any enemy past Taunt and draw you a card when they deal combat damage',
+    modifiers: { drawOnDamage: true, ignoresTaunt: true },
+  },
+  {
+    sign: 'capricorn',
+    symbol: '♑',
+    title: "The Goat's Ambition",
+    start: [12, 22],
+    end: [1, 19],
+    description: "Capricorn cards gain +1/+1 for each turn they've been in play",
+    modifiers: { growthPerTurn: 1 },
+  },
+  {
+    sign: 'aquarius',
+    symbol: '♒',
+    title: "The Water Bearer's Innovation",
+    start: [1, 20],
+    end: [2, 18],
+    description: 'No seasonal buff',
+    modifiers: {},
+  },
+  {
+    sign: 'pisces',
+    symbol: '♓',
+    title: "The Fish's Flow",
+    start: [2, 19],
+    end: [3, 20],
+    description: 'No seasonal buff',
+    modifiers: {},
+  },
+]
+
+export type Clock = () => Date
+
+const systemClock: Clock = () => new Date()
+
+function toMonthDay(month: number, day: number): number {
+  return month * 100 + day
+}
+
+/** Whether a calendar date falls inside a season, handling Capricorn's wrap past New Year */
+export function isDateInSeason(season: ZodiacSeason, date: Date): boolean {
+  const value = toMonthDay(date.getMonth() + 1, date.getDate())
+  const start = toMonthDay(...season.start)
+  const end = toMonthDay(...season.end)
+  return start <= end ? value >= start && value <= end : value >= start || value <= end
+}
+
+class SeasonalBuffService {
+  private clock: Clock = systemClock
+
+  /** Replace the clock, e.g. to run a tournament on an accelerated calendar. Null restores it. */
+  setClock(clock: Clock | null): void {
+    this.clock = clock ?? systemClock
+  }
+
+  /** Pin the calendar to one date (tests, tournaments). Null returns to the real date. */
+  setDateOverride(date: Date | null): void {
+    this.setClock(date ? () => new Date(date) : null)
+  }
+
+  now(): Date {
+    return this.clock()
+  }
+
+  getSeasonForDate(date: Date): ZodiacSeason {
+    // Every day belongs to exactly one season
+    return ZODIAC_SEASONS.find(season => isDateInSeason(season, date)) ?? ZODIAC_SEASONS[0]
+  }
+
+  /** The season a game is played in, falling back to the clock for states without a pinned date */
+  getActiveSeason(state?: Pick<GameState, 'seasonDate'>): ZodiacSeason {
+    const date = state?.seasonDate !== undefined ? new Date(state.seasonDate) : this.now()
+    return this.getSeasonForDate(date)
+  }
+
+  /** Modifiers that apply to a card in this game's season, or null if it is out of season */
+  getModifiers(state: Pick<GameState, 'seasonDate'>, card: Card): SeasonalModifiers | null {
+    const season = this.getActiveSeason(state)
+    return season.sign === card.zodiacClass ? season.modifiers : null
+  }
+
+  /** A card's mana cost after its seasonal discount */
+  getEffectiveCost(state: Pick<GameState, 'seasonDate'>, card: Card): number {
+    const costModifier = this.getModifiers(state, card)?.costModifier ?? 0
+    return Math.max(0, card.cost + costModifier)
+  }
+
+  /**
+   * Ongoing auras and keywords from in-season units on the battlefield, as combat persistent
+   * effects. Rebuilt from the board each time so they follow units as they move and die.
+   */
+  getPersistentEffects(state: GameState): PersistentEffect[] {
+    const season = this.getActiveSeason(state)
+    const { adjacentAttackAura: aura, grantsKeywords } = season.modifiers
+    if (!aura && !grantsKeywords?.length) return []
+
+    const effects: PersistentEffect[] = []
+    for (const units of [state.battlefield.playerUnits, state.battlefield.enemyUnits]) {
+      units.forEach((unit, slot) => {
+        if (unit?.zodiacClass !== season.sign) return
+
+        if (grantsKeywords?.length) {
+          effects.push({
+            id: `season_keywords_${unit.id}`,
+            sourceCardId: unit.id,
+            type: 'keyword_grant',
+            duration: 'while_on_battlefield',
+            targets: 'self',
+            effect: { grantsKeywords },
+            description: `${season.title}: ${grantsKeywords.join(', ')}`,
+          })
+        }
+        if (!aura) return
+
+        for (const neighbor of [units[slot - 1], units[slot + 1]]) {
+          if (!neighbor) continue
+          effects.push({
+            id: `season_${unit.id}_${neighbor.id}`,
+            sourceCardId: unit.id,
+            type: 'stat_modifier',
+            duration: 'while_on_battlefield',
+            targets: 'specific_card',
+            targetCardId: neighbor.id,
+            effect: { attackModifier: aura },
+            description: `${season.title}: +${aura} attack from adjacent ${unit.name}`,
+          })
+        }
+      })
+    }
+
+    return effects
+  }
+}
+
+export const seasonalBuffService = new SeasonalBuffService()
@@ -49,6 +49,13 @@ class SettingsService {
     this.loaded = true
   }
 
+  /**
+   * Re-read settings from localStorage on next access, e.g. after a sync
+   */
+  reload(): void {
+    this.loaded = false
+  }
+
   /**
    * Persist current settings to localStorage (SSR-safe)
    */
@@ -0,0 +1,300 @@
+import { createRandomDeck, getCardById } from '@/lib/card_loader'
+import { checkGameOutcome, createGameStateFromDecks, endTurn } from '@/lib/game_logic'
+import { createRandomFn, createRng, createSeed, deriveSeed, shuffleInPlace } from '@/lib/rng'
+import type { ReplayAction } from '@/schemas/replay_schema'
+import type { Card, GameState, PlayerId } from '@/schemas/schema'
+import { AIControllerService } from './ai_controller_service'
+import { AI_PERSONALITIES, type AILevel, type AIPersonality } from './ai_service'
+import { createEngineSystems } from './engine_systems'
+
+// ================================
+// HEADLESS AI-VS-AI SIMULATION
+// ================================
+// Plays whole games between two computer players with no UI and no thinking delays,
+// for balance testing. Deck order and card orientation come from the seed; AI choices
+// still roll Math.random, so reruns agree statistically rather than game for game.
+
+// Same size as the decks createInitialGameState deals
+const DECK_SIZE = 40
+const DEFAULT_MAX_ROUNDS = 50
+const SHUFFLE_SEED_SALT = 0x5eed
+
+export interface SimulationSide {
+  name?: string
+  personality: AILevel | AIPersonality
+  /** Deck list, shuffled for every game; a fresh random deck each game when omitted */
+  deck?: Card[]
+}
+
+export interface SimulationConfig {
+  games: number
+  sides: [SimulationSide, SimulationSide]
+  seed?: number
+  /** Games still going after this many rounds are recorded as draws */
+  maxRounds?: number
+  onGameComplete?: (result: SimulatedGame, index: number) => void
+}
+
+export interface SimulatedGame {
+  /** Index into config.sides, or null for a draw */
+  winner: 0 | 1 | null
+  /** The side seated as player1, who takes the first turn */
+  firstSide: 0 | 1
+  rounds: number
+  /** Base card ids each side put into its deck */
+  decks: [string[], string[]]
+  /** Base card ids each side played, once per play */
+  played: [string[], string[]]
+}
+
+export interface SideReport {
+  name: string
+  personality: AILevel
+  wins: number
+  winRate: number
+}
+
+export interface CardSimulationStats {
+  cardId: string
+  name: string
+  timesPlayed: number
+  /** Games in which a side played the card at least once */
+  gamesPlayed: number
+  winRateWhenPlayed: number
+  /** Games in which the card sat in a deck but was never played */
+  gamesUnplayed: number
+  winRateWhenUnplayed: number
+  /** winRateWhenPlayed minus winRateWhenUnplayed; positive means playing it goes with winning */
+  playWinDelta: number
+}
+
+export interface SimulationReport {
+  games: number
+  draws: number
+  averageRounds: number
+  sides: [SideReport, SideReport]
+  /** How often whoever took the first turn won, counting decided games only */
+  firstPlayer: { wins: number; winRate: number }
+  cards: CardSimulationStats[]
+}
+
+const rate = (wins: number, games: number) => (games === 0 ? 0 : wins / games)
+
+function resolvePersonality(personality: AILevel | AIPersonality): AIPersonality {
+  return typeof personality === 'string' ? AI_PERSONALITIES[personality] : personality
+}
+
+/** Give every card its per-game instance id, the same shape createInitialGameState uses */
+function toInstances(deck: Card[], prefix: 'p1' | 'p2', offset: number): Card[] {
+  return deck.map((card, i) => ({ ...card, id: `${prefix}_${card.id}_${offset + i + 1}` }))
+}
+
+export class SimulationService {
+  /** Play one game between two sides. `firstSide` takes the player1 seat */
+  async playGame(
+    sides: [SimulationSide, SimulationSide],
+    firstSide: 0 | 1,
+    seed: number,
+    maxRounds: number = DEFAULT_MAX_ROUNDS,
+  ): Promise<SimulatedGame> {
+    const random = createRandomFn(createRng(deriveSeed(seed, SHUFFLE_SEED_SALT)))
+    const seats: Record<PlayerId, 0 | 1> = {
+      player1: firstSide,
+      player2: firstSide === 0 ? 1 : 0,
+    }
+    const deckFor = (side: SimulationSide) =>
+      side.deck ? shuffleInPlace([...side.deck], random) : createRandomDeck(DECK_SIZE, random)
+
+    const decks: [Card[], Card[]] = [[], []]
+    decks[seats.player1] = deckFor(sides[seats.player1])
+    decks[seats.player2] = deckFor(sides[seats.player2])
+
+    const player1Cards = toInstances(decks[seats.player1], 'p1', 0)
+    const player2Cards = toInstances(decks[seats.player2], 'p2', player1Cards.length)
+    const baseIds = new Map(
+      [...player1Cards, ...player2Cards].map((card, i) => [
+        card.id,
+        (i < player1Cards.length
+          ? decks[seats.player1][i]
+          : decks[seats.player2][i - player1Cards.length]
+        ).id,
+      ]),
+    )
+
+    const played: [string[], string[]] = [[], []]
+    const recordAction = (action: ReplayAction) => {
+      if (action.type !== 'play_card') return
+      const baseId = baseIds.get(action.cardId)
+      if (baseId) played[seats[action.playerId]].push(baseId)
+    }
+    // Each game runs on subsystems of its own, so nothing carries over between games
+    const systems = createEngineSystems()
+    const controllers: Record<PlayerId, AIControllerService> = {
+      player1: new AIControllerService({
+        playerId: 'player1',
+        personality: resolvePersonality(sides[seats.player1].personality),
+        thinkingDelays: false,
+        recordAction,
+        systems,
+      }),
+      player2: new AIControllerService({
+        playerId: 'player2',
+        personality: resolvePersonality(sides[seats.player2].personality),
+        thinkingDelays: false,
+        recordAction,
+        systems,
+      }),
+    }
+
+    let state: GameState = createGameStateFromDecks(player1Cards, player2Cards, { seed, systems })
+    state = controllers.player1.performMulligan(state)
+    state = controllers.player2.performMulligan(state)
+
+    let outcome = checkGameOutcome(state, systems)
+    while (outcome === 'ongoing' && state.round <= maxRounds) {
+      const turn = state.turn
+      state = await controllers[state.activePlayer].executeAITurn(state)
+      // A controller that couldn't act still has to pass the turn
+      if (state.turn === turn) state = await endTurn(state, systems)
+      outcome = checkGameOutcome(state, systems)
+    }
+
+    return {
+      winner:
+        outcome === 'player1_wins'
+          ? seats.player1
+          : outcome === 'player2_wins'
+            ? seats.player2
+            : null,
+      firstSide,
+      rounds: Math.min(state.round, maxRounds),
+      decks: [decks[0].map(card => card.id), decks[1].map(card => card.id)],
+      played,
+    }
+  }
+
+  /** Play `config.games` games, alternating which side goes first */
+  async run(config: SimulationConfig): Promise<SimulationReport> {
+    const seed = config.seed ?? createSeed()
+    const results: SimulatedGame[] = []
+
+    for (let i = 0; i < config.games; i++) {
+      const result = await this.playGame(
+        config.sides,
+        (i % 2) as 0 | 1,
+        deriveSeed(seed, i),
+        config.maxRounds,
+      )
+      results.push(result)
+      config.onGameComplete?.(result, i)
+    }
+
+    return this.summarize(config.sides, results)
+  }
+
+  summarize(sides: [SimulationSide, SimulationSide], results: SimulatedGame[]): SimulationReport {
+    const decided = results.filter(result => result.winner !== null)
+    const wins = [0, 1].map(side => decided.filter(result => result.winner === side).length)
+    const firstPlayerWins = decided.filter(result => result.winner === result.firstSide).length
+
+    return {
+      games: results.length,
+      draws: results.length - decided.length,
+      averageRounds: rate(
+        results.reduce((sum, result) => sum + result.rounds, 0),
+        results.length,
+      ),
+      sides: [0, 1].map(side => {
+        const personality = resolvePersonality(sides[side].personality)
+        return {
+          name: sides[side].name ?? personality.name,
+          personality: personality.level,
+          wins: wins[side],
+          winRate: rate(wins[side], results.length),
+        }
+      }) as [SideReport, SideReport],
+      firstPlayer: { wins: firstPlayerWins, winRate: rate(firstPlayerWins, decided.length) },
+      cards: this.summarizeCards(sides, results),
+    }
+  }
+
+  private summarizeCards(
+    sides: [SimulationSide, SimulationSide],
+    results: SimulatedGame[],
+  ): CardSimulationStats[] {
+    const names = new Map<string, string>()
+    for (const side of sides) for (const card of side.deck ?? []) names.set(card.id, card.name)
+    const nameOf = (cardId: string) => names.get(cardId) ?? getCardById(cardId)?.name ?? cardId
+
+    const tallies = new Map<
+      string,
+      { plays: number; played: number; playedWins: number; unplayed: number; unplayedWins: number }
+    >()
+    const tally = (cardId: string) => {
+      let entry = tallies.get(cardId)
+      if (!entry) {
+        entry = { plays: 0, played: 0, playedWins: 0, unplayed: 0, unplayedWins: 0 }
+        tallies.set(cardId, entry)
+      }
+      return entry
+    }
+
+    for (const result of results) {
+      for (const side of [0, 1] as const) {
+        const won = result.winner === side ? 1 : 0
+        const playedIds = new Set(result.played[side])
+        for (const cardId of result.played[side]) tally(cardId).plays++
+        for (const cardId of playedIds) {
+          tally(cardId).played++
+          tally(cardId).playedWins += won
+        }
+        for (const cardId of new Set(result.decks[side])) {
+          if (playedIds.has(cardId)) continue
+          tally(cardId).unplayed++
+          tally(cardId).unplayedWins += won
+        }
+      }
+    }
+
+    return [...tallies]
+      .map(([cardId, entry]) => {
+        const winRateWhenPlayed = rate(entry.playedWins, entry.played)
+        const winRateWhenUnplayed = rate(entry.unplayedWins, entry.unplayed)
+        return {
+          cardId,
+          name: nameOf(cardId),
+          timesPlayed: entry.plays,
+          gamesPlayed: entry.played,
+          winRateWhenPlayed,
+          gamesUnplayed: entry.unplayed,
+          winRateWhenUnplayed,
+          playWinDelta: winRateWhenPlayed - winRateWhenUnplayed,
+        }
+      })
+      .sort((a, b) => b.playWinDelta - a.playWinDelta)
+  }
+
+  /** Per-card statistics as CSV, one row per card */
+  toCSV(report: SimulationReport): string {
+    const columns: (keyof CardSimulationStats)[] = [
+      'cardId',
+      'name',
+      'timesPlayed',
+      'gamesPlayed',
+      'winRateWhenPlayed',
+      'gamesUnplayed',
+      'winRateWhenUnplayed',
+      'playWinDelta',
+    ]
+    const toCell = (value: string | number) => {
+      const text = typeof value === 'number' ? String(Math.round(value * 10000) / 10000) : value
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }
+    return [
+      columns.join(','),
+      ...report.cards.map(card => columns.map(column => toCell(card[column])).join(',')),
+    ].join('\n')
+  }
+}
+
+export const simulationService = new SimulationService()
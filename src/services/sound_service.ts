@@ -16,6 +16,8 @@ type SoundEffect =
   | 'mana_spend'
   | 'heal'
   | 'mulligan'
+  | 'time_bank'
+  | 'rope_warning'
 
 // Synthesized sound parameters for each effect
 const SOUND_DEFINITIONS: Record<SoundEffect, { frequency: number; duration: number; type: OscillatorType; volume: number; ramp?: 'up' | 'down' | 'pulse' }> = {
@@ -34,6 +36,8 @@ const SOUND_DEFINITIONS: Record<SoundEffect, { frequency: number; duration: numb
   mana_spend: { frequency: 700, duration: 0.1, type: 'sine', volume: 0.15, ramp: 'down' },
   heal: { frequency: 550, duration: 0.25, type: 'sine', volume: 0.2, ramp: 'up' },
   mulligan: { frequency: 400, duration: 0.15, type: 'triangle', volume: 0.2, ramp: 'down' },
+  time_bank: { frequency: 520, duration: 0.3, type: 'triangle', volume: 0.2, ramp: 'pulse' },
+  rope_warning: { frequency: 880, duration: 0.4, type: 'square', volume: 0.2, ramp: 'pulse' },
 }
 
 class SoundService {
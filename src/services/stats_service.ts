@@ -1,4 +1,12 @@
-import type { GameRecord, PlayerStats, StatsStorage } from '@/schemas/stats_schema'
+import { decodeDeckCode, encodeDeckCode } from '@/lib/deck_code'
+import type {
+  AchievementProgress,
+  CardStats,
+  DeckStats,
+  GameRecord,
+  PlayerStats,
+  StatsStorage,
+} from '@/schemas/stats_schema'
 import { StatsStorageSchema } from '@/schemas/stats_schema'
 
 const STORAGE_KEY = 'tarot-tcg-stats'
@@ -31,9 +39,248 @@ function createDefaultStorage(): StatsStorage {
     stats: createDefaultStats(),
     recentGames: [],
     achievements: [],
+    cardStats: {},
+    deckStats: {},
   }
 }
 
+function createCardStats(cardId: string): CardStats {
+  return {
+    cardId,
+    games: 0,
+    wins: 0,
+    gamesDrawn: 0,
+    winsDrawn: 0,
+    gamesPlayed: 0,
+    winsPlayed: 0,
+    totalPlays: 0,
+    totalPlayRound: 0,
+    upright: { plays: 0, wins: 0 },
+    reversed: { plays: 0, wins: 0 },
+  }
+}
+
+/** Fold one game into the per-card records */
+function recordCardStats(cardStats: Record<string, CardStats>, record: GameRecord): void {
+  const won = record.result === 'win' ? 1 : 0
+  const plays = record.cardPlays ?? []
+  const drawn = new Set(record.cardsDrawn)
+  // A record without plays still lists its unique cards; those were drawn and in the deck too
+  const played = new Set(record.cardPlays ? plays.map(p => p.cardId) : record.uniqueCardsPlayed)
+  const inDeck = new Set([...(record.cardsInDeck ?? []), ...drawn, ...played])
+
+  const statsFor = (cardId: string) => {
+    cardStats[cardId] ??= createCardStats(cardId)
+    return cardStats[cardId]
+  }
+
+  for (const cardId of inDeck) {
+    const card = statsFor(cardId)
+    card.games++
+    card.wins += won
+    if (drawn.has(cardId) || played.has(cardId)) {
+      card.gamesDrawn++
+      card.winsDrawn += won
+    }
+    if (played.has(cardId)) {
+      card.gamesPlayed++
+      card.winsPlayed += won
+    }
+  }
+
+  for (const play of plays) {
+    const card = statsFor(play.cardId)
+    card.totalPlays++
+    card.totalPlayRound += play.round
+    const orientation = play.reversed ? card.reversed : card.upright
+    orientation.plays++
+    orientation.wins += won
+  }
+}
+
+/**
+ * Deck records used to be keyed by a code that included the deck's name. Fold those into the
+ * unnamed code of their card list, so one list has one record however often it was renamed.
+ */
+function rekeyDeckStats(deckStats: Record<string, DeckStats>): Record<string, DeckStats> {
+  const rekeyed: Record<string, DeckStats> = {}
+  for (const [code, deck] of Object.entries(deckStats)) {
+    let key = code
+    try {
+      key = encodeDeckCode({ name: '', cards: decodeDeckCode(code).cards })
+    } catch {
+      // Not a code we can read; keep the record as it is
+    }
+
+    const existing = rekeyed[key]
+    if (!existing) {
+      rekeyed[key] = { ...deck, deckCode: key }
+      continue
+    }
+    existing.games += deck.games
+    existing.wins += deck.wins
+    existing.totalRounds += deck.totalRounds
+    if (deck.lastPlayed > existing.lastPlayed) {
+      existing.lastPlayed = deck.lastPlayed
+      existing.name = deck.name
+    }
+  }
+  return rekeyed
+}
+
+// ================================
+// MERGING DEVICES
+// ================================
+// Two devices that both played since they last synced each hold progress the other lacks.
+// Counters add what one device gained since the last sync onto the other's; sets and
+// records with ids are combined. A device that reset its stats gains nothing.
+
+const COUNTERS = [
+  'totalGames',
+  'wins',
+  'losses',
+  'totalDamageDealt',
+  'totalUnitsDestroyed',
+  'totalUnitsLost',
+  'totalCardsPlayed',
+  'totalManaSpent',
+  'totalPlayTimeSeconds',
+] as const
+
+const gain = (server: number, local: number, base = 0) => server + Math.max(0, local - base)
+
+const union = (a: string[], b: string[]) => [...new Set([...a, ...b])]
+
+function mergeByKey<T>(
+  server: Record<string, T>,
+  local: Record<string, T>,
+  combine: (server: T, local: T, base: T | undefined) => T,
+  base: Record<string, T> = {},
+): Record<string, T> {
+  const merged = { ...server }
+  for (const [key, value] of Object.entries(local)) {
+    merged[key] = merged[key] ? combine(merged[key], value, base[key]) : value
+  }
+  return merged
+}
+
+function mergeCardStats(server: CardStats, local: CardStats, base?: CardStats): CardStats {
+  const orientation = (side: 'upright' | 'reversed') => ({
+    plays: gain(server[side].plays, local[side].plays, base?.[side].plays),
+    wins: gain(server[side].wins, local[side].wins, base?.[side].wins),
+  })
+  return {
+    cardId: server.cardId,
+    games: gain(server.games, local.games, base?.games),
+    wins: gain(server.wins, local.wins, base?.wins),
+    gamesDrawn: gain(server.gamesDrawn, local.gamesDrawn, base?.gamesDrawn),
+    winsDrawn: gain(server.winsDrawn, local.winsDrawn, base?.winsDrawn),
+    gamesPlayed: gain(server.gamesPlayed, local.gamesPlayed, base?.gamesPlayed),
+    winsPlayed: gain(server.winsPlayed, local.winsPlayed, base?.winsPlayed),
+    totalPlays: gain(server.totalPlays, local.totalPlays, base?.totalPlays),
+    totalPlayRound: gain(server.totalPlayRound, local.totalPlayRound, base?.totalPlayRound),
+    upright: orientation('upright'),
+    reversed: orientation('reversed'),
+  }
+}
+
+function mergeDeckStats(server: DeckStats, local: DeckStats, base?: DeckStats): DeckStats {
+  const latest = local.lastPlayed > server.lastPlayed ? local : server
+  return {
+    deckCode: server.deckCode,
+    name: latest.name,
+    games: gain(server.games, local.games, base?.games),
+    wins: gain(server.wins, local.wins, base?.wins),
+    totalRounds: gain(server.totalRounds, local.totalRounds, base?.totalRounds),
+    lastPlayed: latest.lastPlayed,
+  }
+}
+
+function mergeAchievement(
+  server: AchievementProgress,
+  local: AchievementProgress,
+): AchievementProgress {
+  const unlockedAt = [server.unlockedAt, local.unlockedAt].filter(at => at !== null)
+  return {
+    ...server,
+    unlocked: server.unlocked || local.unlocked,
+    unlockedAt: unlockedAt.length > 0 ? Math.min(...unlockedAt) : null,
+    currentValue: Math.max(server.currentValue, local.currentValue),
+    notified: server.notified || local.notified,
+  }
+}
+
+/**
+ * Fold what `local` gained since `base` (its copy as of the last sync, if it has synced) into
+ * `server`, which may hold another device's games from the same time
+ */
+export function mergeStatsStorage(
+  server: StatsStorage,
+  local: StatsStorage,
+  base?: StatsStorage,
+): StatsStorage {
+  const stats = { ...server.stats }
+  for (const counter of COUNTERS) {
+    stats[counter] = gain(server.stats[counter], local.stats[counter], base?.stats[counter])
+  }
+  // The streak still running is the one from whichever device played last
+  const lastGame = (storage: StatsStorage) => storage.recentGames[0]?.timestamp ?? 0
+  stats.currentStreak =
+    lastGame(local) > lastGame(server) ? local.stats.currentStreak : server.stats.currentStreak
+  stats.bestStreak = Math.max(server.stats.bestStreak, local.stats.bestStreak)
+  stats.uniqueCardsEverPlayed = union(
+    server.stats.uniqueCardsEverPlayed,
+    local.stats.uniqueCardsEverPlayed,
+  )
+  stats.majorArcanaEverPlayed = union(
+    server.stats.majorArcanaEverPlayed,
+    local.stats.majorArcanaEverPlayed,
+  )
+  stats.zodiacClassWins = mergeByKey(
+    server.stats.zodiacClassWins,
+    local.stats.zodiacClassWins,
+    (s, l, b) => gain(s, l, b),
+    base?.stats.zodiacClassWins,
+  )
+  stats.difficultyRecord = mergeByKey(
+    server.stats.difficultyRecord,
+    local.stats.difficultyRecord,
+    (s, l, b) => ({
+      wins: gain(s.wins, l.wins, b?.wins),
+      losses: gain(s.losses, l.losses, b?.losses),
+    }),
+    base?.stats.difficultyRecord,
+  )
+
+  const games = new Map([...server.recentGames, ...local.recentGames].map(game => [game.id, game]))
+  const achievements = new Map(server.achievements.map(progress => [progress.id, progress]))
+  for (const progress of local.achievements) {
+    const other = achievements.get(progress.id)
+    achievements.set(progress.id, other ? mergeAchievement(other, progress) : progress)
+  }
+
+  return {
+    version: Math.max(server.version, local.version),
+    stats,
+    recentGames: [...games.values()]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, MAX_RECENT_GAMES),
+    achievements: [...achievements.values()],
+    cardStats: mergeByKey(server.cardStats, local.cardStats, mergeCardStats, base?.cardStats),
+    deckStats: mergeByKey(server.deckStats, local.deckStats, mergeDeckStats, base?.deckStats),
+  }
+}
+
+/** Win rate as a fraction, or null before there is anything to divide by */
+export function winRate(wins: number, games: number): number | null {
+  return games > 0 ? wins / games : null
+}
+
+/** Average round a card was played on, or null if it never was */
+export function averagePlayRound(card: CardStats): number | null {
+  return card.totalPlays > 0 ? card.totalPlayRound / card.totalPlays : null
+}
+
 /** Extract base card id from instance id (strips p1_/p2_ prefix and _N suffix) */
 export function extractBaseCardId(instanceId: string): string {
   // Instance IDs look like "p1_major_00_1" or "p2_minor_wands_01_2"
@@ -75,6 +322,7 @@ class StatsService {
       const validated = StatsStorageSchema.safeParse(parsed)
       if (validated.success) {
         this.storage = validated.data
+        this.storage.deckStats = rekeyDeckStats(this.storage.deckStats)
         return this.storage
       }
 
@@ -153,6 +401,26 @@ class StatsService {
       stats.difficultyRecord[record.difficulty].losses++
     }
 
+    recordCardStats(storage.cardStats, record)
+
+    // Random decks have no code and are too varied to be worth a record of their own
+    if (record.deckCode) {
+      const deck: DeckStats = storage.deckStats[record.deckCode] ?? {
+        deckCode: record.deckCode,
+        name: record.deckName,
+        games: 0,
+        wins: 0,
+        totalRounds: 0,
+        lastPlayed: 0,
+      }
+      deck.name = record.deckName
+      deck.games++
+      if (record.result === 'win') deck.wins++
+      deck.totalRounds += record.rounds
+      deck.lastPlayed = record.timestamp
+      storage.deckStats[record.deckCode] = deck
+    }
+
     // Add to recent games (keep last N)
     storage.recentGames.unshift(record)
     if (storage.recentGames.length > MAX_RECENT_GAMES) {
@@ -163,6 +431,11 @@ class StatsService {
     return stats
   }
 
+  /** Drop the cached copy so the next read comes from localStorage, e.g. after a sync */
+  reload(): void {
+    this.storage = null
+  }
+
   getStats(): PlayerStats {
     return this.loadStorage().stats
   }
@@ -171,6 +444,20 @@ class StatsService {
     return this.loadStorage().recentGames.slice(0, limit)
   }
 
+  getCardStats(cardId: string): CardStats | null {
+    return this.loadStorage().cardStats[cardId] ?? null
+  }
+
+  /** Every card with a record, most games first */
+  getAllCardStats(): CardStats[] {
+    return Object.values(this.loadStorage().cardStats).sort((a, b) => b.games - a.games)
+  }
+
+  /** Every saved deck list with a record, most recently played first */
+  getDeckStats(): DeckStats[] {
+    return Object.values(this.loadStorage().deckStats).sort((a, b) => b.lastPlayed - a.lastPlayed)
+  }
+
   getStorage(): StatsStorage {
     return this.loadStorage()
   }
@@ -1,22 +1,51 @@
+import {
+    buildSpectatorUrl,
+    buildWebSocketUrl,
+    type SpectateOptions,
+} from '@/config/websocket_config'
 import { GameLogger } from "@/lib/game_logger"
-import type { Card, GameState, PlayerId } from '@/schemas/schema'
+import type { ClockAlert, TurnTimer } from '@/lib/turn_clock'
+import type { RedactedGameState } from '@/schemas/multiplayer_schema'
+import type { Card, GameEvent, PlayerId, PlayTarget } from '@/schemas/schema'
+import { soundService } from '@/services/sound_service'
 import { useGameStore } from '@/store/game_store'
 
 export interface GameMessage {
-    type: 'play_card' | 'declare_attack' | 'end_turn' | 'heartbeat'
+    type: 'mulligan' | 'play_card' | 'declare_attack' | 'end_turn' | 'heartbeat' | 'ack'
     actionId?: string
+    cardIds?: string[]
     cardId?: string
     targetSlot?: number
+    target?: PlayTarget
     attackerId?: string
     targetType?: 'unit' | 'player'
     targetId?: string
+    seq?: number // Acknowledged update
     timestamp?: number
 }
 
 export interface ServerMessage {
-    type: 'game_state' | 'game_state_update' | 'opponent_action' | 'error' | 'player_disconnected'
-    state?: GameState
+    type:
+        | 'game_state'
+        | 'game_state_update'
+        | 'opponent_action'
+        | 'error'
+        | 'player_disconnected'
+        | 'player_reconnected'
+        | 'session_resumed'
+        | 'game_forfeited'
+        | 'turn_timer'
+        | 'game_events'
+    state?: RedactedGameState // Only what the receiving seat may see
     yourPlayer?: PlayerId
+    seq?: number // Orders state updates so missed ones can be replayed after a reconnect
+    reconnectToken?: string // Presented on reconnect to resume the seat
+    resumeBy?: number // When a dropped player forfeits unless they reconnect
+    winner?: PlayerId
+    timer?: TurnTimer | null // The server's turn clock, null between turns
+    alert?: ClockAlert // Why a turn_timer message was sent
+    events?: GameEvent[] // Spectator feed, redacted like the state
+    spectator?: { revealHands: boolean; delayMs: number } // Sent to spectators on join
     playerId?: PlayerId
     message?: string
     error?: string
@@ -33,15 +62,64 @@ export class WebSocketService {
     private gameId: string | null = null
     private playerId: PlayerId | null = null
     private token: string | null = null
+    private reconnectToken: string | null = null
+    private lobbyTicket: string | undefined = undefined
+    private spectating: SpectateOptions | null = null
+    private revealingHands = false // The server accepted our caster key
+    private eventListeners = new Set<(events: GameEvent[]) => void>()
 
     // Connection management
-    async connect(gameId: string, playerId: PlayerId, token: string): Promise<boolean> {
+    async connect(gameId: string, playerId: PlayerId, token: string, lobbyTicket?: string): Promise<boolean> {
         this.gameId = gameId
         this.playerId = playerId
         this.token = token
+        this.lobbyTicket = lobbyTicket
+        this.spectating = null
+        this.reconnectToken = null
+        useGameStore.getState().updateMultiplayerState({ opponentDisconnectedUntil: null, forfeitWinner: null })
+
+        return this.open(
+            buildWebSocketUrl(gameId, playerId, token, { lobbyTicket }),
+        )
+    }
+
+    /** Reconnect to the current seat, asking the server to replay what was missed */
+    private resume(gameId: string, playerId: PlayerId, token: string, reconnectToken: string): Promise<boolean> {
+        return this.open(
+            buildWebSocketUrl(gameId, playerId, token, {
+                reconnectToken,
+                lobbyTicket: this.lobbyTicket,
+            }),
+        )
+    }
+
+    /** Watch a game read-only; nothing but heartbeats is sent while spectating */
+    async spectate(gameId: string, options: SpectateOptions = {}): Promise<boolean> {
+        this.gameId = gameId
+        this.playerId = null
+        this.token = null
+        this.spectating = options
+        this.revealingHands = false
+
+        return this.open(buildSpectatorUrl(gameId, options))
+    }
+
+    /** Be told about each batch of game events streamed to spectators */
+    onGameEvents(listener: (events: GameEvent[]) => void): () => void {
+        this.eventListeners.add(listener)
+        return () => this.eventListeners.delete(listener)
+    }
 
-        const wsUrl = this.buildWebSocketUrl(gameId, playerId, token)
+    get isSpectating(): boolean {
+        return this.spectating !== null
+    }
+
+    /** Whether the server is showing this spectator both hands */
+    get isCasterView(): boolean {
+        return this.spectating !== null && this.revealingHands
+    }
 
+    private async open(wsUrl: string): Promise<boolean> {
         try {
             this.ws = new WebSocket(wsUrl)
 
@@ -95,11 +173,18 @@ export class WebSocketService {
 
         this.updateConnectionStatus('disconnected')
         this.messageQueue = []
+        this.spectating = null
+        this.reconnectToken = null
         GameLogger.state('WebSocket disconnected by client')
     }
 
     // Message sending
     send(message: GameMessage): void {
+        if (this.spectating && message.type !== 'heartbeat') {
+            GameLogger.warn(`Spectators cannot send ${message.type}`)
+            return
+        }
+
         const messageWithTimestamp = {
             ...message,
             timestamp: Date.now()
@@ -124,11 +209,20 @@ export class WebSocketService {
     }
 
     // Game actions
-    playCard(card: Card, targetSlot?: number, actionId?: string): void {
+    mulligan(cardIds: string[], actionId?: string): void {
+        this.send({
+            type: 'mulligan',
+            cardIds,
+            actionId
+        })
+    }
+
+    playCard(card: Card, targetSlot?: number, target?: PlayTarget, actionId?: string): void {
         this.send({
             type: 'play_card',
             cardId: card.id,
             targetSlot,
+            target,
             actionId
         })
     }
@@ -151,20 +245,6 @@ export class WebSocketService {
     }
 
     // Private methods
-    private buildWebSocketUrl(gameId: string, playerId: PlayerId, token: string): string {
-        const baseUrl = process.env.NODE_ENV === 'production'
-            ? 'wss://your-app.vercel.app'
-            : 'ws://localhost:3000'
-
-        const params = new URLSearchParams({
-            gameId,
-            playerId,
-            token
-        })
-
-        return `${baseUrl}/api/game/ws?${params.toString()}`
-    }
-
     private flushQueue(): void {
         if (this.ws?.readyState === WebSocket.OPEN && this.messageQueue.length > 0) {
             GameLogger.system(`Flushing ${this.messageQueue.length} queued messages`)
@@ -186,6 +266,13 @@ export class WebSocketService {
     private handleServerMessage(message: ServerMessage): void {
         GameLogger.system('📨 Received server message:', message.type)
 
+        // Any message may carry the server's turn clock; it's counted down from when it arrived
+        if (message.timer !== undefined) {
+            useGameStore.getState().updateMultiplayerState({
+                turnTimer: message.timer && { ...message.timer, receivedAt: Date.now() },
+            })
+        }
+
         switch (message.type) {
             case 'game_state':
                 this.handleInitialGameState(message)
@@ -207,30 +294,76 @@ export class WebSocketService {
                 this.handlePlayerDisconnected(message)
                 break
 
+            case 'player_reconnected':
+                GameLogger.system(`Player ${message.playerId} reconnected`)
+                useGameStore.getState().updateMultiplayerState({ opponentDisconnectedUntil: null })
+                break
+
+            case 'session_resumed':
+                // Missed updates follow as game_state_update messages
+                this.reconnectToken = message.reconnectToken ?? null
+                GameLogger.system(`Session resumed at update ${message.seq}`)
+                break
+
+            case 'game_forfeited':
+                GameLogger.system(`Player ${message.playerId} forfeited`)
+                useGameStore.getState().updateMultiplayerState({
+                    opponentDisconnectedUntil: null,
+                    forfeitWinner: message.winner ?? null,
+                })
+                break
+
+            case 'turn_timer':
+                this.handleTurnTimer(message)
+                break
+
+            case 'game_events':
+                for (const listener of this.eventListeners) listener(message.events ?? [])
+                break
+
             default:
                 GameLogger.warn('Unknown server message type:', message.type)
         }
     }
 
     private handleInitialGameState(message: ServerMessage): void {
-        if (!message.state || !message.yourPlayer) return
+        if (!message.state) return
 
-        const gameStore = useGameStore.getState()
+        // Set player side for UI; spectators have none
+        if (message.yourPlayer) {
+            useGameStore.getState().multiplayer.playerId = message.yourPlayer
+        }
+        if (message.spectator) this.revealingHands = message.spectator.revealHands
 
-        // Set player side for UI
-        gameStore.multiplayer.playerId = message.yourPlayer
+        this.reconnectToken = message.reconnectToken ?? null
+        useGameStore.getState().updateMultiplayerState({
+            lastSyncVersion: message.seq ?? 0,
+            opponentDisconnectedUntil: null,
+            forfeitWinner: null,
+        })
 
         // Apply state with proper reconciliation
         this.reconcileState(message.state)
 
-        GameLogger.state(`Received initial game state as ${message.yourPlayer}`)
+        GameLogger.state(`Received initial game state as ${message.yourPlayer ?? 'spectator'}`)
     }
 
     private handleGameStateUpdate(message: ServerMessage): void {
         if (!message.state) return
 
+        // Replays after a reconnect can overlap updates that already arrived
+        if (message.seq !== undefined) {
+            const { multiplayer, updateMultiplayerState } = useGameStore.getState()
+            if (message.seq <= multiplayer.lastSyncVersion) return
+            updateMultiplayerState({ lastSyncVersion: message.seq })
+        }
+
         // Reconcile with any optimistic updates
         this.reconcileState(message.state)
+
+        if (message.seq !== undefined && !this.spectating) {
+            this.send({ type: 'ack', seq: message.seq })
+        }
     }
 
     private handleOpponentAction(message: ServerMessage): void {
@@ -256,11 +389,23 @@ export class WebSocketService {
     private handlePlayerDisconnected(message: ServerMessage): void {
         GameLogger.system(`Player ${message.playerId} disconnected`)
 
-        // Show reconnection UI or pause game
-        // Could implement reconnection grace period
+        // Pauses our turn clock until they're back or the grace period runs out
+        if (message.resumeBy && message.playerId !== useGameStore.getState().multiplayer.playerId) {
+            useGameStore.getState().updateMultiplayerState({ opponentDisconnectedUntil: message.resumeBy })
+        }
+    }
+
+    private handleTurnTimer(message: ServerMessage): void {
+        GameLogger.system(`Turn timer: ${message.alert}`)
+
+        // Only warn the player whose time is running out
+        const { multiplayer } = useGameStore.getState()
+        if (!message.timer || message.timer.activePlayer !== multiplayer.playerId) return
+        if (message.alert === 'rope') soundService.play('rope_warning')
+        if (message.alert === 'bank') soundService.play('time_bank')
     }
 
-    private reconcileState(serverState: GameState): void {
+    private reconcileState(serverState: RedactedGameState): void {
         const gameStore = useGameStore.getState()
 
         // Simple state reconciliation - in production might need more sophisticated merging
@@ -290,8 +435,12 @@ export class WebSocketService {
         this.updateConnectionStatus('connecting')
 
         setTimeout(() => {
-            if (this.gameId && this.playerId && this.token) {
-                this.connect(this.gameId, this.playerId, this.token)
+            if (this.gameId && this.spectating) {
+                this.spectate(this.gameId, this.spectating)
+            } else if (this.gameId && this.playerId && this.token && this.reconnectToken) {
+                this.resume(this.gameId, this.playerId, this.token, this.reconnectToken)
+            } else if (this.gameId && this.playerId && this.token) {
+                this.connect(this.gameId, this.playerId, this.token, this.lobbyTicket)
             }
         }, delay)
     }
@@ -347,8 +496,8 @@ export function useWebSocket() {
         connect: (gameId: string, playerId: PlayerId, token: string) =>
             webSocketService.connect(gameId, playerId, token),
         disconnect: () => webSocketService.disconnect(),
-        playCard: (card: Card, targetSlot?: number) =>
-            webSocketService.playCard(card, targetSlot),
+        playCard: (card: Card, targetSlot?: number, target?: PlayTarget) =>
+            webSocketService.playCard(card, targetSlot, target),
         declareAttack: (attackerId: string, targetType: 'unit' | 'player', targetId?: string) =>
             webSocketService.declareAttack(attackerId, targetType, targetId),
         endTurn: () => webSocketService.endTurn(),
@@ -10,13 +10,15 @@ import type {
   WinConditionState,
 } from '@/schemas/schema'
 import { GAME_MODES } from '@/schemas/schema'
-import { eventManager } from '@/services/event_manager'
+import type { EngineSystems } from '@/services/engine_systems'
+import { type EventManager, eventManager } from '@/services/event_manager'
 
 export class WinConditionService {
   private state: WinConditionState
   private registeredConditions: Map<string, WinCondition> = new Map()
 
-  constructor() {
+  /** `systems` is the match this service belongs to; the app-wide singletons if omitted */
+  constructor(private readonly systems?: EngineSystems) {
     this.state = {
       activeConditions: new Map(),
       playerProgress: new Map([
@@ -32,6 +34,10 @@ export class WinConditionService {
     this.setupEventListeners()
   }
 
+  private get events(): EventManager {
+    return this.systems?.events ?? eventManager
+  }
+
   /**
    * Initialize default win conditions
    */
@@ -312,7 +318,7 @@ export class WinConditionService {
     // Set up event handlers if defined
     if (condition.eventHandlers) {
       for (const [eventType, handler] of Object.entries(condition.eventHandlers)) {
-        eventManager.subscribe(
+        this.events.subscribe(
           { types: [eventType as GameEvent['type']] },
           async (event: GameEvent) => {
             const playerId = this.extractPlayerIdFromEvent(event)
@@ -450,7 +456,7 @@ export class WinConditionService {
 
   private setupEventListeners(): void {
     // Listen for turn changes to update progress
-    eventManager.subscribe(
+    this.events.subscribe(
       { types: ['turn_start'] },
       async event => {
         const gameState = this.getGameStateFromEvent(event)
@@ -560,7 +566,7 @@ export class WinConditionService {
 
   private emitWinConditionEvent(eventType: string, data: WinConditionEventData): void {
     // Emit custom win condition events
-    eventManager.emit(
+    this.events.emit(
       eventType as GameEvent['type'],
       {} as GameState, // Would need actual game state
       data,
@@ -32,6 +32,15 @@ export interface SynergyResult {
 // CONSTANTS
 // ================================
 
+/** Units of one element needed on the battlefield for each synergy tier */
+export const SYNERGY_THRESHOLDS = {
+  Minor: 2,
+  Strong: 3,
+  Dominant: 4,
+} as const
+
+export type SynergyTier = keyof typeof SYNERGY_THRESHOLDS
+
 const ELEMENT_COLORS: Record<Element, string> = {
   fire: 'red',
   water: 'blue',
@@ -235,9 +244,9 @@ export function getElementColor(element: Element): string {
 /**
  * Get synergy tier label for display.
  */
-export function getSynergyTier(unitCount: number): string | null {
-  if (unitCount < 2) return null
-  if (unitCount === 2) return 'Minor'
-  if (unitCount === 3) return 'Strong'
+export function getSynergyTier(unitCount: number): SynergyTier | null {
+  if (unitCount < SYNERGY_THRESHOLDS.Minor) return null
+  if (unitCount < SYNERGY_THRESHOLDS.Strong) return 'Minor'
+  if (unitCount < SYNERGY_THRESHOLDS.Dominant) return 'Strong'
   return 'Dominant'
 }
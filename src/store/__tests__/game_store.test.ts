@@ -71,6 +71,9 @@ describe('Game Store', () => {
                 playerId: null,
                 connectionStatus: 'disconnected',
                 lastSyncVersion: 0,
+                opponentDisconnectedUntil: null,
+                forfeitWinner: null,
+                turnTimer: null,
             })
         })
 
@@ -307,6 +310,7 @@ describe('Game Store', () => {
             const gameState = createTestGameState()
             const enemyUnit = createTestCard({ id: 'enemy-1', type: 'unit' })
             gameState.battlefield.enemyUnits[0] = enemyUnit
+            gameState.battlefield.playerUnits[0] = createTestCard({ id: 'my-unit-1', owner: 'player1' })
 
             act(() => {
                 result.current.setGameState(gameState)
@@ -323,6 +327,7 @@ describe('Game Store', () => {
             const gameState = createTestGameState()
             const enemyUnit = createTestCard({ id: 'enemy-unit-1', type: 'unit' })
             gameState.battlefield.enemyUnits[0] = enemyUnit
+            gameState.battlefield.playerUnits[0] = createTestCard({ id: 'my-unit', owner: 'player1' })
 
             act(() => {
                 result.current.setGameState(gameState)
@@ -336,6 +341,7 @@ describe('Game Store', () => {
             const { result } = renderHook(() => useGameStore())
             const gameState = createTestGameState()
             gameState.activePlayer = 'player1'
+            gameState.battlefield.playerUnits[0] = createTestCard({ id: 'my-unit', owner: 'player1' })
 
             act(() => {
                 result.current.setGameState(gameState)
@@ -345,6 +351,24 @@ describe('Game Store', () => {
             expect(result.current.interaction.validAttackTargets.has('player2')).toBe(true)
         })
 
+        it('should offer no targets to a unit that cannot attack yet', () => {
+            const { result } = renderHook(() => useGameStore())
+            const gameState = createTestGameState()
+            gameState.battlefield.enemyUnits[0] = createTestCard({ id: 'enemy-unit-1' })
+            gameState.battlefield.playerUnits[0] = createTestCard({
+                id: 'fresh-unit',
+                owner: 'player1',
+                hasSummoningSickness: true,
+            })
+
+            act(() => {
+                result.current.setGameState(gameState)
+                result.current.startAttack('fresh-unit')
+            })
+
+            expect(result.current.interaction.validAttackTargets.size).toBe(0)
+        })
+
         it('should execute attack and clear attack state', async () => {
             const { result } = renderHook(() => useGameStore())
 
@@ -2,9 +2,12 @@ import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
 import { immer } from 'zustand/middleware/immer'
 import { GameLogger } from '@/lib/game_logger'
+import { getLegalAttacks } from '@/lib/legal_actions'
+import type { TurnTimer } from '@/lib/turn_clock'
 import { type Card as GameCard, type GameState, GameStateSchema } from '@/schemas/schema'
 import type { Battlefield, BattlefieldPosition } from '@/services/battlefield_service'
 import { declareAttack } from '@/services/combat_service'
+import { replayService } from '@/services/replay_service'
 
 export interface InteractionState {
   mode: 'click' | 'drag' | 'hybrid'
@@ -13,7 +16,7 @@ export interface InteractionState {
   dragStartPosition: { x: number; y: number } | null
   hoveredSlot: BattlefieldPosition | null
   attackSource: string | null // Unit starting attack
-  validAttackTargets: Set<string> // Valid targets for current attack
+  validAttackTargets: Set<string> // Valid targets for current attack or targeted spell
   targetingMode: 'none' | 'attack' | 'spell'
 }
 
@@ -30,7 +33,14 @@ export interface MultiplayerState {
   sessionId: string | null
   playerId: 'player1' | 'player2' | null
   connectionStatus: 'disconnected' | 'connecting' | 'connected'
+  /** Sequence number of the last server update applied */
   lastSyncVersion: number
+  /** Set while the opponent is dropped: when they forfeit unless they reconnect */
+  opponentDisconnectedUntil: number | null
+  /** Winner of a game ended by a player failing to reconnect */
+  forfeitWinner: 'player1' | 'player2' | null
+  /** The server's turn clock as last received, with the local time it arrived */
+  turnTimer: (TurnTimer & { receivedAt: number }) | null
 }
 
 export interface GameStore {
@@ -65,6 +75,10 @@ export interface GameStore {
   executeAttack: (targetId: string, targetType: 'unit' | 'player') => Promise<void>
   cancelAttack: () => void
 
+  // Spell and battlecry targeting
+  startSpellTargeting: (targetIds: string[]) => void
+  endSpellTargeting: () => void
+
   // Visual feedback
   highlightSlots: (positions: BattlefieldPosition[]) => void
   clearHighlights: () => void
@@ -83,31 +97,15 @@ export interface GameStore {
 export const createSlotKey = (position: BattlefieldPosition): string =>
   `${position.player}-${position.slot}`
 
-// Helper to calculate valid attack targets with taunt awareness
-function calculateValidTargets(gameState: GameState, _attackerId: string): Set<string> {
+// Highlight what the selected unit may attack, as decided by the legal-move list
+function calculateValidTargets(gameState: GameState, attackerId: string): Set<string> {
+  const opponent = gameState.activePlayer === 'player1' ? 'player2' : 'player1'
   const validTargets = new Set<string>()
 
-  // Determine opponent
-  const opponent = gameState.activePlayer === 'player1' ? 'player2' : 'player1'
-  const enemyUnits =
-    opponent === 'player1' ? gameState.battlefield.playerUnits : gameState.battlefield.enemyUnits
-
-  // Check for taunt units
-  const tauntUnits = enemyUnits.filter(
-    unit => unit?.keywords?.includes('taunt') || unit?.keywords?.includes('Taunt'),
-  )
-
-  if (tauntUnits.length > 0) {
-    // Only taunt units can be targeted
-    tauntUnits.forEach(unit => {
-      if (unit) validTargets.add(unit.id)
-    })
-  } else {
-    // All enemy units and player can be targeted
-    enemyUnits.forEach(unit => {
-      if (unit) validTargets.add(unit.id)
-    })
-    validTargets.add(opponent)
+  for (const attack of getLegalAttacks(gameState, gameState.activePlayer)) {
+    if (attack.attackerId !== attackerId) continue
+    if (attack.targetType === 'player') validTargets.add(opponent)
+    else if (attack.targetId) validTargets.add(attack.targetId)
   }
 
   return validTargets
@@ -143,6 +141,7 @@ export const useGameStore = create<GameStore>()(
           spellMana: 0,
           hand: [],
           deck: [],
+          graveyard: [],
           hasAttackToken: true,
           mulliganComplete: false,
           selectedForMulligan: [],
@@ -158,6 +157,7 @@ export const useGameStore = create<GameStore>()(
           spellMana: 0,
           hand: [],
           deck: [],
+          graveyard: [],
           hasAttackToken: false,
           mulliganComplete: false,
           selectedForMulligan: [],
@@ -199,6 +199,9 @@ export const useGameStore = create<GameStore>()(
         playerId: null,
         connectionStatus: 'disconnected',
         lastSyncVersion: 0,
+        opponentDisconnectedUntil: null,
+        forfeitWinner: null,
+        turnTimer: null,
       },
 
       highlightedSlots: new Set(),
@@ -305,6 +308,13 @@ export const useGameStore = create<GameStore>()(
             state.interaction.targetingMode = 'none'
             state.interaction.validAttackTargets = new Set()
           })
+          replayService.recordAction({
+            type: 'declare_attack',
+            playerId: gameState.activePlayer,
+            attackerId: interaction.attackSource,
+            targetType,
+            targetId: targetType === 'unit' ? targetId : undefined,
+          })
         } catch (error) {
           GameLogger.error('Attack failed:', error)
           // Show error to user
@@ -326,6 +336,19 @@ export const useGameStore = create<GameStore>()(
           state.interaction.validAttackTargets = new Set()
         }),
 
+      startSpellTargeting: (targetIds: string[]) =>
+        set(state => {
+          state.interaction.attackSource = null
+          state.interaction.targetingMode = 'spell'
+          state.interaction.validAttackTargets = new Set(targetIds)
+        }),
+
+      endSpellTargeting: () =>
+        set(state => {
+          state.interaction.targetingMode = 'none'
+          state.interaction.validAttackTargets = new Set()
+        }),
+
       highlightSlots: positions =>
         set(state => {
           state.highlightedSlots = new Set(positions.map(createSlotKey))
@@ -126,6 +126,8 @@ vi.mock('@/lib/game_logger', () => {
     gameStart: vi.fn(),
     turnStart: vi.fn(),
     combatSummary: vi.fn(),
+    setEnabled: vi.fn(),
+    muted: vi.fn(<T>(fn: () => T) => fn()),
   }
 
   // Constructor that returns instance methods
@@ -140,146 +142,162 @@ vi.mock('@/lib/game_logger', () => {
 })
 
 // Mock event manager for cleaner tests
-vi.mock('@/services/event_manager', () => ({
-  eventManager: {
-    emitSystemEvent: vi.fn(),
-    emitPlayerEvent: vi.fn(),
-    emitCardEvent: vi.fn(),
-    emitCombatEvent: vi.fn(),
-    subscribe: vi.fn(),
-    unsubscribe: vi.fn(),
-  },
-  createEventHelpers: () => ({
-    cardPlayed: vi.fn().mockResolvedValue(undefined),
-    cardDrawn: vi.fn().mockResolvedValue(undefined),
-    unitSummoned: vi.fn().mockResolvedValue(undefined),
-    unitDies: vi.fn().mockResolvedValue(undefined), // Added missing method
-    combatDamageDealt: vi.fn().mockResolvedValue(undefined),
-    playerHealthChanged: vi.fn().mockResolvedValue(undefined),
-    playerLosesHealth: vi.fn().mockResolvedValue(undefined),
-    playerGainsMana: vi.fn().mockResolvedValue(undefined),
-    turnStart: vi.fn().mockResolvedValue(undefined),
-    turnEnd: vi.fn().mockResolvedValue(undefined),
-    phaseChanged: vi.fn().mockResolvedValue(undefined),
-  }),
-}))
+vi.mock('@/services/event_manager', () => {
+  // Per-match engines construct their own event managers
+  class EventManager {
+    emitSystemEvent = vi.fn()
+    emitPlayerEvent = vi.fn()
+    emitCardEvent = vi.fn()
+    emitCombatEvent = vi.fn()
+    emitAIAction = vi.fn()
+    subscribe = vi.fn()
+    unsubscribe = vi.fn()
+    clearHistory = vi.fn()
+  }
+
+  return {
+    EventManager,
+    eventManager: new EventManager(),
+    createEventHelpers: () => ({
+      cardPlayed: vi.fn().mockResolvedValue(undefined),
+      cardDrawn: vi.fn().mockResolvedValue(undefined),
+      unitSummoned: vi.fn().mockResolvedValue(undefined),
+      unitDies: vi.fn().mockResolvedValue(undefined), // Added missing method
+      combatDamageDealt: vi.fn().mockResolvedValue(undefined),
+      playerHealthChanged: vi.fn().mockResolvedValue(undefined),
+      playerLosesHealth: vi.fn().mockResolvedValue(undefined),
+      playerGainsMana: vi.fn().mockResolvedValue(undefined),
+      turnStart: vi.fn().mockResolvedValue(undefined),
+      turnEnd: vi.fn().mockResolvedValue(undefined),
+      phaseChanged: vi.fn().mockResolvedValue(undefined),
+    }),
+  }
+})
 
 // Mock win condition service for cleaner tests
 vi.mock('@/services/win_condition_service', () => {
   // Create a more realistic mock that behaves like the actual service
-  const mockService = {
-    state: {
-      gameMode: {
-        name: 'Standard',
-        enabledConditions: ['health_depletion'],
-        disabledConditions: [],
-      },
-      activeConditions: [
-        { id: 'health_depletion', name: 'Health Depletion', priority: 1, enabled: true },
-      ],
-      eventCounters: new Map(),
-      playerProgress: new Map(),
-      conditionHistory: new Map(),
-    },
-
-    setGameMode: vi.fn((modeId) => {
-      if (modeId === 'arcana_master') {
-        mockService.state.gameMode = {
-          name: 'Arcana Master',
-          enabledConditions: ['health_depletion', 'arcana_completion', 'zodiac_alignment'],
+  const createMockService = () => {
+    const mockService = {
+      state: {
+        gameMode: {
+          name: 'Standard',
+          enabledConditions: ['health_depletion'],
           disabledConditions: [],
-        }
-        mockService.state.activeConditions = [
+        },
+        activeConditions: [
           { id: 'health_depletion', name: 'Health Depletion', priority: 1, enabled: true },
-          { id: 'arcana_completion', name: 'Arcana Completion', priority: 2, enabled: true },
-          { id: 'zodiac_alignment', name: 'Zodiac Alignment', priority: 3, enabled: true },
-        ]
-      } else if (modeId === 'puzzle') {
-        mockService.state.gameMode = {
-          name: 'Puzzle',
-          enabledConditions: ['deck_depletion'],
-          disabledConditions: ['health_depletion'] as any,
-        }
-        mockService.state.activeConditions = [
-          { id: 'deck_depletion', name: 'Deck Depletion', priority: 1, enabled: true },
-        ]
-      }
-    }),
+        ],
+        eventCounters: new Map(),
+        playerProgress: new Map(),
+        conditionHistory: new Map(),
+      },
 
-    resetState: vi.fn(() => {
-      mockService.state.eventCounters.clear()
-      mockService.state.playerProgress.clear()
-    }),
+      setGameMode: vi.fn((modeId) => {
+        if (modeId === 'arcana_master') {
+          mockService.state.gameMode = {
+            name: 'Arcana Master',
+            enabledConditions: ['health_depletion', 'arcana_completion', 'zodiac_alignment'],
+            disabledConditions: [],
+          }
+          mockService.state.activeConditions = [
+            { id: 'health_depletion', name: 'Health Depletion', priority: 1, enabled: true },
+            { id: 'arcana_completion', name: 'Arcana Completion', priority: 2, enabled: true },
+            { id: 'zodiac_alignment', name: 'Zodiac Alignment', priority: 3, enabled: true },
+          ]
+        } else if (modeId === 'puzzle') {
+          mockService.state.gameMode = {
+            name: 'Puzzle',
+            enabledConditions: ['deck_depletion'],
+            disabledConditions: ['health_depletion'] as any,
+          }
+          mockService.state.activeConditions = [
+            { id: 'deck_depletion', name: 'Deck Depletion', priority: 1, enabled: true },
+          ]
+        }
+      }),
 
-    getActiveConditions: vi.fn(() => mockService.state.activeConditions),
+      resetState: vi.fn(() => {
+        mockService.state.eventCounters.clear()
+        mockService.state.playerProgress.clear()
+      }),
 
-    checkWinConditions: vi.fn((gameState) => {
-      // Check for health depletion
-      if (gameState.player1.health <= 0) {
-        return { achieved: true, winner: 'player2', message: 'player2 wins by reducing opponent\'s health to 0!' }
-      }
-      if (gameState.player2.health <= 0) {
-        return { achieved: true, winner: 'player1', message: 'player1 wins by reducing opponent\'s health to 0!' }
-      }
+      getActiveConditions: vi.fn(() => mockService.state.activeConditions),
 
-      // Check for deck depletion
-      if (gameState.player1.deck.length === 0) {
-        return { achieved: true, winner: 'player2', message: 'player2 wins by depleting opponent\'s deck!' }
-      }
-      if (gameState.player2.deck.length === 0) {
-        return { achieved: true, winner: 'player1', message: 'player1 wins by depleting opponent\'s deck!' }
-      }
+      checkWinConditions: vi.fn((gameState) => {
+        // Check for health depletion
+        if (gameState.player1.health <= 0) {
+          return { achieved: true, winner: 'player2', message: 'player2 wins by reducing opponent\'s health to 0!' }
+        }
+        if (gameState.player2.health <= 0) {
+          return { achieved: true, winner: 'player1', message: 'player1 wins by reducing opponent\'s health to 0!' }
+        }
 
-      // Check for board domination (battlefield system)
-      const player1Units = gameState.battlefield.playerUnits.filter((unit: any) => unit !== null).length
-      const player2Units = gameState.battlefield.enemyUnits.filter((unit: any) => unit !== null).length
+        // Check for deck depletion
+        if (gameState.player1.deck.length === 0) {
+          return { achieved: true, winner: 'player2', message: 'player2 wins by depleting opponent\'s deck!' }
+        }
+        if (gameState.player2.deck.length === 0) {
+          return { achieved: true, winner: 'player1', message: 'player1 wins by depleting opponent\'s deck!' }
+        }
 
-      if (player1Units >= 6) {
-        return { achieved: false, winner: null, message: 'Player 1 dominates the board' }
-      }
-      if (player2Units >= 6) {
-        return { achieved: false, winner: null, message: 'Player 2 dominates the board' }
-      }
+        // Check for board domination (battlefield system)
+        const player1Units = gameState.battlefield.playerUnits.filter((unit: any) => unit !== null).length
+        const player2Units = gameState.battlefield.enemyUnits.filter((unit: any) => unit !== null).length
 
-      // Check for elemental alignment (battlefield system)
-      const elements = new Set()
-      gameState.battlefield.playerUnits.forEach((unit: any) => {
-        if (unit && unit.element) {
-          elements.add(unit.element)
+        if (player1Units >= 6) {
+          return { achieved: false, winner: null, message: 'Player 1 dominates the board' }
         }
-      })
-      gameState.battlefield.enemyUnits.forEach((unit: any) => {
-        if (unit && unit.element) {
-          elements.add(unit.element)
+        if (player2Units >= 6) {
+          return { achieved: false, winner: null, message: 'Player 2 dominates the board' }
         }
-      })
 
-      if (elements.size === 4) {
-        return { achieved: true, winner: 'player1', message: 'Player 1 wins by aligning all four elements' }
-      }
+        // Check for elemental alignment (battlefield system)
+        const elements = new Set()
+        gameState.battlefield.playerUnits.forEach((unit: any) => {
+          if (unit && unit.element) {
+            elements.add(unit.element)
+          }
+        })
+        gameState.battlefield.enemyUnits.forEach((unit: any) => {
+          if (unit && unit.element) {
+            elements.add(unit.element)
+          }
+        })
 
-      // Check for turn survival
-      if (gameState.round >= 15 && gameState.player1.health > 0) {
-        return { achieved: true, winner: 'player1', message: 'Player 1 wins by surviving to turn 15' }
-      }
+        if (elements.size === 4) {
+          return { achieved: true, winner: 'player1', message: 'Player 1 wins by aligning all four elements' }
+        }
 
-      return { achieved: false, winner: null, message: '' }
-    }),
+        // Check for turn survival
+        if (gameState.round >= 15 && gameState.player1.health > 0) {
+          return { achieved: true, winner: 'player1', message: 'Player 1 wins by surviving to turn 15' }
+        }
 
-    getCurrentGameMode: vi.fn(() => mockService.state.gameMode),
-    getPlayerProgress: vi.fn((playerId) => mockService.state.playerProgress.get(playerId) || new Map()),
-    registerWinCondition: vi.fn((condition) => {
-      mockService.state.activeConditions.push(condition)
-    }),
-    toggleWinCondition: vi.fn((conditionId) => {
-      const condition = mockService.state.activeConditions.find(c => c.id === conditionId)
-      if (condition) {
-        condition.enabled = !condition.enabled
-      }
-    }),
+        return { achieved: false, winner: null, message: '' }
+      }),
+
+      getCurrentGameMode: vi.fn(() => mockService.state.gameMode),
+      getPlayerProgress: vi.fn((playerId) => mockService.state.playerProgress.get(playerId) || new Map()),
+      registerWinCondition: vi.fn((condition) => {
+        mockService.state.activeConditions.push(condition)
+      }),
+      toggleWinCondition: vi.fn((conditionId) => {
+        const condition = mockService.state.activeConditions.find(c => c.id === conditionId)
+        if (condition) {
+          condition.enabled = !condition.enabled
+        }
+      }),
+    }
+    return mockService
+  }
+
+  // Per-match engines construct their own services; each gets a fresh mock
+  function WinConditionService() {
+    return createMockService()
   }
 
-  return { winConditionService: mockService }
+  return { WinConditionService, winConditionService: createMockService() }
 })
 
 // Mock game store for cleaner tests
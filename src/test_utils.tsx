@@ -199,6 +199,9 @@ export const createMockGameStore = (gameState: GameState = createTestGameState()
     playerId: null,
     connectionStatus: 'disconnected',
     lastSyncVersion: 0,
+    opponentDisconnectedUntil: null,
+    forfeitWinner: null,
+    turnTimer: null,
   },
   highlightedSlots: new Set<string>(),
   validDropZones: new Set<string>(),